@@ -89,9 +89,9 @@ const App: React.FC = () => {
       case 'dashboard':
         return <Dashboard sessions={sessions} standards={standards} labProfile={labProfile} />;
       case 'standards':
-        return <StandardsManager standards={standards} setStandards={setStandards} />;
+        return <StandardsManager standards={standards} setStandards={setStandards} labProfile={labProfile} />;
       case 'calibration':
-        return <CalibrationForm standards={standards} onSave={(s) => { setSessions([s, ...sessions]); setActiveTab('dashboard'); }} />;
+        return <CalibrationForm standards={standards} labProfile={labProfile} onSave={(s) => { setSessions([s, ...sessions]); setActiveTab('dashboard'); }} />;
       case 'config':
         return <ConfigPanel profile={labProfile} setProfile={setLabProfile} />;
       default:
@@ -1,63 +1,27 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { CalibrationSession, CalibrationPoint, Instrument, Unit, ReferenceStandard, CalibrationFluid, CIPMParams, StandardType } from '../types';
-import { calculateWaterDensity, calculateAirDensityCIPM, calculateLocalGravity, GRAVITY_BOGOTA } from '../services/mathUtils';
-import { calculateResults, playSound } from '../services/calibrationLogic';
-import { Play, Save, Activity, Beaker, Wind, Timer, AlertTriangle, ExternalLink, Globe, User, Tag, PenTool } from 'lucide-react';
+import { CalibrationSession, CalibrationPoint, Instrument, Unit, ReferenceStandard, CalibrationFluid, CIPMParams, StandardType, SequenceType, DecisionRule, DecisionRuleType, ToleranceKind, ToleranceSpec, ToleranceSegment, TransferFunction, PressureMode, EnvStandardSelection, EnvStage, EnvReading, LaboratoryProfile, CalibrationResult, CalibrationRun, AdjustmentRecord, CorrectionCurveModel, SeriesKey, WaitTimes, StabilityCriterion, StabilitySample, OutlierFinding, OutlierDecision, OutlierAction, CalibrationProcedure } from '../types';
+import { calculateWaterDensity, calculateLocalGravity, GRAVITY_BOGOTA } from '../services/mathUtils';
+import { calculateResultsAsync, playSound, SEQUENCE_DEFINITIONS, SERIES_LABELS, recommendSequence, generateSequencePoints, getDefaultHeadUncertainty, TRANSFER_FUNCTION_LABELS, calculateIdealOutput, CALIBRATION_PROCEDURE_LABELS, PRESSURE_MODE_LABELS, PRESSURE_MODE_SUFFIX, getDefaultWaitTimes, evaluateStability, getLastReadingTime, createReadingStamp, EARLY_READING_LABELS } from '../services/calibrationLogic';
+import { MONTE_CARLO_TRIAL_OPTIONS } from '../services/monteCarlo';
+import { assertSameQuantity, isPressureUnit, isElectricalUnit, getConversionFactor, convertValue, getQuantity } from '../services/units';
+import { calculateBalancePressure, suggestMassCombination } from '../services/pressureBalance';
+import { evaluateEnvConditions, isStandardExpired, EnvQuantity, ENV_READING_UNITS, ENV_STAGE_LABELS, DEFAULT_ENV_LIMITS, checkEnvLimits, describeEnvViolation } from '../services/environment';
+import { fitCorrectionCurve, CORRECTION_CURVE_MODELS, CORRECTION_MODEL_LABELS } from '../services/correctionCurve';
+import { screenCalibrationOutliers, getPendingOutliers, getRecordedDecisions, isDecisionFor, describeOutlier, OUTLIER_ACTION_LABELS } from '../services/outlierScreening';
+import { ClimateCalibrationForm } from './ClimateCalibrationForm';
+import { ThermometerCalibrationForm } from './ThermometerCalibrationForm';
+import { DimensionalCalibrationForm } from './DimensionalCalibrationForm';
+import { DEFAULT_DECISION_RULE, DECISION_RULE_LABELS, hasGuardBand, TOLERANCE_KIND_LABELS, EN837_CLASSES, getToleranceSpec, calculateMPE, getFullScale } from '../services/conformity';
+import { Play, Save, Activity, Beaker, Wind, Timer, AlertTriangle, ExternalLink, Globe, User, Tag, PenTool, ListOrdered, Hourglass, Dices, Scale, Wrench, TrendingUp } from 'lucide-react';
+import { ScientificInput } from './ScientificInput';
 
 interface Props {
   standards: ReferenceStandard[];
+  labProfile: LaboratoryProfile;
   onSave: (session: CalibrationSession) => void;
 }
 
-const ScientificInput = ({ value, onChange, className, placeholder, ...props }: any) => {
-    const [localStr, setLocalStr] = useState(value !== undefined && value !== null ? value.toString() : '');
-    const inputRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-        if (document.activeElement === inputRef.current) return;
-        if (value !== undefined && value !== null) {
-            setLocalStr(value.toString());
-        } else {
-            setLocalStr('');
-        }
-    }, [value]);
-
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const val = e.target.value;
-        if (/^[0-9.,-]*$/.test(val)) {
-            setLocalStr(val);
-            const normalized = val.replace(/,/g, '.');
-            if (normalized === '' || normalized === '-') return;
-            const parsed = parseFloat(normalized);
-            if (!isNaN(parsed)) {
-                onChange(parsed);
-            }
-        }
-    };
-
-    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
-        if (value !== undefined && value !== null) {
-            setLocalStr(value.toString());
-        }
-        if (props.onBlur) props.onBlur(e);
-    };
-
-    return (
-        <input 
-            ref={inputRef}
-            type="text" 
-            inputMode="decimal" 
-            className={className} 
-            placeholder={placeholder} 
-            value={localStr} 
-            onChange={handleChange}
-            onBlur={handleBlur}
-            {...props} 
-        />
-    );
-};
-
 const SmartChronometer = ({ isActive }: { isActive: boolean }) => {
     const [time, setTime] = useState(0);
     useEffect(() => {
@@ -73,8 +37,32 @@ const SmartChronometer = ({ isActive }: { isActive: boolean }) => {
     );
 };
 
-export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
+const HoldCountdown: React.FC<{ seconds: number, label: string }> = ({ seconds, label }) => {
+    const [remaining, setRemaining] = useState(seconds);
+    useEffect(() => {
+        const i = setInterval(() => setRemaining(r => {
+            if (r <= 1) {
+                clearInterval(i);
+                playSound('timer');
+                return 0;
+            }
+            return r - 1;
+        }), 1000);
+        return () => clearInterval(i);
+    }, [seconds]);
+    return (
+        <div className={`flex justify-between items-center text-xs font-mono px-3 py-2 rounded-lg border ${remaining > 0 ? 'bg-amber-50 border-amber-200 text-amber-700 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-300' : 'bg-emerald-50 border-emerald-200 text-emerald-700 dark:bg-emerald-900/20 dark:border-emerald-800 dark:text-emerald-300'}`}>
+            <span className="flex items-center gap-1 font-bold"><Hourglass size={12}/> {label}</span>
+            <span>{remaining > 0 ? `${remaining} s` : 'LISTO'}</span>
+        </div>
+    );
+};
+
+const ENV_STANDARD_TYPES = [StandardType.Thermohygrometer, StandardType.Temperature, StandardType.Humidity, StandardType.AtmosphericPressure];
+
+export const CalibrationForm: React.FC<Props> = ({ standards, labProfile, onSave }) => {
   const [step, setStep] = useState(1);
+  const [procedure, setProcedure] = useState<CalibrationProcedure>('pressure');
   const [instrument, setInstrument] = useState<Instrument>({
     manufacturer: '',
     model: '', 
@@ -92,7 +80,7 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
     conditionReceived: 'Adecuada'
   });
 
-  const [envStage, setEnvStage] = useState<'start'|'middle'|'end'>('start');
+  const [envStage, setEnvStage] = useState<EnvStage>('start');
   const [envReadings, setEnvReadings] = useState({
       start: { temp: 20, humidity: 45, pressure: 1013 },
       middle: { temp: 20, humidity: 45, pressure: 1013 },
@@ -108,22 +96,186 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
   const [useBogotaGravity, setUseBogotaGravity] = useState(true);
   const [calculatedGravity, setCalculatedGravity] = useState(GRAVITY_BOGOTA);
   
-  const [stdIds, setStdIds] = useState({ pressure: '', env: '' });
+  const [stdIds, setStdIds] = useState({ pressure: '', electrical: '', barometer: '' });
   const [points, setPoints] = useState<CalibrationPoint[]>([]);
+  const [asFound, setAsFound] = useState<CalibrationRun | null>(null);
+  const [adjustment, setAdjustment] = useState<AdjustmentRecord | null>(null);
+  const [adjustmentText, setAdjustmentText] = useState('');
+  // Suspect points (Cochran on the calibration readings) must be kept or repeated with a recorded justification
+  const [outlierDecisions, setOutlierDecisions] = useState<OutlierDecision[]>([]);
+  const [outlierNotes, setOutlierNotes] = useState<Record<string, string>>({});
   const [isCalibrating, setIsCalibrating] = useState(false);
 
-  // Density Calculation
+  // DKD-R 6-1 SEQUENCE STATE
+  const [sequence, setSequence] = useState<SequenceType>(recommendSequence(1.0));
+  const [preloadsDone, setPreloadsDone] = useState(0);
+  const [hold, setHold] = useState<{ id: number, seconds: number, label: string } | null>(null);
+  const seqDef = SEQUENCE_DEFINITIONS[sequence];
+  // Reading timing: waits of the job and stability of the standard before accepting a reading
+  const [waitTimes, setWaitTimes] = useState<WaitTimes>(getDefaultWaitTimes(recommendSequence(1.0)));
+  const [stabilityCriterion, setStabilityCriterion] = useState<StabilityCriterion>({ window: 30, maxChange: 0 });
+  const [stabilitySamples, setStabilitySamples] = useState<StabilitySample[]>([]);
+  const [stabilityValue, setStabilityValue] = useState<number | undefined>(undefined);
+  const [clock, setClock] = useState(Date.now());
+  const selectedStd = standards.find(s => s.id === stdIds.pressure);
+  const balance = selectedStd?.type === StandardType.PressureBalance ? selectedStd.pressureBalance : undefined;
+
+  // GUM-S1 evaluation (0 = analytic GUM budget only)
+  const [monteCarloTrials, setMonteCarloTrials] = useState(0);
+  const [decisionRule, setDecisionRule] = useState<DecisionRule>(DEFAULT_DECISION_RULE);
+  // Optional correction curve for the certificate annex (null = not included)
+  const [correctionModel, setCorrectionModel] = useState<CorrectionCurveModel | null>(null);
+  const [correctionStep, setCorrectionStep] = useState(10);
+  const changeCorrectionModel = (model: CorrectionCurveModel | null) => {
+      // Default step: a tenth of the indication span
+      if (model && !correctionModel) {
+          const span = isTransmitter ? instrument.transmitter!.outputMax - instrument.transmitter!.outputMin : instrument.rangeMax - instrument.rangeMin;
+          setCorrectionStep(parseFloat((Math.abs(span) / 10).toPrecision(2)) || 1);
+      }
+      setCorrectionModel(model);
+  };
+
+  // Pressure mode: a barometer is needed when the standard measures in the other reference (gauge ↔ absolute)
+  const [pressureMode, setPressureMode] = useState<PressureMode>('gauge');
+  const [linePressure, setLinePressure] = useState(0);
+  const standardMode = selectedStd?.pressureMode || 'gauge';
+  const atmSign = pressureMode === 'absolute' && standardMode === 'gauge' ? 1 : pressureMode === 'gauge' && standardMode === 'absolute' ? -1 : 0;
+  const needsBarometer = atmSign !== 0;
+
+  // Transmitters read their output through an electrical standard (4-20 mA by default)
+  const isTransmitter = instrument.type === 'transmitter' && !!instrument.transmitter;
+  const changeInstrumentType = (type: Instrument['type']) => {
+      setInstrument({
+          ...instrument,
+          type,
+          transmitter: type === 'transmitter' ? (instrument.transmitter || { outputUnit: Unit.MilliAmpere, outputMin: 4, outputMax: 20, transferFunction: 'linear' }) : undefined
+      });
+  };
+
+  // Accuracy specification (undefined = accuracy class as % of full scale)
+  const toleranceSpec = getToleranceSpec(instrument);
+  const setTolerance = (spec: ToleranceSpec) => setInstrument({ ...instrument, tolerance: spec });
+  const changeToleranceKind = (kind: ToleranceKind) => {
+      const pct = instrument.accuracyClass;
+      switch (kind) {
+          case 'percent_full_scale': setInstrument({ ...instrument, tolerance: undefined }); break;
+          case 'percent_span':
+          case 'percent_reading': setTolerance({ kind, percent: pct }); break;
+          case 'percent_reading_digits': setTolerance({ kind, percent: pct, digits: 1 }); break;
+          case 'en837_class': setTolerance({ kind, accuracyClass: EN837_CLASSES.includes(pct) ? pct : 1 }); break;
+          case 'segments': setTolerance({ kind, segments: [{ from: instrument.rangeMin, to: instrument.rangeMax, mpe: calculateMPE(instrument, instrument.rangeMax) }] }); break;
+      }
+  };
+  const updateSegment = (index: number, patch: Partial<ToleranceSegment>) => {
+      if (toleranceSpec.kind !== 'segments') return;
+      setTolerance({ kind: 'segments', segments: toleranceSpec.segments.map((s, i) => i === index ? { ...s, ...patch } : s) });
+  };
+
+  // Sequence recommendation follows the accuracy class (can be overridden afterwards)
   useEffect(() => {
-      const avgTemp = (envReadings.start.temp + envReadings.middle.temp + envReadings.end.temp) / 3;
-      const avgHum = (envReadings.start.humidity + envReadings.middle.humidity + envReadings.end.humidity) / 3;
-      const avgPress = (envReadings.start.pressure + envReadings.middle.pressure + envReadings.end.pressure) / 3;
+      setSequence(recommendSequence(instrument.accuracyClass));
+  }, [instrument.accuracyClass]);
 
+  useEffect(() => {
+      setWaitTimes(getDefaultWaitTimes(sequence));
+  }, [sequence]);
+
+  // The stability status ages with time: refresh it every second while the check is active
+  useEffect(() => {
+      if (!isCalibrating || stabilityCriterion.maxChange <= 0) return;
+      const i = setInterval(() => setClock(Date.now()), 1000);
+      return () => clearInterval(i);
+  }, [isCalibrating, stabilityCriterion.maxChange]);
+  const stability = evaluateStability(stabilitySamples, stabilityCriterion, clock);
+
+  const addStabilitySample = () => {
+      if (stabilityValue === undefined) return;
+      playSound('click');
+      setStabilitySamples([...stabilitySamples, { time: new Date().toISOString(), value: stabilityValue }]);
+      setClock(Date.now());
+  };
+
+  // Time stamp of a reading when it is committed; early readings (wait not elapsed, standard unstable) are marked
+  const commitReading = (index: number, key: SeriesKey) => {
+      const p = points[index];
+      if (p[key] === undefined || p.readingStamps?.[key]) return;
+      const starts = [getLastReadingTime(points), hold?.id].filter((t): t is number => t !== undefined);
+      const now = Date.now();
+      const stamp = createReadingStamp(points, index, key, waitTimes, evaluateStability(stabilitySamples, stabilityCriterion, now).stable, starts.length > 0 ? Math.max(...starts) : undefined, now);
+      const n = [...points];
+      n[index] = { ...p, readingStamps: { ...p.readingStamps, [key]: stamp } };
+      setPoints(n);
+      if (stamp.early) playSound('timer');
+  };
+
+  const outlierFindings = screenCalibrationOutliers(points, sequence, labProfile.significanceLevel);
+  const pendingOutliers = getPendingOutliers(outlierFindings, outlierDecisions);
+  const outlierKey = (f: OutlierFinding) => `${f.test}|${f.nominal}|${f.series || ''}`;
+  const isSuspect = (nominal: number) => pendingOutliers.some(f => f.nominal === nominal);
+  const keptOutlier = (nominal: number) => outlierDecisions.find(d => d.action === 'keep' && outlierFindings.some(f => f.nominal === nominal && isDecisionFor(d, f)));
+
+  const decideOutlier = (finding: OutlierFinding, action: OutlierAction) => {
+      const justification = (outlierNotes[outlierKey(finding)] || '').trim();
+      if (!justification) {
+          playSound('error');
+          alert('Registre la justificación para conservar o repetir el dato atípico.');
+          return;
+      }
+      playSound('click');
+      setOutlierDecisions([...outlierDecisions, { ...finding, action, justification, date: new Date().toISOString() }]);
+      setOutlierNotes({ ...outlierNotes, [outlierKey(finding)]: '' });
+      if (action === 'repeat') {
+          // The suspect reading (every series of the point for Cochran) is cleared to be measured again
+          const keys = finding.series ? [finding.series] : seqDef.series;
+          setPoints(points.map(p => {
+              if (p.nominal !== finding.nominal) return p;
+              const n = { ...p, readingStamps: { ...p.readingStamps } };
+              keys.forEach(k => { delete n[k]; delete n.readingStamps[k]; });
+              return n;
+          }));
+      }
+  };
+
+  const hasPendingOutliers = (): boolean => {
+      if (pendingOutliers.length === 0) return false;
+      playSound('error');
+      alert(`Hay ${pendingOutliers.length} dato(s) atípico(s) sin decisión:\n${pendingOutliers.map(f => `${f.nominal} ${instrument.unit} · ${describeOutlier(f)}`).join('\n')}\n\nConsérvelos o repítalos con su justificación.`);
+      return true;
+  };
+
+  // Environmental conditions corrected through the thermohygrometer / barometer curves
+  const [envStdIds, setEnvStdIds] = useState<EnvStandardSelection>({});
+  const envStandards: Partial<Record<EnvQuantity, ReferenceStandard>> = {
+      temp: standards.find(s => s.id === envStdIds.temp),
+      humidity: standards.find(s => s.id === envStdIds.humidity),
+      pressure: standards.find(s => s.id === envStdIds.pressure)
+  };
+  const envConditions = evaluateEnvConditions(envReadings, envStandards, cipm.moleFractionCO2);
+
+  // Environmental limits of the laboratory, checked on the corrected readings of the stages entered so far
+  const envLimits = labProfile.envLimits || DEFAULT_ENV_LIMITS;
+  const [enteredStages, setEnteredStages] = useState<EnvStage[]>(['start']);
+  const envViolations = checkEnvLimits(envConditions.readings, envLimits, enteredStages);
+  const violationCount = useRef(0);
+
+  const updateEnvReading = (stage: EnvStage, field: keyof EnvReading, val: number) => {
+      setEnvReadings({ ...envReadings, [stage]: { ...envReadings[stage], [field]: val } });
+      if (!enteredStages.includes(stage)) setEnteredStages([...enteredStages, stage]);
+  };
+
+  useEffect(() => {
+      if (envViolations.length > violationCount.current) playSound('alarm');
+      violationCount.current = envViolations.length;
+  }, [envViolations.length]);
+
+  // Density Calculation
+  useEffect(() => {
       if (fluid === CalibrationFluid.Water) {
-          setFluidDensity(calculateWaterDensity(avgTemp));
+          setFluidDensity(calculateWaterDensity(envConditions.mean.temp));
       } else if (fluid === CalibrationFluid.Air) {
-          setFluidDensity(calculateAirDensityCIPM(avgTemp, avgPress, avgHum, cipm.moleFractionCO2));
+          setFluidDensity(envConditions.airDensity);
       }
-  }, [fluid, envReadings, cipm.moleFractionCO2]);
+  }, [fluid, envConditions.airDensity, envConditions.mean.temp]);
 
   // Gravity Calculation
   useEffect(() => {
@@ -134,64 +286,263 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
       }
   }, [useBogotaGravity, cipm.latitude, cipm.heightAboveSea]);
 
+  // Ambient air density for the buoyancy of pressure balance masses (independent of the test fluid)
+  const ambientAirDensity = envConditions.airDensity;
+
+  // Pressure balance points record the generated pressure (standard unit) as their standard reading
+  const withBalancePressure = (point: CalibrationPoint, stdUnit: Unit): CalibrationPoint => {
+      if (!balance) return point;
+      const pressurePa = calculateBalancePressure(balance, point.loadedMassIds || [], calculatedGravity, ambientAirDensity, point.pistonTemp ?? balance.referenceTemperature);
+      return { ...point, standardReading: parseFloat((pressurePa * getConversionFactor(Unit.Pascal, stdUnit)).toPrecision(8)) };
+  };
+
   const initSequence = () => {
       if(!instrument.manufacturer || !instrument.serialNumber || !instrument.applicantName) {
           alert("Por favor complete los datos obligatorios del instrumento (Solicitante, Marca, Serie).");
           return;
       }
 
+      if (!isPressureUnit(instrument.unit)) {
+          playSound('error');
+          alert(`La unidad del instrumento (${instrument.unit}) no es una unidad de presión.`);
+          return;
+      }
+      if (instrument.rangeMin >= instrument.rangeMax) {
+          playSound('error');
+          alert('El inicio del rango debe ser menor que el final del rango.');
+          return;
+      }
+      if (pressureMode === 'absolute' && instrument.rangeMin < 0) {
+          playSound('error');
+          alert('Una presión absoluta no puede ser negativa: use el modo manométrico para rangos de vacío o compuestos.');
+          return;
+      }
+      const std = standards.find(s => s.id === stdIds.pressure);
+      // A pressure balance only generates pressures above its reference (no negative gauge pressure)
+      if (std && balance && standardMode !== 'absolute' && convertValue(instrument.rangeMin, instrument.unit, Unit.Pascal) - atmSign * envConditions.mean.pressure * 100 < 0) {
+          playSound('error');
+          alert(`La balanza ${std.name} no genera presiones manométricas negativas: seleccione un patrón de vacío para este rango.`);
+          return;
+      }
+      const electricalStd = standards.find(s => s.id === stdIds.electrical);
+      if (isTransmitter && !electricalStd) {
+          playSound('error');
+          alert("Seleccione el patrón eléctrico (multímetro) con el que se leerá la salida del transmisor.");
+          return;
+      }
+      const barometerStd = standards.find(s => s.id === stdIds.barometer);
+      const expired = [std, isTransmitter ? electricalStd : undefined, needsBarometer ? barometerStd : undefined, envStandards.temp, envStandards.humidity, envStandards.pressure]
+          .filter((s): s is ReferenceStandard => !!s && isStandardExpired(s));
+      if (expired.length > 0) {
+          playSound('error');
+          alert(`Patrones con calibración vencida: ${expired.map(s => `${s.name} (${s.expiryDate})`).join(', ')}.`);
+          return;
+      }
+      if (needsBarometer && !barometerStd) {
+          playSound('error');
+          alert(`El patrón mide presión ${PRESSURE_MODE_LABELS[standardMode].toLowerCase()} y la calibración es ${PRESSURE_MODE_LABELS[pressureMode].toLowerCase()}: seleccione el patrón de presión atmosférica.`);
+          return;
+      }
+      try {
+          if (needsBarometer && barometerStd) assertSameQuantity(barometerStd.unit, instrument.unit, 'barómetro → instrumento');
+          if (std) assertSameQuantity(std.unit, instrument.unit, 'patrón → instrumento');
+          if (isTransmitter && electricalStd) assertSameQuantity(electricalStd.unit, instrument.transmitter!.outputUnit, 'patrón eléctrico → salida');
+      } catch (e) {
+          playSound('error');
+          alert((e as Error).message);
+          return;
+      }
+
       playSound('click');
-      const count = 6;
-      const stepSize = (instrument.rangeMax - instrument.rangeMin) / (count - 1);
-      const pts = [];
-      for(let i=0; i<count; i++) {
-          const nom = parseFloat((instrument.rangeMin + (i*stepSize)).toFixed(4));
-          pts.push({ nominal: nom, standardReading: nom });
+      let seqPoints = generateSequencePoints(instrument, sequence, std ? std.unit : instrument.unit);
+      // Barometer readings start at the room pressure (hPa) and are edited point by point
+      const avgPressHPa = envConditions.mean.pressure;
+      if (needsBarometer && barometerStd) {
+          const baroReading = parseFloat(convertValue(avgPressHPa, Unit.HPa, barometerStd.unit).toPrecision(6));
+          seqPoints = seqPoints.map(p => ({ ...p, barometerReading: baroReading }));
       }
-      setPoints(pts);
+      if (std && balance) {
+          // Pressure balance: propose the mass combination of each point at the current room temperature
+          const pistonTemp = envConditions.mean.temp;
+          seqPoints = seqPoints.map(p => withBalancePressure({
+              ...p,
+              pistonTemp,
+              loadedMassIds: suggestMassCombination(balance, convertValue(p.nominal, instrument.unit, Unit.Pascal) - atmSign * avgPressHPa * 100, calculatedGravity, ambientAirDensity, pistonTemp)
+          }, std.unit));
+      }
+      setPoints(seqPoints);
+      setAsFound(null);
+      setAdjustment(null);
+      setStabilitySamples([]);
+      setOutlierDecisions([]);
+      setOutlierNotes({});
+      setPreloadsDone(0);
+      setHold(null);
       setStep(2);
       setIsCalibrating(true);
   };
 
-  const handleFinish = () => {
+  // Air as test fluid: ρ half-width from the propagated environmental uncertainty
+  const headUncertainty = fluid === CalibrationFluid.Air
+      ? { ...getDefaultHeadUncertainty(fluidDensity), fluidDensity: parseFloat((Math.sqrt(3) * envConditions.airDensityUncertainty).toPrecision(3)) }
+      : getDefaultHeadUncertainty(fluidDensity);
+
+  // Results of the run currently on the grid (as found before an adjustment, as left otherwise).
+  // Monte Carlo runs in a worker: the actions are disabled until it finishes.
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const evaluateRun = async (): Promise<CalibrationResult[] | undefined> => {
       const std = standards.find(s => s.id === stdIds.pressure);
-      if(!std) return;
-
-      const results = calculateResults(
-          points, 
-          instrument, 
-          std, 
-          'B' as any, 
-          fluidDensity, 
-          heightDiff,
-          calculatedGravity
-      );
+      if (!std) return undefined;
+      const electricalStd = standards.find(s => s.id === stdIds.electrical);
+      const barometerStd = standards.find(s => s.id === stdIds.barometer);
+      setIsEvaluating(true);
+      try {
+          return await calculateResultsAsync(
+              points, 
+              instrument, 
+              std, 
+              sequence, 
+              fluidDensity, 
+              heightDiff,
+              calculatedGravity,
+              { headUncertainty, monteCarloTrials: monteCarloTrials || undefined, decisionRule, electricalStandard: isTransmitter ? electricalStd : undefined, airDensity: ambientAirDensity, airDensityUncertainty: envConditions.airDensityUncertainty, fluid, ambientPressure: envConditions.mean.pressure * 100, pressureMode, barometerStandard: needsBarometer ? barometerStd : undefined }
+          );
+      } catch (e) {
+          // Unit mismatches, missing standards or readings and worker failures are all reported to the user
+          playSound('error');
+          alert(e instanceof Error ? e.message : String(e));
+          return undefined;
+      } finally {
+          setIsEvaluating(false);
+      }
+  };
+
+  // As found → adjustment: the current run is kept and the grid is cleared for the as-left run
+  const handleAdjust = async () => {
+      if (hasPendingOutliers()) return;
+      if (preloadsDone < seqDef.preloads && !confirm(`Solo se registraron ${preloadsDone} de ${seqDef.preloads} precargas exigidas por la ${seqDef.label}. ¿Registrar el estado como se encontró de todos modos?`)) return;
+      const results = await evaluateRun();
+      if (!results) return;
+      if (results.every(r => r.compliance) && !confirm('El instrumento cumple en todos los puntos tal como se encontró. ¿Registrar un ajuste de todos modos?')) return;
+      playSound('click');
+      setAsFound({ date: new Date().toISOString(), preloadsCompleted: preloadsDone, points, results });
+      setAdjustmentText('');
+  };
+
+  const confirmAdjustment = () => {
+      if (!adjustmentText.trim()) {
+          playSound('error');
+          alert('Describa el ajuste realizado al instrumento.');
+          return;
+      }
+      playSound('success');
+      setAdjustment({ date: new Date().toISOString(), technician: 'Admin User', description: adjustmentText.trim() });
+      // Same points, standard settings kept and series readings cleared
+      setPoints(points.map(({ run1Up, run1Down, run2Up, run2Down, readingStamps, ...rest }) => rest));
+      setPreloadsDone(0);
+      setHold(null);
+  };
+
+  const cancelAdjustment = () => {
+      // Back to the as-found run as the only run of the job
+      if (asFound && adjustment) {
+          setPoints(asFound.points);
+          setPreloadsDone(asFound.preloadsCompleted || 0);
+      }
+      setAsFound(null);
+      setAdjustment(null);
+  };
+
+  const handleFinish = async () => {
+      if (asFound && !adjustment) {
+          playSound('error');
+          alert('Confirme el ajuste realizado antes de finalizar, o cancélelo para finalizar con el estado como se encontró.');
+          return;
+      }
+      if (hasPendingOutliers()) return;
+      if (preloadsDone < seqDef.preloads && !confirm(`Solo se registraron ${preloadsDone} de ${seqDef.preloads} precargas exigidas por la ${seqDef.label}. ¿Finalizar de todos modos?`)) return;
+
+      if (envViolations.length > 0) {
+          const summary = envViolations.map(describeEnvViolation).join('\n');
+          if (envLimits.blockOnViolation) {
+              playSound('alarm');
+              alert(`Condiciones ambientales fuera de los límites del laboratorio:\n${summary}\n\nLa sesión no puede finalizarse.`);
+              return;
+          }
+          if (!confirm(`Condiciones ambientales fuera de los límites del laboratorio:\n${summary}\n\n¿Finalizar de todos modos? La sesión quedará marcada.`)) return;
+      }
+
+      const results = await evaluateRun();
+      if (!results) return;
+      const correctionCurve = correctionModel ? fitCorrectionCurve(results, correctionModel, correctionStep, labProfile.significanceLevel) : undefined;
+      const recordedOutliers = getRecordedDecisions([...outlierFindings, ...(asFound ? screenCalibrationOutliers(asFound.points, sequence, labProfile.significanceLevel) : [])], outlierDecisions);
+      if (correctionModel && !correctionCurve && !confirm('No fue posible ajustar la curva de corrección con los puntos medidos. ¿Finalizar sin el anexo?')) return;
 
       const session: CalibrationSession = {
           id: `CAL-${Date.now()}`,
           date: new Date().toISOString(),
           technician: 'Admin User',
           standardId: stdIds.pressure,
-          envStandardId: stdIds.env,
-          sequence: 'B' as any,
+          envStandardId: envStdIds.temp,
+          envStandards: envStdIds,
+          envConditions,
+          envLimits,
+          envViolations: envViolations.length > 0 ? envViolations : undefined,
+          electricalStandardId: isTransmitter ? stdIds.electrical : undefined,
+          barometerStandardId: needsBarometer ? stdIds.barometer : undefined,
+          pressureMode,
+          linePressure: pressureMode === 'differential' ? linePressure : undefined,
+          sequence,
+          preloadsCompleted: preloadsDone,
+          waitTimes,
+          stabilityCriterion: stabilityCriterion.maxChange > 0 ? stabilityCriterion : undefined,
           instrument,
           envReadings,
           fluid,
           fluidDensity,
           heightDifference: heightDiff,
           gravityLocal: calculatedGravity,
+          headUncertainty,
+          monteCarloTrials: monteCarloTrials || undefined,
+          decisionRule,
           points,
-          results
+          results,
+          asFound: asFound || undefined,
+          correctionCurve,
+          adjustment: adjustment || undefined,
+          outlierDecisions: recordedOutliers.length > 0 ? recordedOutliers : undefined
       };
 
       onSave(session);
       playSound('success');
   };
 
+  const procedureSelector = (
+      <div className="flex gap-2">
+          {(Object.keys(CALIBRATION_PROCEDURE_LABELS) as CalibrationProcedure[]).map(p => (
+              <button key={p} onClick={() => setProcedure(p)} className={`px-4 py-2 rounded-lg font-bold text-xs transition-all ${procedure === p ? 'bg-brand-blue text-white shadow-md' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-slate-200'}`}>
+                  {CALIBRATION_PROCEDURE_LABELS[p]}
+              </button>
+          ))}
+      </div>
+  );
+
+  // Climatic chamber, bath and gauge block jobs have their own set points and readings
+  if (procedure === 'thermohygrometer') {
+      return <ClimateCalibrationForm standards={standards} header={procedureSelector} onSave={onSave} />;
+  }
+  if (procedure === 'thermometer') {
+      return <ThermometerCalibrationForm standards={standards} header={procedureSelector} significanceLevel={labProfile.significanceLevel} onSave={onSave} />;
+  }
+  if (procedure === 'dimensional') {
+      return <DimensionalCalibrationForm standards={standards} header={procedureSelector} onSave={onSave} />;
+  }
+
   if (step === 1) {
     return (
       <div className="p-8 max-w-7xl mx-auto space-y-6">
          <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">CONFIGURACIÓN DE MISIÓN</h2>
+         {procedureSelector}
          
          <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
              {/* LEFT COLUMN: Instrument Details (Expanded) */}
@@ -234,7 +585,7 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                         <div>
                             <label className="label-sci">Tipo</label>
-                            <select className="sci-input" value={instrument.type} onChange={e => setInstrument({...instrument, type: e.target.value as any})}>
+                            <select className="sci-input" value={instrument.type} onChange={e => changeInstrumentType(e.target.value as Instrument['type'])}>
                                 <option value="analog">Analógico</option>
                                 <option value="digital">Digital</option>
                                 <option value="transmitter">Transmisor</option>
@@ -262,7 +613,95 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
                             <label className="label-sci">Clase Exactitud</label>
                             <ScientificInput className="sci-input" value={instrument.accuracyClass} onChange={(val: number) => setInstrument({...instrument, accuracyClass: val})} />
                         </div>
+                        <div className="col-span-2">
+                            <label className="label-sci">Especificación de Exactitud (EMP)</label>
+                            <select className="sci-input" value={toleranceSpec.kind} onChange={e => changeToleranceKind(e.target.value as ToleranceKind)}>
+                                {(Object.keys(TOLERANCE_KIND_LABELS) as ToleranceKind[]).map(k => <option key={k} value={k}>{TOLERANCE_KIND_LABELS[k]}</option>)}
+                            </select>
+                        </div>
+                     </div>
+
+                     {/* Tolerance specification parameters */}
+                     <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+                        {toleranceSpec.kind === 'percent_full_scale' && (
+                            <p className="text-xs text-slate-500">EMP = ±{instrument.accuracyClass} % × {getFullScale(instrument)} {instrument.unit} (usa la clase de exactitud).</p>
+                        )}
+                        {(toleranceSpec.kind === 'percent_span' || toleranceSpec.kind === 'percent_reading' || toleranceSpec.kind === 'percent_reading_digits') && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                <div>
+                                    <label className="label-sci">Porcentaje (%)</label>
+                                    <ScientificInput className="sci-input" value={toleranceSpec.percent} onChange={(val: number) => setTolerance({ ...toleranceSpec, percent: val })} />
+                                </div>
+                                {toleranceSpec.kind === 'percent_reading_digits' && (
+                                    <div>
+                                        <label className="label-sci">Dígitos</label>
+                                        <ScientificInput className="sci-input" value={toleranceSpec.digits} onChange={(val: number) => setTolerance({ ...toleranceSpec, digits: val })} />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {toleranceSpec.kind === 'en837_class' && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                <div>
+                                    <label className="label-sci">Clase EN 837-1</label>
+                                    <select className="sci-input" value={toleranceSpec.accuracyClass} onChange={e => setTolerance({ kind: 'en837_class', accuracyClass: parseFloat(e.target.value) })}>
+                                        {EN837_CLASSES.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                        )}
+                        {toleranceSpec.kind === 'segments' && (
+                            <div className="space-y-2">
+                                {toleranceSpec.segments.map((seg, i) => (
+                                    <div key={i} className="grid grid-cols-4 gap-2 items-end">
+                                        <div>
+                                            <label className="label-sci">Desde ({instrument.unit})</label>
+                                            <ScientificInput className="sci-input" value={seg.from} onChange={(val: number) => updateSegment(i, { from: val })} />
+                                        </div>
+                                        <div>
+                                            <label className="label-sci">Hasta ({instrument.unit})</label>
+                                            <ScientificInput className="sci-input" value={seg.to} onChange={(val: number) => updateSegment(i, { to: val })} />
+                                        </div>
+                                        <div>
+                                            <label className="label-sci">EMP ± ({instrument.unit})</label>
+                                            <ScientificInput className="sci-input" value={seg.mpe} onChange={(val: number) => updateSegment(i, { mpe: val })} />
+                                        </div>
+                                        <button onClick={() => setTolerance({ kind: 'segments', segments: toleranceSpec.segments.filter((_, j) => j !== i) })} className="text-xs font-bold text-rose-500 hover:underline mb-2">Quitar</button>
+                                    </div>
+                                ))}
+                                <button onClick={() => setTolerance({ kind: 'segments', segments: [...toleranceSpec.segments, { from: instrument.rangeMax, to: instrument.rangeMax, mpe: calculateMPE(instrument, instrument.rangeMax) }] })} className="text-xs font-bold text-brand-blue hover:underline">+ Añadir tramo</button>
+                            </div>
+                        )}
+                        <p className="text-[10px] text-slate-400 font-mono">
+                            EMP a {instrument.rangeMin} {instrument.unit}: ±{calculateMPE(instrument, instrument.rangeMin).toPrecision(3)} · EMP a {instrument.rangeMax} {instrument.unit}: ±{calculateMPE(instrument, instrument.rangeMax).toPrecision(3)}
+                        </p>
                      </div>
+
+                     {/* Transmitter output signal */}
+                     {isTransmitter && instrument.transmitter && (
+                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-brand-blue/5 rounded-xl border border-brand-blue/20 animate-appear">
+                            <div>
+                                <label className="label-sci">Salida</label>
+                                <select className="sci-input" value={instrument.transmitter.outputUnit} onChange={e => setInstrument({...instrument, transmitter: {...instrument.transmitter!, outputUnit: e.target.value as Unit}})}>
+                                    {Object.values(Unit).filter(isElectricalUnit).map(u => <option key={u} value={u}>{u}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="label-sci">Salida Min</label>
+                                <ScientificInput className="sci-input" value={instrument.transmitter.outputMin} onChange={(val: number) => setInstrument({...instrument, transmitter: {...instrument.transmitter!, outputMin: val}})} />
+                            </div>
+                            <div>
+                                <label className="label-sci">Salida Max</label>
+                                <ScientificInput className="sci-input" value={instrument.transmitter.outputMax} onChange={(val: number) => setInstrument({...instrument, transmitter: {...instrument.transmitter!, outputMax: val}})} />
+                            </div>
+                            <div>
+                                <label className="label-sci">Función de Transferencia</label>
+                                <select className="sci-input" value={instrument.transmitter.transferFunction} onChange={e => setInstrument({...instrument, transmitter: {...instrument.transmitter!, transferFunction: e.target.value as TransferFunction}})}>
+                                    {(Object.keys(TRANSFER_FUNCTION_LABELS) as TransferFunction[]).map(t => <option key={t} value={t}>{TRANSFER_FUNCTION_LABELS[t]}</option>)}
+                                </select>
+                            </div>
+                         </div>
+                     )}
                  </div>
 
                  <hr className="border-slate-100 dark:border-slate-700"/>
@@ -305,10 +744,124 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
                         <label className="label-sci">Patrón de Referencia</label>
                         <select className="sci-input" value={stdIds.pressure} onChange={e => setStdIds({...stdIds, pressure: e.target.value})}>
                             <option value="">Seleccionar Principal...</option>
-                            {standards.filter(s => s.type === StandardType.Pressure).map(s => <option key={s.id} value={s.id}>{s.name} ({s.rangeMax} {s.unit})</option>)}
+                            {standards.filter(s => s.type === StandardType.Pressure || s.type === StandardType.PressureBalance).map(s => <option key={s.id} value={s.id}>{s.name} ({s.rangeMax} {s.unit}){s.type === StandardType.PressureBalance ? ' · Balanza' : ''}</option>)}
                         </select>
                      </div>
 
+                     <div>
+                        <label className="label-sci">Modo de Presión</label>
+                        <div className="flex gap-2">
+                            {(Object.keys(PRESSURE_MODE_LABELS) as PressureMode[]).map(m => (
+                                <button key={m} onClick={() => setPressureMode(m)} className={`px-3 py-2 rounded-lg font-bold text-xs transition-all flex-1 ${pressureMode === m ? 'bg-brand-blue text-white shadow-md' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-slate-200'}`}>
+                                    {PRESSURE_MODE_LABELS[m]}
+                                </button>
+                            ))}
+                        </div>
+                        {selectedStd && <p className="text-[10px] text-slate-400 mt-1 font-mono">Patrón: {PRESSURE_MODE_LABELS[standardMode]}</p>}
+                        {needsBarometer && (
+                            <select className="sci-input mt-2 animate-appear" value={stdIds.barometer} onChange={e => setStdIds({...stdIds, barometer: e.target.value})}>
+                                <option value="">Seleccionar Barómetro...</option>
+                                {standards.filter(s => s.type === StandardType.AtmosphericPressure).map(s => <option key={s.id} value={s.id}>{s.name} ({s.rangeMin}-{s.rangeMax} {s.unit})</option>)}
+                            </select>
+                        )}
+                        {pressureMode === 'differential' && (
+                            <div className="mt-2 flex items-center gap-2 animate-appear">
+                                <label className="label-xs whitespace-nowrap">Presión de línea ({instrument.unit})</label>
+                                <ScientificInput className="sci-input-sm" value={linePressure} onChange={(val: number) => setLinePressure(val)} />
+                            </div>
+                        )}
+                     </div>
+
+                     <div>
+                        <label className="label-sci flex items-center gap-1"><Wind size={12}/> Patrones Ambientales</label>
+                        <div className="space-y-2">
+                            {(['temp', 'humidity', 'pressure'] as EnvQuantity[]).map(q => {
+                                const selected = envStandards[q];
+                                return (
+                                    <div key={q} className="flex items-center gap-2">
+                                        <span className="label-xs w-12">{ENV_READING_UNITS[q]}</span>
+                                        <select className="sci-input-sm flex-1" value={envStdIds[q] || ''} onChange={e => setEnvStdIds({...envStdIds, [q]: e.target.value || undefined})}>
+                                            <option value="">Sin corrección</option>
+                                            {standards.filter(s => ENV_STANDARD_TYPES.includes(s.type) && getQuantity(s.unit) === getQuantity(ENV_READING_UNITS[q])).map(s => <option key={s.id} value={s.id}>{s.name} ({s.unit})</option>)}
+                                        </select>
+                                        {selected && isStandardExpired(selected) && <span className="text-[10px] font-bold text-red-500 flex items-center gap-1"><AlertTriangle size={12}/> VENCIDO</span>}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                     </div>
+
+                     {isTransmitter && (
+                         <div className="animate-appear">
+                            <label className="label-sci">Patrón Eléctrico (Salida)</label>
+                            <select className="sci-input" value={stdIds.electrical} onChange={e => setStdIds({...stdIds, electrical: e.target.value})}>
+                                <option value="">Seleccionar Multímetro...</option>
+                                {standards.filter(s => s.type === StandardType.Electrical).map(s => <option key={s.id} value={s.id}>{s.name} ({s.rangeMax} {s.unit})</option>)}
+                            </select>
+                         </div>
+                     )}
+
+                     <div>
+                        <label className="label-sci flex items-center gap-1"><ListOrdered size={12}/> Secuencia DKD-R 6-1</label>
+                        <div className="flex gap-2">
+                            {Object.values(SequenceType).map(sq => (
+                                <button key={sq} onClick={() => setSequence(sq)} className={`px-4 py-2 rounded-lg font-bold transition-all flex-1 ${sequence === sq ? 'bg-brand-orange text-white shadow-md' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-slate-200'}`}>
+                                    {sq}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1 font-mono">
+                            {seqDef.points} puntos · {seqDef.series.length} series · {seqDef.preloads} precarga(s)
+                            {sequence !== recommendSequence(instrument.accuracyClass) && <span className="text-amber-500 font-bold"> · Recomendada: {recommendSequence(instrument.accuracyClass)}</span>}
+                        </p>
+                        <div className="grid grid-cols-3 gap-2 mt-2">
+                            <div><label className="label-xs">Precarga (s)</label><ScientificInput className="sci-input-sm text-center" value={waitTimes.preload} onChange={(val: number) => setWaitTimes({...waitTimes, preload: val})} /></div>
+                            <div><label className="label-xs">Escalón (s)</label><ScientificInput className="sci-input-sm text-center" value={waitTimes.step} onChange={(val: number) => setWaitTimes({...waitTimes, step: val})} /></div>
+                            <div><label className="label-xs">Tope (s)</label><ScientificInput className="sci-input-sm text-center" value={waitTimes.top} onChange={(val: number) => setWaitTimes({...waitTimes, top: val})} /></div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <div><label className="label-xs">Estabilidad: ventana (s)</label><ScientificInput className="sci-input-sm text-center" value={stabilityCriterion.window} onChange={(val: number) => setStabilityCriterion({...stabilityCriterion, window: val})} /></div>
+                            <div><label className="label-xs">Cambio máx. del patrón (0 = sin control)</label><ScientificInput className="sci-input-sm text-center" value={stabilityCriterion.maxChange} onChange={(val: number) => setStabilityCriterion({...stabilityCriterion, maxChange: val})} /></div>
+                        </div>
+                     </div>
+
+                     <div>
+                        <label className="label-sci flex items-center gap-1"><Dices size={12}/> Evaluación de Incertidumbre</label>
+                        <select className="sci-input" value={monteCarloTrials} onChange={e => setMonteCarloTrials(parseInt(e.target.value))}>
+                            <option value={0}>GUM analítico (Welch-Satterthwaite)</option>
+                            {MONTE_CARLO_TRIAL_OPTIONS.map(m => <option key={m} value={m}>GUM + Monte Carlo adaptativo GUM-S1 (M ≤ {m.toExponential(0)})</option>)}
+                        </select>
+                     </div>
+
+                     <div>
+                        <label className="label-sci flex items-center gap-1"><Scale size={12}/> Regla de Decisión (ILAC-G8)</label>
+                        <select className="sci-input" value={decisionRule.type} onChange={e => setDecisionRule({...decisionRule, type: e.target.value as DecisionRuleType})}>
+                            {(Object.keys(DECISION_RULE_LABELS) as DecisionRuleType[]).map(r => <option key={r} value={r}>{DECISION_RULE_LABELS[r]}</option>)}
+                        </select>
+                        {hasGuardBand(decisionRule.type) && (
+                            <div className="mt-2 flex items-center gap-2 animate-appear">
+                                <label className="label-xs whitespace-nowrap">Banda w = </label>
+                                <ScientificInput className="sci-input-sm text-center" value={decisionRule.guardBandFactor} onChange={(val: number) => setDecisionRule({...decisionRule, guardBandFactor: val})} />
+                                <span className="text-xs font-bold text-slate-500">· U</span>
+                            </div>
+                        )}
+                     </div>
+
+                     <div>
+                        <label className="label-sci flex items-center gap-1"><TrendingUp size={12}/> Curva de Corrección (Anexo)</label>
+                        <select className="sci-input" value={correctionModel || ''} onChange={e => changeCorrectionModel((e.target.value || null) as CorrectionCurveModel | null)}>
+                            <option value="">No incluir</option>
+                            {(['auto', ...CORRECTION_CURVE_MODELS] as CorrectionCurveModel[]).map(m => <option key={m} value={m}>{CORRECTION_MODEL_LABELS[m]}</option>)}
+                        </select>
+                        {correctionModel && (
+                            <div className="mt-2 flex items-center gap-2 animate-appear">
+                                <label className="label-xs whitespace-nowrap">Paso de la tabla</label>
+                                <ScientificInput className="sci-input-sm text-center" value={correctionStep} onChange={(val: number) => setCorrectionStep(val)} />
+                                <span className="text-xs font-bold text-slate-500">{isTransmitter ? instrument.transmitter!.outputUnit : instrument.unit}</span>
+                            </div>
+                        )}
+                     </div>
+
                      <div className="space-y-4">
                          <div className="flex gap-2 mb-2">
                              {[CalibrationFluid.Air, CalibrationFluid.Water, CalibrationFluid.Oil].map(f => (
@@ -328,9 +881,9 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
                                  <Beaker size={14}/> Densidad del Aire
                              </h4>
                              <div className="grid grid-cols-3 gap-2 mb-2">
-                                 <div><label className="label-xs">Temp.</label><ScientificInput className="sci-input-sm" value={envReadings.start.temp} onChange={(val: number) => setEnvReadings({...envReadings, start: {...envReadings.start, temp: val}})}/></div>
-                                 <div><label className="label-xs">Pres.</label><ScientificInput className="sci-input-sm" value={envReadings.start.pressure} onChange={(val: number) => setEnvReadings({...envReadings, start: {...envReadings.start, pressure: val}})}/></div>
-                                 <div><label className="label-xs">Hum.</label><ScientificInput className="sci-input-sm" value={envReadings.start.humidity} onChange={(val: number) => setEnvReadings({...envReadings, start: {...envReadings.start, humidity: val}})}/></div>
+                                 <div><label className="label-xs">Temp.</label><ScientificInput className="sci-input-sm" value={envReadings.start.temp} onChange={(val: number) => updateEnvReading('start', 'temp', val)}/></div>
+                                 <div><label className="label-xs">Pres.</label><ScientificInput className="sci-input-sm" value={envReadings.start.pressure} onChange={(val: number) => updateEnvReading('start', 'pressure', val)}/></div>
+                                 <div><label className="label-xs">Hum.</label><ScientificInput className="sci-input-sm" value={envReadings.start.humidity} onChange={(val: number) => updateEnvReading('start', 'humidity', val)}/></div>
                              </div>
                          </div>
                      )}
@@ -402,6 +955,7 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
                       <span className="flex items-center gap-1 font-bold"><User size={14}/> {instrument.applicantName}</span>
                       <span className="flex items-center gap-1"><Beaker size={14}/> {fluid} ({fluidDensity.toFixed(5)})</span>
                       <span className="flex items-center gap-1 text-brand-orange font-bold"><Globe size={14}/> g: {calculatedGravity.toFixed(4)}</span>
+                      {asFound && <span className="flex items-center gap-1 font-bold text-brand-blue"><Wrench size={14}/> {adjustment ? 'COMO SE DEJÓ' : 'COMO SE ENCONTRÓ'}</span>}
                   </div>
               </div>
               <SmartChronometer isActive={isCalibrating} />
@@ -413,19 +967,50 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
                       <table className="w-full text-sm border-collapse">
                           <thead className="bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400 font-bold uppercase text-xs border-b border-slate-200 dark:border-slate-700">
                               <tr>
-                                  <th className="p-4 text-left">Nominal</th>
-                                  <th className="p-4 text-left">Patrón</th>
-                                  <th className="p-4 text-left border-l border-slate-200 dark:border-slate-700">Ascenso 1</th>
-                                  <th className="p-4 text-left">Descenso 1</th>
+                                  <th className="p-4 text-left">Nominal ({instrument.unit} {PRESSURE_MODE_SUFFIX[pressureMode]})</th>
+                                  <th className="p-4 text-left">Patrón ({standards.find(s => s.id === stdIds.pressure)?.unit || instrument.unit})</th>
+                                  {needsBarometer && <th className="p-4 text-left">Barómetro ({standards.find(s => s.id === stdIds.barometer)?.unit})</th>}
+                                  {isTransmitter && <th className="p-4 text-left">Salida Ideal ({instrument.transmitter!.outputUnit})</th>}
+                                  {seqDef.series.map((key, idx) => (
+                                      <th key={key} className={`p-4 text-left ${idx === 0 ? 'border-l border-slate-200 dark:border-slate-700' : ''}`}>{SERIES_LABELS[key]}{isTransmitter && ` (${standards.find(s => s.id === stdIds.electrical)?.unit})`}</th>
+                                  ))}
                               </tr>
                           </thead>
                           <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
                               {points.map((p, i) => (
-                                  <tr key={i} className="hover:bg-brand-blue/5 dark:hover:bg-brand-blue/10 transition-colors">
-                                      <td className="p-4 font-mono font-bold text-lg text-slate-700 dark:text-slate-200">{p.nominal}</td>
-                                      <td className="p-2"><ScientificInput className="table-input" value={p.standardReading} onChange={(val: number) => { const n = [...points]; n[i].standardReading = val; setPoints(n); }} /></td>
-                                      <td className="p-2 border-l border-slate-100 dark:border-slate-700"><ScientificInput className="table-input text-brand-blue dark:text-brand-cyan" value={p.run1Up} onChange={(val: number) => { const n = [...points]; n[i].run1Up = val; setPoints(n); }} /></td>
-                                      <td className="p-2"><ScientificInput className="table-input text-brand-orange" value={p.run1Down} onChange={(val: number) => { const n = [...points]; n[i].run1Down = val; setPoints(n); }} /></td>
+                                  <tr key={i} className={`hover:bg-brand-blue/5 dark:hover:bg-brand-blue/10 transition-colors ${isSuspect(p.nominal) ? 'bg-red-50/60 dark:bg-red-900/10' : ''}`}>
+                                      <td className="p-4 font-mono font-bold text-lg text-slate-700 dark:text-slate-200">
+                                          {p.nominal}
+                                          {keptOutlier(p.nominal) && <div className="text-[9px] font-bold text-slate-500" title={keptOutlier(p.nominal)!.justification}>ATÍPICO CONSERVADO</div>}
+                                      </td>
+                                      {balance && selectedStd ? (
+                                          <td className="p-2 min-w-[220px]">
+                                              <div className="font-mono font-bold text-slate-700 dark:text-slate-200 text-right mb-1">{p.standardReading}</div>
+                                              <div className="flex flex-wrap gap-1 mb-1">
+                                                  {balance.masses.filter(m => !m.isPiston).map(m => {
+                                                      const loaded = (p.loadedMassIds || []).includes(m.id);
+                                                      return (
+                                                          <button key={m.id} onClick={() => { const n = [...points]; n[i] = withBalancePressure({ ...p, loadedMassIds: loaded ? (p.loadedMassIds || []).filter(id => id !== m.id) : [...(p.loadedMassIds || []), m.id] }, selectedStd.unit); setPoints(n); }} className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${loaded ? 'bg-brand-blue text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-400'}`}>{m.label}</button>
+                                                      );
+                                                  })}
+                                              </div>
+                                              <div className="flex items-center gap-1 text-[10px] text-slate-400">t pistón (°C)<ScientificInput className="sci-input-sm" value={p.pistonTemp} onChange={(val: number) => { const n = [...points]; n[i] = withBalancePressure({ ...p, pistonTemp: val }, selectedStd.unit); setPoints(n); }} /></div>
+                                          </td>
+                                      ) : (
+                                          <td className="p-2"><ScientificInput className="table-input" value={p.standardReading} onChange={(val: number) => { const n = [...points]; n[i].standardReading = val; setPoints(n); }} /></td>
+                                      )}
+                                      {needsBarometer && <td className="p-2"><ScientificInput className="table-input" value={p.barometerReading} onChange={(val: number) => { const n = [...points]; n[i].barometerReading = val; setPoints(n); }} /></td>}
+                                      {isTransmitter && <td className="p-4 font-mono text-slate-400">{calculateIdealOutput(instrument, p.nominal).toFixed(3)}</td>}
+                                      {seqDef.series.map((key, idx) => (
+                                          <td key={key} className={`p-2 ${idx === 0 ? 'border-l border-slate-100 dark:border-slate-700' : ''} ${p.readingStamps?.[key]?.early ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}>
+                                              <ScientificInput className={`table-input ${key.endsWith('Up') ? 'text-brand-blue dark:text-brand-cyan' : 'text-brand-orange'}`} value={p[key]} onChange={(val: number) => { const n = [...points]; n[i][key] = val; setPoints(n); }} onBlur={() => commitReading(i, key)} />
+                                              {p.readingStamps?.[key] && (
+                                                  <div className={`text-[9px] font-mono text-right ${p.readingStamps[key]!.early ? 'text-amber-600 font-bold' : 'text-slate-400'}`} title={p.readingStamps[key]!.early?.map(r => EARLY_READING_LABELS[r]).join(' · ')}>
+                                                      {p.readingStamps[key]!.early && '⏱ '}{new Date(p.readingStamps[key]!.time).toLocaleTimeString()}{p.readingStamps[key]!.waited !== undefined && ` · ${p.readingStamps[key]!.waited} s`}
+                                                  </div>
+                                              )}
+                                          </td>
+                                      ))}
                                   </tr>
                               ))}
                           </tbody>
@@ -434,27 +1019,118 @@ export const CalibrationForm: React.FC<Props> = ({ standards, onSave }) => {
               </div>
 
               <div className="space-y-4">
+                  <div className="glass-panel p-4 rounded-xl">
+                      <h3 className="font-bold text-sm mb-3 flex items-center gap-2 text-brand-dark dark:text-white"><ListOrdered size={16}/> {seqDef.label}</h3>
+                      <div className="grid grid-cols-3 gap-2 text-[10px] text-center font-mono text-slate-500 mb-3">
+                          <div className="bg-slate-50 dark:bg-slate-800 rounded p-1">Precarga<br/><strong>{waitTimes.preload} s</strong></div>
+                          <div className="bg-slate-50 dark:bg-slate-800 rounded p-1">Escalón<br/><strong>{waitTimes.step} s</strong></div>
+                          <div className="bg-slate-50 dark:bg-slate-800 rounded p-1">Tope<br/><strong>{waitTimes.top} s</strong></div>
+                      </div>
+                      <div className="flex gap-2 mb-2">
+                          <button disabled={preloadsDone >= seqDef.preloads} onClick={() => { playSound('click'); setPreloadsDone(preloadsDone + 1); setHold({ id: Date.now(), seconds: waitTimes.preload, label: `Precarga ${preloadsDone + 1}/${seqDef.preloads}` }); }} className="flex-1 py-2 text-xs font-bold rounded bg-brand-blue text-white disabled:opacity-40">
+                              PRECARGA ({preloadsDone}/{seqDef.preloads})
+                          </button>
+                          <button onClick={() => setHold({ id: Date.now(), seconds: waitTimes.step, label: 'Escalón' })} className="flex-1 py-2 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200">ESCALÓN</button>
+                          <button onClick={() => setHold({ id: Date.now(), seconds: waitTimes.top, label: 'Tope' })} className="flex-1 py-2 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200">TOPE</button>
+                      </div>
+                      {hold && <HoldCountdown key={hold.id} seconds={hold.seconds} label={hold.label} />}
+                      {stabilityCriterion.maxChange > 0 && (
+                          <div className="mt-3 pt-3 border-t border-slate-100 dark:border-slate-700">
+                              <label className="label-xs">Monitor de estabilidad del patrón ({selectedStd?.unit})</label>
+                              <div className="flex gap-2">
+                                  <ScientificInput className="sci-input-sm" value={stabilityValue} onChange={(val: number) => setStabilityValue(val)} />
+                                  <button onClick={addStabilitySample} className="px-3 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200">+</button>
+                              </div>
+                              <div className={`mt-2 text-[10px] font-mono font-bold ${stability.stable ? 'text-emerald-600' : 'text-amber-600'}`}>
+                                  {stability.stable ? 'ESTABLE' : stability.covered ? 'INESTABLE' : 'MONITOREO INCOMPLETO'} · Δ = {stability.change.toPrecision(3)} / {stabilityCriterion.maxChange} en {stabilityCriterion.window} s
+                              </div>
+                          </div>
+                      )}
+                  </div>
+
                   <div className="glass-panel p-4 rounded-xl">
                       <h3 className="font-bold text-sm mb-3 flex items-center gap-2 text-brand-dark dark:text-white"><Activity size={16}/> Monitoreo Ambiental</h3>
                       <div className="flex gap-2 mb-3 bg-slate-50 dark:bg-slate-700 p-1 rounded-lg border border-slate-200 dark:border-slate-600">
                           {['start', 'middle', 'end'].map(s => (
                               <button key={s} onClick={() => setEnvStage(s as any)} className={`flex-1 py-1 text-xs font-bold rounded capitalize transition-all ${envStage === s ? 'bg-white dark:bg-slate-600 shadow text-brand-blue dark:text-white' : 'text-slate-400'}`}>
-                                  {s === 'start' ? 'Inicio' : s === 'middle' ? '50%' : 'Final'}
+                                  {ENV_STAGE_LABELS[s as EnvStage]}
                               </button>
                           ))}
                       </div>
                       <div className="space-y-2">
-                          <div><label className="label-xs">Temp (°C)</label><ScientificInput className="sci-input-sm" value={envReadings[envStage].temp} onChange={(val: number) => setEnvReadings({...envReadings, [envStage]: {...envReadings[envStage], temp: val}})} /></div>
-                          <div><label className="label-xs">Humedad (%)</label><ScientificInput className="sci-input-sm" value={envReadings[envStage].humidity} onChange={(val: number) => setEnvReadings({...envReadings, [envStage]: {...envReadings[envStage], humidity: val}})} /></div>
-                          <div><label className="label-xs">Presión (hPa)</label><ScientificInput className="sci-input-sm" value={envReadings[envStage].pressure} onChange={(val: number) => setEnvReadings({...envReadings, [envStage]: {...envReadings[envStage], pressure: val}})} /></div>
+                          <div><label className="label-xs">Temp (°C)</label><ScientificInput className="sci-input-sm" value={envReadings[envStage].temp} onChange={(val: number) => updateEnvReading(envStage, 'temp', val)} /></div>
+                          <div><label className="label-xs">Humedad (%)</label><ScientificInput className="sci-input-sm" value={envReadings[envStage].humidity} onChange={(val: number) => updateEnvReading(envStage, 'humidity', val)} /></div>
+                          <div><label className="label-xs">Presión (hPa)</label><ScientificInput className="sci-input-sm" value={envReadings[envStage].pressure} onChange={(val: number) => updateEnvReading(envStage, 'pressure', val)} /></div>
                       </div>
                       <div className="mt-3 text-xs text-center text-slate-400 font-mono">
-                          AVG: {((envReadings.start.temp + envReadings.middle.temp + envReadings.end.temp)/3).toFixed(2)} °C
+                          AVG: {envConditions.mean.temp.toFixed(2)} ± {envConditions.uncertainty.temp.toFixed(2)} °C · ρ<sub>a</sub> {envConditions.airDensity.toFixed(4)} kg/m³
+                      </div>
+                      {envViolations.length > 0 && (
+                          <div className="mt-3 p-2 rounded border border-red-300 bg-red-50 dark:bg-red-900/20 text-[10px] text-red-600 dark:text-red-400 space-y-1 animate-appear">
+                              <div className="font-bold flex items-center gap-1"><AlertTriangle size={12}/> FUERA DE LÍMITES {envLimits.blockOnViolation ? '(BLOQUEA FINALIZACIÓN)' : ''}</div>
+                              {envViolations.map((v, i) => <div key={i}>{describeEnvViolation(v)}</div>)}
+                          </div>
+                      )}
+                  </div>
+
+                  {points.length > 0 && (
+                      <div className="glass-panel p-4 rounded-xl">
+                          <h3 className="font-bold text-sm mb-3 flex items-center gap-2 text-brand-dark dark:text-white"><AlertTriangle size={16}/> Datos Atípicos</h3>
+                          <div className="space-y-3 text-xs">
+                              <p className="text-[10px] text-slate-400">En las lecturas de calibración solo se aplica Cochran (varianza de cada punto frente a los demás): ninguna secuencia da tres lecturas en un mismo sentido, necesarias para Grubbs y Dixon, que se aplican en las comprobaciones intermedias.</p>
+                              {pendingOutliers.map(f => (
+                                  <div key={outlierKey(f)} className="p-2 rounded border border-red-300 bg-red-50 dark:bg-red-900/20 space-y-2">
+                                      <div className="font-bold text-red-600">{f.nominal} {instrument.unit}{f.series && ` · ${SERIES_LABELS[f.series]}`}</div>
+                                      <div className="text-[10px] font-mono text-slate-500">{describeOutlier(f, instrument.unit)}</div>
+                                      <input className="sci-input-sm" placeholder="Justificación" value={outlierNotes[outlierKey(f)] || ''} onChange={e => setOutlierNotes({ ...outlierNotes, [outlierKey(f)]: e.target.value })} />
+                                      <div className="flex gap-2">
+                                          <button onClick={() => decideOutlier(f, 'keep')} className="flex-1 py-1 text-[10px] font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200">CONSERVAR</button>
+                                          <button onClick={() => decideOutlier(f, 'repeat')} className="flex-1 py-1 text-[10px] font-bold rounded bg-brand-blue text-white">REPETIR</button>
+                                      </div>
+                                  </div>
+                              ))}
+                              {outlierDecisions.map((d, i) => (
+                                  <div key={i} className="text-[10px] text-slate-500">
+                                      <strong>{OUTLIER_ACTION_LABELS[d.action]}</strong> · {d.nominal} {instrument.unit}{d.series && ` · ${SERIES_LABELS[d.series]}`}: {d.justification}
+                                  </div>
+                              ))}
+                          </div>
                       </div>
+                  )}
+
+                  <div className="glass-panel p-4 rounded-xl">
+                      <h3 className="font-bold text-sm mb-3 flex items-center gap-2 text-brand-dark dark:text-white"><Wrench size={16}/> Ajuste del Instrumento</h3>
+                      {!asFound && (
+                          <button onClick={handleAdjust} disabled={isEvaluating} className="w-full py-2 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200 disabled:opacity-50">
+                              REGISTRAR COMO SE ENCONTRÓ Y AJUSTAR
+                          </button>
+                      )}
+                      {asFound && (
+                          <div className="space-y-2 text-xs">
+                              <div className="flex justify-between">
+                                  <span className="font-bold text-slate-500">Como se encontró</span>
+                                  <span className={`font-bold ${asFound.results.every(r => r.compliance) ? 'text-emerald-600' : 'text-red-500'}`}>
+                                      {asFound.results.filter(r => r.compliance).length}/{asFound.results.length} puntos cumplen
+                                  </span>
+                              </div>
+                              {adjustment ? (
+                                  <div className="p-2 rounded bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300">
+                                      <div className="font-bold">AJUSTE REGISTRADO · midiendo como se dejó</div>
+                                      <div>{adjustment.description}</div>
+                                  </div>
+                              ) : (
+                                  <>
+                                      <textarea className="sci-input-sm h-20" placeholder="Ajuste realizado (cero, span, linealización...)" value={adjustmentText} onChange={e => setAdjustmentText(e.target.value)} />
+                                      <button onClick={confirmAdjustment} className="w-full py-2 text-xs font-bold rounded bg-brand-blue text-white">CONFIRMAR AJUSTE E INICIAR COMO SE DEJÓ</button>
+                                  </>
+                              )}
+                              <button onClick={cancelAdjustment} className="w-full py-1 text-[10px] font-bold text-slate-400 hover:text-red-500">Cancelar ajuste</button>
+                          </div>
+                      )}
                   </div>
 
-                  <button className="w-full btn-primary py-3 flex justify-center items-center gap-2" onClick={handleFinish}>
-                      <Save size={18} /> FINALIZAR MISIÓN
+                  <button className="w-full btn-primary py-3 flex justify-center items-center gap-2 disabled:opacity-50" onClick={handleFinish} disabled={isEvaluating}>
+                      <Save size={18} /> {isEvaluating ? 'CALCULANDO MONTE CARLO...' : 'FINALIZAR MISIÓN'}
                   </button>
               </div>
           </div>
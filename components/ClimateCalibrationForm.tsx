@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { CalibrationSession, ReferenceStandard, Instrument, Unit, StandardType, DecisionRule, DecisionRuleType, ClimateChannelSpec, ClimatePoint, ClimatePointResult, ChamberCharacterization, EnvReading } from '../types';
+import { playSound } from '../services/calibrationLogic';
+import { getQuantity } from '../services/units';
+import { isStandardExpired } from '../services/environment';
+import { DEFAULT_CLIMATE_SET_POINTS, createClimatePoint, evaluateClimatePoint } from '../services/climateCalibration';
+import { DEFAULT_DECISION_RULE, DECISION_RULE_LABELS, CONFORMITY_LABELS } from '../services/conformity';
+import { Play, Save, Thermometer, Droplets, PenTool, Plus, X, Wind } from 'lucide-react';
+import { ScientificInput } from './ScientificInput';
+
+interface Props {
+  standards: ReferenceStandard[];
+  header?: React.ReactNode;   // Procedure selector of the calibration screen
+  onSave: (session: CalibrationSession) => void;
+}
+
+// A reference thermohygrometer may serve both channels: the quantity follows the unit of its curve
+const TEMPERATURE_STANDARD_TYPES = [StandardType.Temperature, StandardType.Thermohygrometer];
+const HUMIDITY_STANDARD_TYPES = [StandardType.Humidity, StandardType.Thermohygrometer];
+
+const READING_ROWS: { key: keyof Pick<ClimatePoint, 'referenceTemp' | 'instrumentTemp' | 'referenceHumidity' | 'instrumentHumidity'>, label: string, unit: string }[] = [
+    { key: 'referenceTemp', label: 'Patrón T', unit: '°C' },
+    { key: 'instrumentTemp', label: 'Instrumento T', unit: '°C' },
+    { key: 'referenceHumidity', label: 'Patrón HR', unit: '%HR' },
+    { key: 'instrumentHumidity', label: 'Instrumento HR', unit: '%HR' }
+];
+
+const CHAMBER_FIELDS: { key: keyof ChamberCharacterization, label: string }[] = [
+    { key: 'tempHomogeneity', label: 'Homog. T (°C)' },
+    { key: 'tempStability', label: 'Estab. T (°C)' },
+    { key: 'humidityHomogeneity', label: 'Homog. HR (%HR)' },
+    { key: 'humidityStability', label: 'Estab. HR (%HR)' }
+];
+
+export const ClimateCalibrationForm: React.FC<Props> = ({ standards, header, onSave }) => {
+  const [step, setStep] = useState(1);
+  const [instrument, setInstrument] = useState<Instrument>({
+    manufacturer: '',
+    model: '',
+    serialNumber: '',
+    rangeMin: 0,
+    rangeMax: 50,
+    resolution: 0.1,
+    accuracyClass: 0,
+    unit: Unit.Celcius,
+    applicantName: '',
+    identificationId: '',
+    type: 'digital',
+    connectionType: '',
+    sensorLocation: 'Sonda interna',
+    conditionReceived: 'Bueno'
+  });
+  const [tempSpec, setTempSpec] = useState<ClimateChannelSpec>({ rangeMin: 0, rangeMax: 50, resolution: 0.1, tolerance: 0.5 });
+  const [humSpec, setHumSpec] = useState<ClimateChannelSpec>({ rangeMin: 10, rangeMax: 90, resolution: 1, tolerance: 3 });
+  const [stdIds, setStdIds] = useState({ temperature: '', humidity: '' });
+  const [setPointList, setSetPointList] = useState(DEFAULT_CLIMATE_SET_POINTS);
+  const [readingsPerPoint, setReadingsPerPoint] = useState(5);
+  const [decisionRule, setDecisionRule] = useState<DecisionRule>(DEFAULT_DECISION_RULE);
+  const [labConditions, setLabConditions] = useState<EnvReading>({ temp: 23, humidity: 50, pressure: 1013 });
+  const [points, setPoints] = useState<ClimatePoint[]>([]);
+
+  const temperatureStandards = standards.filter(s => TEMPERATURE_STANDARD_TYPES.includes(s.type) && getQuantity(s.unit) === 'temperature');
+  const humidityStandards = standards.filter(s => HUMIDITY_STANDARD_TYPES.includes(s.type) && getQuantity(s.unit) === 'humidity');
+  const tempStd = standards.find(s => s.id === stdIds.temperature);
+  const humStd = standards.find(s => s.id === stdIds.humidity);
+
+  const updateSetPoint = (index: number, field: 'setTemp' | 'setHumidity', val: number) => {
+      const n = [...setPointList];
+      n[index] = { ...n[index], [field]: val };
+      setSetPointList(n);
+  };
+
+  const initSequence = () => {
+      if (!instrument.manufacturer || !instrument.serialNumber || !instrument.applicantName) {
+          alert("Por favor complete los datos obligatorios del instrumento (Solicitante, Marca, Serie).");
+          return;
+      }
+      if (!tempStd || !humStd) {
+          playSound('error');
+          alert('Seleccione los patrones de temperatura y de humedad relativa.');
+          return;
+      }
+      if (setPointList.length === 0 || setPointList.some(p => p.setHumidity <= 0 || p.setHumidity > 100)) {
+          playSound('error');
+          alert('Defina al menos un punto de consigna con humedad relativa entre 0 y 100 %HR.');
+          return;
+      }
+      if (readingsPerPoint < 1) {
+          playSound('error');
+          alert('Se requiere al menos una lectura por punto.');
+          return;
+      }
+      playSound('click');
+      setPoints(setPointList.map(p => createClimatePoint(p.setTemp, p.setHumidity, readingsPerPoint)));
+      setStep(2);
+  };
+
+  const updateReading = (index: number, key: typeof READING_ROWS[number]['key'], reading: number, val: number) => {
+      const n = [...points];
+      const values = [...n[index][key]];
+      values[reading] = val;
+      n[index] = { ...n[index], [key]: values };
+      setPoints(n);
+  };
+
+  const updateChamber = (index: number, key: keyof ChamberCharacterization, val: number) => {
+      const n = [...points];
+      n[index] = { ...n[index], chamber: { ...n[index].chamber, [key]: val } };
+      setPoints(n);
+  };
+
+  const evaluatePoint = (p: ClimatePoint): ClimatePointResult | undefined => {
+      if (!tempStd || !humStd) return undefined;
+      return evaluateClimatePoint(p, tempStd, humStd, tempSpec, humSpec, decisionRule);
+  };
+
+  const handleFinish = () => {
+      if (!tempStd || !humStd) return;
+      const results = points.map(p => evaluateClimatePoint(p, tempStd, humStd, tempSpec, humSpec, decisionRule));
+      const session: CalibrationSession = {
+          id: `CAL-${Date.now()}`,
+          date: new Date().toISOString(),
+          technician: 'Admin User',
+          standardId: tempStd.id,
+          procedure: 'thermohygrometer',
+          instrument: { ...instrument, rangeMin: tempSpec.rangeMin, rangeMax: tempSpec.rangeMax, resolution: tempSpec.resolution },
+          envReadings: { start: labConditions, middle: labConditions, end: labConditions },
+          decisionRule,
+          points: [],
+          climate: {
+              temperatureStandardId: tempStd.id,
+              humidityStandardId: humStd.id,
+              temperature: tempSpec,
+              humidity: humSpec,
+              readingsPerPoint,
+              points,
+              results
+          }
+      };
+      onSave(session);
+      playSound('success');
+  };
+
+  if (step === 1) {
+    return (
+      <div className="p-8 max-w-7xl mx-auto space-y-6">
+         <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">CONFIGURACIÓN DE MISIÓN</h2>
+         {header}
+
+         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+             <div className="lg:col-span-8 glass-panel p-6 rounded-2xl space-y-6">
+                 <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2 flex items-center gap-2">
+                     <PenTool size={18}/> Datos del Instrumento (Ítem)
+                 </h3>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                     <div><label className="label-sci">Solicitante</label><input className="sci-input" value={instrument.applicantName} onChange={e => setInstrument({...instrument, applicantName: e.target.value})} /></div>
+                     <div><label className="label-sci">Identificación (TAG)</label><input className="sci-input" value={instrument.identificationId} onChange={e => setInstrument({...instrument, identificationId: e.target.value})} /></div>
+                     <div><label className="label-sci">Marca</label><input className="sci-input" value={instrument.manufacturer} onChange={e => setInstrument({...instrument, manufacturer: e.target.value})} /></div>
+                     <div><label className="label-sci">Modelo</label><input className="sci-input" value={instrument.model} onChange={e => setInstrument({...instrument, model: e.target.value})} /></div>
+                     <div><label className="label-sci">No. Serie</label><input className="sci-input" value={instrument.serialNumber} onChange={e => setInstrument({...instrument, serialNumber: e.target.value})} /></div>
+                     <div><label className="label-sci">Ubicación del Sensor</label><input className="sci-input" value={instrument.sensorLocation} onChange={e => setInstrument({...instrument, sensorLocation: e.target.value})} /></div>
+                 </div>
+
+                 <hr className="border-slate-100 dark:border-slate-700"/>
+
+                 <div className="space-y-4">
+                     <h4 className="text-xs font-bold uppercase text-slate-400">Especificaciones Metrológicas</h4>
+                     {([['Temperatura (°C)', tempSpec, setTempSpec, Thermometer], ['Humedad Relativa (%HR)', humSpec, setHumSpec, Droplets]] as const).map(([label, spec, setSpec, Icon]) => (
+                         <div key={label} className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                             <div className="flex items-center gap-2 font-bold text-sm text-slate-600 dark:text-slate-300 pb-3"><Icon size={16}/> {label}</div>
+                             <div><label className="label-sci">Rango Min</label><ScientificInput className="sci-input" value={spec.rangeMin} onChange={(val: number) => setSpec({...spec, rangeMin: val})} /></div>
+                             <div><label className="label-sci">Rango Max</label><ScientificInput className="sci-input" value={spec.rangeMax} onChange={(val: number) => setSpec({...spec, rangeMax: val})} /></div>
+                             <div><label className="label-sci">Resolución</label><ScientificInput className="sci-input" value={spec.resolution} onChange={(val: number) => setSpec({...spec, resolution: val})} /></div>
+                             <div><label className="label-sci">EMP (±)</label><ScientificInput className="sci-input" value={spec.tolerance} onChange={(val: number) => setSpec({...spec, tolerance: val})} /></div>
+                         </div>
+                     ))}
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                         <div>
+                             <label className="label-sci">Regla de Decisión</label>
+                             <select className="sci-input" value={decisionRule.type} onChange={e => setDecisionRule({ ...decisionRule, type: e.target.value as DecisionRuleType })}>
+                                 {(Object.keys(DECISION_RULE_LABELS) as DecisionRuleType[]).map(r => <option key={r} value={r}>{DECISION_RULE_LABELS[r]}</option>)}
+                             </select>
+                         </div>
+                         <div><label className="label-sci">Lecturas por Punto</label><ScientificInput className="sci-input" value={readingsPerPoint} onChange={(val: number) => setReadingsPerPoint(Math.max(1, Math.round(val)))} /></div>
+                     </div>
+                 </div>
+             </div>
+
+             <div className="lg:col-span-4 space-y-6">
+                 <div className="glass-panel p-6 rounded-2xl space-y-4">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2">Patrones</h3>
+                     <div>
+                         <label className="label-sci">Patrón de Temperatura</label>
+                         <select className="sci-input" value={stdIds.temperature} onChange={e => setStdIds({...stdIds, temperature: e.target.value})}>
+                             <option value="">-- Seleccionar --</option>
+                             {temperatureStandards.map(s => <option key={s.id} value={s.id}>{s.name} ({s.unit}){isStandardExpired(s) ? ' · VENCIDO' : ''}</option>)}
+                         </select>
+                     </div>
+                     <div>
+                         <label className="label-sci">Patrón de Humedad Relativa</label>
+                         <select className="sci-input" value={stdIds.humidity} onChange={e => setStdIds({...stdIds, humidity: e.target.value})}>
+                             <option value="">-- Seleccionar --</option>
+                             {humidityStandards.map(s => <option key={s.id} value={s.id}>{s.name} ({s.unit}){isStandardExpired(s) ? ' · VENCIDO' : ''}</option>)}
+                         </select>
+                     </div>
+                 </div>
+
+                 <div className="glass-panel p-6 rounded-2xl space-y-3">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2">Puntos de Consigna</h3>
+                     {setPointList.map((p, i) => (
+                         <div key={i} className="flex items-center gap-2">
+                             <ScientificInput className="sci-input-sm text-center" value={p.setTemp} onChange={(val: number) => updateSetPoint(i, 'setTemp', val)} />
+                             <span className="text-xs text-slate-400">°C</span>
+                             <ScientificInput className="sci-input-sm text-center" value={p.setHumidity} onChange={(val: number) => updateSetPoint(i, 'setHumidity', val)} />
+                             <span className="text-xs text-slate-400">%HR</span>
+                             <button onClick={() => setSetPointList(setPointList.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500"><X size={14}/></button>
+                         </div>
+                     ))}
+                     <button onClick={() => setSetPointList([...setPointList, { setTemp: 23, setHumidity: 50 }])} className="w-full py-2 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200 flex items-center justify-center gap-1"><Plus size={14}/> AGREGAR PUNTO</button>
+                 </div>
+
+                 <div className="glass-panel p-6 rounded-2xl space-y-3">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2 flex items-center gap-2"><Wind size={16}/> Condiciones del Laboratorio</h3>
+                     <div className="grid grid-cols-3 gap-2">
+                         <div><label className="label-sci">T (°C)</label><ScientificInput className="sci-input-sm" value={labConditions.temp} onChange={(val: number) => setLabConditions({...labConditions, temp: val})} /></div>
+                         <div><label className="label-sci">HR (%)</label><ScientificInput className="sci-input-sm" value={labConditions.humidity} onChange={(val: number) => setLabConditions({...labConditions, humidity: val})} /></div>
+                         <div><label className="label-sci">P (hPa)</label><ScientificInput className="sci-input-sm" value={labConditions.pressure} onChange={(val: number) => setLabConditions({...labConditions, pressure: val})} /></div>
+                     </div>
+                 </div>
+
+                 <button onClick={initSequence} className="w-full btn-primary py-4 flex justify-center items-center gap-2 text-lg shadow-lg shadow-orange-500/20">
+                     <Play size={20} /> INICIAR CALIBRACIÓN
+                 </button>
+             </div>
+         </div>
+         <style>{`
+            .sci-input { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.75rem; border-radius: 0.5rem; outline: none; font-weight: 500; color: #1e293b; box-shadow: 0 1px 2px 0 rgba(0,0,0,0.05); }
+            .dark .sci-input { background: #1e293b; border-color: #475569; color: #f1f5f9; box-shadow: none; }
+            .sci-input:focus { border-color: #0ea5e9; box-shadow: 0 0 0 3px rgba(14,165,233,0.1); }
+            .sci-input-sm { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.4rem; border-radius: 0.3rem; color: #334155; }
+            .dark .sci-input-sm { background: #334155; border-color: #475569; color: #f8fafc; }
+            .label-sci { display: block; color: #64748b; font-size: 0.8rem; margin-bottom: 0.3rem; font-weight: 700; }
+            .dark .label-sci { color: #94a3b8; }
+            .btn-primary { background: #f97316; color: white; border-radius: 0.75rem; font-weight: 700; transition: all 0.2s; }
+            .btn-primary:hover { background: #ea580c; }
+         `}</style>
+      </div>
+    );
+  }
+
+  // Running Step
+  return (
+      <div className="p-6 h-full flex flex-col">
+          <div className="flex justify-between items-start mb-6">
+              <div>
+                  <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">{instrument.model} <span className="text-lg text-slate-400 font-normal">({instrument.serialNumber})</span></h2>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{tempStd?.name} · {humStd?.name} · {readingsPerPoint} lecturas por punto</p>
+              </div>
+              <button className="btn-primary px-6 py-3 flex items-center gap-2" onClick={handleFinish}>
+                  <Save size={18} /> FINALIZAR MISIÓN
+              </button>
+          </div>
+
+          <div className="space-y-4">
+              {points.map((p, i) => {
+                  const result = evaluatePoint(p);
+                  return (
+                      <div key={i} className="glass-panel p-4 rounded-xl">
+                          <div className="flex justify-between items-center mb-3">
+                              <h3 className="font-bold text-brand-dark dark:text-white flex items-center gap-3">
+                                  <span className="flex items-center gap-1"><Thermometer size={16}/> {p.setTemp} °C</span>
+                                  <span className="flex items-center gap-1"><Droplets size={16}/> {p.setHumidity} %HR</span>
+                              </h3>
+                              {result && (
+                                  <div className="flex gap-4 text-xs font-mono">
+                                      <span>E<sub>T</sub> = {result.temperature.error.toFixed(2)} ± {result.temperature.expandedUncertainty.toFixed(2)} °C <strong className={result.temperature.conformity.status === 'PASS' ? 'text-emerald-600' : 'text-red-500'}>{CONFORMITY_LABELS[result.temperature.conformity.status]}</strong></span>
+                                      <span>E<sub>HR</sub> = {result.humidity.error.toFixed(1)} ± {result.humidity.expandedUncertainty.toFixed(1)} %HR <strong className={result.humidity.conformity.status === 'PASS' ? 'text-emerald-600' : 'text-red-500'}>{CONFORMITY_LABELS[result.humidity.conformity.status]}</strong></span>
+                                      <span className="text-slate-500">T<sub>d</sub> = {result.dewPoint.toFixed(2)} ± {result.dewPointUncertainty.toFixed(2)} °C</span>
+                                  </div>
+                              )}
+                          </div>
+                          <table className="w-full text-sm">
+                              <tbody>
+                                  {READING_ROWS.map(row => (
+                                      <tr key={row.key}>
+                                          <td className="p-1 text-xs font-bold text-slate-500 whitespace-nowrap">{row.label} ({row.unit})</td>
+                                          {p[row.key].map((v, r) => (
+                                              <td key={r} className="p-1"><ScientificInput className="sci-input-sm text-right font-mono" value={v} onChange={(val: number) => updateReading(i, row.key, r, val)} /></td>
+                                          ))}
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                          <div className="grid grid-cols-4 gap-2 mt-3 pt-3 border-t border-slate-100 dark:border-slate-700">
+                              {CHAMBER_FIELDS.map(f => (
+                                  <div key={f.key}><label className="label-xs">{f.label}</label><ScientificInput className="sci-input-sm" value={p.chamber[f.key]} onChange={(val: number) => updateChamber(i, f.key, val)} /></div>
+                              ))}
+                          </div>
+                      </div>
+                  );
+              })}
+          </div>
+          <style>{`
+            .sci-input-sm { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.4rem; border-radius: 0.3rem; color: #334155; }
+            .dark .sci-input-sm { background: #334155; border-color: #475569; color: #f8fafc; }
+            .label-xs { font-size: 0.7rem; text-transform: uppercase; font-weight: 700; color: #64748b; margin-bottom: 4px; display: block; }
+            .btn-primary { background: #f97316; color: white; border-radius: 0.75rem; font-weight: 700; transition: all 0.2s; }
+            .btn-primary:hover { background: #ea580c; }
+          `}</style>
+      </div>
+  );
+};
@@ -1,8 +1,12 @@
 
 import React, { useRef } from 'react';
-import { LaboratoryProfile } from '../types';
-import { Settings, Upload, Save, Building, MapPin, Phone, Award, Image as ImageIcon } from 'lucide-react';
+import { LaboratoryProfile, EnvLimits } from '../types';
+import { Settings, Upload, Save, Building, MapPin, Phone, Award, Image as ImageIcon, Thermometer, Sigma } from 'lucide-react';
 import { playSound } from '../services/calibrationLogic';
+import { DEFAULT_ENV_LIMITS } from '../services/environment';
+import { DEFAULT_SIGNIFICANCE_LEVEL } from '../services/mathUtils';
+
+const SIGNIFICANCE_LEVELS = [0.1, 0.05, 0.01];
 
 interface Props {
     profile: LaboratoryProfile;
@@ -24,6 +28,18 @@ export const ConfigPanel: React.FC<Props> = ({ profile, setProfile }) => {
         }
     };
 
+    const envLimits = profile.envLimits || DEFAULT_ENV_LIMITS;
+    const setEnvLimit = (field: keyof EnvLimits, value: number | boolean) => {
+        setProfile({ ...profile, envLimits: { ...envLimits, [field]: value } });
+    };
+    const limitFields: { field: keyof EnvLimits, label: string }[] = [
+        { field: 'tempMin', label: 'Temperatura Mín. (°C)' },
+        { field: 'tempMax', label: 'Temperatura Máx. (°C)' },
+        { field: 'maxTempDrift', label: 'Deriva Máx. en la Corrida (°C)' },
+        { field: 'humidityMin', label: 'Humedad Mín. (%HR)' },
+        { field: 'humidityMax', label: 'Humedad Máx. (%HR)' }
+    ];
+
     const handleSave = () => {
         playSound('success');
         alert('Datos guardados correctamente.\n\nEl certificado y la consola ahora utilizan su identidad corporativa.');
@@ -158,6 +174,48 @@ export const ConfigPanel: React.FC<Props> = ({ profile, setProfile }) => {
                             </div>
                         </div>
 
+                        <h3 className="font-bold text-brand-dark dark:text-white mt-10 mb-6 flex items-center gap-2 text-xl border-b border-slate-200 dark:border-slate-700 pb-2">
+                            <Thermometer size={24} className="text-brand-orange"/> LÍMITES AMBIENTALES
+                        </h3>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            {limitFields.map(({ field, label }) => (
+                                <div key={field}>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase mb-2">{label}</label>
+                                    <input 
+                                        type="number" 
+                                        step="0.1" 
+                                        className="sci-input" 
+                                        value={envLimits[field] as number} 
+                                        onChange={e => setEnvLimit(field, parseFloat(e.target.value) || 0)} 
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 mt-4 text-sm font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+                            <input type="checkbox" checked={envLimits.blockOnViolation} onChange={e => setEnvLimit('blockOnViolation', e.target.checked)} />
+                            Bloquear la finalización de la sesión cuando se excedan los límites
+                        </label>
+                        <p className="text-[10px] text-slate-400 mt-1">Se evalúan sobre las lecturas corregidas de cada etapa (inicio, 50 %, final). Sin bloqueo, la sesión se marca y la desviación consta en el certificado.</p>
+
+                        <h3 className="font-bold text-brand-dark dark:text-white mt-10 mb-6 flex items-center gap-2 text-xl border-b border-slate-200 dark:border-slate-700 pb-2">
+                            <Sigma size={24} className="text-brand-blue"/> CRITERIOS ESTADÍSTICOS
+                        </h3>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Nivel de Significancia (α)</label>
+                                <select
+                                    className="sci-input"
+                                    value={profile.significanceLevel ?? DEFAULT_SIGNIFICANCE_LEVEL}
+                                    onChange={e => setProfile({ ...profile, significanceLevel: parseFloat(e.target.value) })}
+                                >
+                                    {SIGNIFICANCE_LEVELS.map(a => <option key={a} value={a}>{a} ({((1 - a) * 100).toFixed(0)} % de confianza)</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">Se aplica a las pruebas de validación de las regresiones (correlación, normalidad, ANOVA, independencia, Mandel): valores críticos y valores p exactos. Las pruebas de valores atípicos mantienen el 5 % de ISO 5725-2.</p>
+
                         <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700 flex justify-end">
                             <button 
                                 onClick={handleSave} 
@@ -1,7 +1,14 @@
 
 import React, { useState } from 'react';
-import { CalibrationSession, ReferenceStandard, LaboratoryProfile } from '../types';
-import { CheckCircle, Clock, FileBarChart, Activity, X, FileText, Search, Microscope, ShieldCheck, TrendingUp, Stamp } from 'lucide-react';
+import { CalibrationSession, CalibrationResult, ReferenceStandard, LaboratoryProfile, ConformityStatus, ConformityResult, SeriesKey, ReadingStamp, CalibrationProcedure } from '../types';
+import { DECISION_RULE_LABELS, CONFORMITY_LABELS, DEFAULT_DECISION_RULE, describeTolerance, hasGuardBand } from '../services/conformity';
+import { describeEnvViolation } from '../services/environment';
+import { CORRECTION_MODEL_LABELS } from '../services/correctionCurve';
+import { describeOutlier, OUTLIER_ACTION_LABELS } from '../services/outlierScreening';
+import { THERMOMETER_KIND_LABELS } from '../services/thermometerCalibration';
+import { DIMENSIONAL_KIND_LABELS, isFaceCheckPassed } from '../services/dimensionalCalibration';
+import { TRANSFER_FUNCTION_LABELS, PRESSURE_MODE_LABELS, PRESSURE_MODE_SUFFIX, SERIES_LABELS, EARLY_READING_LABELS } from '../services/calibrationLogic';
+import { CheckCircle, Clock, FileBarChart, Activity, X, FileText, Search, Microscope, ShieldCheck, TrendingUp, Stamp, AlertTriangle } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 
 interface Props {
@@ -24,24 +31,58 @@ const StatCard = ({ title, value, sub, icon: Icon, colorClass, bgClass, shadowCl
   </div>
 );
 
-const CertificatePreviewModal = ({ session, standards, labProfile, onClose }: { session: CalibrationSession, standards: ReferenceStandard[], labProfile: LaboratoryProfile, onClose: () => void }) => {
-    if (!session.results) return null;
+// Short tag shown instead of the DKD-R 6-1 sequence for the other procedures
+const PROCEDURE_TAGS: Record<CalibrationProcedure, string> = {
+    pressure: 'DKD-R 6-1',
+    thermohygrometer: 'T / HR',
+    thermometer: 'Baño T',
+    dimensional: 'Bloques'
+};
 
-    // Find the standard used to get traceability info
-    const stdUsed = standards.find(s => s.id === session.standardId);
+const CONFORMITY_COLORS: Record<ConformityStatus, string> = {
+    PASS: 'text-emerald-600',
+    CONDITIONAL_PASS: 'text-amber-500',
+    CONDITIONAL_FAIL: 'text-orange-600',
+    FAIL: 'text-red-600'
+};
 
-    const data = session.results.map(r => ({
-        x: r.nominal,
-        error: r.meanError,
-        uncertainty: r.expandedUncertainty,
-        upper: r.expandedUncertainty,
-        lower: -r.expandedUncertainty
-    }));
+// Specific risk of the statement: false acceptance for accepted points, false rejection for rejected ones
+const RiskCell = ({ conformity }: { conformity: ConformityResult }) => {
+    const accepted = conformity.status === 'PASS' || conformity.status === 'CONDITIONAL_PASS';
+    const risk = accepted ? conformity.probabilityFalseAccept : conformity.probabilityFalseReject;
+    return <td className="p-1 border border-slate-300">{risk !== undefined && `${accepted ? 'PFA' : 'PFR'} ${(risk * 100).toFixed(2)} %`}</td>;
+};
 
-    const maxError = Math.max(...session.results.map(r => Math.abs(r.meanError)));
-    const maxUnc = Math.max(...session.results.map(r => r.expandedUncertainty));
-    const domainMax = Math.max(maxError, maxUnc) * 1.5;
+// Per-point conformity against ±T with the zones of the decision rule
+const ConformityTable = ({ results }: { results: CalibrationResult[] }) => (
+    <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+        <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+            <tr>
+                <th className="p-1 border border-slate-300">Nominal</th>
+                <th className="p-1 border border-slate-300">|Error|</th>
+                <th className="p-1 border border-slate-300">Tolerancia ±T</th>
+                <th className="p-1 border border-slate-300">Límite Aceptación</th>
+                <th className="p-1 border border-slate-300">PFA / PFR</th>
+                <th className="p-1 border border-slate-300">Resultado</th>
+            </tr>
+        </thead>
+        <tbody>
+            {results.map((r, i) => (
+                <tr key={i} className="text-center font-mono">
+                    <td className="p-1 border border-slate-300">{r.nominal.toFixed(2)}</td>
+                    <td className="p-1 border border-slate-300">{Math.abs(r.meanError).toFixed(4)}</td>
+                    <td className="p-1 border border-slate-300">{r.conformity.tolerance.toFixed(4)}</td>
+                    <td className="p-1 border border-slate-300">{r.conformity.acceptanceLimit.toFixed(4)}</td>
+                    <RiskCell conformity={r.conformity} />
+                    <td className={`p-1 border border-slate-300 font-bold ${CONFORMITY_COLORS[r.conformity.status]}`}>{CONFORMITY_LABELS[r.conformity.status]}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
 
+// Shared frame of the certificates: header, laboratory and customer, item, dates
+const CertificateFrame = ({ session, labProfile, onClose, item, children }: { session: CalibrationSession, labProfile: LaboratoryProfile, onClose: () => void, item: React.ReactNode, children: React.ReactNode }) => {
     // ISO 17025 Requirement: Dates
     const calibrationDate = new Date(session.date);
     const issueDate = new Date(); // Today
@@ -101,43 +142,7 @@ const CertificatePreviewModal = ({ session, standards, labProfile, onClose }: {
                     </div>
 
                     {/* 7.8.2.1 g) Identification of the Item */}
-                    <div className="mb-6 border border-slate-300 dark:border-slate-600">
-                        <div className="bg-slate-100 dark:bg-slate-800 p-2 font-bold uppercase text-xs border-b border-slate-300 dark:border-slate-600 text-center">
-                            Descripción del Ítem de Calibración
-                        </div>
-                        <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600">
-                            <div className="p-3">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">Instrumento</span>
-                                <span className="font-bold block">{session.instrument.manufacturer}</span>
-                            </div>
-                            <div className="p-3">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">Modelo</span>
-                                <span className="font-bold block">{session.instrument.model}</span>
-                            </div>
-                            <div className="p-3">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">No. de Serie</span>
-                                <span className="font-bold block font-mono">{session.instrument.serialNumber}</span>
-                            </div>
-                            <div className="p-3">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">Identificación (TAG)</span>
-                                <span className="font-bold block">{session.instrument.identificationId || 'N/A'}</span>
-                            </div>
-                        </div>
-                        <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600 border-t border-slate-300 dark:border-slate-600">
-                             <div className="p-3">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">Rango de Medición</span>
-                                <span className="font-bold block">{session.instrument.rangeMin} a {session.instrument.rangeMax} {session.instrument.unit}</span>
-                            </div>
-                            <div className="p-3">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">Resolución</span>
-                                <span className="font-bold block">{session.instrument.resolution} {session.instrument.unit}</span>
-                            </div>
-                            <div className="p-3 col-span-2">
-                                <span className="block text-[9px] text-slate-500 uppercase mb-1">Condición de Recepción</span>
-                                <span className="font-bold block text-emerald-600 dark:text-emerald-400">{session.instrument.conditionReceived || 'Adecuada'}</span>
-                            </div>
-                        </div>
-                    </div>
+                    {item}
 
                     {/* 7.8.2.1 h), i), j) Dates & Location */}
                     <div className="grid grid-cols-4 gap-4 mb-6 text-center">
@@ -159,144 +164,1269 @@ const CertificatePreviewModal = ({ session, standards, labProfile, onClose }: {
                         </div>
                     </div>
 
-                    {/* 7.8.2.1 f) Method & 7.8.4.1 c) Traceability */}
-                    <div className="mb-6 space-y-4">
-                        <div>
-                             <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Método de Calibración</h4>
-                             <p className="text-justify">
-                                La calibración se realizó por el método de comparación directa contra patrones de trabajo de acuerdo con la directriz técnica 
-                                <strong> DKD-R 6-1 "Calibración de instrumentos de medición de presión"</strong>, secuencia {session.sequence}.
-                             </p>
-                        </div>
-                        <div>
-                             <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Trazabilidad Metrológica</h4>
-                             <p className="text-justify mb-2">
-                                Los resultados de medición son trazables al Sistema Internacional de Unidades (SI) a través de patrones nacionales mantenidos por el CENAM (México), NIST (USA) o PTB (Alemania).
-                             </p>
-                             <table className="w-full text-xs border border-slate-300">
-                                 <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-center">
-                                     <tr>
-                                         <td className="p-1 border-r">Patrón Utilizado</td>
-                                         <td className="p-1 border-r">No. Serie</td>
-                                         <td className="p-1 border-r">Certificado No.</td>
-                                         <td className="p-1">Trazabilidad / Laboratorio</td>
-                                     </tr>
-                                 </thead>
-                                 <tbody>
-                                     {stdUsed ? (
-                                         <tr className="text-center">
-                                             <td className="p-1 border-r border-t">{stdUsed.name}</td>
-                                             <td className="p-1 border-r border-t font-mono">{stdUsed.serialNumber}</td>
-                                             <td className="p-1 border-r border-t font-mono">{stdUsed.certificateNumber}</td>
-                                             <td className="p-1 border-t">{stdUsed.calibratedBy}</td>
-                                         </tr>
-                                     ) : (
-                                         <tr className="text-center"><td colSpan={4} className="p-1 border-t text-red-500">Información del patrón no disponible</td></tr>
-                                     )}
-                                 </tbody>
-                             </table>
+                    {children}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Disclaimer, signatures, annexes and end of document
+const CertificateClosing = ({ children }: { children?: React.ReactNode }) => (
+    <>
+        {/* 7.8.2.1 l) Disclaimer */}
+        <div className="mb-8 text-xs font-bold text-slate-600">
+            Nota: Los resultados contenidos en este certificado se refieren exclusivamente al ítem descrito y en el momento de la calibración.
+        </div>
+
+        {/* 7.8.2.1 o) Authorization / Signatures */}
+        <div className="flex justify-around mt-auto pt-8 border-t border-slate-300">
+            <div className="text-center">
+                <div className="mb-2 h-16 w-48 mx-auto flex items-end justify-center border-b border-slate-800">
+                    <span className="font-signature text-2xl text-slate-600 italic">Luis A. Vieira</span>
+                </div>
+                <p className="font-bold text-xs uppercase">Ing. Luis Albeiro Vieira</p>
+                <p className="text-[10px] text-slate-500 uppercase">Metrólogo / Realizó</p>
+            </div>
+            <div className="text-center">
+                 <div className="mb-2 h-16 w-48 mx-auto flex items-end justify-center border-b border-slate-800">
+                    <span className="font-signature text-2xl text-slate-600 italic">Marco Estrada</span>
+                </div>
+                <p className="font-bold text-xs uppercase">Ing. Marco Estrada</p>
+                <p className="text-[10px] text-slate-500 uppercase">Gerente Técnico / Autorizó</p>
+            </div>
+        </div>
+
+        {children}
+
+        {/* 7.8.2.1 Reproduction warning */}
+        <div className="mt-8 text-center">
+            <p className="text-[9px] text-slate-400 uppercase">
+                Este certificado no podrá ser reproducido parcialmente sin la aprobación por escrito del laboratorio emisor.
+            </p>
+            {/* 7.8.2.1 d) End of Document */}
+            <p className="text-[9px] text-slate-800 font-bold mt-1 uppercase tracking-widest">--- Fin del Documento ---</p>
+        </div>
+    </>
+);
+
+const CertificatePreviewModal = ({ session, standards, labProfile, onClose }: { session: CalibrationSession, standards: ReferenceStandard[], labProfile: LaboratoryProfile, onClose: () => void }) => {
+    if (!session.results) return null;
+
+    // Find the standard used to get traceability info
+    const stdUsed = standards.find(s => s.id === session.standardId);
+    const electricalStd = standards.find(s => s.id === session.electricalStandardId);
+    const barometerStd = standards.find(s => s.id === session.barometerStandardId);
+    // Distinct standards used for the environmental conditions (a thermohygrometer may cover several quantities)
+    const envStds = Array.from(new Set(Object.values(session.envStandards || {}).filter(Boolean))).map(id => standards.find(s => s.id === id)).filter((s): s is ReferenceStandard => !!s);
+    const pressureMode = session.pressureMode || 'gauge';
+    const pressureUnit = `${session.instrument.unit} ${PRESSURE_MODE_SUFFIX[pressureMode]}`;
+    const decisionRule = session.decisionRule || DEFAULT_DECISION_RULE;
+    const asFound = session.adjustment ? session.asFound : undefined;
+    const earlyReadings = session.points.flatMap(p => (Object.entries(p.readingStamps || {}) as [SeriesKey, ReadingStamp][])
+        .filter(([, stamp]) => stamp.early).map(([key, stamp]) => ({ nominal: p.nominal, key, stamp })));
+
+    const data = session.results.map(r => ({
+        x: r.nominal,
+        error: r.meanError,
+        uncertainty: r.expandedUncertainty,
+        upper: r.expandedUncertainty,
+        lower: -r.expandedUncertainty,
+        mpeUpper: r.conformity.tolerance,
+        mpeLower: -r.conformity.tolerance
+    }));
+
+    // Transmitter results (errors, U, budget) are expressed in the output signal unit
+    const tx = session.instrument.type === 'transmitter' ? session.instrument.transmitter : undefined;
+    const resultUnit = tx ? tx.outputUnit : session.instrument.unit;
+
+    const maxError = Math.max(...session.results.map(r => Math.abs(r.meanError)));
+    const maxUnc = Math.max(...session.results.map(r => r.expandedUncertainty));
+    const maxMPE = Math.max(...session.results.map(r => r.conformity.tolerance));
+    const domainMax = Math.max(maxError, maxUnc, maxMPE) * 1.5;
+
+    return (
+        <CertificateFrame session={session} labProfile={labProfile} onClose={onClose} item={
+            <div className="mb-6 border border-slate-300 dark:border-slate-600">
+                <div className="bg-slate-100 dark:bg-slate-800 p-2 font-bold uppercase text-xs border-b border-slate-300 dark:border-slate-600 text-center">
+                    Descripción del Ítem de Calibración
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600">
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Instrumento</span>
+                        <span className="font-bold block">{session.instrument.manufacturer}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Modelo</span>
+                        <span className="font-bold block">{session.instrument.model}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">No. de Serie</span>
+                        <span className="font-bold block font-mono">{session.instrument.serialNumber}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Identificación (TAG)</span>
+                        <span className="font-bold block">{session.instrument.identificationId || 'N/A'}</span>
+                    </div>
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600 border-t border-slate-300 dark:border-slate-600">
+                     <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Rango de Medición</span>
+                        <span className="font-bold block">{session.instrument.rangeMin} a {session.instrument.rangeMax} {pressureUnit}</span>
+                        <span className="block text-[9px] text-slate-500">Presión {PRESSURE_MODE_LABELS[pressureMode].toLowerCase()}{pressureMode === 'differential' && session.linePressure !== undefined && ` · línea ${session.linePressure} ${session.instrument.unit}`}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Resolución</span>
+                        <span className="font-bold block">{session.instrument.resolution} {session.instrument.unit}</span>
+                    </div>
+                    {tx && (
+                        <div className="p-3">
+                            <span className="block text-[9px] text-slate-500 uppercase mb-1">Señal de Salida</span>
+                            <span className="font-bold block">{tx.outputMin} a {tx.outputMax} {tx.outputUnit} · {TRANSFER_FUNCTION_LABELS[tx.transferFunction]}</span>
                         </div>
+                    )}
+                    <div className={`p-3 ${tx ? '' : 'col-span-2'}`}>
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Condición de Recepción</span>
+                        <span className="font-bold block text-emerald-600 dark:text-emerald-400">{session.instrument.conditionReceived || 'Adecuada'}</span>
+                    </div>
+                </div>
+            </div>
+        }>
+            {/* 7.8.2.1 f) Method & 7.8.4.1 c) Traceability */}
+            <div className="mb-6 space-y-4">
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Método de Calibración</h4>
+                     <p className="text-justify">
+                        La calibración se realizó por el método de comparación directa contra patrones de trabajo de acuerdo con la directriz técnica 
+                        <strong> DKD-R 6-1 "Calibración de instrumentos de medición de presión"</strong>, secuencia {session.sequence}.
+                     </p>
+                </div>
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Trazabilidad Metrológica</h4>
+                     <p className="text-justify mb-2">
+                        Los resultados de medición son trazables al Sistema Internacional de Unidades (SI) a través de patrones nacionales mantenidos por el CENAM (México), NIST (USA) o PTB (Alemania).
+                     </p>
+                     <table className="w-full text-xs border border-slate-300">
+                         <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-center">
+                             <tr>
+                                 <td className="p-1 border-r">Patrón Utilizado</td>
+                                 <td className="p-1 border-r">No. Serie</td>
+                                 <td className="p-1 border-r">Certificado No.</td>
+                                 <td className="p-1">Trazabilidad / Laboratorio</td>
+                             </tr>
+                         </thead>
+                         <tbody>
+                             {stdUsed ? (
+                                 <tr className="text-center">
+                                     <td className="p-1 border-r border-t">{stdUsed.name}</td>
+                                     <td className="p-1 border-r border-t font-mono">{stdUsed.serialNumber}</td>
+                                     <td className="p-1 border-r border-t font-mono">{stdUsed.certificateNumber}</td>
+                                     <td className="p-1 border-t">{stdUsed.calibratedBy}</td>
+                                 </tr>
+                             ) : (
+                                 <tr className="text-center"><td colSpan={4} className="p-1 border-t text-red-500">Información del patrón no disponible</td></tr>
+                             )}
+                             {barometerStd && (
+                                 <tr className="text-center">
+                                     <td className="p-1 border-r border-t">{barometerStd.name} (presión atmosférica)</td>
+                                     <td className="p-1 border-r border-t font-mono">{barometerStd.serialNumber}</td>
+                                     <td className="p-1 border-r border-t font-mono">{barometerStd.certificateNumber}</td>
+                                     <td className="p-1 border-t">{barometerStd.calibratedBy}</td>
+                                 </tr>
+                             )}
+                             {envStds.map(std => (
+                                 <tr key={std.id} className="text-center">
+                                     <td className="p-1 border-r border-t">{std.name} (condiciones ambientales)</td>
+                                     <td className="p-1 border-r border-t font-mono">{std.serialNumber}</td>
+                                     <td className="p-1 border-r border-t font-mono">{std.certificateNumber}</td>
+                                     <td className="p-1 border-t">{std.calibratedBy}</td>
+                                 </tr>
+                             ))}
+                             {electricalStd && (
+                                 <tr className="text-center">
+                                     <td className="p-1 border-r border-t">{electricalStd.name} (salida eléctrica)</td>
+                                     <td className="p-1 border-r border-t font-mono">{electricalStd.serialNumber}</td>
+                                     <td className="p-1 border-r border-t font-mono">{electricalStd.certificateNumber}</td>
+                                     <td className="p-1 border-t">{electricalStd.calibratedBy}</td>
+                                 </tr>
+                             )}
+                         </tbody>
+                     </table>
+                </div>
+            </div>
+
+            {/* 7.8.4.1 b) Environmental Conditions */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Condiciones Ambientales</h4>
+                {session.envConditions ? (
+                <div className="flex flex-wrap gap-x-8 gap-y-1 text-xs">
+                     <span><strong>Temperatura:</strong> {session.envConditions.mean.temp.toFixed(1)} °C ± {session.envConditions.uncertainty.temp.toFixed(1)} °C</span>
+                     <span><strong>Humedad Relativa:</strong> {session.envConditions.mean.humidity.toFixed(1)} %HR ± {session.envConditions.uncertainty.humidity.toFixed(1)} %HR</span>
+                     <span><strong>Presión Atmosférica:</strong> {session.envConditions.mean.pressure.toFixed(1)} hPa ± {session.envConditions.uncertainty.pressure.toFixed(1)} hPa</span>
+                     <span><strong>Densidad del Aire:</strong> {session.envConditions.airDensity.toFixed(4)} kg/m³ ± {(2 * session.envConditions.airDensityUncertainty).toFixed(4)} kg/m³</span>
+                     <span className="w-full text-[10px] text-slate-500">Valores corregidos con la curva de calibración de los patrones ambientales; incertidumbres expandidas (k=2).</span>
+                </div>
+                ) : (
+                <div className="flex gap-8 text-xs">
+                     <span><strong>Temperatura:</strong> {((session.envReadings.start.temp + session.envReadings.end.temp)/2).toFixed(1)} °C ± 0.5 °C</span>
+                     <span><strong>Humedad Relativa:</strong> {((session.envReadings.start.humidity + session.envReadings.end.humidity)/2).toFixed(1)} %HR ± 3 %HR</span>
+                     <span><strong>Presión Atmosférica:</strong> {((session.envReadings.start.pressure + session.envReadings.end.pressure)/2).toFixed(0)} hPa</span>
+                </div>
+                )}
+                {session.envViolations && session.envViolations.length > 0 && (
+                    <div className="mt-2 p-2 border border-red-300 text-[10px] text-red-600">
+                        <strong>Desviación de las condiciones ambientales:</strong> la calibración se realizó fuera de los límites del laboratorio
+                        {session.envLimits && ` (${session.envLimits.tempMin} … ${session.envLimits.tempMax} °C, deriva ≤ ${session.envLimits.maxTempDrift} °C, ${session.envLimits.humidityMin} … ${session.envLimits.humidityMax} %HR)`}.
+                        <ul className="list-disc ml-4 mt-1">
+                            {session.envViolations.map((v, i) => <li key={i}>{describeEnvViolation(v)}</li>)}
+                        </ul>
                     </div>
+                )}
+            </div>
 
-                    {/* 7.8.4.1 b) Environmental Conditions */}
-                    <div className="mb-6">
-                        <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Condiciones Ambientales</h4>
-                        <div className="flex gap-8 text-xs">
-                             <span><strong>Temperatura:</strong> {((session.envReadings.start.temp + session.envReadings.end.temp)/2).toFixed(1)} °C ± 0.5 °C</span>
-                             <span><strong>Humedad Relativa:</strong> {((session.envReadings.start.humidity + session.envReadings.end.humidity)/2).toFixed(1)} %HR ± 3 %HR</span>
-                             <span><strong>Presión Atmosférica:</strong> {((session.envReadings.start.pressure + session.envReadings.end.pressure)/2).toFixed(0)} hPa</span>
+            {/* Timing of the sequence: waits, stability of the standard and readings taken early */}
+            {session.waitTimes && (
+                <div className="mb-6 text-[10px] text-slate-600 dark:text-slate-400">
+                    <strong>Tiempos de espera:</strong> precarga {session.waitTimes.preload} s, escalón {session.waitTimes.step} s, tope {session.waitTimes.top} s
+                    {session.stabilityCriterion && `; criterio de estabilidad del patrón: cambio < ${session.stabilityCriterion.maxChange} ${stdUsed?.unit || ''} en ${session.stabilityCriterion.window} s`}.
+                    {earlyReadings.length > 0 && (
+                        <div className="mt-1 p-2 border border-amber-300 text-amber-700">
+                            <strong>Lecturas tomadas antes de cumplir los criterios:</strong>
+                            <ul className="list-disc ml-4 mt-1">
+                                {earlyReadings.map((r, i) => <li key={i}>{r.nominal} {session.instrument.unit} · {SERIES_LABELS[r.key]} · {new Date(r.stamp.time).toLocaleTimeString()}{r.stamp.waited !== undefined && ` (${r.stamp.waited} s)`}: {r.stamp.early!.map(e => EARLY_READING_LABELS[e]).join(', ')}</li>)}
+                            </ul>
                         </div>
-                    </div>
+                    )}
+                </div>
+            )}
 
-                    {/* 7.8.1.2 Results */}
-                    <div className="mb-6">
-                        <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Resultados de Medición</h4>
-                        <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
-                            <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+            {/* Suspect points screened with Cochran and the decision taken */}
+            {session.outlierDecisions && session.outlierDecisions.length > 0 && (
+                <div className="mb-6 text-[10px] text-slate-600 dark:text-slate-400">
+                    <strong>Datos atípicos:</strong>
+                    <ul className="list-disc ml-4 mt-1">
+                        {session.outlierDecisions.map((d, i) => <li key={i}>{d.nominal} {session.instrument.unit}{d.series && ` · ${SERIES_LABELS[d.series]}`} · {describeOutlier(d)} — {OUTLIER_ACTION_LABELS[d.action]}: {d.justification}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            {/* 7.8.1.2 Results before adjustment */}
+            {asFound && (
+                <div className="mb-6">
+                    <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Resultados Como se Encontró (Antes del Ajuste)</h4>
+                    <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600 mb-2">
+                        <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                            <tr>
+                                <th className="p-2 border border-slate-300">Nominal<br/>({pressureUnit})</th>
+                                <th className="p-2 border border-slate-300">Valor del Patrón<br/>({pressureUnit})</th>
+                                <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error<br/>({resultUnit})</th>
+                                <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre <i>U</i><br/>({resultUnit})</th>
+                                <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {asFound.results.map((r, i) => (
+                                <tr key={i} className="text-center font-mono">
+                                    <td className="p-2 border border-slate-300">{r.nominal.toFixed(2)}</td>
+                                    <td className="p-2 border border-slate-300">{r.trueValue.toFixed(4)}</td>
+                                    <td className="p-2 border border-slate-300 font-bold">{r.meanError.toFixed(4)}</td>
+                                    <td className="p-2 border border-slate-300 font-bold">± {r.expandedUncertainty.toFixed(4)}</td>
+                                    <td className="p-2 border border-slate-300">{r.budget.coverageFactor.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <ConformityTable results={asFound.results} />
+                </div>
+            )}
+
+            {/* 7.8.1.2 Results */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Resultados de Medición{asFound && ' Como se Dejó (Después del Ajuste)'}</h4>
+                {tx ? (
+                <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                        <tr>
+                            <th className="p-2 border border-slate-300">Presión Nominal<br/>({pressureUnit})</th>
+                            <th className="p-2 border border-slate-300">Valor del Patrón<br/>({pressureUnit})</th>
+                            <th className="p-2 border border-slate-300">Salida Ideal<br/>({tx.outputUnit})</th>
+                            <th className="p-2 border border-slate-300">Salida Medida<br/>({tx.outputUnit})</th>
+                            <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error<br/>(% span)</th>
+                            <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre <i>U</i><br/>(% span)</th>
+                            <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {session.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono hover:bg-slate-50">
+                                <td className="p-2 border border-slate-300">{r.nominal.toFixed(2)}</td>
+                                <td className="p-2 border border-slate-300">{r.trueValue.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300">{r.transmitter?.idealOutput.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300">{r.transmitter?.meanOutput.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300 font-bold text-slate-800 dark:text-white bg-orange-50 dark:bg-orange-900/10">{r.transmitter?.errorPercentSpan.toFixed(3)}</td>
+                                <td className="p-2 border border-slate-300 font-bold text-brand-blue bg-blue-50 dark:bg-blue-900/10">± {r.transmitter?.uncertaintyPercentSpan.toFixed(3)}</td>
+                                <td className="p-2 border border-slate-300">{r.budget.coverageFactor.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                ) : (
+                <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                        <tr>
+                            <th className="p-2 border border-slate-300">Presión Nominal<br/>({pressureUnit})</th>
+                            <th className="p-2 border border-slate-300">Valor del Patrón<br/>({pressureUnit})</th>
+                            <th className="p-2 border border-slate-300">Indicación IBC<br/>(Ascenso)</th>
+                            <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error de<br/>Indicación</th>
+                            <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre<br/>Expandida <i>U</i></th>
+                            <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {session.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono hover:bg-slate-50">
+                                <td className="p-2 border border-slate-300">{r.nominal.toFixed(2)}</td>
+                                <td className="p-2 border border-slate-300">{r.trueValue.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300">{(r.trueValue + r.meanError).toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300 font-bold text-slate-800 dark:text-white bg-orange-50 dark:bg-orange-900/10">{r.meanError.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300 font-bold text-brand-blue bg-blue-50 dark:bg-blue-900/10">± {r.expandedUncertainty.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300">{r.budget.coverageFactor.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                )}
+                
+                {/* DKD-R 6-1 contributions per point */}
+                <h4 className="font-bold uppercase text-[10px] text-slate-500 mt-4 mb-1">Presupuesto de Incertidumbre por Punto (Contribuciones |c<sub>i</sub>|·u(x<sub>i</sub>), {resultUnit})</h4>
+                <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                        <tr>
+                            <th className="p-1 border border-slate-300">Nominal</th>
+                            <th className="p-1 border border-slate-300">b'</th>
+                            <th className="p-1 border border-slate-300">h</th>
+                            <th className="p-1 border border-slate-300">f0</th>
+                            {session.results[0]?.budget.components.map(c => (
+                                <th key={c.symbol} className="p-1 border border-slate-300" title={`${c.label} · ${c.distribution} · ÷${c.divisor.toFixed(3)} · Tipo ${c.evaluationType}`}>{c.symbol}</th>
+                            ))}
+                            <th className="p-1 border border-slate-300">u<sub>c</sub></th>
+                            <th className="p-1 border border-slate-300">ν<sub>eff</sub></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {session.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono">
+                                <td className="p-1 border border-slate-300">{r.nominal.toFixed(2)}</td>
+                                <td className="p-1 border border-slate-300">{r.repeatability.toFixed(4)}</td>
+                                <td className="p-1 border border-slate-300">{r.hysteresis.toFixed(4)}</td>
+                                <td className="p-1 border border-slate-300">{r.zeroError.toFixed(4)}</td>
+                                {r.budget.components.map(c => (
+                                    <td key={c.symbol} className="p-1 border border-slate-300" title={`x = ${c.estimate.toPrecision(6)} · u(x) = ${c.standardUncertainty.toExponential(3)} · c = ${c.sensitivityCoefficient.toPrecision(4)} · ν = ${isFinite(c.degreesOfFreedom) ? c.degreesOfFreedom : '∞'}`}>{c.contribution.toExponential(2)}</td>
+                                ))}
+                                <td className="p-1 border border-slate-300 font-bold">{r.budget.combinedStandardUncertainty.toExponential(2)}</td>
+                                <td className="p-1 border border-slate-300">{isFinite(r.budget.effectiveDegreesOfFreedom) ? r.budget.effectiveDegreesOfFreedom.toFixed(1) : '∞'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {/* GUM Supplement 1 validation */}
+                {session.results[0]?.monteCarlo && (
+                    <>
+                        <h4 className="font-bold uppercase text-[10px] text-slate-500 mt-4 mb-1">Validación Monte Carlo GUM-S1 (p = {session.results[0].monteCarlo.coverageProbability}%)</h4>
+                        <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                            <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
                                 <tr>
-                                    <th className="p-2 border border-slate-300">Presión Nominal<br/>({session.instrument.unit})</th>
-                                    <th className="p-2 border border-slate-300">Valor del Patrón<br/>({session.instrument.unit})</th>
-                                    <th className="p-2 border border-slate-300">Indicación IBC<br/>(Ascenso)</th>
-                                    <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error de<br/>Indicación</th>
-                                    <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre<br/>Expandida <i>U</i></th>
-                                    <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                                    <th className="p-1 border border-slate-300">Nominal</th>
+                                    <th className="p-1 border border-slate-300">M</th>
+                                    <th className="p-1 border border-slate-300">u(y) MC</th>
+                                    <th className="p-1 border border-slate-300">Intervalo MC</th>
+                                    <th className="p-1 border border-slate-300">Intervalo GUM</th>
+                                    <th className="p-1 border border-slate-300">d<sub>low</sub> / d<sub>high</sub></th>
+                                    <th className="p-1 border border-slate-300">δ</th>
+                                    <th className="p-1 border border-slate-300">GUM</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {session.results.map((r, i) => (
-                                    <tr key={i} className="text-center font-mono hover:bg-slate-50">
-                                        <td className="p-2 border border-slate-300">{r.nominal.toFixed(2)}</td>
-                                        <td className="p-2 border border-slate-300">{r.trueValue.toFixed(4)}</td>
-                                        <td className="p-2 border border-slate-300">{(r.trueValue + r.meanError).toFixed(4)}</td>
-                                        <td className="p-2 border border-slate-300 font-bold text-slate-800 dark:text-white bg-orange-50 dark:bg-orange-900/10">{r.meanError.toFixed(4)}</td>
-                                        <td className="p-2 border border-slate-300 font-bold text-brand-blue bg-blue-50 dark:bg-blue-900/10">± {r.expandedUncertainty.toFixed(4)}</td>
-                                        <td className="p-2 border border-slate-300">2.00</td>
+                                {session.results.map((r, i) => r.monteCarlo && (
+                                    <tr key={i} className="text-center font-mono">
+                                        <td className="p-1 border border-slate-300">{r.nominal.toFixed(2)}</td>
+                                        <td className="p-1 border border-slate-300">{r.monteCarlo.trials.toExponential(1)}</td>
+                                        <td className="p-1 border border-slate-300">{r.monteCarlo.standardUncertainty.toExponential(2)}</td>
+                                        <td className="p-1 border border-slate-300">[{r.monteCarlo.coverageInterval[0].toFixed(4)}, {r.monteCarlo.coverageInterval[1].toFixed(4)}]</td>
+                                        <td className="p-1 border border-slate-300">[{r.monteCarlo.validation.gumInterval[0].toFixed(4)}, {r.monteCarlo.validation.gumInterval[1].toFixed(4)}]</td>
+                                        <td className="p-1 border border-slate-300">{r.monteCarlo.validation.dLow.toExponential(1)} / {r.monteCarlo.validation.dHigh.toExponential(1)}</td>
+                                        <td className="p-1 border border-slate-300">{r.monteCarlo.validation.tolerance.toExponential(1)}</td>
+                                        {/* Sessions stored before the adaptive procedure have no stability flag */}
+                                        {r.monteCarlo.validation.stable === false
+                                            ? <td className="p-1 border border-slate-300 font-bold text-amber-500">NO CONCLUYENTE</td>
+                                            : <td className={`p-1 border border-slate-300 font-bold ${r.monteCarlo.validation.passed ? 'text-emerald-600' : 'text-red-500'}`}>{r.monteCarlo.validation.passed ? 'VALIDADO' : 'NO VALIDADO'}</td>}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+
+                {/* 7.8.4.1 a) Statement on Uncertainty */}
+                <p className="mt-2 text-[10px] text-slate-500 text-justify">
+                    La incertidumbre de medición reportada se declara como la incertidumbre estándar combinada multiplicada por el factor de cobertura <i>k</i> indicado para cada punto, obtenido de la distribución t de Student con los grados de libertad efectivos ν<sub>eff</sub> (Welch-Satterthwaite), para una probabilidad de cobertura de aproximadamente el 95.45%. La incertidumbre estándar de medición se ha determinado de acuerdo con la "Guía para la Expresión de la Incertidumbre de Medición" (GUM).
+                </p>
+            </div>
+
+            {/* 7.8.6 Statement of Conformity */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Declaración de Conformidad</h4>
+                <p className="text-justify mb-2">
+                    Regla de decisión aplicada: <strong>{DECISION_RULE_LABELS[decisionRule.type]}</strong>
+                    {hasGuardBand(decisionRule.type) && <> con banda de guarda <i>w</i> = {decisionRule.guardBandFactor}·<i>U</i></>}.
+                    La tolerancia corresponde al error máximo permitido declarado por el fabricante ({describeTolerance(session.instrument)}), evaluado en cada indicación. Para los puntos aceptados se informa la probabilidad de falsa aceptación (PFA) y para los rechazados la de falso rechazo (PFR), ambas con una distribución normal centrada en el error medido con desviación <i>u<sub>c</sub></i>.
+                </p>
+                {asFound && <p className="mb-1 font-bold">Como se dejó (después del ajuste):</p>}
+                <ConformityTable results={session.results} />
+                {asFound && (
+                    <p className="mt-2">
+                        Como se encontró (antes del ajuste): {asFound.results.every(r => r.compliance) ? 'el instrumento cumplía' : `el instrumento no cumplía en ${asFound.results.filter(r => !r.compliance).length} de ${asFound.results.length} puntos`} con la tolerancia especificada (ver tabla de resultados como se encontró).
+                    </p>
+                )}
+            </div>
+
+            {/* Graph (Optional but good practice) */}
+            <div className="h-32 w-full border border-slate-200 dark:border-slate-700 mb-6 p-2 bg-white dark:bg-slate-900 opacity-80">
+                 <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="x" hide />
+                        <YAxis hide domain={[-domainMax, domainMax]} />
+                        <ReferenceLine y={0} stroke="#94a3b8" />
+                        <Line type="monotone" dataKey="error" stroke="#f97316" strokeWidth={2} dot={{r: 2}} />
+                        <Line type="monotone" dataKey="upper" stroke="#0ea5e9" strokeDasharray="3 3" dot={false} strokeWidth={1}/>
+                        <Line type="monotone" dataKey="lower" stroke="#0ea5e9" strokeDasharray="3 3" dot={false} strokeWidth={1}/>
+                        {/* Maximum permissible error envelope */}
+                        <Line type="linear" dataKey="mpeUpper" stroke="#ef4444" dot={false} strokeWidth={1}/>
+                        <Line type="linear" dataKey="mpeLower" stroke="#ef4444" dot={false} strokeWidth={1}/>
+                    </LineChart>
+                 </ResponsiveContainer>
+            </div>
+
+            {/* 7.8.4.1 d) Adjustment Statement */}
+            <div className="mb-4 text-xs">
+                <strong>Ajuste del Instrumento:</strong> {session.adjustment
+                    ? <>El {new Date(session.adjustment.date).toLocaleDateString()} se realizó el siguiente ajuste ({session.adjustment.technician}): {session.adjustment.description}. Se reportan los resultados como se encontró (antes del ajuste) y como se dejó (después del ajuste).</>
+                    : <>No se realizaron ajustes al instrumento. Los resultados corresponden al estado "como se recibió".</>}
+            </div>
+
+            <CertificateClosing>
+                {/* Annex: correction curve of the instrument */}
+                {session.correctionCurve && (
+                    <div className="mt-8 pt-4 border-t-2 border-brand-blue print:break-before-page">
+                        <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Anexo A — Curva y Tabla de Corrección</h4>
+                        <p className="text-justify mb-2">
+                            Corrección <i>C</i> = −<i>E</i> ajustada sobre la indicación ({resultUnit}) mediante el modelo <strong>{CORRECTION_MODEL_LABELS[session.correctionCurve.model]}</strong>
+                            {session.correctionCurve.selection === 'auto' && ' (seleccionado por mínimo AICc)'}:
+                        </p>
+                        <p className="font-mono text-center text-sm mb-1">C = {session.correctionCurve.regression.equationString.replace(/^y = /, '')}</p>
+                        <p className="text-center text-[10px] text-slate-500 mb-3">
+                            R² = {session.correctionCurve.regression.rSquared.toFixed(6)} · s<sub>res</sub> = {session.correctionCurve.regression.residualStdDev.toExponential(3)} {resultUnit} · n = {session.correctionCurve.regression.n}
+                        </p>
+                        <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                            <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                                <tr>
+                                    <th className="p-1 border border-slate-300">Indicación ({resultUnit})</th>
+                                    <th className="p-1 border border-slate-300">Corrección ({resultUnit})</th>
+                                    <th className="p-1 border border-slate-300">Valor Corregido ({resultUnit})</th>
+                                    <th className="p-1 border border-slate-300">Incertidumbre <i>U</i> (k=2)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {session.correctionCurve.table.map((row, i) => (
+                                    <tr key={i} className="text-center font-mono">
+                                        <td className="p-1 border border-slate-300">{row.indication.toPrecision(6)}</td>
+                                        <td className="p-1 border border-slate-300">{row.correction.toFixed(4)}</td>
+                                        <td className="p-1 border border-slate-300">{(row.indication + row.correction).toPrecision(6)}</td>
+                                        <td className="p-1 border border-slate-300">± {row.uncertainty.toFixed(4)}</td>
                                     </tr>
                                 ))}
                             </tbody>
                         </table>
-                        
-                        {/* 7.8.4.1 a) Statement on Uncertainty */}
                         <p className="mt-2 text-[10px] text-slate-500 text-justify">
-                            La incertidumbre de medición reportada se declara como la incertidumbre estándar de medición multiplicada por el factor de cobertura <i>k</i>=2, el cual para una distribución normal corresponde a una probabilidad de cobertura de aproximadamente el 95%. La incertidumbre estándar de medición se ha determinado de acuerdo con la "Guía para la Expresión de la Incertidumbre de Medición" (GUM).
+                            La incertidumbre de la tabla combina la incertidumbre de calibración interpolada entre los puntos medidos con la incertidumbre de interpolación del modelo. La corrección solo es válida dentro del intervalo de indicaciones calibrado.
                         </p>
                     </div>
+                )}
+            </CertificateClosing>
+        </CertificateFrame>
+    );
+};
 
-                    {/* Graph (Optional but good practice) */}
-                    <div className="h-32 w-full border border-slate-200 dark:border-slate-700 mb-6 p-2 bg-white dark:bg-slate-900 opacity-80">
-                         <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
-                                <CartesianGrid strokeDasharray="3 3" />
-                                <XAxis dataKey="x" hide />
-                                <YAxis hide domain={[-domainMax, domainMax]} />
-                                <ReferenceLine y={0} stroke="#94a3b8" />
-                                <Line type="monotone" dataKey="error" stroke="#f97316" strokeWidth={2} dot={{r: 2}} />
-                                <Line type="monotone" dataKey="upper" stroke="#0ea5e9" strokeDasharray="3 3" dot={false} strokeWidth={1}/>
-                                <Line type="monotone" dataKey="lower" stroke="#0ea5e9" strokeDasharray="3 3" dot={false} strokeWidth={1}/>
-                            </LineChart>
-                         </ResponsiveContainer>
-                    </div>
+// Thermohygrometers calibrated in a climatic chamber: one table per channel plus the derived humidity quantities
+const ClimateCertificatePreviewModal = ({ session, standards, labProfile, onClose }: { session: CalibrationSession, standards: ReferenceStandard[], labProfile: LaboratoryProfile, onClose: () => void }) => {
+    const climate = session.climate!;
+    const tempStd = standards.find(s => s.id === climate.temperatureStandardId);
+    const humStd = standards.find(s => s.id === climate.humidityStandardId);
+    const stdsUsed = [tempStd, humStd].filter((s, i, all): s is ReferenceStandard => !!s && all.indexOf(s) === i);
+    const decisionRule = session.decisionRule || DEFAULT_DECISION_RULE;
+    const lab = session.envReadings.start;
+    const channels = [
+        { key: 'temperature' as const, label: 'Temperatura', unit: '°C', spec: climate.temperature, digits: 2 },
+        { key: 'humidity' as const, label: 'Humedad Relativa', unit: '%HR', spec: climate.humidity, digits: 1 }
+    ];
 
-                    {/* 7.8.4.1 d) Adjustment Statement */}
-                    <div className="mb-4 text-xs">
-                        <strong>Ajuste del Instrumento:</strong> No se realizaron ajustes al instrumento. Los resultados corresponden al estado "como se recibió".
+    return (
+        <CertificateFrame session={session} labProfile={labProfile} onClose={onClose} item={
+            <div className="mb-6 border border-slate-300 dark:border-slate-600">
+                <div className="bg-slate-100 dark:bg-slate-800 p-2 font-bold uppercase text-xs border-b border-slate-300 dark:border-slate-600 text-center">
+                    Descripción del Ítem de Calibración
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600">
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Instrumento</span>
+                        <span className="font-bold block">Termohigrómetro {session.instrument.manufacturer}</span>
                     </div>
-
-                    {/* 7.8.2.1 l) Disclaimer */}
-                    <div className="mb-8 text-xs font-bold text-slate-600">
-                        Nota: Los resultados contenidos en este certificado se refieren exclusivamente al ítem descrito y en el momento de la calibración.
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Modelo</span>
+                        <span className="font-bold block">{session.instrument.model}</span>
                     </div>
-
-                    {/* 7.8.2.1 o) Authorization / Signatures */}
-                    <div className="flex justify-around mt-auto pt-8 border-t border-slate-300">
-                        <div className="text-center">
-                            <div className="mb-2 h-16 w-48 mx-auto flex items-end justify-center border-b border-slate-800">
-                                <span className="font-signature text-2xl text-slate-600 italic">Luis A. Vieira</span>
-                            </div>
-                            <p className="font-bold text-xs uppercase">Ing. Luis Albeiro Vieira</p>
-                            <p className="text-[10px] text-slate-500 uppercase">Metrólogo / Realizó</p>
-                        </div>
-                        <div className="text-center">
-                             <div className="mb-2 h-16 w-48 mx-auto flex items-end justify-center border-b border-slate-800">
-                                <span className="font-signature text-2xl text-slate-600 italic">Marco Estrada</span>
-                            </div>
-                            <p className="font-bold text-xs uppercase">Ing. Marco Estrada</p>
-                            <p className="text-[10px] text-slate-500 uppercase">Gerente Técnico / Autorizó</p>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">No. de Serie</span>
+                        <span className="font-bold block font-mono">{session.instrument.serialNumber}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Identificación (TAG)</span>
+                        <span className="font-bold block">{session.instrument.identificationId || 'N/A'}</span>
+                    </div>
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600 border-t border-slate-300 dark:border-slate-600">
+                    {channels.map(c => (
+                        <div key={c.key} className="p-3">
+                            <span className="block text-[9px] text-slate-500 uppercase mb-1">Rango {c.label}</span>
+                            <span className="font-bold block">{c.spec.rangeMin} a {c.spec.rangeMax} {c.unit}</span>
+                            <span className="block text-[9px] text-slate-500">Resolución {c.spec.resolution} {c.unit}</span>
                         </div>
+                    ))}
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Ubicación del Sensor</span>
+                        <span className="font-bold block">{session.instrument.sensorLocation || 'N/A'}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Condición de Recepción</span>
+                        <span className="font-bold block text-emerald-600 dark:text-emerald-400">{session.instrument.conditionReceived || 'Adecuada'}</span>
                     </div>
+                </div>
+            </div>
+        }>
+            {/* 7.8.2.1 f) Method & 7.8.4.1 c) Traceability */}
+            <div className="mb-6 space-y-4">
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Método de Calibración</h4>
+                     <p className="text-justify">
+                        La calibración se realizó por comparación directa en cámara climática contra patrones de temperatura y de humedad relativa ubicados junto al sensor del instrumento,
+                        en {climate.results.length} puntos de consigna combinados de temperatura y humedad relativa con {climate.readingsPerPoint} lecturas por punto.
+                        La homogeneidad y la estabilidad de la cámara en cada punto se incluyen como contribuciones de la condición de referencia.
+                        El punto de rocío y la humedad absoluta se derivan con la fórmula de Magnus (Sonntag, 1990) sobre agua.
+                     </p>
+                </div>
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Trazabilidad Metrológica</h4>
+                     <p className="text-justify mb-2">
+                        Los resultados de medición son trazables al Sistema Internacional de Unidades (SI) a través de patrones nacionales mantenidos por el CENAM (México), NIST (USA) o PTB (Alemania).
+                     </p>
+                     <table className="w-full text-xs border border-slate-300">
+                         <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-center">
+                             <tr>
+                                 <td className="p-1 border-r">Patrón Utilizado</td>
+                                 <td className="p-1 border-r">No. Serie</td>
+                                 <td className="p-1 border-r">Certificado No.</td>
+                                 <td className="p-1">Trazabilidad / Laboratorio</td>
+                             </tr>
+                         </thead>
+                         <tbody>
+                             {stdsUsed.map(std => (
+                                 <tr key={std.id} className="text-center">
+                                     <td className="p-1 border-r border-t">{std.name} ({[std === tempStd && 'temperatura', std === humStd && 'humedad relativa'].filter(Boolean).join(' y ')})</td>
+                                     <td className="p-1 border-r border-t font-mono">{std.serialNumber}</td>
+                                     <td className="p-1 border-r border-t font-mono">{std.certificateNumber}</td>
+                                     <td className="p-1 border-t">{std.calibratedBy}</td>
+                                 </tr>
+                             ))}
+                             {stdsUsed.length === 0 && (
+                                 <tr className="text-center"><td colSpan={4} className="p-1 border-t text-red-500">Información del patrón no disponible</td></tr>
+                             )}
+                         </tbody>
+                     </table>
+                </div>
+            </div>
+
+            {/* 7.8.4.1 b) Environmental Conditions */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Condiciones Ambientales del Laboratorio</h4>
+                <div className="flex gap-8 text-xs">
+                     <span><strong>Temperatura:</strong> {lab.temp.toFixed(1)} °C</span>
+                     <span><strong>Humedad Relativa:</strong> {lab.humidity.toFixed(1)} %HR</span>
+                     <span><strong>Presión Atmosférica:</strong> {lab.pressure.toFixed(0)} hPa</span>
+                </div>
+            </div>
+
+            {/* 7.8.1.2 Results per channel */}
+            {channels.map(c => (
+                <div key={c.key} className="mb-6">
+                    <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Resultados de Medición — {c.label}</h4>
+                    <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                        <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                            <tr>
+                                <th className="p-2 border border-slate-300">Consigna<br/>(°C / %HR)</th>
+                                <th className="p-2 border border-slate-300">Valor del Patrón<br/>({c.unit})</th>
+                                <th className="p-2 border border-slate-300">Indicación IBC<br/>({c.unit})</th>
+                                <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error de<br/>Indicación</th>
+                                <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre<br/>Expandida <i>U</i></th>
+                                <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {climate.results.map((r, i) => (
+                                <tr key={i} className="text-center font-mono hover:bg-slate-50">
+                                    <td className="p-2 border border-slate-300">{r.setTemp} / {r.setHumidity}</td>
+                                    <td className="p-2 border border-slate-300">{r[c.key].reference.toFixed(c.digits + 1)}</td>
+                                    <td className="p-2 border border-slate-300">{r[c.key].indication.toFixed(c.digits + 1)}</td>
+                                    <td className="p-2 border border-slate-300 font-bold text-slate-800 dark:text-white bg-orange-50 dark:bg-orange-900/10">{r[c.key].error.toFixed(c.digits)}</td>
+                                    <td className="p-2 border border-slate-300 font-bold text-brand-blue bg-blue-50 dark:bg-blue-900/10">± {r[c.key].expandedUncertainty.toFixed(c.digits)}</td>
+                                    <td className="p-2 border border-slate-300">{r[c.key].budget.coverageFactor.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {/* Contributions of the standard, the chamber and the instrument */}
+                    <h4 className="font-bold uppercase text-[10px] text-slate-500 mt-4 mb-1">Presupuesto de Incertidumbre por Punto (Contribuciones |c<sub>i</sub>|·u(x<sub>i</sub>), {c.unit})</h4>
+                    <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                        <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                            <tr>
+                                <th className="p-1 border border-slate-300">Consigna</th>
+                                {climate.results[0]?.[c.key].budget.components.map(comp => (
+                                    <th key={comp.symbol} className="p-1 border border-slate-300" title={`${comp.label} · ${comp.distribution} · ÷${comp.divisor.toFixed(3)} · Tipo ${comp.evaluationType}`}>{comp.symbol}</th>
+                                ))}
+                                <th className="p-1 border border-slate-300">u<sub>c</sub></th>
+                                <th className="p-1 border border-slate-300">ν<sub>eff</sub></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {climate.results.map((r, i) => (
+                                <tr key={i} className="text-center font-mono">
+                                    <td className="p-1 border border-slate-300">{r.setTemp} / {r.setHumidity}</td>
+                                    {r[c.key].budget.components.map(comp => (
+                                        <td key={comp.symbol} className="p-1 border border-slate-300" title={`${comp.label} · u(x) = ${comp.standardUncertainty.toExponential(3)} · c = ${comp.sensitivityCoefficient.toPrecision(4)}`}>{comp.contribution.toExponential(2)}</td>
+                                    ))}
+                                    <td className="p-1 border border-slate-300 font-bold">{r[c.key].budget.combinedStandardUncertainty.toExponential(2)}</td>
+                                    <td className="p-1 border border-slate-300">{isFinite(r[c.key].budget.effectiveDegreesOfFreedom) ? r[c.key].budget.effectiveDegreesOfFreedom.toFixed(1) : '∞'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+
+            {/* Chamber characterization at each set point */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Caracterización de la Cámara Climática</h4>
+                <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                        <tr>
+                            <th className="p-1 border border-slate-300">Consigna (°C / %HR)</th>
+                            <th className="p-1 border border-slate-300">Homogeneidad T (± °C)</th>
+                            <th className="p-1 border border-slate-300">Estabilidad T (p-p, °C)</th>
+                            <th className="p-1 border border-slate-300">Homogeneidad HR (± %HR)</th>
+                            <th className="p-1 border border-slate-300">Estabilidad HR (p-p, %HR)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {climate.points.map((p, i) => (
+                            <tr key={i} className="text-center font-mono">
+                                <td className="p-1 border border-slate-300">{p.setTemp} / {p.setHumidity}</td>
+                                <td className="p-1 border border-slate-300">{p.chamber.tempHomogeneity.toFixed(2)}</td>
+                                <td className="p-1 border border-slate-300">{p.chamber.tempStability.toFixed(2)}</td>
+                                <td className="p-1 border border-slate-300">{p.chamber.humidityHomogeneity.toFixed(1)}</td>
+                                <td className="p-1 border border-slate-300">{p.chamber.humidityStability.toFixed(1)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Derived quantities of the reference condition and dew point error of the instrument */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Magnitudes Derivadas</h4>
+                <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                        <tr>
+                            <th className="p-2 border border-slate-300">Consigna<br/>(°C / %HR)</th>
+                            <th className="p-2 border border-slate-300">Punto de Rocío<br/>Patrón (°C)</th>
+                            <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error Punto<br/>de Rocío (°C)</th>
+                            <th className="p-2 border border-slate-300">Humedad Absoluta<br/>Patrón (g/m³)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {climate.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono">
+                                <td className="p-2 border border-slate-300">{r.setTemp} / {r.setHumidity}</td>
+                                <td className="p-2 border border-slate-300">{r.dewPoint.toFixed(2)} ± {r.dewPointUncertainty.toFixed(2)}</td>
+                                <td className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">{r.dewPointError.toFixed(2)} ± {r.dewPointErrorUncertainty.toFixed(2)}</td>
+                                <td className="p-2 border border-slate-300">{r.absoluteHumidity.toFixed(2)} ± {r.absoluteHumidityUncertainty.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {/* 7.8.4.1 a) Statement on Uncertainty */}
+                <p className="mt-2 text-[10px] text-slate-500 text-justify">
+                    La incertidumbre de medición reportada se declara como la incertidumbre estándar combinada multiplicada por el factor de cobertura <i>k</i> indicado para cada punto, obtenido de la distribución t de Student con los grados de libertad efectivos ν<sub>eff</sub> (Welch-Satterthwaite), para una probabilidad de cobertura de aproximadamente el 95.45%. Las incertidumbres de las magnitudes derivadas se propagan desde las de temperatura y humedad relativa con <i>k</i> = 2. La incertidumbre estándar de medición se ha determinado de acuerdo con la "Guía para la Expresión de la Incertidumbre de Medición" (GUM).
+                </p>
+            </div>
+
+            {/* 7.8.6 Statement of Conformity */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Declaración de Conformidad</h4>
+                <p className="text-justify mb-2">
+                    Regla de decisión aplicada: <strong>{DECISION_RULE_LABELS[decisionRule.type]}</strong>
+                    {hasGuardBand(decisionRule.type) && <> con banda de guarda <i>w</i> = {decisionRule.guardBandFactor}·<i>U</i></>}.
+                    Tolerancias declaradas por el fabricante: ± {climate.temperature.tolerance} °C en temperatura y ± {climate.humidity.tolerance} %HR en humedad relativa.
+                </p>
+                <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                        <tr>
+                            <th className="p-1 border border-slate-300">Consigna</th>
+                            <th className="p-1 border border-slate-300">Magnitud</th>
+                            <th className="p-1 border border-slate-300">|Error|</th>
+                            <th className="p-1 border border-slate-300">Tolerancia ±T</th>
+                            <th className="p-1 border border-slate-300">Límite Aceptación</th>
+                            <th className="p-1 border border-slate-300">PFA / PFR</th>
+                            <th className="p-1 border border-slate-300">Resultado</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {climate.results.flatMap((r, i) => channels.map(c => (
+                            <tr key={`${i}-${c.key}`} className="text-center font-mono">
+                                <td className="p-1 border border-slate-300">{r.setTemp} / {r.setHumidity}</td>
+                                <td className="p-1 border border-slate-300 font-sans">{c.label}</td>
+                                <td className="p-1 border border-slate-300">{Math.abs(r[c.key].error).toFixed(c.digits)} {c.unit}</td>
+                                <td className="p-1 border border-slate-300">{r[c.key].conformity.tolerance.toFixed(c.digits)}</td>
+                                <td className="p-1 border border-slate-300">{r[c.key].conformity.acceptanceLimit.toFixed(c.digits)}</td>
+                                <RiskCell conformity={r[c.key].conformity} />
+                                <td className={`p-1 border border-slate-300 font-bold ${CONFORMITY_COLORS[r[c.key].conformity.status]}`}>{CONFORMITY_LABELS[r[c.key].conformity.status]}</td>
+                            </tr>
+                        )))}
+                    </tbody>
+                </table>
+            </div>
 
-                    {/* 7.8.2.1 Reproduction warning */}
-                    <div className="mt-8 text-center">
-                        <p className="text-[9px] text-slate-400 uppercase">
-                            Este certificado no podrá ser reproducido parcialmente sin la aprobación por escrito del laboratorio emisor.
+            {/* 7.8.4.1 d) Adjustment Statement */}
+            <div className="mb-4 text-xs">
+                <strong>Ajuste del Instrumento:</strong> No se realizaron ajustes al instrumento. Los resultados corresponden al estado "como se recibió".
+            </div>
+
+            <CertificateClosing />
+        </CertificateFrame>
+    );
+};
+
+// Thermometers compared in a bath: temperature assigned to each indication, curve and table of the instrument
+const ThermometerCertificatePreviewModal = ({ session, standards, labProfile, onClose }: { session: CalibrationSession, standards: ReferenceStandard[], labProfile: LaboratoryProfile, onClose: () => void }) => {
+    const thermo = session.thermometer!;
+    const stdUsed = standards.find(s => s.id === thermo.standardId);
+    const decisionRule = session.decisionRule || DEFAULT_DECISION_RULE;
+    const lab = session.envReadings.start;
+    const unit = thermo.indicationUnit;
+    const isDirect = thermo.kind === 'direct';
+    const curve = thermo.curve;
+
+    return (
+        <CertificateFrame session={session} labProfile={labProfile} onClose={onClose} item={
+            <div className="mb-6 border border-slate-300 dark:border-slate-600">
+                <div className="bg-slate-100 dark:bg-slate-800 p-2 font-bold uppercase text-xs border-b border-slate-300 dark:border-slate-600 text-center">
+                    Descripción del Ítem de Calibración
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600">
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Instrumento</span>
+                        <span className="font-bold block">{THERMOMETER_KIND_LABELS[thermo.kind]} {session.instrument.manufacturer}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Modelo</span>
+                        <span className="font-bold block">{session.instrument.model}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">No. de Serie</span>
+                        <span className="font-bold block font-mono">{session.instrument.serialNumber}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Identificación (TAG)</span>
+                        <span className="font-bold block">{session.instrument.identificationId || 'N/A'}</span>
+                    </div>
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600 border-t border-slate-300 dark:border-slate-600">
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Rango de Medición</span>
+                        <span className="font-bold block">{session.instrument.rangeMin} a {session.instrument.rangeMax} °C</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Resolución</span>
+                        <span className="font-bold block">{session.instrument.resolution} {unit}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Inmersión</span>
+                        <span className="font-bold block">{thermo.immersionDepth} mm en {thermo.medium.toLowerCase()}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Condición de Recepción</span>
+                        <span className="font-bold block text-emerald-600 dark:text-emerald-400">{session.instrument.conditionReceived || 'Adecuada'}</span>
+                    </div>
+                </div>
+            </div>
+        }>
+            {/* 7.8.2.1 f) Method & 7.8.4.1 c) Traceability */}
+            <div className="mb-6 space-y-4">
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Método de Calibración</h4>
+                     <p className="text-justify">
+                        La calibración se realizó por comparación directa contra un termómetro patrón en un medio isotermo ({thermo.medium.toLowerCase()}),
+                        en {thermo.results.length} puntos con {thermo.readingsPerPoint} lecturas por punto. Los sensores se sumergieron {thermo.immersionDepth} mm;
+                        la uniformidad y la estabilidad del medio y el efecto de la profundidad de inmersión se incluyen como contribuciones de la temperatura de referencia.
+                        {!isDirect && ` Las indicaciones del instrumento se registraron en ${unit}.`}
+                     </p>
+                     {thermo.measuringCurrent !== undefined && (
+                        <p className="text-justify mt-1">
+                            Corriente de medición: {thermo.measuringCurrent} mA.
+                            {thermo.selfHeating !== undefined
+                                ? ` Autocalentamiento observado a √2 veces la corriente: ${thermo.selfHeating} °C; los resultados son válidos a la corriente de medición indicada.`
+                                : ' Los resultados son válidos a la corriente de medición indicada.'}
+                        </p>
+                     )}
+                </div>
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Trazabilidad Metrológica</h4>
+                     <p className="text-justify mb-2">
+                        Los resultados de medición son trazables al Sistema Internacional de Unidades (SI) a través de patrones nacionales mantenidos por el CENAM (México), NIST (USA) o PTB (Alemania).
+                     </p>
+                     <table className="w-full text-xs border border-slate-300">
+                         <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-center">
+                             <tr>
+                                 <td className="p-1 border-r">Patrón Utilizado</td>
+                                 <td className="p-1 border-r">No. Serie</td>
+                                 <td className="p-1 border-r">Certificado No.</td>
+                                 <td className="p-1">Trazabilidad / Laboratorio</td>
+                             </tr>
+                         </thead>
+                         <tbody>
+                             {stdUsed ? (
+                                 <tr className="text-center">
+                                     <td className="p-1 border-r border-t">{stdUsed.name}</td>
+                                     <td className="p-1 border-r border-t font-mono">{stdUsed.serialNumber}</td>
+                                     <td className="p-1 border-r border-t font-mono">{stdUsed.certificateNumber}</td>
+                                     <td className="p-1 border-t">{stdUsed.calibratedBy}</td>
+                                 </tr>
+                             ) : (
+                                 <tr className="text-center"><td colSpan={4} className="p-1 border-t text-red-500">Información del patrón no disponible</td></tr>
+                             )}
+                         </tbody>
+                     </table>
+                </div>
+            </div>
+
+            {/* 7.8.4.1 b) Environmental Conditions */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Condiciones Ambientales del Laboratorio</h4>
+                <div className="flex gap-8 text-xs">
+                     <span><strong>Temperatura:</strong> {lab.temp.toFixed(1)} °C</span>
+                     <span><strong>Humedad Relativa:</strong> {lab.humidity.toFixed(1)} %HR</span>
+                     <span><strong>Presión Atmosférica:</strong> {lab.pressure.toFixed(0)} hPa</span>
+                </div>
+            </div>
+
+            {/* 7.8.1.2 Results */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Resultados de Medición</h4>
+                <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                        <tr>
+                            <th className="p-2 border border-slate-300">Temperatura del Patrón<br/>(°C)</th>
+                            <th className="p-2 border border-slate-300">Indicación IBC<br/>({unit})</th>
+                            {isDirect && <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error de<br/>Indicación (°C)</th>}
+                            {isDirect && <th className="p-2 border border-slate-300">Corrección<br/>(°C)</th>}
+                            <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre<br/>Expandida <i>U</i> (°C)</th>
+                            <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {thermo.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono hover:bg-slate-50">
+                                <td className="p-2 border border-slate-300">{r.reference.toFixed(3)}</td>
+                                <td className="p-2 border border-slate-300">{r.indication.toFixed(isDirect ? 3 : 4)}</td>
+                                {isDirect && <td className="p-2 border border-slate-300 font-bold text-slate-800 dark:text-white bg-orange-50 dark:bg-orange-900/10">{r.error!.toFixed(3)}</td>}
+                                {isDirect && <td className="p-2 border border-slate-300">{(-r.error!).toFixed(3)}</td>}
+                                <td className="p-2 border border-slate-300 font-bold text-brand-blue bg-blue-50 dark:bg-blue-900/10">± {r.expandedUncertainty.toFixed(3)}</td>
+                                <td className="p-2 border border-slate-300">{r.budget.coverageFactor.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {/* Contributions of the standard, the bath and the instrument */}
+                <h4 className="font-bold uppercase text-[10px] text-slate-500 mt-4 mb-1">Presupuesto de Incertidumbre por Punto (Contribuciones |c<sub>i</sub>|·u(x<sub>i</sub>), °C)</h4>
+                <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                        <tr>
+                            <th className="p-1 border border-slate-300">t (°C)</th>
+                            {!isDirect && <th className="p-1 border border-slate-300">dt/dx (°C/{unit})</th>}
+                            {thermo.results[0]?.budget.components.map(c => (
+                                <th key={c.symbol} className="p-1 border border-slate-300" title={`${c.label} · ${c.distribution} · ÷${c.divisor.toFixed(3)} · Tipo ${c.evaluationType}`}>{c.symbol}</th>
+                            ))}
+                            <th className="p-1 border border-slate-300">u<sub>c</sub></th>
+                            <th className="p-1 border border-slate-300">ν<sub>eff</sub></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {thermo.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono">
+                                <td className="p-1 border border-slate-300">{r.reference.toFixed(2)}</td>
+                                {!isDirect && <td className="p-1 border border-slate-300">{r.sensitivity.toPrecision(4)}</td>}
+                                {r.budget.components.map(c => (
+                                    <td key={c.symbol} className="p-1 border border-slate-300" title={`${c.label} · u(x) = ${c.standardUncertainty.toExponential(3)} · c = ${c.sensitivityCoefficient.toPrecision(4)}`}>{c.contribution.toExponential(2)}</td>
+                                ))}
+                                <td className="p-1 border border-slate-300 font-bold">{r.budget.combinedStandardUncertainty.toExponential(2)}</td>
+                                <td className="p-1 border border-slate-300">{isFinite(r.budget.effectiveDegreesOfFreedom) ? r.budget.effectiveDegreesOfFreedom.toFixed(1) : '∞'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {/* 7.8.4.1 a) Statement on Uncertainty */}
+                <p className="mt-2 text-[10px] text-slate-500 text-justify">
+                    La incertidumbre de medición reportada se declara como la incertidumbre estándar combinada multiplicada por el factor de cobertura <i>k</i> indicado para cada punto, obtenido de la distribución t de Student con los grados de libertad efectivos ν<sub>eff</sub> (Welch-Satterthwaite), para una probabilidad de cobertura de aproximadamente el 95.45%. La incertidumbre estándar de medición se ha determinado de acuerdo con la "Guía para la Expresión de la Incertidumbre de Medición" (GUM).
+                </p>
+            </div>
+
+            {/* 7.8.6 Statement of Conformity */}
+            {isDirect && thermo.tolerance !== undefined && (
+                <div className="mb-6">
+                    <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Declaración de Conformidad</h4>
+                    <p className="text-justify mb-2">
+                        Regla de decisión aplicada: <strong>{DECISION_RULE_LABELS[decisionRule.type]}</strong>
+                        {hasGuardBand(decisionRule.type) && <> con banda de guarda <i>w</i> = {decisionRule.guardBandFactor}·<i>U</i></>}.
+                        Tolerancia declarada por el fabricante: ± {thermo.tolerance} °C.
+                    </p>
+                    <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                        <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                            <tr>
+                                <th className="p-1 border border-slate-300">t (°C)</th>
+                                <th className="p-1 border border-slate-300">|Error|</th>
+                                <th className="p-1 border border-slate-300">Tolerancia ±T</th>
+                                <th className="p-1 border border-slate-300">Límite Aceptación</th>
+                                <th className="p-1 border border-slate-300">PFA / PFR</th>
+                                <th className="p-1 border border-slate-300">Resultado</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {thermo.results.filter(r => r.conformity).map((r, i) => (
+                                <tr key={i} className="text-center font-mono">
+                                    <td className="p-1 border border-slate-300">{r.reference.toFixed(2)}</td>
+                                    <td className="p-1 border border-slate-300">{Math.abs(r.error!).toFixed(3)}</td>
+                                    <td className="p-1 border border-slate-300">{r.conformity!.tolerance.toFixed(3)}</td>
+                                    <td className="p-1 border border-slate-300">{r.conformity!.acceptanceLimit.toFixed(3)}</td>
+                                    <RiskCell conformity={r.conformity!} />
+                                    <td className={`p-1 border border-slate-300 font-bold ${CONFORMITY_COLORS[r.conformity!.status]}`}>{CONFORMITY_LABELS[r.conformity!.status]}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* 7.8.4.1 d) Adjustment Statement */}
+            <div className="mb-4 text-xs">
+                <strong>Ajuste del Instrumento:</strong> No se realizaron ajustes al instrumento. Los resultados corresponden al estado "como se recibió".
+            </div>
+
+            <CertificateClosing>
+                {/* Annex: curve of the instrument and table */}
+                {curve && (
+                    <div className="mt-8 pt-4 border-t-2 border-brand-blue print:break-before-page">
+                        <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Anexo A — Curva y Tabla {isDirect ? 'de Corrección' : 'de Conversión'}</h4>
+                        <p className="text-justify mb-2">
+                            Temperatura en función de la indicación ({unit}) ajustada mediante el modelo <strong>{CORRECTION_MODEL_LABELS[curve.model]}</strong>
+                            {curve.selection === 'auto' && ' (seleccionado por mínimo AICc)'}:
+                        </p>
+                        <p className="font-mono text-center text-sm mb-1">{curve.regression.equationString.replace(/^y = /, 't = ')}</p>
+                        <p className="text-center text-[10px] text-slate-500 mb-3">
+                            R² = {curve.regression.rSquared.toFixed(6)} · s<sub>res</sub> = {curve.regression.residualStdDev.toExponential(3)} °C · n = {curve.regression.n}
+                        </p>
+                        <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                            <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                                <tr>
+                                    <th className="p-1 border border-slate-300">Indicación ({unit})</th>
+                                    <th className="p-1 border border-slate-300">Temperatura (°C)</th>
+                                    {isDirect && <th className="p-1 border border-slate-300">Corrección (°C)</th>}
+                                    <th className="p-1 border border-slate-300">Incertidumbre <i>U</i> (k=2, °C)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {curve.table.map((row, i) => (
+                                    <tr key={i} className="text-center font-mono">
+                                        <td className="p-1 border border-slate-300">{row.indication.toFixed(isDirect ? 2 : 4)}</td>
+                                        <td className="p-1 border border-slate-300">{row.temperature.toFixed(isDirect ? 3 : 2)}</td>
+                                        {isDirect && <td className="p-1 border border-slate-300">{row.correction!.toFixed(3)}</td>}
+                                        <td className="p-1 border border-slate-300">± {row.uncertainty.toFixed(3)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="mt-2 text-[10px] text-slate-500 text-justify">
+                            La incertidumbre de la tabla combina la incertidumbre de calibración interpolada entre los puntos medidos con la incertidumbre de interpolación del modelo. La curva solo es válida dentro del intervalo calibrado.
                         </p>
-                        {/* 7.8.2.1 d) End of Document */}
-                        <p className="text-[9px] text-slate-800 font-bold mt-1 uppercase tracking-widest">--- Fin del Documento ---</p>
                     </div>
+                )}
+            </CertificateClosing>
+        </CertificateFrame>
+    );
+};
 
+// Dimensional instruments against gauge blocks: error at 20 °C and checks of the measuring faces
+const DimensionalCertificatePreviewModal = ({ session, standards, labProfile, onClose }: { session: CalibrationSession, standards: ReferenceStandard[], labProfile: LaboratoryProfile, onClose: () => void }) => {
+    const dim = session.dimensional!;
+    const decisionRule = session.decisionRule || DEFAULT_DECISION_RULE;
+    const lab = session.envReadings.start;
+    const blocksUsed = standards.filter(s => dim.points.some(p => p.blockIds.includes(s.id)))
+        .sort((a, b) => (a.gaugeBlock?.nominalLength || 0) - (b.gaugeBlock?.nominalLength || 0));
+    const isIndicator = dim.kind === 'dial_indicator';
+
+    return (
+        <CertificateFrame session={session} labProfile={labProfile} onClose={onClose} item={
+            <div className="mb-6 border border-slate-300 dark:border-slate-600">
+                <div className="bg-slate-100 dark:bg-slate-800 p-2 font-bold uppercase text-xs border-b border-slate-300 dark:border-slate-600 text-center">
+                    Descripción del Ítem de Calibración
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600">
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Instrumento</span>
+                        <span className="font-bold block">{DIMENSIONAL_KIND_LABELS[dim.kind]} {session.instrument.manufacturer}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Modelo</span>
+                        <span className="font-bold block">{session.instrument.model}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">No. de Serie</span>
+                        <span className="font-bold block font-mono">{session.instrument.serialNumber}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Identificación (TAG)</span>
+                        <span className="font-bold block">{session.instrument.identificationId || 'N/A'}</span>
+                    </div>
+                </div>
+                <div className="grid grid-cols-4 divide-x divide-slate-300 dark:divide-slate-600 border-t border-slate-300 dark:border-slate-600">
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Intervalo de Medición</span>
+                        <span className="font-bold block">{session.instrument.rangeMin} a {session.instrument.rangeMax} mm</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Resolución</span>
+                        <span className="font-bold block">{session.instrument.resolution} mm</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Error Máximo Permitido</span>
+                        <span className="font-bold block">{dim.tolerance !== undefined ? `± ${dim.tolerance} mm` : 'N/A'}</span>
+                    </div>
+                    <div className="p-3">
+                        <span className="block text-[9px] text-slate-500 uppercase mb-1">Condición de Recepción</span>
+                        <span className="font-bold block text-emerald-600 dark:text-emerald-400">{session.instrument.conditionReceived || 'Adecuada'}</span>
+                    </div>
                 </div>
             </div>
-        </div>
+        }>
+            {/* 7.8.2.1 f) Method & 7.8.4.1 c) Traceability */}
+            <div className="mb-6 space-y-4">
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Método de Calibración</h4>
+                     <p className="text-justify">
+                        La calibración se realizó por comparación directa contra bloques patrón (ISO 3650), solos o en combinación, en {dim.results.length} puntos
+                        con {dim.readingsPerPoint} lecturas por punto.
+                        {isIndicator && ' El indicador se puso a cero sobre la combinación del primer punto; los valores de referencia son los desplazamientos respecto a ella.'}
+                        {' '}Las lecturas se refirieron a la temperatura de referencia de 20 °C (ISO 1) con las temperaturas medidas de los bloques y del instrumento,
+                        un coeficiente de dilatación del instrumento de {(dim.expansionCoefficient * 1e6).toFixed(1)}·10⁻⁶ °C⁻¹ y el de cada bloque según su certificado.
+                     </p>
+                </div>
+                <div>
+                     <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Trazabilidad Metrológica</h4>
+                     <p className="text-justify mb-2">
+                        Los resultados de medición son trazables al Sistema Internacional de Unidades (SI) a través de patrones nacionales mantenidos por el CENAM (México), NIST (USA) o PTB (Alemania).
+                     </p>
+                     <table className="w-full text-xs border border-slate-300">
+                         <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-center">
+                             <tr>
+                                 <td className="p-1 border-r">Bloque Patrón</td>
+                                 <td className="p-1 border-r">No. Serie</td>
+                                 <td className="p-1 border-r">Grado</td>
+                                 <td className="p-1 border-r">Certificado No.</td>
+                                 <td className="p-1">Trazabilidad / Laboratorio</td>
+                             </tr>
+                         </thead>
+                         <tbody>
+                             {blocksUsed.length > 0 ? blocksUsed.map(b => (
+                                 <tr key={b.id} className="text-center">
+                                     <td className="p-1 border-r border-t">{b.gaugeBlock ? `${b.gaugeBlock.nominalLength} mm` : b.name}</td>
+                                     <td className="p-1 border-r border-t font-mono">{b.serialNumber}</td>
+                                     <td className="p-1 border-r border-t">{b.gaugeBlock?.grade || '-'}</td>
+                                     <td className="p-1 border-r border-t font-mono">{b.certificateNumber}</td>
+                                     <td className="p-1 border-t">{b.calibratedBy}</td>
+                                 </tr>
+                             )) : (
+                                 <tr className="text-center"><td colSpan={5} className="p-1 border-t text-red-500">Información de los patrones no disponible</td></tr>
+                             )}
+                         </tbody>
+                     </table>
+                </div>
+            </div>
+
+            {/* 7.8.4.1 b) Environmental Conditions */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Condiciones Ambientales del Laboratorio</h4>
+                <div className="flex gap-8 text-xs">
+                     <span><strong>Temperatura:</strong> {lab.temp.toFixed(1)} °C</span>
+                     <span><strong>Humedad Relativa:</strong> {lab.humidity.toFixed(1)} %HR</span>
+                     <span><strong>Presión Atmosférica:</strong> {lab.pressure.toFixed(0)} hPa</span>
+                </div>
+            </div>
+
+            {/* Measuring faces */}
+            {dim.faceChecks.length > 0 && (
+                <div className="mb-6">
+                    <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Verificación de las Caras de Medición</h4>
+                    <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                        <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                            <tr>
+                                <th className="p-2 border border-slate-300">Característica</th>
+                                <th className="p-2 border border-slate-300">Valor Medido (µm)</th>
+                                <th className="p-2 border border-slate-300">Límite (µm)</th>
+                                <th className="p-2 border border-slate-300">Resultado</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {dim.faceChecks.map((f, i) => (
+                                <tr key={i} className="text-center">
+                                    <td className="p-2 border border-slate-300 text-left">{f.label}</td>
+                                    <td className="p-2 border border-slate-300 font-mono">{f.measured.toFixed(2)}</td>
+                                    <td className="p-2 border border-slate-300 font-mono">{f.limit.toFixed(2)}</td>
+                                    <td className={`p-2 border border-slate-300 font-bold ${isFaceCheckPassed(f) ? 'text-emerald-600' : 'text-red-500'}`}>{isFaceCheckPassed(f) ? 'CUMPLE' : 'NO CUMPLE'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* 7.8.1.2 Results */}
+            <div className="mb-6">
+                <h4 className="font-bold uppercase text-xs text-brand-blue mb-2">Resultados de Medición (referidos a 20 °C)</h4>
+                <table className="w-full text-xs border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 font-bold uppercase text-[10px] text-center">
+                        <tr>
+                            <th className="p-2 border border-slate-300">Nominal<br/>(mm)</th>
+                            <th className="p-2 border border-slate-300">{isIndicator ? 'Desplazamiento' : 'Longitud'} de<br/>Referencia (mm)</th>
+                            <th className="p-2 border border-slate-300">Lectura IBC<br/>(mm)</th>
+                            <th className="p-2 border border-slate-300">Corrección<br/>Térmica (µm)</th>
+                            <th className="p-2 border border-slate-300 bg-orange-50 dark:bg-orange-900/10">Error de<br/>Indicación (mm)</th>
+                            <th className="p-2 border border-slate-300 bg-blue-50 dark:bg-blue-900/10">Incertidumbre<br/>Expandida <i>U</i> (mm)</th>
+                            <th className="p-2 border border-slate-300">Factor<br/><i>k</i></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {dim.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono hover:bg-slate-50">
+                                <td className="p-2 border border-slate-300">{r.nominal}</td>
+                                <td className="p-2 border border-slate-300">{r.reference.toFixed(5)}</td>
+                                <td className="p-2 border border-slate-300">{r.indication.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300">{(r.thermalCorrection * 1000).toFixed(2)}</td>
+                                <td className="p-2 border border-slate-300 font-bold text-slate-800 dark:text-white bg-orange-50 dark:bg-orange-900/10">{r.error.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300 font-bold text-brand-blue bg-blue-50 dark:bg-blue-900/10">± {r.expandedUncertainty.toFixed(4)}</td>
+                                <td className="p-2 border border-slate-300">{r.budget.coverageFactor.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <h4 className="font-bold uppercase text-[10px] text-slate-500 mt-4 mb-1">Presupuesto de Incertidumbre por Punto (Contribuciones |c<sub>i</sub>|·u(x<sub>i</sub>), µm)</h4>
+                <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                    <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                        <tr>
+                            <th className="p-1 border border-slate-300">Nominal (mm)</th>
+                            {dim.results[0]?.budget.components.map(c => (
+                                <th key={c.symbol} className="p-1 border border-slate-300" title={`${c.label} · ${c.distribution} · ÷${c.divisor.toFixed(3)} · Tipo ${c.evaluationType}`}>{c.symbol}</th>
+                            ))}
+                            <th className="p-1 border border-slate-300">u<sub>c</sub></th>
+                            <th className="p-1 border border-slate-300">ν<sub>eff</sub></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {dim.results.map((r, i) => (
+                            <tr key={i} className="text-center font-mono">
+                                <td className="p-1 border border-slate-300">{r.nominal}</td>
+                                {r.budget.components.map(c => (
+                                    <td key={c.symbol} className="p-1 border border-slate-300" title={`${c.label} · u(x) = ${c.standardUncertainty.toExponential(3)} · c = ${c.sensitivityCoefficient.toPrecision(4)}`}>{(c.contribution * 1000).toFixed(3)}</td>
+                                ))}
+                                <td className="p-1 border border-slate-300 font-bold">{(r.budget.combinedStandardUncertainty * 1000).toFixed(3)}</td>
+                                <td className="p-1 border border-slate-300">{isFinite(r.budget.effectiveDegreesOfFreedom) ? r.budget.effectiveDegreesOfFreedom.toFixed(1) : '∞'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {/* 7.8.4.1 a) Statement on Uncertainty */}
+                <p className="mt-2 text-[10px] text-slate-500 text-justify">
+                    La incertidumbre de medición reportada se declara como la incertidumbre estándar combinada multiplicada por el factor de cobertura <i>k</i> indicado para cada punto, obtenido de la distribución t de Student con los grados de libertad efectivos ν<sub>eff</sub> (Welch-Satterthwaite), para una probabilidad de cobertura de aproximadamente el 95.45%. La incertidumbre estándar de medición se ha determinado de acuerdo con la "Guía para la Expresión de la Incertidumbre de Medición" (GUM).
+                </p>
+            </div>
+
+            {/* 7.8.6 Statement of Conformity */}
+            {dim.tolerance !== undefined && (
+                <div className="mb-6">
+                    <h4 className="font-bold uppercase text-xs text-brand-blue mb-1">Declaración de Conformidad</h4>
+                    <p className="text-justify mb-2">
+                        Regla de decisión aplicada: <strong>{DECISION_RULE_LABELS[decisionRule.type]}</strong>
+                        {hasGuardBand(decisionRule.type) && <> con banda de guarda <i>w</i> = {decisionRule.guardBandFactor}·<i>U</i></>}.
+                        Error máximo permitido declarado: ± {dim.tolerance} mm.
+                    </p>
+                    <table className="w-full text-[10px] border-collapse border border-slate-300 dark:border-slate-600">
+                        <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 font-bold text-center">
+                            <tr>
+                                <th className="p-1 border border-slate-300">Nominal (mm)</th>
+                                <th className="p-1 border border-slate-300">|Error|</th>
+                                <th className="p-1 border border-slate-300">Tolerancia ±T</th>
+                                <th className="p-1 border border-slate-300">Límite Aceptación</th>
+                                <th className="p-1 border border-slate-300">PFA / PFR</th>
+                                <th className="p-1 border border-slate-300">Resultado</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {dim.results.filter(r => r.conformity).map((r, i) => (
+                                <tr key={i} className="text-center font-mono">
+                                    <td className="p-1 border border-slate-300">{r.nominal}</td>
+                                    <td className="p-1 border border-slate-300">{Math.abs(r.error).toFixed(4)}</td>
+                                    <td className="p-1 border border-slate-300">{r.conformity!.tolerance.toFixed(4)}</td>
+                                    <td className="p-1 border border-slate-300">{r.conformity!.acceptanceLimit.toFixed(4)}</td>
+                                    <RiskCell conformity={r.conformity!} />
+                                    <td className={`p-1 border border-slate-300 font-bold ${CONFORMITY_COLORS[r.conformity!.status]}`}>{CONFORMITY_LABELS[r.conformity!.status]}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* 7.8.4.1 d) Adjustment Statement */}
+            <div className="mb-4 text-xs">
+                <strong>Ajuste del Instrumento:</strong> No se realizaron ajustes al instrumento. Los resultados corresponden al estado "como se recibió".
+            </div>
+
+            <CertificateClosing />
+        </CertificateFrame>
     );
 };
 
@@ -328,7 +1458,13 @@ export const Dashboard: React.FC<Props> = ({ sessions, standards, labProfile })
 
   return (
     <div className="p-8 max-w-[1600px] mx-auto">
-      {selectedSession && <CertificatePreviewModal session={selectedSession} standards={standards} labProfile={labProfile} onClose={() => setSelectedSession(null)} />}
+      {selectedSession && (selectedSession.procedure === 'thermohygrometer'
+          ? <ClimateCertificatePreviewModal session={selectedSession} standards={standards} labProfile={labProfile} onClose={() => setSelectedSession(null)} />
+          : selectedSession.procedure === 'thermometer'
+          ? <ThermometerCertificatePreviewModal session={selectedSession} standards={standards} labProfile={labProfile} onClose={() => setSelectedSession(null)} />
+          : selectedSession.procedure === 'dimensional'
+          ? <DimensionalCertificatePreviewModal session={selectedSession} standards={standards} labProfile={labProfile} onClose={() => setSelectedSession(null)} />
+          : <CertificatePreviewModal session={selectedSession} standards={standards} labProfile={labProfile} onClose={() => setSelectedSession(null)} />)}
 
       <div className="mb-8 flex items-center gap-4">
          <div className="p-3 bg-white dark:bg-slate-800 rounded-2xl shadow-lg shadow-brand-orange/20 dark:shadow-none border border-slate-100 dark:border-slate-700">
@@ -413,10 +1549,14 @@ export const Dashboard: React.FC<Props> = ({ sessions, standards, labProfile })
                       <div className="text-xs text-brand-blue dark:text-brand-cyan font-mono">{session.instrument.serialNumber}</div>
                     </td>
                     <td className="p-4 text-slate-600 dark:text-slate-400 font-mono">{new Date(session.date).toLocaleDateString()}</td>
-                    <td className="p-4"><span className="bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-3 py-1 rounded-lg text-xs font-bold border border-slate-200 dark:border-slate-700 shadow-sm">{session.sequence}</span></td>
+                    <td className="p-4"><span className="bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-3 py-1 rounded-lg text-xs font-bold border border-slate-200 dark:border-slate-700 shadow-sm">{session.procedure && session.procedure !== 'pressure' ? PROCEDURE_TAGS[session.procedure] : session.sequence}</span></td>
                     <td className="p-4 text-slate-600 dark:text-slate-400">{session.technician}</td>
                     <td className="p-4">
                         <span className="text-slate-400 bg-slate-100 dark:bg-slate-900 px-2 py-1 rounded text-xs font-bold">FINALIZADO</span>
+                        {session.adjustment && <span className="ml-2 text-brand-blue bg-sky-50 dark:bg-sky-900/30 px-2 py-1 rounded text-xs font-bold">AJUSTADO</span>}
+                        {session.envViolations && session.envViolations.length > 0 && (
+                            <span title={session.envViolations.map(describeEnvViolation).join('\n')} className="ml-2 text-red-600 bg-red-50 dark:bg-red-900/30 px-2 py-1 rounded text-xs font-bold inline-flex items-center gap-1"><AlertTriangle size={12}/> AMBIENTE</span>
+                        )}
                     </td>
                   </tr>
                 );
@@ -0,0 +1,336 @@
+import React, { useState } from 'react';
+import { CalibrationSession, ReferenceStandard, Instrument, Unit, StandardType, DecisionRule, DecisionRuleType, DimensionalKind, DimensionalPoint, FaceCheck, EnvReading } from '../types';
+import { playSound } from '../services/calibrationLogic';
+import { isStandardExpired } from '../services/environment';
+import { DIMENSIONAL_KIND_LABELS, DEFAULT_DIMENSIONAL_POINTS, DEFAULT_FACE_CHECKS, DEFAULT_STEEL_EXPANSION, calculateStackLength, createDimensionalPoint, evaluateDimensionalPoints, isFaceCheckPassed } from '../services/dimensionalCalibration';
+import { DEFAULT_DECISION_RULE, DECISION_RULE_LABELS, CONFORMITY_LABELS } from '../services/conformity';
+import { Play, Save, Ruler, PenTool, Plus, X, Wind, CheckCircle, AlertTriangle } from 'lucide-react';
+import { ScientificInput } from './ScientificInput';
+
+interface Props {
+  standards: ReferenceStandard[];
+  header?: React.ReactNode;   // Procedure selector of the calibration screen
+  onSave: (session: CalibrationSession) => void;
+}
+
+export const DimensionalCalibrationForm: React.FC<Props> = ({ standards, header, onSave }) => {
+  const [step, setStep] = useState(1);
+  const [kind, setKind] = useState<DimensionalKind>('caliper');
+  const [instrument, setInstrument] = useState<Instrument>({
+    manufacturer: '',
+    model: '',
+    serialNumber: '',
+    rangeMin: 0,
+    rangeMax: 150,
+    resolution: 0.01,
+    accuracyClass: 0,
+    unit: Unit.Millimeter,
+    applicantName: '',
+    identificationId: '',
+    type: 'digital',
+    connectionType: '',
+    sensorLocation: '',
+    conditionReceived: 'Bueno'
+  });
+  const [tolerance, setTolerance] = useState(0.03);
+  const [pointList, setPointList] = useState(DEFAULT_DIMENSIONAL_POINTS.caliper);
+  const [faceChecks, setFaceChecks] = useState<FaceCheck[]>(DEFAULT_FACE_CHECKS.caliper);
+  const [readingsPerPoint, setReadingsPerPoint] = useState(3);
+  const [expansionCoefficient, setExpansionCoefficient] = useState(DEFAULT_STEEL_EXPANSION);
+  const [expansionUncertainty, setExpansionUncertainty] = useState(1e-6);
+  const [temperatureDifference, setTemperatureDifference] = useState(0.5);
+  const [decisionRule, setDecisionRule] = useState<DecisionRule>(DEFAULT_DECISION_RULE);
+  const [labConditions, setLabConditions] = useState<EnvReading>({ temp: 20, humidity: 50, pressure: 1013 });
+  const [points, setPoints] = useState<DimensionalPoint[]>([]);
+
+  const gaugeBlocks = standards.filter(s => s.type === StandardType.Dimensional && s.gaugeBlock);
+  const blockLabel = (b: ReferenceStandard) => `${b.gaugeBlock!.nominalLength} mm · ${b.serialNumber}`;
+
+  // Each kind has its own series and face checks; the resolution is the usual one of the kind
+  const changeKind = (k: DimensionalKind) => {
+      setKind(k);
+      setPointList(DEFAULT_DIMENSIONAL_POINTS[k]);
+      setFaceChecks(DEFAULT_FACE_CHECKS[k]);
+      setInstrument({
+          ...instrument,
+          resolution: k === 'caliper' ? 0.01 : 0.001,
+          rangeMin: 0,
+          rangeMax: Math.max(...DEFAULT_DIMENSIONAL_POINTS[k])
+      });
+      setTolerance(k === 'caliper' ? 0.03 : k === 'micrometer' ? 0.002 : 0.01);
+  };
+
+  const initSequence = () => {
+      if (!instrument.manufacturer || !instrument.serialNumber || !instrument.applicantName) {
+          alert("Por favor complete los datos obligatorios del instrumento (Solicitante, Marca, Serie).");
+          return;
+      }
+      if (gaugeBlocks.length === 0) {
+          playSound('error');
+          alert('No hay bloques patrón registrados (patrones dimensionales con datos de bloque).');
+          return;
+      }
+      if (pointList.length === 0) {
+          playSound('error');
+          alert('Defina al menos un punto de calibración.');
+          return;
+      }
+      if (readingsPerPoint < 1) {
+          playSound('error');
+          alert('Se requiere al menos una lectura por punto.');
+          return;
+      }
+      playSound('click');
+      const sorted = [...pointList].sort((a, b) => a - b);
+      const zero = kind === 'dial_indicator' ? sorted[0] : 0;
+      setPoints(sorted.map(l => createDimensionalPoint(gaugeBlocks, l, readingsPerPoint, labConditions.temp, zero)));
+      setStep(2);
+  };
+
+  const updatePoint = (index: number, patch: Partial<DimensionalPoint>) => {
+      const n = [...points];
+      n[index] = { ...n[index], ...patch };
+      setPoints(n);
+  };
+
+  const updateReading = (index: number, reading: number, val: number) => {
+      const readings = [...points[index].readings];
+      readings[reading] = val;
+      updatePoint(index, { readings });
+  };
+
+  const results = points.length > 0
+      ? evaluateDimensionalPoints(points, gaugeBlocks, kind, instrument.resolution, expansionCoefficient, expansionUncertainty, temperatureDifference, faceChecks, tolerance, decisionRule)
+      : [];
+
+  const handleFinish = () => {
+      const missing = points.findIndex(p => p.blockIds.length === 0);
+      if (missing >= 0) {
+          playSound('error');
+          alert(`Seleccione los bloques patrón del punto ${points[missing].nominal} mm.`);
+          return;
+      }
+      const usedIds = Array.from(new Set<string>(points.flatMap(p => p.blockIds)));
+      const session: CalibrationSession = {
+          id: `CAL-${Date.now()}`,
+          date: new Date().toISOString(),
+          technician: 'Admin User',
+          standardId: usedIds[0],
+          procedure: 'dimensional',
+          instrument: { ...instrument, unit: Unit.Millimeter },
+          envReadings: { start: labConditions, middle: labConditions, end: labConditions },
+          decisionRule,
+          points: [],
+          dimensional: {
+              kind,
+              tolerance,
+              readingsPerPoint,
+              expansionCoefficient,
+              expansionUncertainty,
+              temperatureDifference,
+              faceChecks,
+              points,
+              results
+          }
+      };
+      onSave(session);
+      playSound('success');
+  };
+
+  if (step === 1) {
+    return (
+      <div className="p-8 max-w-7xl mx-auto space-y-6">
+         <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">CONFIGURACIÓN DE MISIÓN</h2>
+         {header}
+
+         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+             <div className="lg:col-span-8 glass-panel p-6 rounded-2xl space-y-6">
+                 <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2 flex items-center gap-2">
+                     <PenTool size={18}/> Datos del Instrumento (Ítem)
+                 </h3>
+                 <div className="flex gap-2">
+                     {(Object.keys(DIMENSIONAL_KIND_LABELS) as DimensionalKind[]).map(k => (
+                         <button key={k} onClick={() => changeKind(k)} className={`px-3 py-2 rounded-lg font-bold text-xs transition-all flex-1 ${kind === k ? 'bg-brand-blue text-white shadow-md' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-slate-200'}`}>
+                             {DIMENSIONAL_KIND_LABELS[k]}
+                         </button>
+                     ))}
+                 </div>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                     <div><label className="label-sci">Solicitante</label><input className="sci-input" value={instrument.applicantName} onChange={e => setInstrument({...instrument, applicantName: e.target.value})} /></div>
+                     <div><label className="label-sci">Identificación (TAG)</label><input className="sci-input" value={instrument.identificationId} onChange={e => setInstrument({...instrument, identificationId: e.target.value})} /></div>
+                     <div><label className="label-sci">Marca</label><input className="sci-input" value={instrument.manufacturer} onChange={e => setInstrument({...instrument, manufacturer: e.target.value})} /></div>
+                     <div><label className="label-sci">Modelo</label><input className="sci-input" value={instrument.model} onChange={e => setInstrument({...instrument, model: e.target.value})} /></div>
+                     <div><label className="label-sci">No. Serie</label><input className="sci-input" value={instrument.serialNumber} onChange={e => setInstrument({...instrument, serialNumber: e.target.value})} /></div>
+                     <div><label className="label-sci">Condición de Recepción</label><input className="sci-input" value={instrument.conditionReceived} onChange={e => setInstrument({...instrument, conditionReceived: e.target.value})} /></div>
+                 </div>
+
+                 <hr className="border-slate-100 dark:border-slate-700"/>
+
+                 <div className="space-y-4">
+                     <h4 className="text-xs font-bold uppercase text-slate-400">Especificaciones Metrológicas</h4>
+                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                         <div><label className="label-sci">Rango Min (mm)</label><ScientificInput className="sci-input" value={instrument.rangeMin} onChange={(val: number) => setInstrument({...instrument, rangeMin: val})} /></div>
+                         <div><label className="label-sci">Rango Max (mm)</label><ScientificInput className="sci-input" value={instrument.rangeMax} onChange={(val: number) => setInstrument({...instrument, rangeMax: val})} /></div>
+                         <div><label className="label-sci">Resolución (mm)</label><ScientificInput className="sci-input" value={instrument.resolution} onChange={(val: number) => setInstrument({...instrument, resolution: val})} /></div>
+                         <div><label className="label-sci">EMP (± mm)</label><ScientificInput className="sci-input" value={tolerance} onChange={(val: number) => setTolerance(val)} /></div>
+                     </div>
+                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                         <div><label className="label-sci">α Instrumento (1/°C)</label><ScientificInput className="sci-input" value={expansionCoefficient} onChange={(val: number) => setExpansionCoefficient(val)} /></div>
+                         <div><label className="label-sci">± α (1/°C)</label><ScientificInput className="sci-input" value={expansionUncertainty} onChange={(val: number) => setExpansionUncertainty(val)} /></div>
+                         <div><label className="label-sci">± Δt Bloque − Instr. (°C)</label><ScientificInput className="sci-input" value={temperatureDifference} onChange={(val: number) => setTemperatureDifference(val)} /></div>
+                         <div>
+                             <label className="label-sci">Regla de Decisión</label>
+                             <select className="sci-input" value={decisionRule.type} onChange={e => setDecisionRule({ ...decisionRule, type: e.target.value as DecisionRuleType })}>
+                                 {(Object.keys(DECISION_RULE_LABELS) as DecisionRuleType[]).map(r => <option key={r} value={r}>{DECISION_RULE_LABELS[r]}</option>)}
+                             </select>
+                         </div>
+                     </div>
+                 </div>
+
+                 {faceChecks.length > 0 && (
+                     <>
+                         <hr className="border-slate-100 dark:border-slate-700"/>
+                         <div className="space-y-2">
+                             <h4 className="text-xs font-bold uppercase text-slate-400">Caras de Medición (plano / paralelo óptico, µm)</h4>
+                             {faceChecks.map((f, i) => (
+                                 <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                                     <span className="col-span-6 text-sm text-slate-600 dark:text-slate-300">{f.label}</span>
+                                     <div className="col-span-2"><ScientificInput className="sci-input-sm" value={f.measured} onChange={(val: number) => setFaceChecks(faceChecks.map((c, j) => j === i ? { ...c, measured: val } : c))} /></div>
+                                     <div className="col-span-2"><ScientificInput className="sci-input-sm" value={f.limit} onChange={(val: number) => setFaceChecks(faceChecks.map((c, j) => j === i ? { ...c, limit: val } : c))} /></div>
+                                     <span className="col-span-2 text-xs font-bold">{isFaceCheckPassed(f) ? <span className="text-emerald-600 flex items-center gap-1"><CheckCircle size={12}/> Cumple</span> : <span className="text-red-500 flex items-center gap-1"><AlertTriangle size={12}/> Excede</span>}</span>
+                                 </div>
+                             ))}
+                         </div>
+                     </>
+                 )}
+             </div>
+
+             <div className="lg:col-span-4 space-y-6">
+                 <div className="glass-panel p-6 rounded-2xl space-y-4">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2">Patrón</h3>
+                     <p className="text-xs text-slate-500">
+                         {gaugeBlocks.length} bloques patrón disponibles
+                         {gaugeBlocks.some(isStandardExpired) && <span className="text-red-500 font-bold"> · {gaugeBlocks.filter(isStandardExpired).length} VENCIDOS</span>}
+                     </p>
+                     <div><label className="label-sci">Lecturas por Punto</label><ScientificInput className="sci-input" value={readingsPerPoint} onChange={(val: number) => setReadingsPerPoint(Math.max(1, Math.round(val)))} /></div>
+                 </div>
+
+                 <div className="glass-panel p-6 rounded-2xl space-y-3">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2">Puntos de Calibración (mm)</h3>
+                     {kind === 'dial_indicator' && <p className="text-xs text-slate-500">El indicador se pone a cero sobre el primer punto.</p>}
+                     {pointList.map((l, i) => (
+                         <div key={i} className="flex items-center gap-2">
+                             <ScientificInput className="sci-input-sm text-center" value={l} onChange={(val: number) => setPointList(pointList.map((v, j) => j === i ? val : v))} />
+                             <span className="text-xs text-slate-400">mm</span>
+                             <button onClick={() => setPointList(pointList.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500"><X size={14}/></button>
+                         </div>
+                     ))}
+                     <button onClick={() => setPointList([...pointList, 0])} className="w-full py-2 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200 flex items-center justify-center gap-1"><Plus size={14}/> AGREGAR PUNTO</button>
+                 </div>
+
+                 <div className="glass-panel p-6 rounded-2xl space-y-3">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2 flex items-center gap-2"><Wind size={16}/> Condiciones del Laboratorio</h3>
+                     <div className="grid grid-cols-3 gap-2">
+                         <div><label className="label-sci">T (°C)</label><ScientificInput className="sci-input-sm" value={labConditions.temp} onChange={(val: number) => setLabConditions({...labConditions, temp: val})} /></div>
+                         <div><label className="label-sci">HR (%)</label><ScientificInput className="sci-input-sm" value={labConditions.humidity} onChange={(val: number) => setLabConditions({...labConditions, humidity: val})} /></div>
+                         <div><label className="label-sci">P (hPa)</label><ScientificInput className="sci-input-sm" value={labConditions.pressure} onChange={(val: number) => setLabConditions({...labConditions, pressure: val})} /></div>
+                     </div>
+                 </div>
+
+                 <button onClick={initSequence} className="w-full btn-primary py-4 flex justify-center items-center gap-2 text-lg shadow-lg shadow-orange-500/20">
+                     <Play size={20} /> INICIAR CALIBRACIÓN
+                 </button>
+             </div>
+         </div>
+         <style>{`
+            .sci-input { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.75rem; border-radius: 0.5rem; outline: none; font-weight: 500; color: #1e293b; box-shadow: 0 1px 2px 0 rgba(0,0,0,0.05); }
+            .dark .sci-input { background: #1e293b; border-color: #475569; color: #f1f5f9; box-shadow: none; }
+            .sci-input:focus { border-color: #0ea5e9; box-shadow: 0 0 0 3px rgba(14,165,233,0.1); }
+            .sci-input-sm { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.4rem; border-radius: 0.3rem; color: #334155; }
+            .dark .sci-input-sm { background: #334155; border-color: #475569; color: #f8fafc; }
+            .label-sci { display: block; color: #64748b; font-size: 0.8rem; margin-bottom: 0.3rem; font-weight: 700; }
+            .dark .label-sci { color: #94a3b8; }
+            .btn-primary { background: #f97316; color: white; border-radius: 0.75rem; font-weight: 700; transition: all 0.2s; }
+            .btn-primary:hover { background: #ea580c; }
+         `}</style>
+      </div>
+    );
+  }
+
+  // Running Step
+  return (
+      <div className="p-6 h-full flex flex-col">
+          <div className="flex justify-between items-start mb-6">
+              <div>
+                  <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">{instrument.model} <span className="text-lg text-slate-400 font-normal">({instrument.serialNumber})</span></h2>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{DIMENSIONAL_KIND_LABELS[kind]} · bloques patrón · {readingsPerPoint} lecturas por punto · longitudes referidas a 20 °C</p>
+              </div>
+              <button className="btn-primary px-6 py-3 flex items-center gap-2" onClick={handleFinish}>
+                  <Save size={18} /> FINALIZAR MISIÓN
+              </button>
+          </div>
+
+          <div className="space-y-4">
+              {points.map((p, i) => {
+                  const result = results[i];
+                  const stack = gaugeBlocks.filter(b => p.blockIds.includes(b.id));
+                  const stackLength = calculateStackLength(stack);
+                  return (
+                      <div key={i} className="glass-panel p-4 rounded-xl">
+                          <div className="flex justify-between items-center mb-3">
+                              <h3 className="font-bold text-brand-dark dark:text-white flex items-center gap-1"><Ruler size={16}/> {p.nominal} mm</h3>
+                              {result && (
+                                  <div className="flex gap-4 text-xs font-mono">
+                                      <span>L<sub>20</sub> = {result.reference.toFixed(4)} mm</span>
+                                      <span>x̄ = {result.indication.toFixed(4)} mm</span>
+                                      <span>δL<sub>t</sub> = {(result.thermalCorrection * 1000).toFixed(2)} µm</span>
+                                      <span>E = {result.error.toFixed(4)} mm</span>
+                                      <span>U = ± {result.expandedUncertainty.toFixed(4)} mm</span>
+                                      {result.conformity && <strong className={result.conformity.status === 'PASS' ? 'text-emerald-600' : 'text-red-500'}>{CONFORMITY_LABELS[result.conformity.status]}</strong>}
+                                  </div>
+                              )}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 mb-3">
+                              <span className="text-xs font-bold text-slate-500">Combinación:</span>
+                              {stack.map(b => (
+                                  <span key={b.id} className={`px-2 py-1 rounded text-xs font-mono flex items-center gap-1 ${isStandardExpired(b) ? 'bg-red-100 text-red-600' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200'}`}>
+                                      {blockLabel(b)}
+                                      <button onClick={() => updatePoint(i, { blockIds: p.blockIds.filter(id => id !== b.id) })}><X size={12}/></button>
+                                  </span>
+                              ))}
+                              <select className="sci-input-sm !w-auto text-xs" value="" onChange={e => e.target.value && updatePoint(i, { blockIds: [...p.blockIds, e.target.value] })}>
+                                  <option value="">+ Bloque</option>
+                                  {gaugeBlocks.filter(b => !p.blockIds.includes(b.id)).map(b => <option key={b.id} value={b.id}>{blockLabel(b)}</option>)}
+                              </select>
+                              {stack.length > 0 && Math.abs(stackLength - p.nominal) > 0.01 && (
+                                  <span className="text-xs text-orange-500 font-bold flex items-center gap-1"><AlertTriangle size={12}/> Suma {stackLength.toFixed(4)} mm</span>
+                              )}
+                          </div>
+                          <table className="w-full text-sm">
+                              <tbody>
+                                  <tr>
+                                      <td className="p-1 text-xs font-bold text-slate-500 whitespace-nowrap">Lecturas (mm)</td>
+                                      {p.readings.map((v, r) => (
+                                          <td key={r} className="p-1"><ScientificInput className="sci-input-sm text-right font-mono" value={v} onChange={(val: number) => updateReading(i, r, val)} /></td>
+                                      ))}
+                                  </tr>
+                              </tbody>
+                          </table>
+                          <div className="grid grid-cols-2 gap-2 mt-3 pt-3 border-t border-slate-100 dark:border-slate-700">
+                              <div><label className="label-xs">T Bloques (°C)</label><ScientificInput className="sci-input-sm" value={p.blockTemp} onChange={(val: number) => updatePoint(i, { blockTemp: val })} /></div>
+                              <div><label className="label-xs">T Instrumento (°C)</label><ScientificInput className="sci-input-sm" value={p.instrumentTemp} onChange={(val: number) => updatePoint(i, { instrumentTemp: val })} /></div>
+                          </div>
+                      </div>
+                  );
+              })}
+          </div>
+          <style>{`
+            .sci-input-sm { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.4rem; border-radius: 0.3rem; color: #334155; }
+            .dark .sci-input-sm { background: #334155; border-color: #475569; color: #f8fafc; }
+            .label-xs { font-size: 0.7rem; text-transform: uppercase; font-weight: 700; color: #64748b; margin-bottom: 4px; display: block; }
+            .btn-primary { background: #f97316; color: white; border-radius: 0.75rem; font-weight: 700; transition: all 0.2s; }
+            .btn-primary:hover { background: #ea580c; }
+          `}</style>
+      </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface ScientificInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+    value: number | undefined | null;
+    onChange: (value: number) => void;
+}
+
+// Numeric text field: keeps the typed text (comma or point decimals, partial "-") while editing and
+// reports only parsed numbers; the value is shown again on blur
+export const ScientificInput = ({ value, onChange, onBlur, ...props }: ScientificInputProps) => {
+    const [localStr, setLocalStr] = useState(value !== undefined && value !== null ? value.toString() : '');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (document.activeElement === inputRef.current) return;
+        setLocalStr(value !== undefined && value !== null ? value.toString() : '');
+    }, [value]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const val = e.target.value;
+        if (/^[0-9.,-]*$/.test(val)) {
+            setLocalStr(val);
+            const normalized = val.replace(/,/g, '.');
+            if (normalized === '' || normalized === '-') return;
+            const parsed = parseFloat(normalized);
+            if (!isNaN(parsed)) onChange(parsed);
+        }
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+        if (value !== undefined && value !== null) setLocalStr(value.toString());
+        if (onBlur) onBlur(e);
+    };
+
+    return (
+        <input
+            ref={inputRef}
+            type="text"
+            inputMode="decimal"
+            {...props}
+            value={localStr}
+            onChange={handleChange}
+            onBlur={handleBlur}
+        />
+    );
+};
@@ -1,13 +1,16 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { ReferenceStandard, Unit, CurveModel, StandardCalibrationPoint, StandardType, IntermediateCheck, RegressionResult, CheckPointResult } from '../types';
-import { fitStandardModels, calculateInterpolationUncertainty, predictValue, calculateCumulativeStats } from '../services/mathUtils';
-import { playSound } from '../services/calibrationLogic';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ReferenceStandard, Unit, CurveModel, StandardCalibrationPoint, StandardType, IntermediateCheck, RegressionResult, CheckPointResult, PressureBalanceConfig, GaugeBlockConfig, PistonMass, PressureMode, OutlierDecision, OutlierFinding, OutlierAction, LaboratoryProfile, FitMethod, PointCorrelation, PredictionBand } from '../types';
+import { fitStandardModels, calculateInterpolationUncertainty, evaluateRegression, calculateCumulativeStats } from '../services/mathUtils';
+import { playSound, PRESSURE_MODE_LABELS } from '../services/calibrationLogic';
+import { screenCheckReadings, getPendingOutliers, getRecordedDecisions, describeOutlier, OUTLIER_ACTION_LABELS } from '../services/outlierScreening';
 import { Plus, X, FileText, Activity, Save, History, LineChart as ChartIcon, Settings, AlertTriangle, CheckCircle2, Sigma, TrendingUp, ThumbsUp, ThumbsDown, Trophy, Table2, Calculator, Info, Split } from 'lucide-react';
 import { Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Scatter, ComposedChart, ReferenceLine, Legend } from 'recharts';
+import { ScientificInput } from './ScientificInput';
 
 interface Props {
   standards: ReferenceStandard[];
   setStandards: React.Dispatch<React.SetStateAction<ReferenceStandard[]>>;
+  labProfile: LaboratoryProfile;
 }
 
 const EmptyStandard: ReferenceStandard = {
@@ -30,35 +33,43 @@ const EmptyStandard: ReferenceStandard = {
   calibrationPoints: []
 };
 
-// --- Helper Component: Scientific Input ---
-const ScientificInput = ({ value, onChange, className, placeholder, ...props }: any) => {
-    const [localStr, setLocalStr] = useState(value !== undefined && value !== null ? value.toString() : '');
-    const inputRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-        if (document.activeElement === inputRef.current) return;
-        setLocalStr(value !== undefined && value !== null ? value.toString() : '');
-    }, [value]);
-
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const val = e.target.value;
-        if (/^[0-9.,-]*$/.test(val)) {
-            setLocalStr(val);
-            const normalized = val.replace(/,/g, '.');
-            if (normalized === '' || normalized === '-') return;
-            const parsed = parseFloat(normalized);
-            if (!isNaN(parsed)) onChange(parsed);
-        }
-    };
+const STANDARD_TYPE_LABELS: Record<StandardType, string> = {
+  [StandardType.Pressure]: 'Presión',
+  [StandardType.AtmosphericPressure]: 'Presión atmosférica',
+  [StandardType.Temperature]: 'Temperatura',
+  [StandardType.Humidity]: 'Humedad',
+  [StandardType.Dimensional]: 'Dimensional',
+  [StandardType.Thermohygrometer]: 'Termohigrómetro',
+  [StandardType.Electrical]: 'Eléctrico (mA / V)',
+  [StandardType.PressureBalance]: 'Balanza de presión'
+};
 
-    return (
-        <input 
-            ref={inputRef} type="text" inputMode="decimal" className={className} 
-            placeholder={placeholder} value={localStr} onChange={handleChange} {...props} 
-        />
-    );
+// Small p-values in scientific notation so that they do not read as zero
+const formatPValue = (p: number): string => p < 1e-3 ? p.toExponential(1) : p.toFixed(3);
+
+const EmptyPressureBalance: PressureBalanceConfig = {
+  effectiveArea: 4.9e-6,
+  effectiveAreaUncertainty: 1e-10,
+  distortionCoefficient: 0,
+  distortionUncertainty: 0,
+  pistonExpansion: 4.5e-6,
+  cylinderExpansion: 4.5e-6,
+  referenceTemperature: 20,
+  temperatureUncertainty: 0.2,
+  masses: [{ id: 'piston', label: 'Pistón + portamasas', value: 0.1, uncertainty: 2e-6, density: 7920, isPiston: true }]
+};
+
+const EmptyGaugeBlock: GaugeBlockConfig = {
+  nominalLength: 10,
+  deviation: 0,
+  uncertainty: 0.05,
+  variation: 0.05,
+  flatness: 0.05,
+  expansionCoefficient: 11.5e-6,
+  grade: '0'
 };
 
+// --- Helper Component: Scientific Input ---
 const Card: React.FC<{title: string, icon: any, children: React.ReactNode}> = ({ title, icon: Icon, children }) => (
   <div className="glass-panel p-6 rounded-2xl relative overflow-hidden group transition-shadow bg-white/70 dark:bg-[#0f172a]/60 dark:border-slate-700">
     <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-brand-blue to-brand-cyan"></div>
@@ -70,6 +81,131 @@ const Card: React.FC<{title: string, icon: any, children: React.ReactNode}> = ({
   </div>
 );
 
+// --- Helper Component: Pressure Balance (A0, λ, thermal expansion, mass set) ---
+const PressureBalanceEditor = ({ config, onChange }: { config: PressureBalanceConfig, onChange: (cfg: PressureBalanceConfig) => void }) => {
+    const field = (label: string, key: keyof Omit<PressureBalanceConfig, 'masses'>) => (
+        <div><label className="label-xs">{label}</label><ScientificInput className="sci-input" value={config[key]} onChange={(val: number) => onChange({ ...config, [key]: val })} /></div>
+    );
+    const updateMass = (id: string, patch: Partial<PistonMass>) => onChange({ ...config, masses: config.masses.map(m => m.id === id ? { ...m, ...patch } : m) });
+    const addMass = () => onChange({ ...config, masses: [...config.masses, { id: Date.now().toString(), label: `M${config.masses.length}`, value: 0, uncertainty: 0, density: 7920 }] });
+
+    return (
+        <Card title="Balanza de Presión (Pistón-Cilindro)" icon={Calculator}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {field('A0 (m²)', 'effectiveArea')}
+                {field('U(A0) k=2 (m²)', 'effectiveAreaUncertainty')}
+                {field('λ (1/Pa)', 'distortionCoefficient')}
+                {field('U(λ) k=2 (1/Pa)', 'distortionUncertainty')}
+                {field('α pistón (1/°C)', 'pistonExpansion')}
+                {field('α cilindro (1/°C)', 'cylinderExpansion')}
+                {field('T referencia (°C)', 'referenceTemperature')}
+                {field('Termómetro ± (°C)', 'temperatureUncertainty')}
+            </div>
+            <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700">
+                <table className="w-full text-sm min-w-[600px]">
+                    <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-xs uppercase text-center"><tr><th className="p-2">Masa</th><th className="p-2">Valor (kg)</th><th className="p-2">U k=2 (kg)</th><th className="p-2">Densidad (kg/m³)</th><th className="p-2">Pistón</th><th className="p-2">Acción</th></tr></thead>
+                    <tbody className="bg-white dark:bg-slate-900/50">
+                        {config.masses.map(m => (
+                            <tr key={m.id}>
+                                <td className="p-2"><input className="sci-input-sm" value={m.label} onChange={e => updateMass(m.id, { label: e.target.value })} /></td>
+                                <td className="p-2"><ScientificInput className="sci-input-sm" value={m.value} onChange={(v: number) => updateMass(m.id, { value: v })} /></td>
+                                <td className="p-2"><ScientificInput className="sci-input-sm" value={m.uncertainty} onChange={(v: number) => updateMass(m.id, { uncertainty: v })} /></td>
+                                <td className="p-2"><ScientificInput className="sci-input-sm" value={m.density} onChange={(v: number) => updateMass(m.id, { density: v })} /></td>
+                                <td className="p-2 text-center"><input type="checkbox" checked={!!m.isPiston} onChange={e => updateMass(m.id, { isPiston: e.target.checked })} /></td>
+                                <td className="p-2 text-center"><button onClick={() => onChange({ ...config, masses: config.masses.filter(x => x.id !== m.id) })}><X size={16}/></button></td>
+                            </tr>
+                        ))}
+                        <tr><td colSpan={6} className="p-2 text-center"><button onClick={addMass} className="bg-blue-500 text-white p-1 rounded"><Plus size={16}/></button></td></tr>
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+};
+
+// --- Helper Component: Gauge Block (certificate length deviation, faces, expansion) ---
+const GaugeBlockEditor = ({ config, onChange }: { config: GaugeBlockConfig, onChange: (cfg: GaugeBlockConfig) => void }) => {
+    const field = (label: string, key: keyof Omit<GaugeBlockConfig, 'grade'>) => (
+        <div><label className="label-xs">{label}</label><ScientificInput className="sci-input" value={config[key]} onChange={(val: number) => onChange({ ...config, [key]: val })} /></div>
+    );
+
+    return (
+        <Card title="Bloque Patrón (ISO 3650)" icon={Calculator}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {field('Longitud Nominal (mm)', 'nominalLength')}
+                {field('Desviación Central (µm)', 'deviation')}
+                {field('U k=2 (µm)', 'uncertainty')}
+                {field('α (1/°C)', 'expansionCoefficient')}
+                {field('Variación de Longitud (µm)', 'variation')}
+                {field('Planitud (µm)', 'flatness')}
+                <div><label className="label-xs">Grado</label><input className="sci-input" value={config.grade} onChange={e => onChange({ ...config, grade: e.target.value })} /></div>
+                <div>
+                    <label className="label-xs">Longitud a 20 °C (mm)</label>
+                    <div className="sci-input font-mono">{(config.nominalLength + config.deviation / 1000).toFixed(5)}</div>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+const FIT_METHOD_LABELS: Record<FitMethod, string> = {
+    ols: 'Mínimos cuadrados ordinarios (OLS)',
+    wls: 'Ponderados por U del certificado (WLS)',
+    gls: 'Generalizados con correlaciones (GLS)'
+};
+
+// --- Helper Component: Certificate correlations between reference values (GLS) ---
+const PointCorrelationEditor = ({ points, correlations, onChange }: { points: StandardCalibrationPoint[], correlations: PointCorrelation[], onChange: (c: PointCorrelation[]) => void }) => {
+    const [common, setCommon] = useState(0);
+    const pointLabel = (id: string) => {
+        const p = points.find(q => q.id === id);
+        return p ? `${p.nominal}` : '?';
+    };
+    const update = (idx: number, field: keyof PointCorrelation, value: string | number) => onChange(correlations.map((c, i) => i === idx ? { ...c, [field]: value } : c));
+    const addPair = () => {
+        if (points.length < 2) return;
+        onChange([...correlations, { pointA: points[0].id, pointB: points[1].id, coefficient: 0 }]);
+    };
+    // Same coefficient for every pair, e.g. a systematic component common to the whole certificate
+    const applyCommon = () => {
+        const pairs: PointCorrelation[] = [];
+        points.forEach((a, i) => points.slice(i + 1).forEach(b => pairs.push({ pointA: a.id, pointB: b.id, coefficient: common })));
+        onChange(pairs);
+    };
+
+    return (
+        <div className="bg-indigo-50 dark:bg-indigo-900/20 p-3 rounded border border-indigo-100 dark:border-indigo-800 mb-2 space-y-2 animate-appear">
+            <div className="flex items-end gap-2">
+                <div className="flex-1">
+                    <label className="label-xs">Correlación común r</label>
+                    <ScientificInput className="sci-input-sm" value={common} onChange={(v: number) => setCommon(Math.max(-1, Math.min(1, v)))} />
+                </div>
+                <button onClick={applyCommon} className="bg-indigo-600 text-white px-2 py-1 rounded text-[10px] font-bold">Aplicar a todos los pares</button>
+            </div>
+            <table className="w-full text-[10px]">
+                <thead className="text-slate-500 font-bold"><tr><th className="p-1 text-left">Punto i</th><th className="p-1 text-left">Punto j</th><th className="p-1 text-left">r(i, j)</th><th></th></tr></thead>
+                <tbody>
+                    {correlations.map((c, idx) => (
+                        <tr key={idx}>
+                            {(['pointA', 'pointB'] as const).map(field => (
+                                <td key={field} className="p-1">
+                                    <select className="sci-input-sm" value={c[field]} onChange={e => update(idx, field, e.target.value)}>
+                                        {points.map(p => <option key={p.id} value={p.id}>{pointLabel(p.id)}</option>)}
+                                    </select>
+                                </td>
+                            ))}
+                            <td className="p-1"><ScientificInput className="sci-input-sm" value={c.coefficient} onChange={(v: number) => update(idx, 'coefficient', Math.max(-1, Math.min(1, v)))} /></td>
+                            <td className="p-1 text-center"><button onClick={() => onChange(correlations.filter((_, i) => i !== idx))}><X size={12}/></button></td>
+                        </tr>
+                    ))}
+                    <tr><td colSpan={4} className="p-1 text-center"><button onClick={addPair} className="bg-blue-500 text-white p-1 rounded"><Plus size={12}/></button></td></tr>
+                </tbody>
+            </table>
+            <p className="text-[9px] text-slate-400">Los pares no listados se consideran no correlacionados.</p>
+        </div>
+    );
+};
+
 const CoefficientTable = ({ regression, modelType }: { regression: RegressionResult, modelType: CurveModel }) => {
     if (!regression) return null;
 
@@ -88,13 +224,14 @@ const CoefficientTable = ({ regression, modelType }: { regression: RegressionRes
         <div className="w-full text-xs overflow-hidden rounded border border-slate-200 dark:border-slate-700 mt-2">
             <table className="w-full text-left">
                 <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-slate-500">
-                    <tr><th className="p-2">Coeficiente</th><th className="p-2">Valor</th><th className="p-2">Descripción</th></tr>
+                    <tr><th className="p-2">Coeficiente</th><th className="p-2">Valor</th>{regression.covariance && <th className="p-2">u(c)</th>}<th className="p-2">Descripción</th></tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
                     {regression.coefficients.map((val, idx) => (
                         <tr key={idx}>
                             <td className="p-2 font-bold font-mono">c{idx}</td>
                             <td className="p-2 font-mono text-slate-700 dark:text-slate-300">{val.toExponential(5)}</td>
+                            {regression.covariance && <td className="p-2 font-mono text-slate-500">{Math.sqrt(regression.covariance[idx][idx]).toExponential(3)}</td>}
                             <td className="p-2 text-slate-400 italic">
                                 {modelType.includes('linear') && idx===0 ? 'Intercepto (b)' : 
                                  modelType.includes('linear') && idx===1 ? 'Pendiente (m)' : 
@@ -104,6 +241,15 @@ const CoefficientTable = ({ regression, modelType }: { regression: RegressionRes
                     ))}
                 </tbody>
             </table>
+            {regression.covariance && regression.covariance.length > 1 && (
+                <div className="p-2 border-t border-slate-200 dark:border-slate-700 font-mono text-[10px] text-slate-500">
+                    <span className="font-bold">Correlación r(ci, cj):</span>
+                    {regression.covariance.map((row, i) => (
+                        <div key={i}>{row.map((v, j) => (v / Math.sqrt(row[i] * regression.covariance![j][j])).toFixed(4).padStart(8)).join(' ')}</div>
+                    ))}
+                    {regression.fitMethod && regression.fitMethod !== 'ols' && <div className="italic mt-1">Covarianza (XᵀV⁻¹X)⁻¹ a partir de las incertidumbres del certificado.</div>}
+                </div>
+            )}
         </div>
     );
 };
@@ -132,7 +278,7 @@ const ValidationCard = ({ regression }: { regression?: RegressionResult }) => {
                             {result.passed ? <CheckCircle2 size={14}/> : <AlertTriangle size={14}/>}
                         </div>
                         <div className="text-[9px] font-mono text-slate-400">
-                            {result.statisticName}={result.statisticValue} (Crit: {result.criticalValue.toFixed(2)})
+                            {result.statisticName}={result.statisticValue} (Crit: {result.criticalValue.toFixed(2)}{result.pValue !== undefined && `, p = ${formatPValue(result.pValue)}`})
                         </div>
                     </>
                 )}
@@ -143,7 +289,7 @@ const ValidationCard = ({ regression }: { regression?: RegressionResult }) => {
     return (
         <div className="mt-4 bg-slate-50 dark:bg-slate-900/50 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
             <h4 className="text-xs font-bold text-brand-blue uppercase flex items-center gap-2 mb-3 pb-2 border-b border-slate-200 dark:border-slate-700">
-                <Calculator size={14}/> Validación Estadística (ILAC P14)
+                <Calculator size={14}/> Validación Estadística (ILAC P14) <span className="ml-auto text-slate-400 font-mono normal-case">α = {v.significanceLevel}</span>
             </h4>
             <div className="flex flex-col gap-1">
                 <ValidationRow step={1} result={v.correlation} />
@@ -160,7 +306,16 @@ const ValidationCard = ({ regression }: { regression?: RegressionResult }) => {
                         <ValidationRow step={6} result={v.mandelLinearity} />
                     </div>
                 )}
+                {v.chiSquare && (
+                    <div className="mt-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+                        <ValidationRow step={7} result={v.chiSquare} />
+                    </div>
+                )}
             </div>
+            {/* Method and numerical conditioning (the first line is the report title) */}
+            {regression.validationSteps.split('\n').slice(1).filter(Boolean).map((line, i) => (
+                <div key={i} className="mt-1 text-[9px] font-mono text-slate-400">{line}</div>
+            ))}
         </div>
     );
 };
@@ -185,14 +340,17 @@ const ModelSelect = ({ value, onChange, label, className }: any) => (
 );
 
 const RegressionAnalysisView = ({ 
-    label, subLabel, modelType, setModelType, subModels, setSubModels, regression, dataPoints, color, isUncertainty = false
+    label, subLabel, modelType, setModelType, subModels, setSubModels, fitMethod = 'ols', setFitMethod, children, regression, dataPoints, color, isUncertainty = false
 }: { 
     label: string, subLabel: string, modelType: CurveModel, setModelType: (m: CurveModel) => void, 
     subModels?: { low: CurveModel, high: CurveModel }, setSubModels?: (sm: { low: CurveModel, high: CurveModel }) => void,
+    fitMethod?: FitMethod, setFitMethod?: (m: FitMethod) => void, children?: React.ReactNode,
     regression?: RegressionResult, dataPoints: { x: number, y: number }[], color: string, isUncertainty?: boolean
 }) => {
     
-    // Simulate data for chart curve
+    const [band, setBand] = useState<PredictionBand>('prediction');
+
+    // Simulate data for chart curve; the band is drawn expanded (k = 2)
     const simulationData = useMemo(() => {
         if (!regression || dataPoints.length < 2) return [];
         const xValues = dataPoints.map(p => p.x);
@@ -204,17 +362,17 @@ const RegressionAnalysisView = ({
         const points = [];
         for (let x = minX; x <= maxX + step; x += step) {
             // Need to pass subModels for piecewise prediction
-            let yPred = predictValue(x, modelType, regression.coefficients, regression.subModels);
+            let yPred = evaluateRegression(x, modelType, regression);
             let u = 0;
             if (!isUncertainty) {
-                 u = calculateInterpolationUncertainty(x, regression, modelType);
+                 u = 2 * calculateInterpolationUncertainty(x, regression, modelType, band);
             }
             if (isUncertainty && yPred < 0) yPred = 0; 
             
             points.push({ x, yPred, upper: yPred + u, lower: yPred - u });
         }
         return points;
-    }, [regression, modelType, dataPoints, isUncertainty]);
+    }, [regression, modelType, dataPoints, isUncertainty, band]);
 
     const qualityColor = regression?.isBestFit ? 'bg-indigo-600 shadow-indigo-500/50' : 
                          regression?.modelQuality === 'EXCELLENT' ? 'bg-emerald-500' : 
@@ -236,11 +394,14 @@ const RegressionAnalysisView = ({
                                 <option value="linear_pearson">Lineal (Pearson)</option>
                                 <option value="piecewise_mixed" className="font-bold text-indigo-600">★ Regresión Doble Flexible (Mix)</option>
                                 <option value="linear_theil_sen">Lineal Robusta (Theil-Sen)</option>
+                                {!isUncertainty && <option value="linear_wtls">Lineal WTLS (errores en x e y, ISO/TS 28037)</option>}
                                 <option value="polynomial_2nd">Polinomio Grado 2</option>
                                 <option value="polynomial_3rd">Polinomio Grado 3</option>
                                 <option value="power">Potencial (Power)</option>
                                 <option value="exponential">Exponencial</option>
                                 <option value="logarithmic">Logarítmico</option>
+                                {!isUncertainty && <option value="callendar_van_dusen">Callendar–Van Dusen (PRT, x = Ω)</option>}
+                                {!isUncertainty && <option value="its90_deviation">Desviación ITS-90 (PRT, x = Ω)</option>}
                             </select>
                         </div>
 
@@ -258,6 +419,20 @@ const RegressionAnalysisView = ({
                                 />
                             </div>
                         )}
+
+                        {setFitMethod && (
+                            <div className="mb-2">
+                                <label className="label-xs mb-1 block text-slate-500">Método de Ajuste</label>
+                                <select 
+                                    className="w-full bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 text-slate-800 dark:text-slate-200 rounded-lg p-2 font-bold outline-none focus:ring-2 focus:ring-brand-blue text-xs" 
+                                    value={fitMethod} 
+                                    onChange={e => setFitMethod(e.target.value as FitMethod)}
+                                >
+                                    {(Object.keys(FIT_METHOD_LABELS) as FitMethod[]).map(m => <option key={m} value={m}>{FIT_METHOD_LABELS[m]}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        {children}
                     </div>
                     
                     <div className="flex-[2] w-full bg-slate-50 dark:bg-[#1e293b] p-3 rounded-lg border border-slate-200 dark:border-slate-700 flex flex-col justify-center relative overflow-hidden">
@@ -309,6 +484,18 @@ const RegressionAnalysisView = ({
                 {regression && <ValidationCard regression={regression} />}
             </div>
 
+            {!isUncertainty && (
+                <div className="flex items-center gap-2 text-[10px]">
+                    <span className="font-bold text-slate-400 uppercase">Banda de interpolación:</span>
+                    {(['confidence', 'prediction'] as PredictionBand[]).map(b => (
+                        <button key={b} onClick={() => setBand(b)} className={`px-2 py-1 rounded border font-bold ${band === b ? 'bg-brand-blue text-white border-brand-blue' : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700'}`}>
+                            {b === 'confidence' ? 'Confianza (curva)' : 'Predicción (curva + dispersión)'}
+                        </button>
+                    ))}
+                    <span className="text-slate-400 italic">Los cálculos de calibración usan la banda de predicción.</span>
+                </div>
+            )}
+
             <div className="h-72 bg-white dark:bg-[#1e293b] rounded-lg border border-slate-200 dark:border-slate-700 p-2 shadow-inner relative group">
                 
                 {regression && (
@@ -339,7 +526,7 @@ const RegressionAnalysisView = ({
                         )}
 
                         <Line name="Modelo Matemático" dataKey="yPred" type="monotone" stroke={color} strokeWidth={2} dot={false} activeDot={false} isAnimationActive={false}/>
-                        {!isUncertainty && <Line name="Banda Incertidumbre (Prognosis)" dataKey="upper" type="monotone" stroke="#ef4444" strokeWidth={1} strokeDasharray="3 3" dot={false} activeDot={false} isAnimationActive={false}/>}
+                        {!isUncertainty && <Line name={band === 'prediction' ? 'Banda de Predicción (k = 2)' : 'Banda de Confianza (k = 2)'} dataKey="upper" type="monotone" stroke="#ef4444" strokeWidth={1} strokeDasharray="3 3" dot={false} activeDot={false} isAnimationActive={false}/>}
                         {!isUncertainty && <Line name="Banda Inferior" dataKey="lower" type="monotone" stroke="#ef4444" strokeWidth={1} strokeDasharray="3 3" dot={false} activeDot={false} legendType="none" isAnimationActive={false}/>}
                         <Scatter name="Datos Reales" data={dataPoints} dataKey="y" fill="#000000" stroke="#ffffff" strokeWidth={2} shape="circle" r={5} isAnimationActive={false}/>
                     </ComposedChart>
@@ -349,7 +536,7 @@ const RegressionAnalysisView = ({
     );
 };
 
-export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) => {
+export const StandardsManager: React.FC<Props> = ({ standards, setStandards, labProfile }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [activeSubTab, setActiveSubTab] = useState<'info'|'checks'>('info');
   const [analysisTab, setAnalysisTab] = useState<'value'|'uncertainty'>('value');
@@ -361,6 +548,8 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
   const [spcReadings, setSpcReadings] = useState<number[]>(new Array(10).fill(0));
   const [spcDate, setSpcDate] = useState(new Date().toISOString().split('T')[0]);
   const [spcTech, setSpcTech] = useState('Admin');
+  const [spcDecisions, setSpcDecisions] = useState<OutlierDecision[]>([]);
+  const [spcNote, setSpcNote] = useState('');
   
   useEffect(() => {
     if (isEditing && currentStd.calibrationPoints.length >= 3) {
@@ -369,19 +558,25 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
           currentStd.valueModelType, 
           currentStd.uncertaintyModelType,
           currentStd.valueSubModels,
-          currentStd.uncertaintySubModels
+          currentStd.uncertaintySubModels,
+          labProfile.significanceLevel,
+          currentStd.valueFitMethod,
+          currentStd.pointCorrelations,
+          currentStd.resolution
       );
       
-      const valStr = JSON.stringify(valueReg.coefficients) + valueReg.equationString;
-      const uncStr = JSON.stringify(uncReg.coefficients) + uncReg.equationString;
-      const currValStr = JSON.stringify(currentStd.valueRegression?.coefficients) + currentStd.valueRegression?.equationString;
-      const currUncStr = JSON.stringify(currentStd.uncertaintyRegression?.coefficients) + currentStd.uncertaintyRegression?.equationString;
+      // The significance level and the fit method may change the validation or covariance without changing the coefficients
+      const key = (reg?: RegressionResult) => JSON.stringify(reg?.coefficients) + reg?.equationString + reg?.extendedValidation?.significanceLevel + reg?.fitMethod + JSON.stringify(reg?.covariance);
+      const valStr = key(valueReg);
+      const uncStr = key(uncReg);
+      const currValStr = key(currentStd.valueRegression);
+      const currUncStr = key(currentStd.uncertaintyRegression);
 
       if(valStr !== currValStr || uncStr !== currUncStr) {
           setCurrentStd(prev => ({ ...prev, valueRegression: valueReg, uncertaintyRegression: uncReg }));
       }
     }
-  }, [currentStd.calibrationPoints, currentStd.valueModelType, currentStd.uncertaintyModelType, currentStd.valueSubModels, currentStd.uncertaintySubModels, isEditing]);
+  }, [currentStd.calibrationPoints, currentStd.valueModelType, currentStd.uncertaintyModelType, currentStd.valueSubModels, currentStd.uncertaintySubModels, currentStd.valueFitMethod, currentStd.pointCorrelations, currentStd.resolution, isEditing, labProfile.significanceLevel]);
 
   const handleSave = () => {
     playSound('success');
@@ -403,7 +598,8 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
         uncertainty: newPoint.uncertainty || 0,
         coverageFactor: newPoint.coverageFactor || 2,
         confidenceLevel: newPoint.confidenceLevel || 95.45,
-        distribution: newPoint.distribution || 'Normal'
+        distribution: newPoint.distribution || 'Normal',
+        indicationStdDev: newPoint.indicationStdDev || undefined
       };
       const updatedPoints = [...currentStd.calibrationPoints, pt].sort((a, b) => a.indication - b.indication);
       setCurrentStd({ ...currentStd, calibrationPoints: updatedPoints });
@@ -411,10 +607,12 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
   };
 
   const initializeSPC = () => {
-     const mid = (currentStd.rangeMax - currentStd.rangeMin)/2;
+     const mid = (currentStd.rangeMax + currentStd.rangeMin)/2;
      const points = [currentStd.rangeMin, mid, currentStd.rangeMax];
+     // Limits relative to the full scale, which may be the negative end (vacuum standards)
+     const fullScale = Math.max(Math.abs(currentStd.rangeMin), Math.abs(currentStd.rangeMax));
      const limits: any = {};
-     points.forEach(p => { limits[p] = { ucl: currentStd.rangeMax * 0.002, lcl: -(currentStd.rangeMax * 0.002) }; });
+     points.forEach(p => { limits[p] = { ucl: fullScale * 0.002, lcl: -(fullScale * 0.002) }; });
      setCurrentStd({ ...currentStd, checkConfig: { checkPoints: points, limits } });
      setSelectedSPCPoint(points[0]);
   };
@@ -425,12 +623,39 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
       limits[nominal] = { ...limits[nominal], [type]: val };
       setCurrentStd({ ...currentStd, checkConfig: { ...currentStd.checkConfig, limits } });
   };
+  useEffect(() => {
+      setSpcDecisions([]);
+      setSpcNote('');
+  }, [selectedSPCPoint]);
+
+  // Screening of the block being entered against the previous checks of the point (a check on the same date is replaced)
+  const spcFindings = useMemo(() => {
+      if (selectedSPCPoint === null) return [];
+      const history = (currentStd.intermediateChecks || []).filter(c => !c.date.startsWith(spcDate))
+          .map(c => c.results.find(r => r.nominal === selectedSPCPoint)).filter((r): r is CheckPointResult => !!r);
+      return screenCheckReadings(selectedSPCPoint, spcReadings, history, labProfile.significanceLevel);
+  }, [selectedSPCPoint, spcReadings, spcDate, currentStd.intermediateChecks, labProfile.significanceLevel]);
+  const spcPending = getPendingOutliers(spcFindings, spcDecisions);
+
+  const decideSPCOutlier = (finding: OutlierFinding, action: OutlierAction) => {
+      if (!spcNote.trim()) { playSound('error'); alert('Registre la justificación para conservar o repetir el dato atípico.'); return; }
+      playSound('click');
+      setSpcDecisions([...spcDecisions, { ...finding, action, justification: spcNote.trim(), date: new Date().toISOString() }]);
+      setSpcNote('');
+  };
+
   const saveSPCCheck = () => {
       if (selectedSPCPoint === null) return;
+      if (spcPending.length > 0) {
+          playSound('error');
+          alert(`Datos atípicos sin decisión:\n${spcPending.map(f => describeOutlier(f, currentStd.unit)).join('\n')}\n\nConsérvelos o repita las lecturas con su justificación.`);
+          return;
+      }
       const mean = spcReadings.reduce((a,b)=>a+b,0)/10;
       const s = Math.sqrt(spcReadings.reduce((a,b)=>a+Math.pow(b-mean,2),0)/9);
       const min = Math.min(...spcReadings); const max = Math.max(...spcReadings);
-      const res: CheckPointResult = { nominal: selectedSPCPoint, readings: [...spcReadings], mean, stdDev: s, range: max - min };
+      const recorded = getRecordedDecisions(spcFindings, spcDecisions);
+      const res: CheckPointResult = { nominal: selectedSPCPoint, readings: [...spcReadings], mean, stdDev: s, range: max - min, outlierDecisions: recorded.length > 0 ? recorded : undefined };
       
       let checks = [...(currentStd.intermediateChecks || [])];
       let currentCheck = checks.find(c => c.date.startsWith(spcDate));
@@ -442,22 +667,26 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
       const drift = mean - selectedSPCPoint; 
       if (lim && (drift > lim.ucl || drift < lim.lcl)) currentCheck.globalResult = 'FAIL';
       setCurrentStd({ ...currentStd, intermediateChecks: checks });
+      setSpcDecisions([]);
       playSound('success');
   };
   
-  const { trendData, rawScatterData } = useMemo(() => {
-      if (selectedSPCPoint === null || !currentStd.intermediateChecks) return { trendData: [], rawScatterData: [] };
+  const { trendData, rawScatterData, outlierScatterData } = useMemo(() => {
+      if (selectedSPCPoint === null || !currentStd.intermediateChecks) return { trendData: [], rawScatterData: [], outlierScatterData: [] };
       const lim = currentStd.checkConfig?.limits[selectedSPCPoint];
-      const trends: any[] = []; const raws: any[] = [];
+      const trends: any[] = []; const raws: any[] = []; const outliers: any[] = [];
       const sortedChecks = [...currentStd.intermediateChecks].sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
       sortedChecks.forEach(c => {
           const res = c.results.find(r => r.nominal === selectedSPCPoint);
           if (!res) return;
           const timestamp = new Date(c.date).getTime();
           trends.push({ timestamp, dateStr: new Date(c.date).toLocaleDateString(), mean: res.mean, ucl: lim ? selectedSPCPoint + lim.ucl : null, lcl: lim ? selectedSPCPoint + lim.lcl : null, nominal: selectedSPCPoint });
-          res.readings.forEach(val => raws.push({ timestamp, value: val }));
+          res.readings.forEach((val, idx) => {
+              const kept = res.outlierDecisions?.some(d => d.action === 'keep' && d.readingIndex === idx && d.value === val);
+              (kept ? outliers : raws).push({ timestamp, value: val });
+          });
       });
-      return { trendData: trends, rawScatterData: raws };
+      return { trendData: trends, rawScatterData: raws, outlierScatterData: outliers };
   }, [currentStd.intermediateChecks, selectedSPCPoint, currentStd.checkConfig]);
 
   const valuePoints = currentStd.calibrationPoints.map(p => ({ x: p.indication, y: p.referenceValue }));
@@ -493,25 +722,62 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
               <div className="space-y-4">
                  <input className="sci-input" value={currentStd.name} onChange={e => setCurrentStd({...currentStd, name: e.target.value})} placeholder="Nombre / Modelo" />
                  <input className="sci-input" value={currentStd.serialNumber} onChange={e => setCurrentStd({...currentStd, serialNumber: e.target.value})} placeholder="Número de Serie" />
+                 <div className="grid grid-cols-2 gap-4">
+                     <div>
+                         <label className="label-xs">Tipo</label>
+                         <select className="sci-input" value={currentStd.type} onChange={e => {
+                             const type = e.target.value as StandardType;
+                             setCurrentStd({
+                                 ...currentStd, type,
+                                 pressureBalance: type === StandardType.PressureBalance ? (currentStd.pressureBalance || EmptyPressureBalance) : currentStd.pressureBalance,
+                                 gaugeBlock: type === StandardType.Dimensional ? (currentStd.gaugeBlock || EmptyGaugeBlock) : currentStd.gaugeBlock,
+                                 unit: type === StandardType.Dimensional ? Unit.Millimeter : currentStd.unit
+                             });
+                         }}>
+                             {Object.values(StandardType).map(t => <option key={t} value={t}>{STANDARD_TYPE_LABELS[t]}</option>)}
+                         </select>
+                     </div>
+                     <div>
+                         <label className="label-xs">Unidad</label>
+                         <select className="sci-input" value={currentStd.unit} onChange={e => setCurrentStd({...currentStd, unit: e.target.value as Unit})}>
+                             {Object.values(Unit).map(u => <option key={u} value={u}>{u}</option>)}
+                         </select>
+                     </div>
+                 </div>
                  <div className="grid grid-cols-2 gap-4">
                      <div><label className="label-xs">Rango Min</label><ScientificInput className="sci-input" placeholder="Min" value={currentStd.rangeMin} onChange={(val: number) => setCurrentStd({...currentStd, rangeMin: val})} /></div>
                      <div><label className="label-xs">Rango Max</label><ScientificInput className="sci-input" placeholder="Max" value={currentStd.rangeMax} onChange={(val: number) => setCurrentStd({...currentStd, rangeMax: val})} /></div>
+                     <div><label className="label-xs">Resolución</label><ScientificInput className="sci-input" value={currentStd.resolution} onChange={(val: number) => setCurrentStd({...currentStd, resolution: val})} /></div>
+                     {(currentStd.type === StandardType.Pressure || currentStd.type === StandardType.PressureBalance) && (
+                         <div>
+                             <label className="label-xs">Modo</label>
+                             <select className="sci-input" value={currentStd.pressureMode || 'gauge'} onChange={e => setCurrentStd({...currentStd, pressureMode: e.target.value as PressureMode})}>
+                                 {(Object.keys(PRESSURE_MODE_LABELS) as PressureMode[]).map(m => <option key={m} value={m}>{PRESSURE_MODE_LABELS[m]}</option>)}
+                             </select>
+                         </div>
+                     )}
                  </div>
               </div>
             </Card>
           </div>
           <div className="col-span-12 lg:col-span-9 space-y-6">
+             {currentStd.type === StandardType.PressureBalance && currentStd.pressureBalance ? (
+                 <PressureBalanceEditor config={currentStd.pressureBalance} onChange={cfg => setCurrentStd({...currentStd, pressureBalance: cfg})} />
+             ) : currentStd.type === StandardType.Dimensional && currentStd.gaugeBlock ? (
+                 <GaugeBlockEditor config={currentStd.gaugeBlock} onChange={cfg => setCurrentStd({...currentStd, gaugeBlock: cfg})} />
+             ) : (<>
              <Card title="Tabla de Puntos de Calibración (Certificado)" icon={Activity}>
                 <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700">
                     <table className="w-full text-sm min-w-[600px]">
-                        <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-xs uppercase text-center"><tr><th className="p-2">Nominal</th><th className="p-2">Lectura</th><th className="p-2">Ref</th><th className="p-2">U</th><th className="p-2">Acción</th></tr></thead>
+                        <thead className="bg-slate-100 dark:bg-slate-800 font-bold text-xs uppercase text-center"><tr><th className="p-2">Nominal</th><th className="p-2">Lectura</th><th className="p-2" title="Repetibilidad de la lectura (desviación típica de la media)">s Lectura</th><th className="p-2">Ref</th><th className="p-2">U</th><th className="p-2">Acción</th></tr></thead>
                         <tbody className="bg-white dark:bg-slate-900/50">
                            {currentStd.calibrationPoints.map(p => (
-                               <tr key={p.id}><td className="p-2 text-center">{p.nominal}</td><td className="p-2 text-center">{p.indication}</td><td className="p-2 text-center">{p.referenceValue}</td><td className="p-2 text-center">{p.uncertainty}</td><td className="p-2 text-center"><button onClick={() => setCurrentStd({...currentStd, calibrationPoints: currentStd.calibrationPoints.filter(x => x.id !== p.id)})}><X size={16}/></button></td></tr>
+                               <tr key={p.id}><td className="p-2 text-center">{p.nominal}</td><td className="p-2 text-center">{p.indication}</td><td className="p-2 text-center">{p.indicationStdDev ?? '—'}</td><td className="p-2 text-center">{p.referenceValue}</td><td className="p-2 text-center">{p.uncertainty}</td><td className="p-2 text-center"><button onClick={() => setCurrentStd({...currentStd, calibrationPoints: currentStd.calibrationPoints.filter(x => x.id !== p.id), pointCorrelations: currentStd.pointCorrelations?.filter(c => c.pointA !== p.id && c.pointB !== p.id)})}><X size={16}/></button></td></tr>
                            ))}
                            <tr>
                                <td className="p-2"><ScientificInput className="sci-input-sm" value={newPoint.nominal} onChange={(v:number)=>setNewPoint({...newPoint, nominal: v})}/></td>
                                <td className="p-2"><ScientificInput className="sci-input-sm" value={newPoint.indication} onChange={(v:number)=>setNewPoint({...newPoint, indication: v})}/></td>
+                               <td className="p-2"><ScientificInput className="sci-input-sm" value={newPoint.indicationStdDev} onChange={(v:number)=>setNewPoint({...newPoint, indicationStdDev: v})}/></td>
                                <td className="p-2"><ScientificInput className="sci-input-sm" value={newPoint.referenceValue} onChange={(v:number)=>setNewPoint({...newPoint, referenceValue: v})}/></td>
                                <td className="p-2"><ScientificInput className="sci-input-sm" value={newPoint.uncertainty} onChange={(v:number)=>setNewPoint({...newPoint, uncertainty: v})}/></td>
                                <td className="p-2 text-center"><button onClick={addPoint} className="bg-blue-500 text-white p-1 rounded"><Plus size={16}/></button></td>
@@ -533,10 +799,20 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
                         setModelType={(m) => setCurrentStd({...currentStd, valueModelType: m})} 
                         subModels={currentStd.valueSubModels}
                         setSubModels={(sm) => setCurrentStd({...currentStd, valueSubModels: sm})}
+                        fitMethod={currentStd.valueFitMethod}
+                        setFitMethod={(m) => setCurrentStd({...currentStd, valueFitMethod: m})}
                         regression={currentStd.valueRegression} 
                         dataPoints={valuePoints} 
                         color="#f97316"
-                    />
+                    >
+                        {currentStd.valueFitMethod === 'gls' && (
+                            <PointCorrelationEditor 
+                                points={currentStd.calibrationPoints} 
+                                correlations={currentStd.pointCorrelations || []} 
+                                onChange={(c) => setCurrentStd({...currentStd, pointCorrelations: c})} 
+                            />
+                        )}
+                    </RegressionAnalysisView>
                 ) : (
                     <RegressionAnalysisView 
                         label="Modelo de Incertidumbre" 
@@ -552,6 +828,7 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
                     />
                 )}
              </Card>
+             </>)}
           </div>
         </div>
         ) : (
@@ -578,9 +855,28 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
                 </Card>
                 {selectedSPCPoint !== null && (
                     <Card title="Registrar Bloque" icon={Plus}>
-                        <div className="grid grid-cols-5 gap-2 mb-4">
-                            {spcReadings.map((val, idx) => (<ScientificInput key={idx} className="sci-input-sm text-center" value={val} onChange={(v: number) => { const n = [...spcReadings]; n[idx] = v; setSpcReadings(n); }} />))}
+                        <div className={`grid grid-cols-5 gap-2 mb-4 ${spcPending.some(f => f.test === 'cochran') ? 'p-1 rounded ring-2 ring-red-400' : ''}`}>
+                            {spcReadings.map((val, idx) => (<ScientificInput key={idx} className={`sci-input-sm text-center ${spcPending.some(f => f.readingIndex === idx) ? 'ring-2 ring-red-400 text-red-600' : ''}`} value={val} onChange={(v: number) => { const n = [...spcReadings]; n[idx] = v; setSpcReadings(n); }} />))}
                         </div>
+                        {spcPending.length > 0 && (
+                            <div className="mb-4 p-2 rounded border border-red-300 bg-red-50 text-xs space-y-2">
+                                {spcPending.map((f, i) => (
+                                    <div key={i} className="flex items-center justify-between gap-2">
+                                        <span className="font-mono text-[10px] text-red-600">{f.readingIndex !== undefined && `#${f.readingIndex + 1} · `}{describeOutlier(f, currentStd.unit)}</span>
+                                        <div className="flex gap-1">
+                                            <button onClick={() => decideSPCOutlier(f, 'keep')} className="px-2 py-1 text-[10px] font-bold rounded bg-white border">CONSERVAR</button>
+                                            <button onClick={() => decideSPCOutlier(f, 'repeat')} className="px-2 py-1 text-[10px] font-bold rounded bg-brand-blue text-white">REPETIR</button>
+                                        </div>
+                                    </div>
+                                ))}
+                                <input className="sci-input-sm" placeholder="Justificación" value={spcNote} onChange={e => setSpcNote(e.target.value)} />
+                            </div>
+                        )}
+                        {spcDecisions.length > 0 && (
+                            <div className="mb-4 text-[10px] text-slate-500">
+                                {spcDecisions.map((d, i) => <div key={i}><strong>{OUTLIER_ACTION_LABELS[d.action]}</strong>{d.readingIndex !== undefined && ` #${d.readingIndex + 1}`} ({d.value}): {d.justification}</div>)}
+                            </div>
+                        )}
                         <button onClick={saveSPCCheck} className="w-full bg-brand-orange text-white py-3 rounded-lg font-bold">REGISTRAR</button>
                     </Card>
                 )}
@@ -597,6 +893,7 @@ export const StandardsManager: React.FC<Props> = ({ standards, setStandards }) =
                                     <Tooltip labelFormatter={(t)=>new Date(t).toLocaleDateString()}/>
                                     <Line data={trendData} type="monotone" dataKey="mean" stroke="#f97316" strokeWidth={2}/>
                                     <Scatter data={rawScatterData} fill="#3b82f6" r={3} opacity={0.6}/>
+                                    <Scatter data={outlierScatterData} fill="#ef4444" r={4}/>
                                     <Line data={trendData} type="step" dataKey="ucl" stroke="#ef4444" strokeDasharray="5 5" dot={false}/>
                                     <Line data={trendData} type="step" dataKey="lcl" stroke="#ef4444" strokeDasharray="5 5" dot={false}/>
                                 </ComposedChart>
@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import { CalibrationSession, ReferenceStandard, Instrument, Unit, StandardType, DecisionRule, DecisionRuleType, ThermometerKind, ThermometerPoint, BathCharacterization, EnvReading, CorrectionCurveModel } from '../types';
+import { playSound } from '../services/calibrationLogic';
+import { getQuantity } from '../services/units';
+import { isStandardExpired } from '../services/environment';
+import { THERMOMETER_KIND_LABELS, THERMOMETER_INDICATION_UNITS, THERMOMETER_CURVE_MODELS, DEFAULT_THERMOMETER_SET_POINTS, createThermometerPoint, evaluateThermometerPoints, fitThermometerCurve } from '../services/thermometerCalibration';
+import { CORRECTION_MODEL_LABELS } from '../services/correctionCurve';
+import { DEFAULT_DECISION_RULE, DECISION_RULE_LABELS, CONFORMITY_LABELS } from '../services/conformity';
+import { Play, Save, Thermometer, PenTool, Plus, X, Wind, TrendingUp } from 'lucide-react';
+import { ScientificInput } from './ScientificInput';
+
+interface Props {
+  standards: ReferenceStandard[];
+  header?: React.ReactNode;   // Procedure selector of the calibration screen
+  significanceLevel?: number; // α of the curve validation
+  onSave: (session: CalibrationSession) => void;
+}
+
+const BATH_FIELDS: { key: keyof BathCharacterization, label: string }[] = [
+    { key: 'uniformity', label: 'Uniformidad (± °C)' },
+    { key: 'stability', label: 'Estabilidad (p-p, °C)' },
+    { key: 'immersion', label: 'Efecto Inmersión (°C)' }
+];
+
+export const ThermometerCalibrationForm: React.FC<Props> = ({ standards, header, significanceLevel, onSave }) => {
+  const [step, setStep] = useState(1);
+  const [kind, setKind] = useState<ThermometerKind>('direct');
+  const [instrument, setInstrument] = useState<Instrument>({
+    manufacturer: '',
+    model: '',
+    serialNumber: '',
+    rangeMin: 0,
+    rangeMax: 200,
+    resolution: 0.01,
+    accuracyClass: 0,
+    unit: Unit.Celcius,
+    applicantName: '',
+    identificationId: '',
+    type: 'digital',
+    connectionType: '',
+    sensorLocation: '',
+    conditionReceived: 'Bueno'
+  });
+  const [tolerance, setTolerance] = useState(0.5);
+  const [standardId, setStandardId] = useState('');
+  const [setPointList, setSetPointList] = useState(DEFAULT_THERMOMETER_SET_POINTS);
+  const [readingsPerPoint, setReadingsPerPoint] = useState(5);
+  const [immersionDepth, setImmersionDepth] = useState(150);
+  const [medium, setMedium] = useState('Aceite de silicona');
+  const [measuringCurrent, setMeasuringCurrent] = useState(1);
+  const [selfHeating, setSelfHeating] = useState(0);
+  const [curveModel, setCurveModel] = useState<CorrectionCurveModel>('auto');
+  const [tableStep, setTableStep] = useState(10);
+  const [decisionRule, setDecisionRule] = useState<DecisionRule>(DEFAULT_DECISION_RULE);
+  const [labConditions, setLabConditions] = useState<EnvReading>({ temp: 23, humidity: 50, pressure: 1013 });
+  const [points, setPoints] = useState<ThermometerPoint[]>([]);
+
+  const temperatureStandards = standards.filter(s => s.type === StandardType.Temperature && getQuantity(s.unit) === 'temperature');
+  const standard = standards.find(s => s.id === standardId);
+  const indicationUnit = THERMOMETER_INDICATION_UNITS[kind];
+
+  const changeKind = (k: ThermometerKind) => {
+      setKind(k);
+      setCurveModel('auto');
+      setInstrument({ ...instrument, resolution: k === 'direct' ? 0.01 : 0.001 });
+  };
+
+  const initSequence = () => {
+      if (!instrument.manufacturer || !instrument.serialNumber || !instrument.applicantName) {
+          alert("Por favor complete los datos obligatorios del instrumento (Solicitante, Marca, Serie).");
+          return;
+      }
+      if (!standard) {
+          playSound('error');
+          alert('Seleccione el termómetro patrón.');
+          return;
+      }
+      if (setPointList.length === 0) {
+          playSound('error');
+          alert('Defina al menos un punto de calibración.');
+          return;
+      }
+      if (readingsPerPoint < 1) {
+          playSound('error');
+          alert('Se requiere al menos una lectura por punto.');
+          return;
+      }
+      playSound('click');
+      setPoints([...setPointList].sort((a, b) => a - b).map(t => createThermometerPoint(kind, t, readingsPerPoint)));
+      setStep(2);
+  };
+
+  const updateReading = (index: number, key: 'reference' | 'indication', reading: number, val: number) => {
+      const n = [...points];
+      const values = [...n[index][key]];
+      values[reading] = val;
+      n[index] = { ...n[index], [key]: values };
+      setPoints(n);
+  };
+
+  const updateBath = (index: number, key: keyof BathCharacterization, val: number) => {
+      const n = [...points];
+      n[index] = { ...n[index], bath: { ...n[index].bath, [key]: val } };
+      setPoints(n);
+  };
+
+  const results = standard && points.length > 0
+      ? evaluateThermometerPoints(points, standard, kind, instrument.resolution, kind === 'direct' ? tolerance : undefined, decisionRule)
+      : [];
+  const curve = results.length >= 3 ? fitThermometerCurve(results, kind, curveModel, tableStep, significanceLevel) : undefined;
+
+  const handleFinish = () => {
+      if (!standard) return;
+      const session: CalibrationSession = {
+          id: `CAL-${Date.now()}`,
+          date: new Date().toISOString(),
+          technician: 'Admin User',
+          standardId: standard.id,
+          procedure: 'thermometer',
+          instrument: { ...instrument, unit: indicationUnit, sensorLocation: `Inmersión ${immersionDepth} mm` },
+          envReadings: { start: labConditions, middle: labConditions, end: labConditions },
+          decisionRule,
+          points: [],
+          thermometer: {
+              standardId: standard.id,
+              kind,
+              indicationUnit,
+              tolerance: kind === 'direct' ? tolerance : undefined,
+              readingsPerPoint,
+              immersionDepth,
+              medium,
+              measuringCurrent: kind === 'prt' ? measuringCurrent : undefined,
+              selfHeating: kind === 'prt' && selfHeating ? selfHeating : undefined,
+              points,
+              results,
+              curve
+          }
+      };
+      onSave(session);
+      playSound('success');
+  };
+
+  if (step === 1) {
+    return (
+      <div className="p-8 max-w-7xl mx-auto space-y-6">
+         <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">CONFIGURACIÓN DE MISIÓN</h2>
+         {header}
+
+         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+             <div className="lg:col-span-8 glass-panel p-6 rounded-2xl space-y-6">
+                 <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2 flex items-center gap-2">
+                     <PenTool size={18}/> Datos del Instrumento (Ítem)
+                 </h3>
+                 <div className="flex gap-2">
+                     {(Object.keys(THERMOMETER_KIND_LABELS) as ThermometerKind[]).map(k => (
+                         <button key={k} onClick={() => changeKind(k)} className={`px-3 py-2 rounded-lg font-bold text-xs transition-all flex-1 ${kind === k ? 'bg-brand-blue text-white shadow-md' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-slate-200'}`}>
+                             {THERMOMETER_KIND_LABELS[k]}
+                         </button>
+                     ))}
+                 </div>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                     <div><label className="label-sci">Solicitante</label><input className="sci-input" value={instrument.applicantName} onChange={e => setInstrument({...instrument, applicantName: e.target.value})} /></div>
+                     <div><label className="label-sci">Identificación (TAG)</label><input className="sci-input" value={instrument.identificationId} onChange={e => setInstrument({...instrument, identificationId: e.target.value})} /></div>
+                     <div><label className="label-sci">Marca</label><input className="sci-input" value={instrument.manufacturer} onChange={e => setInstrument({...instrument, manufacturer: e.target.value})} /></div>
+                     <div><label className="label-sci">Modelo</label><input className="sci-input" value={instrument.model} onChange={e => setInstrument({...instrument, model: e.target.value})} /></div>
+                     <div><label className="label-sci">No. Serie</label><input className="sci-input" value={instrument.serialNumber} onChange={e => setInstrument({...instrument, serialNumber: e.target.value})} /></div>
+                     <div><label className="label-sci">Condición de Recepción</label><input className="sci-input" value={instrument.conditionReceived} onChange={e => setInstrument({...instrument, conditionReceived: e.target.value})} /></div>
+                 </div>
+
+                 <hr className="border-slate-100 dark:border-slate-700"/>
+
+                 <div className="space-y-4">
+                     <h4 className="text-xs font-bold uppercase text-slate-400">Especificaciones Metrológicas</h4>
+                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                         <div><label className="label-sci">Rango Min (°C)</label><ScientificInput className="sci-input" value={instrument.rangeMin} onChange={(val: number) => setInstrument({...instrument, rangeMin: val})} /></div>
+                         <div><label className="label-sci">Rango Max (°C)</label><ScientificInput className="sci-input" value={instrument.rangeMax} onChange={(val: number) => setInstrument({...instrument, rangeMax: val})} /></div>
+                         <div><label className="label-sci">Resolución ({indicationUnit})</label><ScientificInput className="sci-input" value={instrument.resolution} onChange={(val: number) => setInstrument({...instrument, resolution: val})} /></div>
+                         {kind === 'direct' && (
+                             <div><label className="label-sci">EMP (± °C)</label><ScientificInput className="sci-input" value={tolerance} onChange={(val: number) => setTolerance(val)} /></div>
+                         )}
+                     </div>
+                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                         <div><label className="label-sci">Medio de Comparación</label><input className="sci-input" value={medium} onChange={e => setMedium(e.target.value)} /></div>
+                         <div><label className="label-sci">Profundidad Inmersión (mm)</label><ScientificInput className="sci-input" value={immersionDepth} onChange={(val: number) => setImmersionDepth(val)} /></div>
+                         {kind === 'prt' && (
+                             <>
+                                 <div><label className="label-sci">Corriente de Medición (mA)</label><ScientificInput className="sci-input" value={measuringCurrent} onChange={(val: number) => setMeasuringCurrent(val)} /></div>
+                                 <div><label className="label-sci">Autocalentamiento a √2·I (°C)</label><ScientificInput className="sci-input" value={selfHeating} onChange={(val: number) => setSelfHeating(val)} /></div>
+                             </>
+                         )}
+                     </div>
+                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                         <div>
+                             <label className="label-sci">Regla de Decisión</label>
+                             <select className="sci-input" value={decisionRule.type} onChange={e => setDecisionRule({ ...decisionRule, type: e.target.value as DecisionRuleType })}>
+                                 {(Object.keys(DECISION_RULE_LABELS) as DecisionRuleType[]).map(r => <option key={r} value={r}>{DECISION_RULE_LABELS[r]}</option>)}
+                             </select>
+                         </div>
+                         <div>
+                             <label className="label-sci">Modelo de la Curva</label>
+                             <select className="sci-input" value={curveModel} onChange={e => setCurveModel(e.target.value as CorrectionCurveModel)}>
+                                 {(['auto', ...THERMOMETER_CURVE_MODELS[kind]] as CorrectionCurveModel[]).map(m => <option key={m} value={m}>{CORRECTION_MODEL_LABELS[m]}</option>)}
+                             </select>
+                         </div>
+                         <div><label className="label-sci">Paso de la Tabla (°C)</label><ScientificInput className="sci-input" value={tableStep} onChange={(val: number) => setTableStep(val)} /></div>
+                     </div>
+                 </div>
+             </div>
+
+             <div className="lg:col-span-4 space-y-6">
+                 <div className="glass-panel p-6 rounded-2xl space-y-4">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2">Patrón</h3>
+                     <div>
+                         <label className="label-sci">Termómetro Patrón</label>
+                         <select className="sci-input" value={standardId} onChange={e => setStandardId(e.target.value)}>
+                             <option value="">-- Seleccionar --</option>
+                             {temperatureStandards.map(s => <option key={s.id} value={s.id}>{s.name} ({s.unit}){isStandardExpired(s) ? ' · VENCIDO' : ''}</option>)}
+                         </select>
+                     </div>
+                     <div><label className="label-sci">Lecturas por Punto</label><ScientificInput className="sci-input" value={readingsPerPoint} onChange={(val: number) => setReadingsPerPoint(Math.max(1, Math.round(val)))} /></div>
+                 </div>
+
+                 <div className="glass-panel p-6 rounded-2xl space-y-3">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2">Puntos de Calibración (°C)</h3>
+                     {setPointList.map((t, i) => (
+                         <div key={i} className="flex items-center gap-2">
+                             <ScientificInput className="sci-input-sm text-center" value={t} onChange={(val: number) => setSetPointList(setPointList.map((v, j) => j === i ? val : v))} />
+                             <span className="text-xs text-slate-400">°C</span>
+                             <button onClick={() => setSetPointList(setPointList.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500"><X size={14}/></button>
+                         </div>
+                     ))}
+                     <button onClick={() => setSetPointList([...setPointList, 0])} className="w-full py-2 text-xs font-bold rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-200 flex items-center justify-center gap-1"><Plus size={14}/> AGREGAR PUNTO</button>
+                 </div>
+
+                 <div className="glass-panel p-6 rounded-2xl space-y-3">
+                     <h3 className="font-bold text-brand-blue border-b border-slate-200 dark:border-slate-700 pb-2 flex items-center gap-2"><Wind size={16}/> Condiciones del Laboratorio</h3>
+                     <div className="grid grid-cols-3 gap-2">
+                         <div><label className="label-sci">T (°C)</label><ScientificInput className="sci-input-sm" value={labConditions.temp} onChange={(val: number) => setLabConditions({...labConditions, temp: val})} /></div>
+                         <div><label className="label-sci">HR (%)</label><ScientificInput className="sci-input-sm" value={labConditions.humidity} onChange={(val: number) => setLabConditions({...labConditions, humidity: val})} /></div>
+                         <div><label className="label-sci">P (hPa)</label><ScientificInput className="sci-input-sm" value={labConditions.pressure} onChange={(val: number) => setLabConditions({...labConditions, pressure: val})} /></div>
+                     </div>
+                 </div>
+
+                 <button onClick={initSequence} className="w-full btn-primary py-4 flex justify-center items-center gap-2 text-lg shadow-lg shadow-orange-500/20">
+                     <Play size={20} /> INICIAR CALIBRACIÓN
+                 </button>
+             </div>
+         </div>
+         <style>{`
+            .sci-input { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.75rem; border-radius: 0.5rem; outline: none; font-weight: 500; color: #1e293b; box-shadow: 0 1px 2px 0 rgba(0,0,0,0.05); }
+            .dark .sci-input { background: #1e293b; border-color: #475569; color: #f1f5f9; box-shadow: none; }
+            .sci-input:focus { border-color: #0ea5e9; box-shadow: 0 0 0 3px rgba(14,165,233,0.1); }
+            .sci-input-sm { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.4rem; border-radius: 0.3rem; color: #334155; }
+            .dark .sci-input-sm { background: #334155; border-color: #475569; color: #f8fafc; }
+            .label-sci { display: block; color: #64748b; font-size: 0.8rem; margin-bottom: 0.3rem; font-weight: 700; }
+            .dark .label-sci { color: #94a3b8; }
+            .btn-primary { background: #f97316; color: white; border-radius: 0.75rem; font-weight: 700; transition: all 0.2s; }
+            .btn-primary:hover { background: #ea580c; }
+         `}</style>
+      </div>
+    );
+  }
+
+  // Running Step
+  return (
+      <div className="p-6 h-full flex flex-col">
+          <div className="flex justify-between items-start mb-6">
+              <div>
+                  <h2 className="text-3xl font-display font-bold text-brand-dark dark:text-white">{instrument.model} <span className="text-lg text-slate-400 font-normal">({instrument.serialNumber})</span></h2>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{THERMOMETER_KIND_LABELS[kind]} · {standard?.name} · {medium}, inmersión {immersionDepth} mm · {readingsPerPoint} lecturas por punto</p>
+              </div>
+              <button className="btn-primary px-6 py-3 flex items-center gap-2" onClick={handleFinish}>
+                  <Save size={18} /> FINALIZAR MISIÓN
+              </button>
+          </div>
+
+          <div className="space-y-4">
+              {points.map((p, i) => {
+                  const result = results[i];
+                  return (
+                      <div key={i} className="glass-panel p-4 rounded-xl">
+                          <div className="flex justify-between items-center mb-3">
+                              <h3 className="font-bold text-brand-dark dark:text-white flex items-center gap-1"><Thermometer size={16}/> {p.setTemp} °C</h3>
+                              {result && (
+                                  <div className="flex gap-4 text-xs font-mono">
+                                      <span>t = {result.reference.toFixed(3)} °C</span>
+                                      <span>x̄ = {result.indication.toFixed(4)} {indicationUnit}</span>
+                                      {result.error !== undefined && <span>E = {result.error.toFixed(3)} °C</span>}
+                                      <span>U = ± {result.expandedUncertainty.toFixed(3)} °C</span>
+                                      {result.conformity && <strong className={result.conformity.status === 'PASS' ? 'text-emerald-600' : 'text-red-500'}>{CONFORMITY_LABELS[result.conformity.status]}</strong>}
+                                  </div>
+                              )}
+                          </div>
+                          <table className="w-full text-sm">
+                              <tbody>
+                                  {([['reference', 'Patrón (°C)'], ['indication', `Instrumento (${indicationUnit})`]] as const).map(([key, label]) => (
+                                      <tr key={key}>
+                                          <td className="p-1 text-xs font-bold text-slate-500 whitespace-nowrap">{label}</td>
+                                          {p[key].map((v, r) => (
+                                              <td key={r} className="p-1"><ScientificInput className="sci-input-sm text-right font-mono" value={v} onChange={(val: number) => updateReading(i, key, r, val)} /></td>
+                                          ))}
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                          <div className="grid grid-cols-3 gap-2 mt-3 pt-3 border-t border-slate-100 dark:border-slate-700">
+                              {BATH_FIELDS.map(f => (
+                                  <div key={f.key}><label className="label-xs">{f.label}</label><ScientificInput className="sci-input-sm" value={p.bath[f.key]} onChange={(val: number) => updateBath(i, f.key, val)} /></div>
+                              ))}
+                          </div>
+                      </div>
+                  );
+              })}
+
+              <div className="glass-panel p-4 rounded-xl">
+                  <h3 className="font-bold text-brand-dark dark:text-white flex items-center gap-2 mb-2"><TrendingUp size={16}/> Curva del Instrumento</h3>
+                  {curve ? (
+                      <div className="text-xs space-y-1">
+                          <p className="font-bold">{CORRECTION_MODEL_LABELS[curve.model]}{curve.selection === 'auto' && ' (mínimo AICc)'}</p>
+                          <p className="font-mono">{curve.regression.equationString}</p>
+                          <p className="text-slate-500">R² = {curve.regression.rSquared.toFixed(6)} · s<sub>res</sub> = {curve.regression.residualStdDev.toExponential(3)} °C · {curve.table.length} filas en la tabla</p>
+                      </div>
+                  ) : (
+                      <p className="text-xs text-slate-400">Se requieren al menos 3 puntos con grados de libertad suficientes para ajustar la curva.</p>
+                  )}
+              </div>
+          </div>
+          <style>{`
+            .sci-input-sm { width: 100%; background: #fff; border: 1px solid #cbd5e1; padding: 0.4rem; border-radius: 0.3rem; color: #334155; }
+            .dark .sci-input-sm { background: #334155; border-color: #475569; color: #f8fafc; }
+            .label-xs { font-size: 0.7rem; text-transform: uppercase; font-weight: 700; color: #64748b; margin-bottom: 4px; display: block; }
+            .btn-primary { background: #f97316; color: white; border-radius: 0.75rem; font-weight: 700; transition: all 0.2s; }
+            .btn-primary:hover { background: #ea580c; }
+          `}</style>
+      </div>
+  );
+};
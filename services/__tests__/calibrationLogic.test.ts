@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRepeatabilityAndHysteresis, calculateResults, calculateZeroDeviation, generateSequencePoints, getSeriesReadings, normalComponent, rectangularComponent, recommendSequence, SEQUENCE_DEFINITIONS, typeAComponent } from '../calibrationLogic';
+import { combineUncertaintyBudget, evaluateRegression } from '../mathUtils';
+import { UnitMismatchError } from '../units';
+import { CalibrationPoint, Instrument, ReferenceStandard, SequenceType, StandardType, Unit } from '../../types';
+
+const instrument = (rangeMin: number, rangeMax: number, unit: Unit = Unit.Bar): Instrument => ({
+    manufacturer: '', model: '', serialNumber: '', applicantName: '', identificationId: '',
+    rangeMin, rangeMax, resolution: 0.01, accuracyClass: 0.25, unit, type: 'digital',
+    connectionType: '', sensorLocation: '', conditionReceived: ''
+});
+
+// Pressure standard 0…10 (bar unless stated) read through a linear curve, U(k = 2) growing with the reading
+const standard = (unit: Unit = Unit.Bar): ReferenceStandard => ({
+    id: 'std', type: StandardType.Pressure, name: 'Patrón', serialNumber: '', certificateNumber: '', calibratedBy: '',
+    calibrationDate: '2026-01-01', expiryDate: '2027-01-01', rangeMin: 0, rangeMax: 10, unit, resolution: 0.0001,
+    valueModelType: 'linear_pearson', uncertaintyModelType: 'linear_pearson',
+    calibrationPoints: [0, 2, 4, 6, 8, 10].map((ref, i) => ({
+        id: String(i), nominal: ref, indication: ref + (i % 2 ? 0.0002 : -0.0002), referenceValue: ref,
+        uncertainty: 0.001 + 0.0002 * ref, coverageFactor: 2, confidenceLevel: 95.45, distribution: 'Normal' as const
+    }))
+});
+
+const nominals = (points: CalibrationPoint[]) => points.map(p => p.nominal);
+
+describe('DKD-R 6-1 sequences', () => {
+    it('recommends the sequence from the accuracy class', () => {
+        expect(recommendSequence(0.05)).toBe(SequenceType.A);
+        expect(recommendSequence(0.25)).toBe(SequenceType.B);
+        expect(recommendSequence(1)).toBe(SequenceType.C);
+    });
+
+    it('generates the prescribed number of equally spaced points', () => {
+        expect(nominals(generateSequencePoints(instrument(0, 10), SequenceType.A))).toEqual([0, 1.25, 2.5, 3.75, 5, 6.25, 7.5, 8.75, 10]);
+        expect(generateSequencePoints(instrument(0, 10), SequenceType.B)).toHaveLength(SEQUENCE_DEFINITIONS[SequenceType.B].points);
+        expect(nominals(generateSequencePoints(instrument(0, 10), SequenceType.C))).toEqual([0, 2.5, 5, 7.5, 10]);
+    });
+
+    it('pre-fills the standard reading in the unit of the standard', () => {
+        const points = generateSequencePoints(instrument(0, 10), SequenceType.C, Unit.KPa);
+        expect(points.map(p => p.standardReading)).toEqual([0, 250, 500, 750, 1000]);
+    });
+
+    it('splits a compound range at zero in proportion to each side', () => {
+        expect(nominals(generateSequencePoints(instrument(-1, 3), SequenceType.A))).toEqual([-1, -0.5, 0, 0.5, 1, 1.5, 2, 2.5, 3]);
+        // A short vacuum side still gets its own interval
+        expect(nominals(generateSequencePoints(instrument(-0.1, 10), SequenceType.C))).toEqual([-0.1, 0, 3.3333, 6.6667, 10]);
+    });
+
+    it('loads a vacuum range from zero outwards', () => {
+        expect(nominals(generateSequencePoints(instrument(-1, 0), SequenceType.C))).toEqual([0, -0.25, -0.5, -0.75, -1]);
+    });
+
+    it('reads only the series of the sequence that were captured', () => {
+        const point: CalibrationPoint = { nominal: 5, standardReading: 5, run1Up: 5.01, run1Down: 5.03, run2Up: 5.02, run2Down: 5.04 };
+        expect(getSeriesReadings(point, SequenceType.A)).toEqual([5.01, 5.03, 5.02, 5.04]);
+        expect(getSeriesReadings(point, SequenceType.B)).toEqual([5.01, 5.03, 5.02]);
+        expect(getSeriesReadings({ ...point, run1Down: undefined }, SequenceType.C)).toEqual([5.01]);
+    });
+});
+
+describe('DKD-R 6-1 instrument contributions', () => {
+    const zero: CalibrationPoint = { nominal: 0, standardReading: 0, run1Up: 0, run1Down: 0.002, run2Up: 0.001, run2Down: 0.003 };
+    const mid: CalibrationPoint = { nominal: 5, standardReading: 5, run1Up: 5.010, run1Down: 5.030, run2Up: 5.014, run2Down: 5.032 };
+    const top: CalibrationPoint = { nominal: 10, standardReading: 10, run1Up: 10.02, run1Down: 10.02, run2Up: 10.02, run2Down: 10.02 };
+
+    it('takes b\' between repeated series and h between directions of the series in the sequence', () => {
+        const a = calculateRepeatabilityAndHysteresis(mid, SequenceType.A);
+        expect(a.repeatability).toBeCloseTo(0.003, 12);
+        expect(a.hysteresis).toBeCloseTo(0.019, 12);
+        const b = calculateRepeatabilityAndHysteresis(mid, SequenceType.B);
+        expect(b.repeatability).toBeCloseTo(0.004, 12);
+        expect(b.hysteresis).toBeCloseTo(0.020, 12);
+        // A single series has no repeatability
+        expect(calculateRepeatabilityAndHysteresis(mid, SequenceType.C)).toEqual({ repeatability: 0, hysteresis: expect.closeTo(0.020, 12) });
+    });
+
+    it('takes f0 as the largest spread of the zero readings', () => {
+        expect(calculateZeroDeviation([zero, mid], SequenceType.A)).toBeCloseTo(0.003, 12);
+        expect(calculateZeroDeviation([zero, mid], SequenceType.C)).toBeCloseTo(0.002, 12);
+        expect(calculateZeroDeviation([mid], SequenceType.A)).toBe(0);
+    });
+
+    it('enters b\', h and f0 in the budget as rectangular contributions', () => {
+        const [, result] = calculateResults([zero, mid, top], instrument(0, 10), standard(), SequenceType.A, 0, 0, 9.80665);
+        const component = (symbol: string) => result.budget.components.find(c => c.symbol === symbol)!;
+
+        expect(result.repeatability).toBeCloseTo(0.003, 12);
+        expect(result.hysteresis).toBeCloseTo(0.019, 12);
+        expect(result.zeroError).toBeCloseTo(0.003, 12);
+        expect(component("δb'").standardUncertainty).toBeCloseTo(0.0015 / Math.sqrt(3), 12);
+        expect(component('δh').standardUncertainty).toBeCloseTo(0.0095 / Math.sqrt(3), 12);
+        expect(component('δf0').standardUncertainty).toBeCloseTo(0.0015 / Math.sqrt(3), 12);
+        expect(component('δr').standardUncertainty).toBeCloseTo(0.005 / Math.sqrt(3), 12);
+
+        // Mean of the four series against the reference
+        expect(result.meanError).toBeCloseTo(5.0215 - result.trueValue, 12);
+        const sumOfSquares = result.budget.components.reduce((acc, c) => acc + c.contribution * c.contribution, 0);
+        expect(result.budget.combinedStandardUncertainty).toBeCloseTo(Math.sqrt(sumOfSquares), 12);
+    });
+});
+
+describe('GUM uncertainty budget', () => {
+    it('derives u(x_i) from the distribution of each input', () => {
+        expect(normalComponent('a', '', 0.02, 2).standardUncertainty).toBeCloseTo(0.01, 12);
+        const rect = rectangularComponent('b', '', 0.02, -2);
+        expect(rect.standardUncertainty).toBeCloseTo(0.01 / Math.sqrt(3), 12);
+        expect(rect.contribution).toBeCloseTo(0.02 / Math.sqrt(3), 12);
+        const typeA = typeAComponent('c', '', [10.1, 10.3, 10.2, 10.4, 10.0], 1)!;
+        expect(typeA).toMatchObject({ estimate: expect.closeTo(10.2, 12), degreesOfFreedom: 4, evaluationType: 'A' });
+        expect(typeA.standardUncertainty).toBeCloseTo(Math.sqrt(0.025 / 5), 12);
+        expect(typeAComponent('c', '', [10.1], 1)).toBeUndefined();
+    });
+
+    it('combines by RSS and takes k from ν_eff (Welch-Satterthwaite)', () => {
+        const typeA = typeAComponent('c', '', [10.1, 10.3, 10.2, 10.4, 10.0], 1)!;
+        const budget = combineUncertaintyBudget([normalComponent('a', '', 0.02, 2), rectangularComponent('b', '', 0.02, 2), typeA]);
+        const uc = Math.sqrt(0.0001 + 0.0004 / 3 + 0.005);
+        expect(budget.combinedStandardUncertainty).toBeCloseTo(uc, 12);
+        expect(budget.effectiveDegreesOfFreedom).toBeCloseTo(Math.pow(uc, 4) / (Math.pow(0.005, 2) / 4), 9);
+        // ν_eff = 4.38 is truncated to 4: k = 2.87 (GUM Table G.2)
+        expect(budget.coverageFactor).toBeCloseTo(2.87, 2);
+        expect(budget.expandedUncertainty).toBeCloseTo(uc * budget.coverageFactor, 12);
+    });
+
+    it('keeps k = 2 when every input has infinite degrees of freedom', () => {
+        const budget = combineUncertaintyBudget([normalComponent('a', '', 0.02, 2), rectangularComponent('b', '', 0.02)]);
+        expect(budget.effectiveDegreesOfFreedom).toBe(Infinity);
+        expect(budget.coverageFactor).toBe(2);
+    });
+});
+
+describe('units of standard and instrument', () => {
+    const point: CalibrationPoint = { nominal: 50, standardReading: 7.25, run1Up: 50.1, run1Down: 50.1 };
+
+    it('converts the reference and the head correction into the unit of the instrument', () => {
+        const std = standard(Unit.Psi);
+        // Water column of 10 cm: Δp_h = 980.665 Pa, read through the curve of the standard in psi
+        const [result] = calculateResults([point], instrument(0, 70, Unit.KPa), std, SequenceType.C, 1000, 10, 9.80665);
+        const head = 980.665 / 6894.757293168;
+        expect(result.trueValue).toBeCloseTo(evaluateRegression(7.25 + head, std.valueModelType, std.valueRegression!) * 6.894757293168, 9);
+        expect(result.meanError).toBeCloseTo(50.1 - result.trueValue, 9);
+    });
+
+    it('refuses a standard that does not measure pressure', () => {
+        expect(() => calculateResults([point], instrument(0, 70, Unit.KPa), standard(Unit.Celcius), SequenceType.C, 1000, 0, 9.80665)).toThrow(UnitMismatchError);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAbsoluteHumidity, calculateDewPoint, calculateSaturationVaporPressure, createClimatePoint, evaluateClimatePoint } from '../climateCalibration';
+import { ClimateChannelSpec, ReferenceStandard, StandardType, Unit } from '../../types';
+
+// Reference channel reading `offset` below the reference value, U(k = 2) constant
+const channelStandard = (unit: Unit, refs: number[], offset: number, U: number): ReferenceStandard => ({
+    id: unit, type: StandardType.Thermohygrometer, name: unit, serialNumber: '', certificateNumber: '', calibratedBy: '',
+    calibrationDate: '2026-01-01', expiryDate: '2099-01-01', rangeMin: refs[0], rangeMax: refs[refs.length - 1], unit, resolution: 0.01,
+    valueModelType: 'linear_pearson', uncertaintyModelType: 'linear_pearson',
+    calibrationPoints: refs.map((ref, i) => ({
+        id: String(i), nominal: ref, indication: ref - offset + (i % 2 ? 1e-4 : -1e-4), referenceValue: ref,
+        uncertainty: U * (1 + 1e-3 * i), coverageFactor: 2, confidenceLevel: 95.45, distribution: 'Normal' as const
+    }))
+});
+
+const temperatureStandard = () => channelStandard(Unit.Celcius, [10, 20, 30, 40], 0.3, 0.1);
+const humidityStandard = () => channelStandard(Unit.PercentRH, [20, 40, 60, 80], 1, 1.5);
+const temperatureSpec: ClimateChannelSpec = { rangeMin: 0, rangeMax: 50, resolution: 0.1, tolerance: 0.5 };
+const humiditySpec: ClimateChannelSpec = { rangeMin: 0, rangeMax: 100, resolution: 0.1, tolerance: 3 };
+
+describe('humidity derived quantities', () => {
+    it('follows the Magnus formula', () => {
+        expect(calculateSaturationVaporPressure(0)).toBeCloseTo(6.112, 12);
+        expect(calculateSaturationVaporPressure(20)).toBeCloseTo(23.33, 2);
+        expect(calculateDewPoint(20, 50)).toBeCloseTo(9.26, 2);
+        // Saturated air is at its dew point
+        expect(calculateDewPoint(23, 100)).toBeCloseTo(23, 12);
+        expect(calculateAbsoluteHumidity(20, 50)).toBeCloseTo(8.62, 2);
+    });
+});
+
+describe('climatic chamber point', () => {
+    const point = () => ({
+        ...createClimatePoint(23, 50, 3),
+        referenceTemp: [22.9, 23.0, 23.1], referenceHumidity: [48.8, 49.0, 49.2],
+        instrumentTemp: [23.6, 23.6, 23.6], instrumentHumidity: [51.5, 51.6, 51.7]
+    });
+
+    it('compares the instrument with the corrected reference', () => {
+        const result = evaluateClimatePoint(point(), temperatureStandard(), humidityStandard(), temperatureSpec, humiditySpec);
+        expect(result.temperature.reference).toBeCloseTo(23.3, 3);
+        expect(result.temperature.error).toBeCloseTo(0.3, 3);
+        expect(result.humidity.reference).toBeCloseTo(50, 2);
+        expect(result.humidity.error).toBeCloseTo(1.6, 2);
+        expect(result.temperature.conformity.status).toBe('PASS');
+        expect(result.dewPoint).toBeCloseTo(calculateDewPoint(result.temperature.reference, result.humidity.reference), 12);
+        expect(result.dewPointError).toBeCloseTo(calculateDewPoint(23.6, 51.6) - result.dewPoint, 12);
+        expect(result.absoluteHumidity).toBeCloseTo(calculateAbsoluteHumidity(result.temperature.reference, result.humidity.reference), 12);
+    });
+
+    it('adds the homogeneity and stability of the chamber to the reference', () => {
+        const empty = evaluateClimatePoint(point(), temperatureStandard(), humidityStandard(), temperatureSpec, humiditySpec);
+        const characterized = evaluateClimatePoint({ ...point(), chamber: { tempHomogeneity: 0.2, tempStability: 0.1, humidityHomogeneity: 1, humidityStability: 0.5 } },
+            temperatureStandard(), humidityStandard(), temperatureSpec, humiditySpec);
+        const component = (symbol: string) => [...characterized.temperature.budget.components, ...characterized.humidity.budget.components].find(c => c.symbol === symbol)!;
+
+        expect(component('δT,hom').standardUncertainty).toBeCloseTo(0.2 / Math.sqrt(3), 12);
+        expect(component('δT,est').standardUncertainty).toBeCloseTo(0.05 / Math.sqrt(3), 12);
+        expect(component('δHR,hom').standardUncertainty).toBeCloseTo(1 / Math.sqrt(3), 12);
+        // A temperature gradient of the chamber shifts the RH at constant vapour pressure: ∂RH/∂t at the mean RH read (49 %RH)
+        const t = characterized.temperature.reference;
+        expect(component('δHR,T').sensitivityCoefficient).toBeCloseTo(49 * 17.62 * 243.12 / Math.pow(243.12 + t, 2), 9);
+
+        expect(characterized.temperature.expandedUncertainty).toBeGreaterThan(empty.temperature.expandedUncertainty);
+        expect(characterized.humidity.expandedUncertainty).toBeGreaterThan(empty.humidity.expandedUncertainty);
+        expect(characterized.dewPointUncertainty).toBeGreaterThan(empty.dewPointUncertainty);
+        expect(characterized.temperature.error).toBeCloseTo(empty.temperature.error, 12);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateConformity, calculateProbabilityFalseAccept } from '../conformity';
+
+describe('conformity zones (ILAC-G8)', () => {
+    const T = 1;
+    const U = 0.2;
+
+    it('accepts at the tolerance with simple acceptance', () => {
+        const rule = { type: 'simple_acceptance' as const, guardBandFactor: 1 };
+        expect(evaluateConformity(0.99, U, U / 2, T, rule).status).toBe('PASS');
+        expect(evaluateConformity(-1.01, U, U / 2, T, rule).status).toBe('FAIL');
+    });
+
+    it('states guarded acceptance as binary at T − w', () => {
+        const rule = { type: 'guarded_acceptance' as const, guardBandFactor: 1 };
+        expect(evaluateConformity(0.7, U, U / 2, T, rule).status).toBe('PASS');
+        expect(evaluateConformity(0.9, U, U / 2, T, rule).status).toBe('FAIL');
+        expect(evaluateConformity(-1.1, U, U / 2, T, rule).status).toBe('FAIL');
+        expect(evaluateConformity(0.7, U, U / 2, T, rule).acceptanceLimit).toBeCloseTo(0.8, 12);
+    });
+
+    it('classifies the non-binary zones around T ± w', () => {
+        const rule = { type: 'non_binary_guarded' as const, guardBandFactor: 0.5 };
+        expect(evaluateConformity(0.85, U, U / 2, T, rule).status).toBe('PASS');
+        expect(evaluateConformity(0.95, U, U / 2, T, rule).status).toBe('CONDITIONAL_PASS');
+        expect(evaluateConformity(-1.05, U, U / 2, T, rule).status).toBe('CONDITIONAL_FAIL');
+        expect(evaluateConformity(1.15, U, U / 2, T, rule).status).toBe('FAIL');
+    });
+
+    it('reports the false-accept risk on accepted points and the false-reject risk on rejected ones', () => {
+        const rule = { type: 'simple_acceptance' as const, guardBandFactor: 1 };
+        const accepted = evaluateConformity(0.9, U, 0.1, T, rule);
+        expect(accepted.probabilityFalseAccept).toBeCloseTo(0.1587, 4);
+        expect(accepted.probabilityFalseReject).toBeUndefined();
+        const rejected = evaluateConformity(1.1, U, 0.1, T, rule);
+        expect(rejected.probabilityFalseAccept).toBeUndefined();
+        expect(rejected.probabilityFalseReject).toBeCloseTo(0.1587, 4);
+    });
+
+    it('gives a 50 % false-accept risk on the limit', () => {
+        expect(calculateProbabilityFalseAccept(1, 1, 0.1)).toBeCloseTo(0.5, 6);
+        expect(calculateProbabilityFalseAccept(0, 1, 0.5)).toBeCloseTo(0.0455, 4);
+    });
+});
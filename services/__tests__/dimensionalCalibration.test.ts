@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStackLength, createDimensionalPoint, evaluateDimensionalPoints, isFaceCheckPassed, suggestGaugeBlockStack } from '../dimensionalCalibration';
+import { DimensionalPoint, ReferenceStandard, StandardType, Unit } from '../../types';
+
+const ALPHA = 11.5e-6;
+
+// Steel gauge block with its deviation, U (k = 2) and variation in µm
+const block = (nominalLength: number, deviation: number, uncertainty: number, variation: number): ReferenceStandard => ({
+    id: `b${nominalLength}`, type: StandardType.Dimensional, name: `${nominalLength} mm`, serialNumber: '', certificateNumber: '', calibratedBy: '',
+    calibrationDate: '2026-01-01', expiryDate: '2099-01-01', rangeMin: nominalLength, rangeMax: nominalLength, unit: Unit.Millimeter, resolution: 0,
+    valueModelType: 'linear_pearson', uncertaintyModelType: 'linear_pearson', calibrationPoints: [],
+    gaugeBlock: { nominalLength, deviation, uncertainty, variation, flatness: 0.05, expansionCoefficient: ALPHA, grade: '1' }
+});
+
+const blocks = [block(50, 0.1, 0.1, 0.05), block(25, -0.05, 0.08, 0.04), block(10, 0, 0.06, 0.03), block(1.5, 0.02, 0.05, 0.02), block(1, -0.01, 0.05, 0.02)];
+
+const point = (nominal: number, readings: number[], blockTemp = 20, instrumentTemp = 20): DimensionalPoint => ({
+    ...createDimensionalPoint(blocks, nominal, readings.length, blockTemp), readings, instrumentTemp
+});
+
+describe('gauge block stacks', () => {
+    it('adds the certified deviations of the wrung blocks', () => {
+        expect(calculateStackLength([blocks[0], blocks[1]])).toBeCloseTo(75.00005, 12);
+    });
+
+    it('suggests a stack for the nominal length, or none', () => {
+        expect(suggestGaugeBlockStack(blocks, 75)).toEqual(['b50', 'b25']);
+        expect(suggestGaugeBlockStack(blocks, 86.5)).toEqual(['b50', 'b25', 'b10', 'b1.5']);
+        expect(suggestGaugeBlockStack(blocks, 2.3)).toEqual([]);
+    });
+
+    it('checks the measuring faces against their limit', () => {
+        expect(isFaceCheckPassed({ label: '', measured: 0.6, limit: 0.6 })).toBe(true);
+        expect(isFaceCheckPassed({ label: '', measured: 0.7, limit: 0.6 })).toBe(false);
+    });
+});
+
+describe('dimensional calibration', () => {
+    it('compares the mean reading with the stack at 20 °C', () => {
+        const [result] = evaluateDimensionalPoints([point(75, [75.01, 75.02, 75.01])], blocks, 'caliper', 0.01, ALPHA, 1e-6, 0.5, [], 0.03);
+        expect(result.thermalCorrection).toBe(0);
+        expect(result.error).toBeCloseTo((75.01 + 75.02 + 75.01) / 3 - 75.00005, 12);
+        expect(result.conformity?.status).toBe('PASS');
+
+        const component = (symbol: string) => result.budget.components.find(c => c.symbol === symbol)!;
+        // Correlated blocks: U of the stack added linearly
+        expect(component('δL,s').standardUncertainty).toBeCloseTo(0.18e-3 / 2, 12);
+        expect(component('δL,v').standardUncertainty).toBeCloseTo(0.045e-3 / Math.sqrt(3), 12);
+        expect(component('δx,res').standardUncertainty).toBeCloseTo(0.005 / Math.sqrt(3), 12);
+        expect(component('δx,rep').degreesOfFreedom).toBe(2);
+        expect(component('δt').sensitivityCoefficient).toBeCloseTo(75 * ALPHA, 12);
+    });
+
+    it('refers the reading to 20 °C with both expansion coefficients', () => {
+        const [result] = evaluateDimensionalPoints([point(75, [75.01], 22, 21)], blocks, 'caliper', 0.01, 10e-6, 1e-6, 0.5, []);
+        const L = 75.00005;
+        // α of the stack weighted by the nominal lengths of its blocks
+        expect(result.thermalCorrection).toBeCloseTo(L * 10e-6 * 1 - 75 * ALPHA * 2, 12);
+        expect(result.error).toBeCloseTo(75.01 + result.thermalCorrection - L, 12);
+        // The uncertainty of α weighs the distance of the blocks from 20 °C
+        expect(result.budget.components.find(c => c.symbol === 'δα')!.sensitivityCoefficient).toBeCloseTo(L * 2, 12);
+    });
+
+    it('reads dial indicators as the displacement from the first stack', () => {
+        const results = evaluateDimensionalPoints([point(1, [0]), point(1.5, [0.501])], blocks, 'dial_indicator', 0.001, ALPHA, 1e-6, 0.5, []);
+        expect(results[0].reference).toBe(0);
+        expect(results[1].reference).toBeCloseTo(0.5 + 0.03e-3, 12);
+        expect(results[1].error).toBeCloseTo(0.001 - 0.03e-3, 12);
+    });
+
+    it('adds the flatness and parallelism of the faces', () => {
+        const faces = [{ label: 'Planitud', measured: 4, limit: 10 }, { label: 'Paralelismo', measured: 8, limit: 20 }];
+        const [bare] = evaluateDimensionalPoints([point(75, [75.01])], blocks, 'caliper', 0.01, ALPHA, 1e-6, 0.5, []);
+        const [result] = evaluateDimensionalPoints([point(75, [75.01])], blocks, 'caliper', 0.01, ALPHA, 1e-6, 0.5, faces);
+        expect(result.budget.components.find(c => c.symbol === 'δx,car')!.standardUncertainty).toBeCloseTo(0.004 / Math.sqrt(3), 12);
+        expect(result.expandedUncertainty).toBeGreaterThan(bare.expandedUncertainty);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { checkEnvLimits, correctEnvReading, DEFAULT_ENV_LIMITS, describeEnvViolation, evaluateEnvConditions, isStandardExpired } from '../environment';
+import { calculateAirDensityCIPM } from '../mathUtils';
+import { UnitMismatchError } from '../units';
+import { EnvReading, EnvStage, ReferenceStandard, StandardType, Unit } from '../../types';
+
+// Environmental standard reading `offset` below the reference over `refs`, U(k = 2) constant
+const envStandard = (type: StandardType, unit: Unit, refs: number[], offset: number, U: number, expiryDate = '2099-01-01'): ReferenceStandard => ({
+    id: type, type, name: type, serialNumber: '', certificateNumber: '', calibratedBy: '',
+    calibrationDate: '2026-01-01', expiryDate, rangeMin: refs[0], rangeMax: refs[refs.length - 1], unit, resolution: 0.01,
+    valueModelType: 'linear_pearson', uncertaintyModelType: 'linear_pearson',
+    calibrationPoints: refs.map((ref, i) => ({
+        id: String(i), nominal: ref, indication: ref - offset + (i % 2 ? 1e-4 : -1e-4), referenceValue: ref,
+        uncertainty: U * (1 + 1e-3 * i), coverageFactor: 2, confidenceLevel: 95.45, distribution: 'Normal' as const
+    }))
+});
+
+const thermometer = () => envStandard(StandardType.Temperature, Unit.Celcius, [0, 10, 20, 30, 40], 0.3, 0.1);
+const barometer = () => envStandard(StandardType.AtmosphericPressure, Unit.KPa, [90, 95, 100, 105, 110], 0.05, 0.02);
+
+const stages = (temp: number[], humidity: number[], pressure: number[]): Record<EnvStage, EnvReading> => ({
+    start: { temp: temp[0], humidity: humidity[0], pressure: pressure[0] },
+    middle: { temp: temp[1], humidity: humidity[1], pressure: pressure[1] },
+    end: { temp: temp[2], humidity: humidity[2], pressure: pressure[2] }
+});
+
+describe('environmental corrections', () => {
+    it('leaves a reading without standard uncorrected', () => {
+        expect(correctEnvReading(undefined, 'temp', 21.4)).toEqual({ value: 21.4, uncertainty: 0 });
+    });
+
+    it('corrects a reading through the curve of its standard', () => {
+        const c = correctEnvReading(thermometer(), 'temp', 21.4);
+        expect(c.value).toBeCloseTo(21.7, 3);
+        // At least the certificate u = U/2
+        expect(c.uncertainty).toBeGreaterThanOrEqual(0.05);
+        expect(c.uncertainty).toBeLessThan(0.06);
+    });
+
+    it('reads the standard in its own unit and returns the session unit', () => {
+        // 1013.25 hPa = 101.325 kPa on the barometer, corrected by +0.05 kPa = +0.5 hPa
+        const c = correctEnvReading(barometer(), 'pressure', 1013.25);
+        expect(c.value).toBeCloseTo(1013.75, 2);
+        expect(c.uncertainty).toBeCloseTo(0.1, 1);
+        expect(() => correctEnvReading(thermometer(), 'pressure', 1013.25)).toThrow(UnitMismatchError);
+    });
+
+    it('flags an expired standard', () => {
+        const expired = envStandard(StandardType.Temperature, Unit.Celcius, [0, 20, 40], 0, 0.1, '2026-03-01');
+        expect(isStandardExpired(expired, new Date('2026-02-28'))).toBe(false);
+        expect(isStandardExpired(expired, new Date('2026-03-02'))).toBe(true);
+    });
+
+    it('propagates the corrected mean conditions into the air density', () => {
+        const raw = stages([20.0, 20.4, 20.8], [45, 46, 47], [1010, 1010, 1010]);
+        const env = evaluateEnvConditions(raw, { temp: thermometer(), pressure: barometer() });
+
+        expect(env.readings.middle.temp).toBeCloseTo(20.7, 3);
+        expect(env.readings.middle.humidity).toBe(46);
+        expect(env.mean.temp).toBeCloseTo(20.7, 3);
+        expect(env.mean.pressure).toBeCloseTo(1010.5, 2);
+        expect(env.airDensity).toBeCloseTo(calculateAirDensityCIPM(env.mean.temp, env.mean.pressure, env.mean.humidity), 12);
+
+        // U(t) combines the standard with the variation of 0.8 °C over the run (rectangular)
+        const uStd = Math.max(...[20.0, 20.4, 20.8].map(t => correctEnvReading(thermometer(), 'temp', t).uncertainty));
+        expect(env.uncertainty.temp).toBeCloseTo(2 * Math.sqrt(uStd * uStd + 0.64 / 12), 9);
+        expect(env.uncertainty.humidity).toBeCloseTo(2 * 2 / Math.sqrt(12), 12);
+
+        // Both the temperature and the pressure standard add to u(ρ_a)
+        const bare = evaluateEnvConditions(raw, {});
+        expect(env.airDensityUncertainty).toBeGreaterThan(bare.airDensityUncertainty);
+    });
+});
+
+describe('CIPM-2007 air density', () => {
+    it('gives the density of laboratory air', () => {
+        expect(calculateAirDensityCIPM(20, 1013.25, 0)).toBeCloseTo(1.2041, 3);
+        expect(calculateAirDensityCIPM(20, 1013.25, 50)).toBeLessThan(calculateAirDensityCIPM(20, 1013.25, 0));
+    });
+});
+
+describe('environmental limits', () => {
+    const limits = { ...DEFAULT_ENV_LIMITS, tempMin: 18, tempMax: 28, maxTempDrift: 1, humidityMin: 30, humidityMax: 75 };
+
+    it('accepts conditions within the limits', () => {
+        expect(checkEnvLimits(stages([20, 20.5, 20.9], [40, 45, 50], [1010, 1010, 1010]), limits, ['start', 'middle', 'end'])).toEqual([]);
+    });
+
+    it('flags the stage out of the temperature or humidity band', () => {
+        const readings = stages([17.5, 20, 20], [40, 80, 40], [1010, 1010, 1010]);
+        expect(checkEnvLimits(readings, limits, ['start', 'middle', 'end'])).toEqual([
+            { kind: 'temperature', stage: 'start', value: 17.5, limitMin: 18, limitMax: 28 },
+            { kind: 'humidity', stage: 'middle', value: 80, limitMin: 30, limitMax: 75 },
+            { kind: 'temperature_drift', value: 2.5, limitMax: 1 }
+        ]);
+    });
+
+    it('checks only the stages already entered', () => {
+        const readings = stages([20, 20.4, 25], [40, 40, 90], [1010, 1010, 1010]);
+        expect(checkEnvLimits(readings, limits, ['start'])).toEqual([]);
+        expect(checkEnvLimits(readings, limits, ['start', 'middle'])).toEqual([]);
+        expect(checkEnvLimits(readings, limits, ['start', 'middle', 'end']).map(v => v.kind)).toEqual(['humidity', 'temperature_drift']);
+    });
+
+    it('describes each violation for the certificate', () => {
+        expect(describeEnvViolation({ kind: 'temperature', stage: 'end', value: 28.4, limitMin: 18, limitMax: 28 })).toBe('Temperatura (Final): 28.40 °C fuera de 18 … 28 °C');
+        expect(describeEnvViolation({ kind: 'temperature_drift', value: 1.25, limitMax: 1 })).toBe('Deriva de temperatura: 1.25 °C > 1 °C');
+    });
+});
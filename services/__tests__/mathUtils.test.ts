@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+    normalQuantile, studentTQuantile, fisherFQuantile, chiSquareQuantile, getCoverageFactor,
+    grubbsTest, dixonTest, cochranTest, calculateRegression, evaluateRegression, calculateInterpolationUncertainty, calculateCallendarVanDusenResistance,
+    calculateCallendarVanDusenTemperature, its90ReferenceFunction, IEC_60751_COEFFICIENTS
+} from '../mathUtils';
+
+// --- Distribution quantiles (statistical tables) ---
+describe('distribution quantiles', () => {
+    it('matches the normal, t, F and χ² tables', () => {
+        expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+        expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.7062, 3);
+        expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228139, 5);
+        expect(fisherFQuantile(0.95, 3, 10)).toBeCloseTo(3.708265, 5);
+        expect(chiSquareQuantile(0.95, 4)).toBeCloseTo(9.487729, 5);
+    });
+
+    it('gives the GUM Table G.2 coverage factors for 95.45 %', () => {
+        expect(getCoverageFactor(Infinity)).toBe(2);
+        expect(getCoverageFactor(10)).toBeCloseTo(2.28, 2);
+        expect(getCoverageFactor(3)).toBeCloseTo(3.31, 2);
+    });
+});
+
+// --- Outlier tests (ISO 5725-2 Tables 4 and 5) ---
+describe('outlier tests', () => {
+    it('uses the tabulated critical values at α = 0.05', () => {
+        expect(grubbsTest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])!.criticalValue).toBeCloseTo(2.290, 3);
+        expect(dixonTest([1, 2, 4])!.criticalValue).toBe(0.970);
+        expect(cochranTest([1, 2, 3, 4, 5], 2)!.criticalValue).toBeCloseTo(0.841, 3);
+    });
+
+    it('flags a gross outlier', () => {
+        const result = grubbsTest([10.01, 10.02, 9.99, 10.00, 10.01, 10.50]);
+        expect(result?.isOutlier).toBe(true);
+        expect(result?.index).toBe(5);
+    });
+});
+
+// --- Regression (ISO/TS 28037 worked examples) ---
+describe('weighted regression', () => {
+    const x = [1, 2, 3, 4, 5, 6];
+    const y = [3.2, 4.3, 7.6, 8.6, 11.7, 12.8];
+    const u = [0.5, 0.5, 0.5, 1, 1, 1];
+
+    it('fits WLS with unscaled covariance and χ²', () => {
+        const reg = calculateRegression(x, y, 'linear_pearson', false, undefined, false, 0.05, { uncertainties: u });
+        expect(reg.coefficients[0]).toBeCloseTo(0.8852, 4);
+        expect(reg.coefficients[1]).toBeCloseTo(2.0570, 4);
+        expect(Math.sqrt(reg.covariance![0][0])).toBeCloseTo(0.5297, 4);
+        expect(Math.sqrt(reg.covariance![1][1])).toBeCloseTo(0.1779, 4);
+        expect(reg.extendedValidation?.chiSquare?.statisticValue).toBeCloseTo(4.131, 3);
+    });
+
+    it('fits WTLS with errors in x and y (§7 example)', () => {
+        const xw = [1.2, 1.9, 2.9, 4.0, 4.7, 5.9];
+        const yw = [3.4, 4.4, 7.2, 8.5, 10.8, 13.5];
+        const reg = calculateRegression(xw, yw, 'linear_wtls', false, undefined, false, 0.05, {
+            uncertainties: [0.2, 0.2, 0.2, 0.4, 0.4, 0.4], xUncertainties: xw.map(() => 0.2)
+        });
+        expect(reg.coefficients[0]).toBeCloseTo(0.5788, 4);
+        expect(reg.coefficients[1]).toBeCloseTo(2.1597, 4);
+        expect(Math.sqrt(reg.covariance![0][0])).toBeCloseTo(0.4764, 4);
+        expect(Math.sqrt(reg.covariance![1][1])).toBeCloseTo(0.1355, 4);
+        expect(reg.extendedValidation?.chiSquare?.statisticValue).toBeCloseTo(2.743, 3);
+    });
+
+    it('refuses a rank-deficient design', () => {
+        expect(calculateRegression([1, 1, 2, 2, 3, 3], [1, 1.1, 2, 2.1, 3, 3.2], 'polynomial_3rd').modelQuality).toBe('INVALID');
+    });
+});
+
+// --- Offset ranges: cubic over 1e8 ± 1e5 ---
+const noise = [0.4, -0.6, 0.2, 0.7, -0.3, -0.8, 0.5, 0.1, -0.5, 0.6, -0.3];
+const offsetCubic = (centre: number, halfRange: number) => {
+    const x = noise.map((_, i) => centre + halfRange * (i - 5) / 5);
+    const y = x.map((xi, i) => {
+        const u = (xi - centre) / halfRange;
+        return 2 + 5 * u + 3 * u * u - 4 * u * u * u + noise[i];
+    });
+    return { x, y };
+};
+
+describe('centred polynomial basis', () => {
+    it('evaluates the curve in z on an offset range', () => {
+        const { x, y } = offsetCubic(1e8, 1e5);
+        const reg = calculateRegression(x, y, 'polynomial_3rd');
+        expect(reg.basis?.centre).toBeCloseTo(1e8, 0);
+        expect(reg.basis?.scale).toBeCloseTo(1e5, 0);
+        // Same data on a centred range: the fitted curve must not depend on the offset
+        const centred = offsetCubic(0, 1e5);
+        const reference = calculateRegression(centred.x, centred.y, 'polynomial_3rd');
+        x.forEach((xi, i) => expect(evaluateRegression(xi, 'polynomial_3rd', reg)).toBeCloseTo(evaluateRegression(centred.x[i], 'polynomial_3rd', reference), 9));
+        expect(reg.residualStdDev).toBeCloseTo(reference.residualStdDev, 9);
+    });
+
+    it.each([[1000, 10], [1e5, 1e3], [1e8, 1e5]])('propagates the same bands on %d ± %d as on a centred range', (centre, halfRange) => {
+        const offset = offsetCubic(centre, halfRange);
+        const centred = offsetCubic(0, halfRange);
+        const reg = calculateRegression(offset.x, offset.y, 'polynomial_3rd');
+        const reference = calculateRegression(centred.x, centred.y, 'polynomial_3rd');
+        [-1, -0.35, 0, 0.6, 1].forEach(u => {
+            const confidence = calculateInterpolationUncertainty(centre + u * halfRange, reg, 'polynomial_3rd', 'confidence');
+            const prediction = calculateInterpolationUncertainty(centre + u * halfRange, reg, 'polynomial_3rd', 'prediction');
+            expect(confidence).toBeCloseTo(calculateInterpolationUncertainty(u * halfRange, reference, 'polynomial_3rd', 'confidence'), 9);
+            expect(prediction * prediction).toBeCloseTo(confidence * confidence + reg.residualStdDev * reg.residualStdDev, 9);
+            expect(confidence).toBeGreaterThan(0);
+            expect(confidence).toBeLessThan(reg.residualStdDev);
+        });
+    });
+});
+
+// --- Platinum resistance thermometry ---
+describe('PRT reference functions', () => {
+    const iec = [100, IEC_60751_COEFFICIENTS.A, IEC_60751_COEFFICIENTS.B, IEC_60751_COEFFICIENTS.C];
+
+    it('gives the IEC 60751 Pt100 resistances and inverts them', () => {
+        expect(calculateCallendarVanDusenResistance(100, iec)).toBeCloseTo(138.5055, 4);
+        expect(calculateCallendarVanDusenResistance(-100, iec)).toBeCloseTo(60.2558, 4);
+        expect(calculateCallendarVanDusenTemperature(138.5055, iec)).toBeCloseTo(100, 3);
+    });
+
+    it('has W_r = 1 at the triple point of water', () => {
+        expect(its90ReferenceFunction(0.01)).toBeCloseTo(1, 6);
+    });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateNumericalTolerance, runMonteCarlo } from '../monteCarlo';
+import { normalComponent } from '../calibrationLogic';
+import { combineUncertaintyBudget } from '../mathUtils';
+
+describe('Monte Carlo numerical tolerance (JCGM 101 §7.9.2)', () => {
+    it('is half a unit of the last significant digit of u_c', () => {
+        expect(calculateNumericalTolerance(0.0123)).toBeCloseTo(0.0005, 12);
+        expect(calculateNumericalTolerance(35)).toBeCloseTo(0.5, 12);
+        expect(calculateNumericalTolerance(0)).toBe(0);
+    });
+});
+
+describe('adaptive Monte Carlo (JCGM 101 §7.9)', () => {
+    // Seeded generator (mulberry32) so the trials are reproducible
+    beforeEach(() => {
+        let seed = 20240917;
+        vi.spyOn(Math, 'random').mockImplementation(() => {
+            seed = (seed + 0x6D2B79F5) | 0;
+            let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        });
+    });
+    afterEach(() => vi.restoreAllMocks());
+
+    // Linear model with normal inputs: the GUM interval is exact
+    const components = [normalComponent('x1', 'Entrada 1', 0.6, 2), normalComponent('x2', 'Entrada 2', 0.8, 2)];
+    const budget = combineUncertaintyBudget(components);
+    const model = (draw: (c: typeof components[0]) => number) => draw(components[0]) + draw(components[1]);
+
+    it('stabilises and validates the GUM for a linear normal model', () => {
+        const result = runMonteCarlo(model, 1e6, 0, budget);
+        expect(result.validation.stable).toBe(true);
+        expect(result.validation.passed).toBe(true);
+        expect(result.trials).toBeLessThan(1e6);
+        expect(result.standardUncertainty).toBeCloseTo(0.5, 2);
+    });
+
+    it('is not conclusive when the trials run out before the results are stable', () => {
+        const result = runMonteCarlo(model, 1e4, 0, budget);
+        expect(result.trials).toBe(2e4);
+        expect(result.validation.stable).toBe(false);
+        expect(result.validation.passed).toBe(false);
+    });
+});
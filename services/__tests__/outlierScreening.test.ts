@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { screenCalibrationOutliers, screenCheckReadings } from '../outlierScreening';
+import { dixonTest, grubbsTest } from '../mathUtils';
+import { CalibrationPoint, SequenceType } from '../../types';
+
+describe('intermediate check screening', () => {
+    it('flags the suspect reading of a check', () => {
+        const findings = screenCheckReadings(10, [10.01, 10.02, 9.99, 10.00, 10.01, 10.00, 9.99, 10.02, 10.01, 10.40]);
+        expect(findings).toHaveLength(1);
+        expect(findings[0].readingIndex).toBe(9);
+    });
+
+    it('accepts a consistent check', () => {
+        expect(screenCheckReadings(10, [10.01, 10.02, 9.99, 10.00, 10.01, 10.00, 9.99, 10.02, 10.01, 10.00])).toHaveLength(0);
+    });
+});
+
+describe('calibration screening', () => {
+    // Hysteresis of 0.05 between up and down with a repeatability of 0.001
+    const point = (nominal: number, spread = 0.001): CalibrationPoint => ({
+        nominal, standardReading: nominal,
+        run1Up: nominal, run1Down: nominal + 0.05, run2Up: nominal + spread, run2Down: nominal + 0.05 + spread
+    });
+
+    it('does not flag the hysteresis as an outlier', () => {
+        const points = [0, 2, 4, 6, 8].map(n => point(n));
+        expect(screenCalibrationOutliers(points, SequenceType.A)).toHaveLength(0);
+        expect(screenCalibrationOutliers(points, SequenceType.B)).toHaveLength(0);
+        expect(screenCalibrationOutliers(points, SequenceType.C)).toHaveLength(0);
+    });
+
+    it('flags the point with a poor repeatability (Cochran)', () => {
+        const points = [0, 2, 4, 6, 8].map(n => point(n, n === 6 ? 0.02 : 0.001));
+        const findings = screenCalibrationOutliers(points, SequenceType.A);
+        expect(findings).toHaveLength(1);
+        expect(findings[0].test).toBe('cochran');
+        expect(findings[0].nominal).toBe(6);
+    });
+
+    it('reports a wild reading as a suspect point, not as a single reading', () => {
+        const points = [0, 2, 4, 6, 8].map(n => point(n));
+        points[2] = { ...points[2], run2Up: 4.2 };
+        const findings = screenCalibrationOutliers(points, SequenceType.A);
+        expect(findings).toHaveLength(1);
+        expect(findings[0]).toMatchObject({ test: 'cochran', nominal: 4 });
+        expect(findings[0].series).toBeUndefined();
+    });
+});
+
+describe('significance level', () => {
+    const readings = [10.00, 10.02, 10.03, 10.04, 10.06, 10.20];
+
+    it('runs Dixon only at the level of its table', () => {
+        expect(dixonTest(readings)?.isOutlier).toBe(true);
+        expect(dixonTest(readings, 0.01)).toBeUndefined();
+        expect(dixonTest(readings, 0.1)).toBeUndefined();
+    });
+
+    it('screens at the requested level and records it', () => {
+        // G = 1.961: above the critical value at α = 0.05 (1.887), below the one at α = 0.01
+        expect(grubbsTest(readings, 0.01)?.isOutlier).toBe(false);
+        expect(screenCheckReadings(10, readings, [], 0.01)).toHaveLength(0);
+        expect(screenCheckReadings(10, readings)[0]).toMatchObject({ test: 'grubbs', readingIndex: 5, significanceLevel: 0.05 });
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBalancePressure, calculateLoadUncertainty, getLoadedMasses, suggestMassCombination } from '../pressureBalance';
+import { calculateResults } from '../calibrationLogic';
+import { Instrument, PressureBalanceConfig, ReferenceStandard, SequenceType, StandardType, Unit } from '../../types';
+
+const G = 9.80665;
+const RHO_AIR = 1.2;
+
+const config = (lambda = 0): PressureBalanceConfig => ({
+    effectiveArea: 4.9e-5, effectiveAreaUncertainty: 2e-10,
+    distortionCoefficient: lambda, distortionUncertainty: 1e-13,
+    pistonExpansion: 9e-6, cylinderExpansion: 9e-6, referenceTemperature: 20, temperatureUncertainty: 0.2,
+    masses: [
+        { id: 'p', label: 'Pistón', value: 0.5, uncertainty: 2e-6, density: 7920, isPiston: true },
+        { id: 'm5', label: '5 kg', value: 5, uncertainty: 1e-5, density: 7920 },
+        { id: 'm2', label: '2 kg', value: 2, uncertainty: 4e-6, density: 8000 }
+    ]
+});
+
+// m·g·(1 − ρ_a/ρ_m) / A0 for the piston and the 5 kg mass (same density)
+const p0 = 5.5 * G * (1 - RHO_AIR / 7920) / 4.9e-5;
+
+describe('pressure balance equation', () => {
+    it('always loads the piston', () => {
+        expect(getLoadedMasses(config()).map(m => m.id)).toEqual(['p']);
+        expect(getLoadedMasses(config(), ['m2']).map(m => m.id)).toEqual(['p', 'm2']);
+    });
+
+    it('applies the air buoyancy of each mass', () => {
+        expect(calculateBalancePressure(config(), ['m5'], G, RHO_AIR, 20)).toBeCloseTo(p0, 6);
+        const mixed = (0.5 * (1 - RHO_AIR / 7920) + 2 * (1 - RHO_AIR / 8000)) * G / 4.9e-5;
+        expect(calculateBalancePressure(config(), ['m2'], G, RHO_AIR, 20)).toBeCloseTo(mixed, 6);
+    });
+
+    it('corrects the effective area for temperature and distortion', () => {
+        expect(calculateBalancePressure(config(), ['m5'], G, RHO_AIR, 25)).toBeCloseTo(p0 / (1 + 18e-6 * 5), 6);
+        // The implicit λ term: p·(1 + λ·p) = p0
+        const p = calculateBalancePressure(config(1e-12), ['m5'], G, RHO_AIR, 20);
+        expect(p * (1 + 1e-12 * p)).toBeCloseTo(p0, 3);
+        expect(p).toBeLessThan(p0);
+    });
+
+    it('shifts the pressure by the stated input deviations', () => {
+        expect(calculateBalancePressure(config(), ['m5'], G, RHO_AIR, 20, { gravity: 0.001 })).toBeCloseTo(p0 * (G + 0.001) / G, 6);
+        expect(calculateBalancePressure(config(), ['m5'], G, RHO_AIR, 20, { area: 4.9e-9 })).toBeCloseTo(p0 / 1.0001, 6);
+    });
+
+    it('combines the uncertainties of the loaded masses', () => {
+        expect(calculateLoadUncertainty(config(), ['m5'])).toBeCloseTo(Math.sqrt(4e-12 + 1e-10), 15);
+    });
+
+    it('suggests the masses that approach a target from below', () => {
+        expect(suggestMassCombination(config(), p0 * 1.01, G, RHO_AIR, 20)).toEqual(['m5']);
+        expect(suggestMassCombination(config(), p0 * 1.5, G, RHO_AIR, 20)).toEqual(['m5', 'm2']);
+    });
+});
+
+describe('pressure balance as reference standard', () => {
+    const standard: ReferenceStandard = {
+        id: 'pb', type: StandardType.PressureBalance, name: 'Balanza', serialNumber: '', certificateNumber: '', calibratedBy: '',
+        calibrationDate: '2026-01-01', expiryDate: '2027-01-01', rangeMin: 0, rangeMax: 2e6, unit: Unit.Pascal, resolution: 0.01,
+        valueModelType: 'linear_pearson', uncertaintyModelType: 'linear_pearson', calibrationPoints: [], pressureBalance: config()
+    };
+    const instrument: Instrument = {
+        manufacturer: '', model: '', serialNumber: '', applicantName: '', identificationId: '',
+        rangeMin: 0, rangeMax: 20, resolution: 0.001, accuracyClass: 0.1, unit: Unit.Bar, type: 'digital',
+        connectionType: '', sensorLocation: '', conditionReceived: ''
+    };
+
+    it('takes the reference from the loaded masses and the head correction', () => {
+        const point = { nominal: 11, standardReading: 0, loadedMassIds: ['m5'], pistonTemp: 20, run1Up: 11.01, run1Down: 11.02 };
+        const [result] = calculateResults([point], instrument, standard, SequenceType.C, 850, 5, G, { airDensity: RHO_AIR });
+        expect(result.trueValue).toBeCloseTo((p0 + 850 * G * 0.05) / 1e5, 9);
+        expect(result.budget.components.map(c => c.symbol)).toEqual(expect.arrayContaining(['δm', 'A0', 'λ', 't_p', 'ρa']));
+    });
+
+    it('refuses a pressure balance without its configuration', () => {
+        expect(() => calculateResults([], instrument, { ...standard, pressureBalance: undefined }, SequenceType.C, 850, 0, G)).toThrow(/balanza de presión/);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createThermometerPoint, DEFAULT_THERMOMETER_SET_POINTS, estimateIndication, evaluateThermometerPoints, fitThermometerCurve } from '../thermometerCalibration';
+import { evaluateRegression } from '../mathUtils';
+import { ReferenceStandard, StandardType, ThermometerKind, ThermometerPoint, Unit } from '../../types';
+
+// Reference thermometer reading 0.3 °C low over 0…200 °C, U(k = 2) = 0.05 °C
+const standard = (): ReferenceStandard => ({
+    id: 'spr', type: StandardType.Temperature, name: 'Termómetro patrón', serialNumber: '', certificateNumber: '', calibratedBy: '',
+    calibrationDate: '2026-01-01', expiryDate: '2099-01-01', rangeMin: 0, rangeMax: 200, unit: Unit.Celcius, resolution: 0.001,
+    valueModelType: 'linear_pearson', uncertaintyModelType: 'linear_pearson',
+    calibrationPoints: [0, 50, 100, 150, 200].map((ref, i) => ({
+        id: String(i), nominal: ref, indication: ref - 0.3 + (i % 2 ? 1e-4 : -1e-4), referenceValue: ref,
+        uncertainty: 0.05 * (1 + 1e-3 * i), coverageFactor: 2, confidenceLevel: 95.45, distribution: 'Normal' as const
+    }))
+});
+
+// Bath at each set point read by the standard, with the instrument indicating `indicate(t)`
+const points = (kind: ThermometerKind, indicate: (t: number, i: number) => number): ThermometerPoint[] => DEFAULT_THERMOMETER_SET_POINTS.map((t, i) => ({
+    ...createThermometerPoint(kind, t, 3),
+    reference: [t - 0.31, t - 0.30, t - 0.29],
+    indication: [indicate(t, i), indicate(t, i), indicate(t, i)]
+}));
+
+describe('nominal indications', () => {
+    it('follows IEC 60751 for a Pt100 and ≈ 41 µV/°C for a type K thermocouple', () => {
+        expect(estimateIndication('prt', 0)).toBe(100);
+        expect(estimateIndication('prt', 100)).toBeCloseTo(138.5055, 2);
+        expect(estimateIndication('thermocouple', 100)).toBeCloseTo(4.1, 12);
+        expect(estimateIndication('direct', 37.5)).toBe(37.5);
+    });
+});
+
+describe('direct reading thermometer', () => {
+    // Reads 0.2 °C high with a small scatter between set points
+    const direct = () => points('direct', (t, i) => t + 0.2 + (i % 2 ? 0.002 : -0.002));
+
+    it('reports the error against the corrected bath temperature', () => {
+        const results = evaluateThermometerPoints(direct(), standard(), 'direct', 0.01, 0.5);
+        results.forEach(r => {
+            expect(r.reference).toBeCloseTo(r.setTemp, 3);
+            expect(r.error).toBeCloseTo(0.2, 2);
+            expect(r.sensitivity).toBe(1);
+            expect(r.conformity?.status).toBe('PASS');
+        });
+    });
+
+    it('adds the uniformity, stability and immersion of the bath', () => {
+        const bath = direct().map(p => ({ ...p, bath: { uniformity: 0.02, stability: 0.01, immersion: 0.005 } }));
+        const [bare] = evaluateThermometerPoints(direct(), standard(), 'direct', 0.01);
+        const [result] = evaluateThermometerPoints(bath, standard(), 'direct', 0.01);
+        const component = (symbol: string) => result.budget.components.find(c => c.symbol === symbol)!;
+        expect(component('δt,unif').standardUncertainty).toBeCloseTo(0.02 / Math.sqrt(3), 12);
+        expect(component('δt,estab').standardUncertainty).toBeCloseTo(0.005 / Math.sqrt(3), 12);
+        expect(component('δt,inm')).toMatchObject({ sensitivityCoefficient: -1, standardUncertainty: expect.closeTo(0.005 / Math.sqrt(3), 12) });
+        expect(result.expandedUncertainty).toBeGreaterThan(bare.expandedUncertainty);
+        expect(result.conformity).toBeUndefined();
+    });
+
+    it('tabulates the correction on the indication', () => {
+        const results = evaluateThermometerPoints(direct(), standard(), 'direct', 0.01);
+        const curve = fitThermometerCurve(results, 'direct', 'linear_pearson', 50)!;
+        expect(curve.table.map(r => r.indication)).toEqual([0, 50, 100, 150, 200]);
+        curve.table.forEach(r => expect(r.correction).toBeCloseTo(-0.2, 2));
+    });
+});
+
+describe('resistance thermometer', () => {
+    const prt = () => points('prt', t => estimateIndication('prt', t));
+
+    it('carries the instrument contributions to °C through dt/dR', () => {
+        const results = evaluateThermometerPoints(prt(), standard(), 'prt', 0.001);
+        const secant = (lo: number, hi: number) => (results[hi].reference - results[lo].reference) / (results[hi].indication - results[lo].indication);
+        expect(results[2].sensitivity).toBeCloseTo(secant(1, 3), 12);
+        expect(results[0].sensitivity).toBeCloseTo(secant(0, 1), 12);
+        expect(results[2].error).toBeUndefined();
+        const res = results[2].budget.components.find(c => c.symbol === 'δx,res')!;
+        expect(res.contribution).toBeCloseTo(results[2].sensitivity * 0.0005 / Math.sqrt(3), 12);
+    });
+
+    it('fits the characteristic and tabulates the resistance at each temperature', () => {
+        const results = evaluateThermometerPoints(prt(), standard(), 'prt', 0.001);
+        const curve = fitThermometerCurve(results, 'prt', 'auto', 50)!;
+        expect(evaluateRegression(estimateIndication('prt', 75), curve.model, curve.regression)).toBeCloseTo(75, 2);
+        expect(curve.table.map(r => r.temperature)).toEqual([0, 50, 100, 150, 200]);
+        curve.table.forEach(r => expect(r.indication).toBeCloseTo(estimateIndication('prt', r.temperature), 2));
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { convertValue, getConversionFactor, getQuantity, isElectricalUnit, isPressureUnit, UnitMismatchError } from '../units';
+import { Unit } from '../../types';
+
+describe('unit conversion', () => {
+    it('converts between pressure units', () => {
+        expect(convertValue(1, Unit.Bar, Unit.KPa)).toBeCloseTo(100, 12);
+        expect(convertValue(1, Unit.Psi, Unit.KPa)).toBeCloseTo(6.894757293168, 12);
+        expect(convertValue(1013.25, Unit.HPa, Unit.MBar)).toBeCloseTo(1013.25, 12);
+        expect(convertValue(2.5, Unit.MPa, Unit.Bar)).toBeCloseTo(25, 12);
+        expect(getConversionFactor(Unit.KPa, Unit.Psi) * getConversionFactor(Unit.Psi, Unit.KPa)).toBeCloseTo(1, 15);
+    });
+
+    it('converts lengths and electrical signals', () => {
+        expect(convertValue(25, Unit.Millimeter, Unit.Centimeter)).toBeCloseTo(2.5, 12);
+        expect(convertValue(1.5, Unit.Volt, Unit.MilliVolt)).toBeCloseTo(1500, 12);
+        expect(getConversionFactor(Unit.Ohm, Unit.Ohm)).toBe(1);
+    });
+
+    it('classifies the quantity of each unit', () => {
+        expect(getQuantity(Unit.MBar)).toBe('pressure');
+        expect(isPressureUnit(Unit.Psi)).toBe(true);
+        expect(isPressureUnit(Unit.Celcius)).toBe(false);
+        expect(isElectricalUnit(Unit.MilliAmpere)).toBe(true);
+        expect(isElectricalUnit(Unit.Ohm)).toBe(false);
+    });
+
+    it('refuses to mix quantities', () => {
+        expect(() => convertValue(1, Unit.Bar, Unit.Celcius, 'patrón → instrumento')).toThrow(UnitMismatchError);
+        try {
+            getConversionFactor(Unit.MilliAmpere, Unit.Volt, 'salida del transmisor');
+        } catch (e) {
+            expect(e).toMatchObject({ name: 'UnitMismatchError', from: Unit.MilliAmpere, to: Unit.Volt });
+            expect((e as Error).message).toContain('salida del transmisor');
+        }
+        expect.assertions(3);
+    });
+});
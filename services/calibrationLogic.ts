@@ -1,6 +1,10 @@
 
-import { CalibrationPoint, CalibrationResult, Instrument, ReferenceStandard, SequenceType, StandardCalibrationPoint, CalibrationFluid, Unit, StandardType, CalibrationSession, IntermediateCheck, CheckPointResult, StandardCheckConfig } from '../types';
-import { fitStandardModels, calculateInterpolationUncertainty, predictValue, GRAVITY_BOGOTA } from './mathUtils';
+import { CalibrationPoint, CalibrationResult, Instrument, ReferenceStandard, SequenceType, SequenceDefinition, SeriesKey, StandardCalibrationPoint, CalibrationFluid, Unit, StandardType, CalibrationSession, IntermediateCheck, CheckPointResult, StandardCheckConfig, BudgetComponent, CalculationOptions, HeadCorrectionUncertainty, TransferFunction, PressureBalanceConfig, PressureMode, CalibrationProcedure, WaitTimes, StabilityCriterion, StabilitySample, ReadingStamp, EarlyReadingReason, UncertaintyBudget } from '../types';
+import { fitStandardModels, calculateInterpolationUncertainty, evaluateRegression, getDistributionDivisor, combineUncertaintyBudget, meanOf, GRAVITY_BOGOTA } from './mathUtils';
+import { runMonteCarlo } from './monteCarlo';
+import { getConversionFactor, convertValue, isPressureUnit, isElectricalUnit, UnitMismatchError } from './units';
+import { evaluateConformity, calculateMPE } from './conformity';
+import { calculateBalancePressure, calculateLoadUncertainty, getLoadedMasses, BalanceDeviations } from './pressureBalance';
 
 // --- Sound Helper ---
 export const playSound = (type: 'click' | 'success' | 'error' | 'timer' | 'alarm') => {
@@ -51,44 +55,481 @@ export const playSound = (type: 'click' | 'success' | 'error' | 'timer' | 'alarm
   }
 };
 
-export const calculateResults = (points: CalibrationPoint[], instrument: Instrument, standard: ReferenceStandard, sequence: SequenceType, fluidDensity: number, heightDiff: number, localGravity: number): CalibrationResult[] => {
-    // Head Correction P = rho * g * h
-    const headCorrPa = fluidDensity * localGravity * (heightDiff / 100);
-    const headCorrBar = headCorrPa / 100000; 
+// --- DKD-R 6-1 Sequences ---
 
-    if (!standard.valueRegression || !standard.uncertaintyRegression) {
-        const fitted = fitStandardModels(standard.calibrationPoints, standard.valueModelType, standard.uncertaintyModelType);
-        standard.valueRegression = fitted.valueReg;
-        standard.uncertaintyRegression = fitted.uncReg;
+export const SEQUENCE_DEFINITIONS: Record<SequenceType, SequenceDefinition> = {
+    [SequenceType.A]: {
+        type: SequenceType.A, label: 'Secuencia A (Alta exactitud)',
+        minAccuracyClass: 0, maxAccuracyClass: 0.1,
+        points: 9, preloads: 3, series: ['run1Up', 'run1Down', 'run2Up', 'run2Down'],
+        preloadHoldSeconds: 30, stepHoldSeconds: 30, topHoldSeconds: 120
+    },
+    [SequenceType.B]: {
+        type: SequenceType.B, label: 'Secuencia B (Exactitud media)',
+        minAccuracyClass: 0.1, maxAccuracyClass: 0.6,
+        points: 9, preloads: 2, series: ['run1Up', 'run1Down', 'run2Up'],
+        preloadHoldSeconds: 30, stepHoldSeconds: 30, topHoldSeconds: 120
+    },
+    [SequenceType.C]: {
+        type: SequenceType.C, label: 'Secuencia C (Baja exactitud)',
+        minAccuracyClass: 0.6, maxAccuracyClass: Infinity,
+        points: 5, preloads: 1, series: ['run1Up', 'run1Down'],
+        preloadHoldSeconds: 30, stepHoldSeconds: 30, topHoldSeconds: 120
     }
+};
+
+export const SERIES_LABELS: Record<SeriesKey, string> = {
+    run1Up: 'M1 Ascenso 1',
+    run1Down: 'M2 Descenso 1',
+    run2Up: 'M3 Ascenso 2',
+    run2Down: 'M4 Descenso 2'
+};
+
+export const CALIBRATION_PROCEDURE_LABELS: Record<CalibrationProcedure, string> = {
+    pressure: 'Presión (DKD-R 6-1)',
+    thermohygrometer: 'Termohigrómetros (cámara climática)',
+    thermometer: 'Termómetros (comparación en baño)',
+    dimensional: 'Dimensional (bloques patrón)'
+};
+
+export const PRESSURE_MODE_LABELS: Record<PressureMode, string> = {
+    gauge: 'Manométrica',
+    absolute: 'Absoluta',
+    differential: 'Diferencial'
+};
+
+// Suffix appended to pressure units on records and certificates
+export const PRESSURE_MODE_SUFFIX: Record<PressureMode, string> = {
+    gauge: 'g',
+    absolute: 'abs',
+    differential: 'dif'
+};
+
+export const recommendSequence = (accuracyClass: number): SequenceType => {
+    const def = Object.values(SEQUENCE_DEFINITIONS).find(d => accuracyClass >= d.minAccuracyClass && accuracyClass < d.maxAccuracyClass);
+    return def ? def.type : SequenceType.C;
+};
+
+// Nominal values of the measuring points. Ranges crossing zero (compound gauges) are split at zero so that
+// zero is always a point and each side gets points in proportion to its length; vacuum ranges
+// (rangeMax ≤ 0) are loaded from zero outwards, i.e. in order of increasing magnitude.
+const generateNominalValues = (rangeMin: number, rangeMax: number, count: number): number[] => {
+    const spaced = (from: number, to: number, n: number) => Array.from({ length: n + 1 }, (_, i) => from + (to - from) * i / n);
+    let values: number[];
+    if (rangeMin < 0 && rangeMax > 0) {
+        const intervals = count - 1;
+        const negative = Math.min(intervals - 1, Math.max(1, Math.round(intervals * -rangeMin / (rangeMax - rangeMin))));
+        values = [...spaced(rangeMin, 0, negative), ...spaced(0, rangeMax, intervals - negative).slice(1)];
+    } else {
+        values = spaced(rangeMin, rangeMax, count - 1);
+        if (rangeMax <= 0) values.reverse();
+    }
+    return values.map(v => parseFloat(v.toFixed(4)));
+};
+
+// Measuring points over the instrument range, zero/rangeMin included.
+// The expected standard reading is pre-filled in the unit of the standard when it is known.
+export const generateSequencePoints = (instrument: Instrument, sequence: SequenceType, standardUnit: Unit = instrument.unit): CalibrationPoint[] => {
+    const count = SEQUENCE_DEFINITIONS[sequence].points;
+    return generateNominalValues(instrument.rangeMin, instrument.rangeMax, count).map(nom => ({
+        nominal: nom,
+        standardReading: parseFloat(convertValue(nom, instrument.unit, standardUnit, 'nominal → patrón').toPrecision(8))
+    }));
+};
+
+// Readings of the series prescribed by the sequence that have actually been captured
+export const getSeriesReadings = (point: CalibrationPoint, sequence: SequenceType): number[] => {
+    return SEQUENCE_DEFINITIONS[sequence].series
+        .map(key => point[key])
+        .filter((v): v is number => v !== undefined && v !== null && !isNaN(v));
+};
+
+const absDiff = (a?: number, b?: number): number | null => (a === undefined || b === undefined) ? null : Math.abs(a - b);
+
+// Repeatability b' (same direction, repeated series) and reversibility h (up vs down) per DKD-R 6-1
+export const calculateRepeatabilityAndHysteresis = (point: CalibrationPoint, sequence: SequenceType): { repeatability: number, hysteresis: number } => {
+    const series = SEQUENCE_DEFINITIONS[sequence].series;
+    const value = (key: SeriesKey) => series.includes(key) ? point[key] : undefined;
+
+    const repDiffs = [absDiff(value('run1Up'), value('run2Up')), absDiff(value('run1Down'), value('run2Down'))].filter((d): d is number => d !== null);
+    const hysDiffs = [absDiff(value('run1Up'), value('run1Down')), absDiff(value('run2Up'), value('run2Down'))].filter((d): d is number => d !== null);
+
+    return {
+        repeatability: repDiffs.length > 0 ? meanOf(repDiffs) : 0,
+        hysteresis: hysDiffs.length > 0 ? meanOf(hysDiffs) : 0
+    };
+};
+
+// Zero deviation f0: largest spread of the zero readings across all executed series
+export const calculateZeroDeviation = (points: CalibrationPoint[], sequence: SequenceType): number => {
+    const zeroPoint = points.find(p => p.nominal === 0);
+    if (!zeroPoint) return 0;
+    const zeroReadings = getSeriesReadings(zeroPoint, sequence);
+    if (zeroReadings.length < 2) return 0;
+    return Math.max(...zeroReadings.map(z => Math.abs(z - zeroReadings[0])));
+};
+
+// --- Reading Timing & Stability ---
+
+export const EARLY_READING_LABELS: Record<EarlyReadingReason, string> = {
+    wait: 'Tiempo de espera no cumplido',
+    unstable: 'Patrón no estable'
+};
+
+export const getDefaultWaitTimes = (sequence: SequenceType): WaitTimes => {
+    const def = SEQUENCE_DEFINITIONS[sequence];
+    return { preload: def.preloadHoldSeconds, step: def.stepHoldSeconds, top: def.topHoldSeconds };
+};
+
+// Top hold before the descending reading at full scale, step wait before any other reading
+export const getRequiredWait = (points: CalibrationPoint[], index: number, key: SeriesKey, waits: WaitTimes): number => {
+    const topIndex = points.reduce((best, p, i) => Math.abs(p.nominal) > Math.abs(points[best].nominal) ? i : best, 0);
+    return index === topIndex && key.endsWith('Down') ? waits.top : waits.step;
+};
+
+// Time (ms) of the latest committed reading of the job: the next load step starts after it
+export const getLastReadingTime = (points: CalibrationPoint[]): number | undefined => {
+    const times = points.flatMap(p => Object.values(p.readingStamps || {}).map(s => new Date(s!.time).getTime()));
+    return times.length > 0 ? Math.max(...times) : undefined;
+};
+
+// Change of the standard over the last window. The value in force at the start of the window (last sample
+// before it) is included, so the check only passes once the monitoring covers the whole window.
+export const evaluateStability = (samples: StabilitySample[], criterion: StabilityCriterion, now: number = Date.now()): { stable: boolean, change: number, covered: boolean } => {
+    if (criterion.maxChange <= 0) return { stable: true, change: 0, covered: true };
+    const from = now - criterion.window * 1000;
+    const before = samples.filter(s => new Date(s.time).getTime() < from);
+    const values = [...before.slice(-1), ...samples.filter(s => new Date(s.time).getTime() >= from)].map(s => s.value);
+    const change = values.length > 0 ? Math.max(...values) - Math.min(...values) : 0;
+    const covered = before.length > 0;
+    return { stable: covered && values.length >= 2 && change < criterion.maxChange, change, covered };
+};
+
+// Stamp of a reading committed now; loadStart is the start of the current load step (ms)
+export const createReadingStamp = (points: CalibrationPoint[], index: number, key: SeriesKey, waits: WaitTimes, stable: boolean, loadStart?: number, now: number = Date.now()): ReadingStamp => {
+    const waited = loadStart !== undefined ? (now - loadStart) / 1000 : undefined;
+    const early: EarlyReadingReason[] = [];
+    if (waited !== undefined && waited < getRequiredWait(points, index, key, waits)) early.push('wait');
+    if (!stable) early.push('unstable');
+    return { time: new Date(now).toISOString(), waited: waited !== undefined ? Math.round(waited) : undefined, early: early.length > 0 ? early : undefined };
+};
+
+// Type B rectangular input of full width w (half-width a = w/2) entering the model with coefficient c
+export const rectangularComponent = (symbol: string, label: string, width: number, sensitivityCoefficient: number = 1, estimate: number = 0): BudgetComponent => {
+    const divisor = getDistributionDivisor('Rectangular');
+    const halfWidth = width / 2;
+    const standardUncertainty = halfWidth / divisor;
+    return {
+        symbol, label, estimate, value: halfWidth, distribution: 'Rectangular', divisor, standardUncertainty,
+        sensitivityCoefficient, contribution: Math.abs(sensitivityCoefficient) * standardUncertainty,
+        degreesOfFreedom: Infinity, evaluationType: 'B'
+    };
+};
+
+// --- Transmitters ---
+
+export const TRANSFER_FUNCTION_LABELS: Record<TransferFunction, string> = {
+    linear: 'Lineal',
+    square_root: 'Raíz cuadrada'
+};
+
+// Ideal output signal for a pressure in instrument units (outputs clamp below the lower range value)
+export const calculateIdealOutput = (instrument: Instrument, pressure: number): number => {
+    const tx = instrument.transmitter;
+    if (!tx) return pressure;
+    const fraction = Math.max(0, (pressure - instrument.rangeMin) / (instrument.rangeMax - instrument.rangeMin));
+    const shaped = tx.transferFunction === 'square_root' ? Math.sqrt(fraction) : fraction;
+    return tx.outputMin + (tx.outputMax - tx.outputMin) * shaped;
+};
+
+// ∂T/∂p by forward difference (the square root law has an infinite slope at the lower range value)
+export const calculateTransferSlope = (instrument: Instrument, pressure: number): number => {
+    const dp = Math.abs(instrument.rangeMax - instrument.rangeMin) * 1e-6 || 1e-6;
+    return (calculateIdealOutput(instrument, pressure + dp) - calculateIdealOutput(instrument, pressure)) / dp;
+};
+
+// Normal input stated on a certificate as an expanded uncertainty U with coverage factor k
+export const normalComponent = (symbol: string, label: string, expanded: number, k: number, sensitivityCoefficient: number = 1, estimate: number = 0, degreesOfFreedom: number = Infinity, evaluationType: 'A' | 'B' = 'B'): BudgetComponent => {
+    const standardUncertainty = expanded / k;
+    return {
+        symbol, label, estimate, value: expanded, distribution: 'Normal', divisor: k, standardUncertainty,
+        sensitivityCoefficient, contribution: Math.abs(sensitivityCoefficient) * standardUncertainty,
+        degreesOfFreedom, evaluationType
+    };
+};
+
+// Type A input from repeated readings: the mean with u = s/√n and ν = n − 1; undefined for a single reading
+export const typeAComponent = (symbol: string, label: string, values: number[], sensitivityCoefficient: number): BudgetComponent | undefined => {
+    const n = values.length;
+    if (n < 2) return undefined;
+    const mean = meanOf(values);
+    const s = Math.sqrt(values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (n - 1));
+    return normalComponent(symbol, label, s / Math.sqrt(n), 1, sensitivityCoefficient, mean, n - 1, 'A');
+};
+
+// Calibration uncertainty u_c between points, interpolated linearly on the position of each result
+// (indication or temperature)
+export const interpolateCalibrationUncertainty = <T extends { budget: UncertaintyBudget }>(x: number, results: T[], positionOf: (r: T) => number): number => {
+    const pts = results.map(r => ({ x: positionOf(r), u: r.budget.combinedStandardUncertainty })).sort((a, b) => a.x - b.x);
+    if (x <= pts[0].x) return pts[0].u;
+    if (x >= pts[pts.length - 1].x) return pts[pts.length - 1].u;
+    const i = pts.findIndex(p => p.x >= x);
+    const a = pts[i - 1], b = pts[i];
+    return b.x === a.x ? Math.max(a.u, b.u) : a.u + (b.u - a.u) * (x - a.x) / (b.x - a.x);
+};
+
+const scaleSensitivity = (c: BudgetComponent, factor: number): BudgetComponent => ({
+    ...c, sensitivityCoefficient: c.sensitivityCoefficient * factor, contribution: Math.abs(c.sensitivityCoefficient * factor) * c.standardUncertainty
+});
+
+// Default half-widths when the session does not state them: 1 % of ρ, 1 mm/s² on g, 0.5 cm on Δh
+export const getDefaultHeadUncertainty = (fluidDensity: number): HeadCorrectionUncertainty => ({
+    fluidDensity: parseFloat((fluidDensity * 0.01).toPrecision(3)),
+    gravity: 0.001,
+    heightDifference: 0.5
+});
+
+// --- Reference Value of the Standard ---
+
+// Reference pressure generated at one point. Components carry ∂p_ref/∂x_i in instrument units;
+// `sample` re-evaluates the reference (instrument units) for one Monte Carlo trial.
+interface ReferenceEvaluation {
+    trueValueStd: number;          // Unit of the standard, head correction included
+    slope: number;                 // ∂p_ref/∂(x_std + Δp_h), instrument units per unit of the standard
+    gravitySensitivity: number;    // ∂p_ref/∂g from the standard itself (pressure balance)
+    uncertainty: number;           // u(p_ref) in instrument units
+    modelUncertainty: number;
+    components: BudgetComponent[];
+    sample: (draw: (c: BudgetComponent) => number, headStd: number, gravityDeviation: number) => number;
+}
+
+// Standard read through its calibration curve: p_ref = f(x_std + Δp_h).
+// `tag` and `name` distinguish the symbols/labels when a second standard (barometer) enters the budget.
+const evaluateRegressionReference = (reading: number, standard: ReferenceStandard, headCorr: number, stdToInst: number, tag: string = '', name: string = 'patrón'): ReferenceEvaluation => {
+    const valueReg = standard.valueRegression!;
+    const correctedReading = reading + headCorr;
+    const trueValueStd = evaluateRegression(correctedReading, standard.valueModelType, valueReg);
+    const u_model = calculateInterpolationUncertainty(correctedReading, valueReg, standard.valueModelType, 'prediction') * stdToInst;
+
+    const dx = Math.max(Math.abs(correctedReading), 1) * 1e-6;
+    const slope = stdToInst * (evaluateRegression(correctedReading + dx, standard.valueModelType, valueReg) - 
+                   evaluateRegression(correctedReading - dx, standard.valueModelType, valueReg)) / (2 * dx);
+
+    const u_ref_std = evaluateRegression(trueValueStd, standard.uncertaintyModelType, standard.uncertaintyRegression!) * stdToInst;
+    const modelDof = valueReg.anova ? valueReg.anova.dfRes : valueReg.n - 2;
+    const certCoverageFactor = standard.calibrationPoints[0]?.coverageFactor || 2;
+
+    const cRef = normalComponent(`δref${tag}`, `Calibración del ${name} (certificado)`, u_ref_std * certCoverageFactor, certCoverageFactor);
+    const cMod = normalComponent(`δmod${tag}`, `Interpolación del modelo del ${name}`, u_model, 1, 1, 0, modelDof > 0 ? modelDof : Infinity, 'A');
+    const cStd = rectangularComponent(`x_std${tag}`, `Resolución del ${name}`, standard.resolution, slope, correctedReading);
+
+    return {
+        trueValueStd,
+        slope,
+        gravitySensitivity: 0,
+        uncertainty: Math.sqrt(Math.pow(u_ref_std, 2) + Math.pow(u_model, 2)),
+        modelUncertainty: u_model,
+        components: [cRef, cMod, cStd],
+        sample: (draw, headStd) => evaluateRegression(reading + draw(cStd) + headStd, standard.valueModelType, valueReg) * stdToInst + draw(cRef) + draw(cMod)
+    };
+};
+
+// Pressure balance: p_ref = p(masses, A0, λ, t, g, ρ_a) + Δp_h
+const evaluateBalanceReference = (p: CalibrationPoint, balance: PressureBalanceConfig, headCorr: number, stdToInst: number, paToStd: number, localGravity: number, airDensity: number, airDensityUncertainty?: number): ReferenceEvaluation => {
+    const massIds = p.loadedMassIds || [];
+    const pistonTemp = p.pistonTemp ?? balance.referenceTemperature;
+    const pressure = (dev: BalanceDeviations = {}) => calculateBalancePressure(balance, massIds, localGravity, airDensity, pistonTemp, dev);
+    const toInst = paToStd * stdToInst;
+    const sensitivity = (key: keyof BalanceDeviations, delta: number) => (pressure({ [key]: delta }) - pressure({ [key]: -delta })) / (2 * delta) * toInst;
+
+    const totalMass = getLoadedMasses(balance, massIds).reduce((acc, m) => acc + m.value, 0);
+    const cMass = normalComponent('δm', 'Masas cargadas (certificado)', calculateLoadUncertainty(balance, massIds), 2, sensitivity('mass', Math.max(totalMass, 1) * 1e-6), totalMass);
+    const cArea = normalComponent('A0', 'Área efectiva A0', balance.effectiveAreaUncertainty, 2, sensitivity('area', balance.effectiveArea * 1e-6), balance.effectiveArea);
+    const cLambda = normalComponent('λ', 'Coeficiente de distorsión λ', balance.distortionUncertainty, 2, sensitivity('lambda', 1e-15), balance.distortionCoefficient);
+    const cTemp = rectangularComponent('t_p', 'Temperatura del pistón', 2 * balance.temperatureUncertainty, sensitivity('temperature', 0.01), pistonTemp);
+    // Rectangular of half-width √3·u(ρ_a) when the environmental conditions were propagated, 1 % otherwise
+    const airHalfWidth = airDensityUncertainty !== undefined ? Math.sqrt(3) * airDensityUncertainty : airDensity * 0.01;
+    const cAir = rectangularComponent('ρa', 'Densidad del aire (empuje)', 2 * airHalfWidth, sensitivity('airDensity', 1e-4), airDensity);
+    const components = [cMass, cArea, cLambda, cTemp, cAir];
+
+    return {
+        trueValueStd: pressure() * paToStd + headCorr,
+        slope: stdToInst,
+        gravitySensitivity: sensitivity('gravity', 1e-5),
+        uncertainty: Math.sqrt(components.reduce((acc, c) => acc + Math.pow(c.contribution, 2), 0)),
+        modelUncertainty: 0,
+        components,
+        sample: (draw, headStd, gravityDeviation) => (pressure({
+            mass: draw(cMass), area: draw(cArea), lambda: draw(cLambda), temperature: draw(cTemp), airDensity: draw(cAir), gravity: gravityDeviation
+        }) * paToStd + headStd) * stdToInst
+    };
+};
+
+export const calculateResults = (points: CalibrationPoint[], instrument: Instrument, standard: ReferenceStandard, sequence: SequenceType, fluidDensity: number, heightDiff: number, localGravity: number, options: CalculationOptions = {}): CalibrationResult[] => {
+    // Units: readings of the standard are in standard.unit, indications/results in instrument.unit
+    if (!isPressureUnit(standard.unit)) throw new UnitMismatchError(standard.unit, Unit.Pascal, `patrón ${standard.name}`);
+    const stdToInst = getConversionFactor(standard.unit, instrument.unit, 'patrón → instrumento');
+    const paToStd = getConversionFactor(Unit.Pascal, standard.unit);
+    const balance = standard.type === StandardType.PressureBalance ? standard.pressureBalance : undefined;
+    if (standard.type === StandardType.PressureBalance && !balance) throw new Error(`La balanza de presión ${standard.name} no tiene configurados A0, λ ni el juego de masas.`);
+
+    // Transmitters: series readings are indications of the electrical standard and results live in the output domain
+    const tx = instrument.type === 'transmitter' ? instrument.transmitter : undefined;
+    const dmm = tx ? options.electricalStandard : undefined;
+    if (tx && !dmm) throw new Error('La calibración de un transmisor requiere un patrón eléctrico para leer la salida.');
+    if (tx && !isElectricalUnit(tx.outputUnit)) throw new UnitMismatchError(tx.outputUnit, Unit.MilliAmpere, 'salida del transmisor');
+    const dmmToOut = tx && dmm ? getConversionFactor(dmm.unit, tx.outputUnit, 'patrón eléctrico → salida') : 1;
+    const outputSpan = tx ? tx.outputMax - tx.outputMin : 1;
+
+    // Head Correction P = rho * g * h (Pa), expressed in the unit of the standard
+    const headCorrection = (rho: number, g: number, hCm: number) => rho * g * (hCm / 100) * paToStd;
+    const headU = options.headUncertainty || getDefaultHeadUncertainty(fluidDensity);
+
+    // Pressure mode: a gauge standard realises absolute pressure with a barometer and vice versa
+    const sessionMode = options.pressureMode || 'gauge';
+    const standardMode = standard.pressureMode || 'gauge';
+    const atmSign = sessionMode === 'absolute' && standardMode === 'gauge' ? 1 : sessionMode === 'gauge' && standardMode === 'absolute' ? -1 : 0;
+    const baro = atmSign !== 0 ? options.barometerStandard : undefined;
+    if (atmSign !== 0 && !baro) throw new Error('La conversión entre presión manométrica y absoluta requiere un patrón de presión atmosférica.');
+    if (baro && points.some(p => p.barometerReading === undefined || isNaN(p.barometerReading))) throw new Error('Falta la lectura del barómetro en uno o más puntos.');
+    const baroToInst = baro ? getConversionFactor(baro.unit, instrument.unit, 'barómetro → instrumento') : 1;
+
+    [balance ? undefined : standard, dmm, baro].forEach(s => {
+        if (!s || (s.valueRegression && s.uncertaintyRegression)) return;
+        const fitted = fitStandardModels(s.calibrationPoints, s.valueModelType, s.uncertaintyModelType, s.valueSubModels, s.uncertaintySubModels, undefined, s.valueFitMethod, s.pointCorrelations, s.resolution);
+        s.valueRegression = fitted.valueReg;
+        s.uncertaintyRegression = fitted.uncReg;
+    });
+
+    const zeroError = calculateZeroDeviation(points, sequence) * dmmToOut;
+    const dmmCoverageFactor = dmm?.calibrationPoints[0]?.coverageFactor || 2;
+
+    // Gas columns: the density follows the absolute line pressure (lighter under vacuum, heavier at high pressure)
+    const gasColumn = options.fluid === CalibrationFluid.Air && options.ambientPressure ? options.ambientPressure : undefined;
+    const densityFactorAt = (p: CalibrationPoint): number => {
+        if (!gasColumn) return 1;
+        const pAbs = p.standardReading / paToStd + (standardMode === 'absolute' ? 0 : gasColumn);
+        return Math.max(0, pAbs) / gasColumn;
+    };
 
     return points.map(p => {
-        const correctedReading = p.standardReading + headCorrBar;
-        
-        const trueValue = predictValue(correctedReading, standard.valueModelType, standard.valueRegression!.coefficients);
-        const u_model = calculateInterpolationUncertainty(correctedReading, standard.valueRegression!, standard.valueModelType);
+        const densityFactor = densityFactorAt(p);
+        const rhoPoint = fluidDensity * densityFactor;
+        const headCorr = headCorrection(rhoPoint, localGravity, heightDiff);
+        const ref = balance
+            ? evaluateBalanceReference(p, balance, headCorr, stdToInst, paToStd, localGravity, options.airDensity ?? 1.2, options.airDensityUncertainty)
+            : evaluateRegressionReference(p.standardReading, standard, headCorr, stdToInst);
+        // Gauge ↔ absolute: the atmospheric pressure measured by the barometer is added (or removed)
+        const atm = baro ? evaluateRegressionReference(p.barometerReading!, baro, 0, baroToInst, ',atm', 'barómetro') : undefined;
+        const trueValue = ref.trueValueStd * stdToInst + atmSign * (atm ? atm.trueValueStd * baroToInst : 0);
+
+        // Model: E = x̄ + δr + δf0 + δb' + δh − p_ref(x_std + Δp_h)
+        // slope = ∂p_ref/∂Δp_h already scaled to instrument units per unit of the standard
+        const slope = ref.slope;
+        // Transmitters: E = Ī_out − T(p), every pressure input is scaled by ∂T/∂p
+        const outputSlope = tx ? calculateTransferSlope(instrument, trueValue) : 1;
         
         const r1Up = p.run1Up || 0;
         const r1Down = p.run1Down || 0;
-        const readings = [r1Up, r1Down];
-        const meanReading = readings.reduce((a, b) => a + b, 0) / readings.length;
-        const meanError = meanReading - trueValue;
-        
-        const u_ref_std = predictValue(trueValue, standard.uncertaintyModelType, standard.uncertaintyRegression!.coefficients);
-        const u_ref = Math.sqrt(Math.pow(u_ref_std, 2) + Math.pow(u_model, 2));
-        const u_c = Math.sqrt( Math.pow(u_ref, 2) + Math.pow(instrument.resolution/Math.sqrt(12), 2) );
-        const k = 2;
+        const seriesReadings = getSeriesReadings(p, sequence);
+        const readings = seriesReadings.length > 0 ? seriesReadings : [r1Up, r1Down];
+        const rawMean = meanOf(readings);
+        const meanReading = dmm ? meanOf(readings.map(r => evaluateRegression(r, dmm.valueModelType, dmm.valueRegression!))) * dmmToOut : rawMean;
+        const reference = tx ? calculateIdealOutput(instrument, trueValue) : trueValue;
+        const meanError = meanReading - reference;
+        const rh = calculateRepeatabilityAndHysteresis(p, sequence);
+        const repeatability = rh.repeatability * dmmToOut;
+        const hysteresis = rh.hysteresis * dmmToOut;
+
+        // DKD-R 6-1: every instrument contribution is a rectangular distribution of width r, f0, b' and h
+        const components: BudgetComponent[] = [
+            ...ref.components.map(c => scaleSensitivity(c, -outputSlope)),
+            ...(atm ? atm.components.map(c => scaleSensitivity(c, -atmSign * outputSlope)) : []),
+            rectangularComponent('ρ', 'Densidad del fluido', 2 * headU.fluidDensity * densityFactor, -slope * outputSlope * localGravity * (heightDiff / 100) * paToStd, rhoPoint),
+            rectangularComponent('g', 'Gravedad local', 2 * headU.gravity, -outputSlope * (slope * rhoPoint * (heightDiff / 100) * paToStd + ref.gravitySensitivity), localGravity),
+            rectangularComponent('Δh', 'Diferencia de altura', 2 * headU.heightDifference, -slope * outputSlope * rhoPoint * localGravity / 100 * paToStd, heightDiff),
+            dmm ? rectangularComponent('δr', 'Resolución del patrón eléctrico', dmm.resolution * dmmToOut) : rectangularComponent('δr', 'Resolución r', instrument.resolution),
+            rectangularComponent('δf0', 'Desviación de cero f0', zeroError),
+            rectangularComponent("δb'", "Repetibilidad b'", repeatability),
+            rectangularComponent('δh', 'Histéresis h', hysteresis)
+        ];
+        if (dmm) {
+            const u_e = evaluateRegression(meanReading / dmmToOut, dmm.uncertaintyModelType, dmm.uncertaintyRegression!) * dmmToOut;
+            const u_eModel = calculateInterpolationUncertainty(rawMean, dmm.valueRegression!, dmm.valueModelType, 'prediction') * dmmToOut;
+            const dmmDof = dmm.valueRegression!.anova ? dmm.valueRegression!.anova.dfRes : dmm.valueRegression!.n - 2;
+            components.push(
+                normalComponent('δref,e', 'Calibración del patrón eléctrico (certificado)', u_e * dmmCoverageFactor, dmmCoverageFactor),
+                normalComponent('δmod,e', 'Interpolación del modelo del patrón eléctrico', u_eModel, 1, 1, 0, dmmDof > 0 ? dmmDof : Infinity, 'A')
+            );
+        }
+        const budget = combineUncertaintyBudget(components);
+        const k = budget.coverageFactor;
+        const component = (symbol: string) => components.find(c => c.symbol === symbol)!;
+        const byId = (symbol: string) => component(symbol).contribution;
+
+        // GUM-S1: full non-linear model, head correction and the reference evaluated on every trial
+        const [cRho, cG, cH] = ['ρ', 'g', 'Δh'].map(component);
+        const indicationInputs = ['δr', 'δf0', "δb'", 'δh', ...(dmm ? ['δref,e', 'δmod,e'] : [])].map(component);
+        const monteCarlo = options.monteCarloTrials ? runMonteCarlo(draw => {
+            const rho = rhoPoint + draw(cRho);
+            const gDev = draw(cG);
+            const h = heightDiff + draw(cH);
+            const pRef = ref.sample(draw, headCorrection(rho, localGravity + gDev, h), gDev) + (atm ? atmSign * atm.sample(draw, 0, 0) : 0);
+            const indication = indicationInputs.reduce((acc, c) => acc + draw(c), meanReading);
+            return indication - (tx ? calculateIdealOutput(instrument, pRef) : pRef);
+        }, options.monteCarloTrials, meanError, budget) : undefined;
+
+        // Transmitter specifications refer to the span: the pressure MPE maps onto the same fraction of the output span
+        const tolerance = tx
+            ? calculateMPE(instrument, trueValue) * outputSpan / (instrument.rangeMax - instrument.rangeMin)
+            : calculateMPE(instrument, meanReading);
+        const conformity = evaluateConformity(meanError, budget.expandedUncertainty, budget.combinedStandardUncertainty, tolerance, options.decisionRule);
 
         return {
             nominal: p.nominal,
             trueValue,
             meanError,
-            hysteresis: Math.abs(r1Up - r1Down),
-            repeatability: 0,
-            expandedUncertainty: u_c * k,
-            uncertaintyContributors: { ref: u_ref*k, model: u_model*k, res: 0, rep: 0, hys: 0},
-            compliance: (Math.abs(meanError) + u_c*k) < (instrument.rangeMax * instrument.accuracyClass / 100)
+            hysteresis,
+            repeatability,
+            zeroError,
+            expandedUncertainty: budget.expandedUncertainty,
+            transmitter: tx ? {
+                outputUnit: tx.outputUnit,
+                idealOutput: reference,
+                meanOutput: meanReading,
+                errorPercentSpan: meanError / outputSpan * 100,
+                uncertaintyPercentSpan: budget.expandedUncertainty / outputSpan * 100
+            } : undefined,
+            uncertaintyContributors: { ref: Math.sqrt(Math.pow(ref.uncertainty, 2) + Math.pow(atm ? atm.uncertainty : 0, 2))*outputSlope*k, model: ref.modelUncertainty*outputSlope*k, res: byId('δr')*k, rep: byId("δb'")*k, hys: byId('δh')*k, zero: byId('δf0')*k },
+            budget,
+            monteCarlo,
+            conformity,
+            compliance: conformity.status === 'PASS'
+        };
+    });
+};
+
+// Same evaluation in a Web Worker when Monte Carlo runs: up to 10⁶ trials per point would block the UI
+export const calculateResultsAsync = (...args: Parameters<typeof calculateResults>): Promise<CalibrationResult[]> => {
+    if (!args[7]?.monteCarloTrials || typeof Worker === 'undefined') return new Promise(resolve => resolve(calculateResults(...args)));
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./calibrationWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<{ results?: CalibrationResult[], unitMismatch?: { from: Unit, to: Unit, context?: string }, error?: string }>) => {
+            worker.terminate();
+            const { results, unitMismatch, error } = e.data;
+            if (results) resolve(results);
+            else reject(unitMismatch ? new UnitMismatchError(unitMismatch.from, unitMismatch.to, unitMismatch.context) : new Error(error));
+        };
+        worker.onerror = e => {
+            e.preventDefault();
+            worker.terminate();
+            reject(new Error(e.message || 'No fue posible completar el cálculo de resultados.'));
+        };
+        worker.onmessageerror = () => {
+            worker.terminate();
+            reject(new Error('No fue posible recibir los resultados del cálculo.'));
         };
+        worker.postMessage(args);
     });
 };
 
@@ -211,21 +652,25 @@ export const generateRandomSession = (standards: ReferenceStandard[]): Calibrati
     }
 
     const range = pressureStd.rangeMax;
+    const sequence = SequenceType.B;
+    const seriesKeys = SEQUENCE_DEFINITIONS[sequence].series;
+    const steps = SEQUENCE_DEFINITIONS[sequence].points;
     const points: CalibrationPoint[] = [];
-    const steps = 6;
     const linearityError = (x: number) => Math.sin(x/range * Math.PI) * (range * 0.005);
     
     for(let i=0; i<steps; i++) {
         const nom = (range/(steps-1))*i;
         const systematic = linearityError(nom);
-        const random = (Math.random() - 0.5) * (range * 0.001);
-        
-        points.push({
+        const point: CalibrationPoint = {
             nominal: parseFloat(nom.toFixed(2)),
             standardReading: parseFloat(nom.toFixed(4)), 
-            run1Up: parseFloat((nom + systematic + random).toFixed(4)),
-            run1Down: parseFloat((nom + systematic + random - (Math.random()*range*0.001)).toFixed(4)), 
+        };
+        seriesKeys.forEach(key => {
+            const random = (Math.random() - 0.5) * (range * 0.001);
+            const hysteresis = key.endsWith('Down') ? -(Math.random()*range*0.001) : 0;
+            point[key] = parseFloat((nom + systematic + random + hysteresis).toFixed(4));
         });
+        points.push(point);
     }
 
     const instrument: Instrument = {
@@ -249,7 +694,7 @@ export const generateRandomSession = (standards: ReferenceStandard[]): Calibrati
         points, 
         instrument, 
         pressureStd, 
-        SequenceType.B, 
+        sequence, 
         1.2, 
         5,
         GRAVITY_BOGOTA
@@ -260,7 +705,8 @@ export const generateRandomSession = (standards: ReferenceStandard[]): Calibrati
         date: new Date().toISOString(),
         technician: 'AI-Generated Test',
         standardId: pressureStd.id,
-        sequence: SequenceType.B,
+        sequence,
+        preloadsCompleted: SEQUENCE_DEFINITIONS[sequence].preloads,
         instrument,
         envReadings: {
             start: { temp: 20, humidity: 45, pressure: 1013 },
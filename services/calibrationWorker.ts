@@ -0,0 +1,13 @@
+import { calculateResults } from './calibrationLogic';
+import { UnitMismatchError } from './units';
+
+// Pressure results evaluated off the main thread (see calculateResultsAsync). A unit mismatch is sent
+// back with its fields so the form can rebuild the error it reports.
+self.onmessage = (e: MessageEvent<Parameters<typeof calculateResults>>) => {
+    try {
+        self.postMessage({ results: calculateResults(...e.data) });
+    } catch (err) {
+        if (err instanceof UnitMismatchError) self.postMessage({ unitMismatch: { from: err.from, to: err.to, context: err.context } });
+        else self.postMessage({ error: err instanceof Error ? err.message : String(err) });
+    }
+};
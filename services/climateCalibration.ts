@@ -0,0 +1,141 @@
+import { BudgetComponent, ChamberCharacterization, ClimateChannelResult, ClimateChannelSpec, ClimatePoint, ClimatePointResult, DecisionRule, ReferenceStandard } from '../types';
+import { combineUncertaintyBudget, meanOf } from './mathUtils';
+import { correctEnvReading, EnvQuantity } from './environment';
+import { rectangularComponent, normalComponent, typeAComponent } from './calibrationLogic';
+import { evaluateConformity } from './conformity';
+
+// Magnus formula over water (Sonntag 1990), −45 … 60 °C
+const MAGNUS_A = 17.62;
+const MAGNUS_B = 243.12;    // °C
+const MAGNUS_E0 = 6.112;    // hPa
+
+// Typical climatic chamber job: RH steps at laboratory temperature, then the temperature extremes at 50 %RH
+export const DEFAULT_CLIMATE_SET_POINTS: { setTemp: number, setHumidity: number }[] = [
+    { setTemp: 23, setHumidity: 30 },
+    { setTemp: 23, setHumidity: 50 },
+    { setTemp: 23, setHumidity: 75 },
+    { setTemp: 15, setHumidity: 50 },
+    { setTemp: 35, setHumidity: 50 }
+];
+
+export const EMPTY_CHAMBER: ChamberCharacterization = { tempHomogeneity: 0, tempStability: 0, humidityHomogeneity: 0, humidityStability: 0 };
+
+export const createClimatePoint = (setTemp: number, setHumidity: number, readings: number): ClimatePoint => ({
+    setTemp,
+    setHumidity,
+    referenceTemp: new Array(readings).fill(setTemp),
+    referenceHumidity: new Array(readings).fill(setHumidity),
+    instrumentTemp: new Array(readings).fill(setTemp),
+    instrumentHumidity: new Array(readings).fill(setHumidity),
+    chamber: { ...EMPTY_CHAMBER }
+});
+
+// --- Derived quantities ---
+
+// Saturation vapour pressure over water (hPa)
+export const calculateSaturationVaporPressure = (tempC: number): number => MAGNUS_E0 * Math.exp(MAGNUS_A * tempC / (MAGNUS_B + tempC));
+
+export const calculateDewPoint = (tempC: number, humidityRel: number): number => {
+    const gamma = Math.log(humidityRel / 100) + MAGNUS_A * tempC / (MAGNUS_B + tempC);
+    return MAGNUS_B * gamma / (MAGNUS_A - gamma);
+};
+
+// Absolute humidity (g/m³) from the vapour pressure in hPa
+export const calculateAbsoluteHumidity = (tempC: number, humidityRel: number): number => {
+    return 216.7 * (humidityRel / 100) * calculateSaturationVaporPressure(tempC) / (tempC + 273.15);
+};
+
+// Change of RH per °C at constant vapour pressure: a temperature gradient in the chamber is seen as an RH gradient
+const humidityTemperatureSensitivity = (tempC: number, humidityRel: number): number => {
+    return -humidityRel * MAGNUS_A * MAGNUS_B / Math.pow(MAGNUS_B + tempC, 2);
+};
+
+// Expanded uncertainty (k = 2) of f(t, RH) from the standard uncertainties of both inputs (uncorrelated)
+const propagate = (f: (t: number, rh: number) => number, t: number, rh: number, uT: number, uRH: number): number => {
+    const cT = (f(t + 0.01, rh) - f(t - 0.01, rh)) / 0.02;
+    const cRH = (f(t, rh + 0.01) - f(t, rh - 0.01)) / 0.02;
+    return 2 * Math.sqrt(Math.pow(cT * uT, 2) + Math.pow(cRH * uRH, 2));
+};
+
+// --- Evaluation ---
+
+interface ChannelEvaluation {
+    result: ClimateChannelResult;
+    referenceUncertainty: number;   // Standard uncertainty of the condition at the instrument position
+}
+
+// E = x̄_inst − (x̄_ref + δ_hom + δ_stab): the chamber contributions belong to the reference condition
+const evaluateChannel = (
+    quantity: EnvQuantity,
+    tag: string,
+    standard: ReferenceStandard,
+    referenceReadings: number[],
+    instrumentReadings: number[],
+    spec: ClimateChannelSpec,
+    homogeneity: number,
+    stability: number,
+    rule: DecisionRule | undefined,
+    extra: BudgetComponent[] = []
+): ChannelEvaluation => {
+    const corrected = referenceReadings.map(r => correctEnvReading(standard, quantity, r));
+    const reference = meanOf(corrected.map(c => c.value));
+    const indication = meanOf(instrumentReadings);
+    const error = indication - reference;
+
+    const referenceComponents = [
+        normalComponent(`δ${tag},std`, 'Patrón (calibración, modelo y resolución)', Math.max(...corrected.map(c => c.uncertainty)), 1, -1, reference),
+        typeAComponent(`δ${tag},rep,std`, 'Repetibilidad del patrón', corrected.map(c => c.value), -1),
+        rectangularComponent(`δ${tag},hom`, 'Homogeneidad de la cámara', 2 * homogeneity, -1),
+        rectangularComponent(`δ${tag},est`, 'Estabilidad de la cámara', stability, -1),
+        ...extra
+    ].filter((c): c is BudgetComponent => !!c);
+    const instrumentComponents = [
+        typeAComponent(`δ${tag},rep`, 'Repetibilidad del instrumento', instrumentReadings, 1),
+        rectangularComponent(`δ${tag},res`, 'Resolución del instrumento', spec.resolution)
+    ].filter((c): c is BudgetComponent => !!c);
+
+    const budget = combineUncertaintyBudget([...referenceComponents, ...instrumentComponents]);
+    return {
+        result: {
+            reference,
+            indication,
+            error,
+            budget,
+            expandedUncertainty: budget.expandedUncertainty,
+            conformity: evaluateConformity(error, budget.expandedUncertainty, budget.combinedStandardUncertainty, spec.tolerance, rule)
+        },
+        referenceUncertainty: Math.sqrt(referenceComponents.reduce((acc, c) => acc + c.contribution * c.contribution, 0))
+    };
+};
+
+export const evaluateClimatePoint = (
+    point: ClimatePoint,
+    temperatureStandard: ReferenceStandard,
+    humidityStandard: ReferenceStandard,
+    temperatureSpec: ClimateChannelSpec,
+    humiditySpec: ClimateChannelSpec,
+    rule?: DecisionRule
+): ClimatePointResult => {
+    const { chamber } = point;
+    const temp = evaluateChannel('temp', 'T', temperatureStandard, point.referenceTemp, point.instrumentTemp, temperatureSpec, chamber.tempHomogeneity, chamber.tempStability, rule);
+    const t = temp.result.reference;
+    const rhRef = meanOf(point.referenceHumidity);
+    const gradient = rectangularComponent('δHR,T', 'Gradiente de temperatura sobre la HR', 2 * chamber.tempHomogeneity, -humidityTemperatureSensitivity(t, rhRef));
+    const humidity = evaluateChannel('humidity', 'HR', humidityStandard, point.referenceHumidity, point.instrumentHumidity, humiditySpec, chamber.humidityHomogeneity, chamber.humidityStability, rule, [gradient]);
+    const rh = humidity.result.reference;
+
+    const dewPoint = calculateDewPoint(t, rh);
+    const instrumentDewPoint = calculateDewPoint(temp.result.indication, humidity.result.indication);
+    return {
+        setTemp: point.setTemp,
+        setHumidity: point.setHumidity,
+        temperature: temp.result,
+        humidity: humidity.result,
+        dewPoint,
+        dewPointUncertainty: propagate(calculateDewPoint, t, rh, temp.referenceUncertainty, humidity.referenceUncertainty),
+        dewPointError: instrumentDewPoint - dewPoint,
+        dewPointErrorUncertainty: propagate(calculateDewPoint, t, rh, temp.result.budget.combinedStandardUncertainty, humidity.result.budget.combinedStandardUncertainty),
+        absoluteHumidity: calculateAbsoluteHumidity(t, rh),
+        absoluteHumidityUncertainty: propagate(calculateAbsoluteHumidity, t, rh, temp.referenceUncertainty, humidity.referenceUncertainty)
+    };
+};
@@ -0,0 +1,116 @@
+import { ConformityResult, ConformityStatus, DecisionRule, DecisionRuleType, Instrument, ToleranceKind, ToleranceSpec } from '../types';
+import { normalCDF } from './mathUtils';
+
+export const DEFAULT_DECISION_RULE: DecisionRule = { type: 'non_binary_guarded', guardBandFactor: 1 };
+
+export const DECISION_RULE_LABELS: Record<DecisionRuleType, string> = {
+    simple_acceptance: 'Aceptación simple, riesgo compartido (ILAC-G8:2019 §4.2.1, w = 0)',
+    guarded_acceptance: 'Aceptación con banda de guarda, binaria (ILAC-G8:2019 §4.2.2)',
+    non_binary_guarded: 'Declaración no binaria con banda de guarda (ILAC-G8:2019 §4.2.3)'
+};
+
+// Rules whose acceptance limit is T − w with w = factor · U
+export const hasGuardBand = (type: DecisionRuleType): boolean => type !== 'simple_acceptance';
+
+export const CONFORMITY_LABELS: Record<ConformityStatus, string> = {
+    PASS: 'CUMPLE',
+    CONDITIONAL_PASS: 'CUMPLE CONDICIONAL',
+    CONDITIONAL_FAIL: 'NO CUMPLE CONDICIONAL',
+    FAIL: 'NO CUMPLE'
+};
+
+// --- ACCURACY SPECIFICATIONS ---
+
+export const EN837_CLASSES = [0.1, 0.25, 0.6, 1, 1.6, 2.5, 4];
+
+export const TOLERANCE_KIND_LABELS: Record<ToleranceKind, string> = {
+    percent_full_scale: '% del fondo de escala',
+    percent_span: '% del span',
+    percent_reading: '% de la lectura',
+    percent_reading_digits: '% de la lectura + dígitos',
+    en837_class: 'Clase EN 837-1',
+    segments: 'Tabla por tramos'
+};
+
+export const getToleranceSpec = (instrument: Instrument): ToleranceSpec => {
+    return instrument.tolerance || { kind: 'percent_full_scale', percent: instrument.accuracyClass };
+};
+
+// Full scale of ranges below or across zero (vacuum, compound gauges) is the end of largest magnitude
+export const getFullScale = (instrument: Instrument): number => Math.max(Math.abs(instrument.rangeMin), Math.abs(instrument.rangeMax));
+
+// Maximum permissible error (absolute, instrument units) at a given reading
+export const calculateMPE = (instrument: Instrument, reading: number): number => {
+    const spec = getToleranceSpec(instrument);
+    const span = Math.abs(instrument.rangeMax - instrument.rangeMin);
+    switch (spec.kind) {
+        case 'percent_full_scale': return getFullScale(instrument) * spec.percent / 100;
+        case 'percent_span': return span * spec.percent / 100;
+        case 'percent_reading': return Math.abs(reading) * spec.percent / 100;
+        case 'percent_reading_digits': return Math.abs(reading) * spec.percent / 100 + spec.digits * instrument.resolution;
+        case 'en837_class': return span * spec.accuracyClass / 100;
+        case 'segments': {
+            const seg = spec.segments.find(s => reading >= Math.min(s.from, s.to) && reading <= Math.max(s.from, s.to));
+            if (seg) return seg.mpe;
+            // Outside every segment: the closest one applies
+            const sorted = [...spec.segments].sort((a, b) => Math.min(Math.abs(reading - a.from), Math.abs(reading - a.to)) - Math.min(Math.abs(reading - b.from), Math.abs(reading - b.to)));
+            return sorted.length > 0 ? sorted[0].mpe : 0;
+        }
+    }
+};
+
+export const describeTolerance = (instrument: Instrument): string => {
+    const spec = getToleranceSpec(instrument);
+    switch (spec.kind) {
+        case 'percent_full_scale': return `±${spec.percent} % del fondo de escala`;
+        case 'percent_span': return `±${spec.percent} % del span`;
+        case 'percent_reading': return `±${spec.percent} % de la lectura`;
+        case 'percent_reading_digits': return `±(${spec.percent} % de la lectura + ${spec.digits} dígitos)`;
+        case 'en837_class': return `Clase ${spec.accuracyClass} según EN 837-1`;
+        case 'segments': return `Tabla por tramos: ${spec.segments.map(s => `${s.from}…${s.to} ${instrument.unit}: ±${s.mpe}`).join('; ')}`;
+    }
+};
+
+// Specific risk of an accepted point: probability that the true error lies outside ±T given the measured error (normal PDF)
+export const calculateProbabilityFalseAccept = (error: number, tolerance: number, uc: number): number => {
+    if (uc <= 0) return Math.abs(error) > tolerance ? 1 : 0;
+    const inside = normalCDF(tolerance, error, uc) - normalCDF(-tolerance, error, uc);
+    return Math.min(1, Math.max(0, 1 - inside));
+};
+
+// Specific risk of a rejected point: probability that the true error lies within ±T
+export const calculateProbabilityFalseReject = (error: number, tolerance: number, uc: number): number => 1 - calculateProbabilityFalseAccept(error, tolerance, uc);
+
+// Classifies |error| against the tolerance T with the zones of the selected rule (w = factor · U, at most T):
+//  - simple acceptance (shared risk): PASS / FAIL at T, PFA up to 50 % on the limit
+//  - guarded acceptance: binary, PASS up to T − w, FAIL beyond
+//  - non-binary: PASS up to T − w, conditional zones T − w…T…T + w, FAIL beyond T + w
+export const evaluateConformity = (error: number, expandedUncertainty: number, uc: number, tolerance: number, rule: DecisionRule = DEFAULT_DECISION_RULE): ConformityResult => {
+    const e = Math.abs(error);
+    const U = expandedUncertainty;
+    let guardBand = 0;
+    let status: ConformityStatus;
+
+    if (rule.type === 'simple_acceptance') {
+        status = e <= tolerance ? 'PASS' : 'FAIL';
+    } else if (rule.type === 'guarded_acceptance') {
+        guardBand = Math.min(tolerance, rule.guardBandFactor * U);
+        status = e <= tolerance - guardBand ? 'PASS' : 'FAIL';
+    } else {
+        guardBand = Math.min(tolerance, rule.guardBandFactor * U);
+        if (e <= tolerance - guardBand) status = 'PASS';
+        else if (e <= tolerance) status = 'CONDITIONAL_PASS';
+        else if (e <= tolerance + guardBand) status = 'CONDITIONAL_FAIL';
+        else status = 'FAIL';
+    }
+
+    return {
+        status,
+        tolerance,
+        guardBand,
+        acceptanceLimit: tolerance - guardBand,
+        ...(status === 'PASS' || status === 'CONDITIONAL_PASS'
+            ? { probabilityFalseAccept: calculateProbabilityFalseAccept(error, tolerance, uc) }
+            : { probabilityFalseReject: calculateProbabilityFalseReject(error, tolerance, uc) })
+    };
+};
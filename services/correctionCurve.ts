@@ -0,0 +1,76 @@
+import { CalibrationResult, CorrectionCurve, CorrectionCurveModel, CorrectionTableRow, CurveModel, RegressionResult } from '../types';
+import { calculateRegression, evaluateRegression, calculateInterpolationUncertainty } from './mathUtils';
+import { interpolateCalibrationUncertainty } from './calibrationLogic';
+
+// Candidates of the automatic selection (the correction of a pressure gauge is smooth over its range)
+export const CORRECTION_CURVE_MODELS: CurveModel[] = ['linear_pearson', 'polynomial_2nd', 'polynomial_3rd'];
+
+export const CORRECTION_MODEL_LABELS: Record<CorrectionCurveModel, string> = {
+    auto: 'Automático (mínimo AICc)',
+    linear_pearson: 'Lineal (Pearson)',
+    linear_theil_sen: 'Lineal Robusta (Theil-Sen)',
+    linear_wtls: 'Lineal WTLS (errores en x e y)',
+    piecewise_mixed: 'Regresión Doble Flexible',
+    polynomial_2nd: 'Polinomio Grado 2',
+    polynomial_3rd: 'Polinomio Grado 3',
+    power: 'Potencial',
+    exponential: 'Exponencial',
+    logarithmic: 'Logarítmico',
+    callendar_van_dusen: 'Callendar–Van Dusen (IEC 60751)',
+    its90_deviation: 'Función de desviación ITS-90'
+};
+
+const PARAMETER_COUNT: Partial<Record<CurveModel, number>> = { polynomial_2nd: 3, polynomial_3rd: 4 };
+
+// Indication of the instrument at each point: output signal for transmitters, pressure otherwise
+const indicationOf = (r: CalibrationResult): number => r.transmitter ? r.transmitter.meanOutput : r.trueValue + r.meanError;
+
+// Printable table over the calibrated indications; U (k = 2) combines the calibration
+// uncertainty at the indication with the interpolation uncertainty of the curve
+const buildCorrectionTable = (results: CalibrationResult[], model: CurveModel, regression: RegressionResult, step: number): CorrectionTableRow[] => {
+    if (!(step > 0)) return [];
+    const xs = results.map(indicationOf);
+    // Rows on multiples of the step; ends within 1 % of a step (e.g. the zero reading) are rounded onto it
+    const from = Math.ceil((Math.min(...xs) - step * 0.01) / step) * step;
+    const to = Math.floor((Math.max(...xs) + step * 0.01) / step) * step;
+    const count = Math.min(Math.round((to - from) / step), 500);
+    const rows: CorrectionTableRow[] = [];
+    for (let i = 0; i <= count; i++) {
+        const indication = parseFloat((from + i * step).toPrecision(10));
+        const u_cal = interpolateCalibrationUncertainty(indication, results, indicationOf);
+        const u_fit = calculateInterpolationUncertainty(indication, regression, model, 'prediction');
+        rows.push({
+            indication,
+            correction: evaluateRegression(indication, model, regression),
+            uncertainty: 2 * Math.sqrt(u_cal * u_cal + u_fit * u_fit)
+        });
+    }
+    return rows;
+};
+
+// Correction C = −E as a function of the indication. 'auto' keeps the valid candidate of minimum AICc
+// that leaves at least two residual degrees of freedom.
+export const fitCorrectionCurve = (results: CalibrationResult[], model: CorrectionCurveModel, step: number, significanceLevel?: number): CorrectionCurve | undefined => {
+    if (results.length < 3) return undefined;
+    // Ascending indications (vacuum ranges are measured from zero downwards; split models need sorted x)
+    const sorted = [...results].sort((a, b) => indicationOf(a) - indicationOf(b));
+    const x = sorted.map(indicationOf);
+    const y = sorted.map(r => -r.meanError);
+
+    const candidates = model === 'auto'
+        ? CORRECTION_CURVE_MODELS.filter(m => results.length - (PARAMETER_COUNT[m] || 2) >= 2)
+        : [model];
+    const fits = candidates.map(m => ({ model: m, regression: calculateRegression(x, y, m, false, undefined, true, significanceLevel) }))
+        .filter(f => f.regression.n >= 3);
+    if (fits.length === 0) return undefined;
+    const valid = fits.filter(f => f.regression.modelQuality !== 'INVALID');
+    const best = (valid.length > 0 ? valid : fits).reduce((a, b) => b.regression.aicc < a.regression.aicc ? b : a);
+
+    return {
+        model: best.model,
+        selection: model,
+        regression: best.regression,
+        step,
+        table: buildCorrectionTable(results, best.model, best.regression, step)
+    };
+};
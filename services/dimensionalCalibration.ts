@@ -0,0 +1,123 @@
+import { BudgetComponent, DecisionRule, DimensionalKind, DimensionalPoint, DimensionalPointResult, FaceCheck, ReferenceStandard } from '../types';
+import { combineUncertaintyBudget, meanOf } from './mathUtils';
+import { rectangularComponent, normalComponent } from './calibrationLogic';
+import { evaluateConformity } from './conformity';
+
+export const DIMENSIONAL_KIND_LABELS: Record<DimensionalKind, string> = {
+    caliper: 'Calibrador pie de rey',
+    micrometer: 'Micrómetro de exteriores',
+    dial_indicator: 'Indicador de carátula'
+};
+
+// Micrometers follow the ISO 3611 series, which tests different angular positions of the spindle
+export const DEFAULT_DIMENSIONAL_POINTS: Record<DimensionalKind, number[]> = {
+    caliper: [10, 25, 50, 100, 150],
+    micrometer: [2.5, 5.1, 7.7, 10.3, 12.9, 15, 17.6, 20.2, 22.8, 25],
+    dial_indicator: [1, 1.5, 2, 3, 5, 10]
+};
+
+export const DEFAULT_FACE_CHECKS: Record<DimensionalKind, FaceCheck[]> = {
+    caliper: [
+        { label: 'Planitud de las caras de exteriores', measured: 0, limit: 10 },
+        { label: 'Paralelismo de las caras de exteriores', measured: 0, limit: 20 }
+    ],
+    micrometer: [
+        { label: 'Planitud del tope fijo', measured: 0, limit: 0.6 },
+        { label: 'Planitud del husillo', measured: 0, limit: 0.6 },
+        { label: 'Paralelismo de las caras', measured: 0, limit: 2 }
+    ],
+    dial_indicator: []
+};
+
+export const DEFAULT_STEEL_EXPANSION = 11.5e-6;
+
+// The block and instrument temperatures refer the length to 20 °C (ISO 1)
+export const REFERENCE_TEMPERATURE = 20;
+
+export const isFaceCheckPassed = (check: FaceCheck): boolean => check.measured <= check.limit;
+
+// Length of the wrung stack at 20 °C (mm); wringing films are neglected
+export const calculateStackLength = (blocks: ReferenceStandard[]): number => {
+    return blocks.reduce((acc, b) => acc + (b.gaugeBlock ? b.gaugeBlock.nominalLength + b.gaugeBlock.deviation / 1000 : 0), 0);
+};
+
+// Greedy choice of blocks (largest first) adding up to the nominal length, each block used once
+export const suggestGaugeBlockStack = (blocks: ReferenceStandard[], nominal: number): string[] => {
+    const selected: string[] = [];
+    let remaining = nominal;
+    [...blocks].filter(b => b.gaugeBlock).sort((a, b) => b.gaugeBlock!.nominalLength - a.gaugeBlock!.nominalLength).forEach(b => {
+        const length = b.gaugeBlock!.nominalLength;
+        if (length <= remaining + 1e-9) {
+            selected.push(b.id);
+            remaining -= length;
+        }
+    });
+    return Math.abs(remaining) < 1e-6 ? selected : [];
+};
+
+// Readings are prefilled with the expected value: the displacement from the zero stack for dial indicators
+export const createDimensionalPoint = (blocks: ReferenceStandard[], nominal: number, readings: number, temperature: number, zero: number = 0): DimensionalPoint => ({
+    nominal,
+    blockIds: suggestGaugeBlockStack(blocks, nominal),
+    readings: new Array(readings).fill(parseFloat((nominal - zero).toPrecision(10))),
+    blockTemp: temperature,
+    instrumentTemp: temperature
+});
+
+// E = x̄ + L·(α_i·Δt_i − α_s·Δt_s) − L_20. The stack uncertainties are added linearly (blocks calibrated
+// against the same reference are correlated) and the α and temperature terms follow EA-4/02 S4.
+export const evaluateDimensionalPoints = (
+    points: DimensionalPoint[],
+    blocks: ReferenceStandard[],
+    kind: DimensionalKind,
+    resolution: number,
+    expansionCoefficient: number,
+    expansionUncertainty: number,
+    temperatureDifference: number,
+    faceChecks: FaceCheck[],
+    tolerance?: number,
+    rule?: DecisionRule
+): DimensionalPointResult[] => {
+    const stacks = points.map(p => blocks.filter(b => p.blockIds.includes(b.id) && b.gaugeBlock));
+    const lengths = stacks.map(calculateStackLength);
+    // Dial indicators read the displacement from the zero set on the first stack
+    const zero = kind === 'dial_indicator' && points.length > 0 ? lengths[0] : 0;
+    const faceWidth = Math.max(0, ...faceChecks.map(f => f.measured)) / 1000;
+
+    return points.map((p, i) => {
+        const stack = stacks[i];
+        const reference = lengths[i] - zero;
+        const indication = meanOf(p.readings);
+        const alphaS = stack.length > 0 ? stack.reduce((acc, b) => acc + b.gaugeBlock!.expansionCoefficient * b.gaugeBlock!.nominalLength, 0) / Math.max(lengths[i], 1e-12) : DEFAULT_STEEL_EXPANSION;
+        const dtS = p.blockTemp - REFERENCE_TEMPERATURE;
+        const dtI = p.instrumentTemp - REFERENCE_TEMPERATURE;
+        const thermalCorrection = reference * (expansionCoefficient * dtI - alphaS * dtS);
+        const error = indication + thermalCorrection - reference;
+
+        const n = p.readings.length;
+        const s = n > 1 ? Math.sqrt(p.readings.reduce((a, b) => a + Math.pow(b - indication, 2), 0) / (n - 1)) : 0;
+        const components = [
+            normalComponent('δL,s', 'Bloques patrón (certificado)', stack.reduce((acc, b) => acc + b.gaugeBlock!.uncertainty, 0) / 1000, 2, -1, reference),
+            rectangularComponent('δL,v', 'Variación de longitud de los bloques', stack.reduce((acc, b) => acc + b.gaugeBlock!.variation, 0) / 1000, -1),
+            rectangularComponent('δt', 'Diferencia de temperatura bloque − instrumento', 2 * temperatureDifference, reference * alphaS),
+            rectangularComponent('δα', 'Coeficientes de dilatación', 2 * expansionUncertainty, reference * Math.abs(dtS)),
+            n > 1 ? normalComponent('δx,rep', 'Repetibilidad de las lecturas', s / Math.sqrt(n), 1, 1, indication, n - 1, 'A') : undefined,
+            rectangularComponent('δx,res', 'Resolución del instrumento', resolution, 1),
+            faceWidth > 0 ? rectangularComponent('δx,car', 'Planitud y paralelismo de las caras', faceWidth, 1) : undefined
+        ].filter((comp): comp is BudgetComponent => !!comp);
+        const budget = combineUncertaintyBudget(components);
+
+        return {
+            nominal: p.nominal,
+            reference,
+            indication,
+            thermalCorrection,
+            error,
+            budget,
+            expandedUncertainty: budget.expandedUncertainty,
+            conformity: tolerance
+                ? evaluateConformity(error, budget.expandedUncertainty, budget.combinedStandardUncertainty, tolerance, rule)
+                : undefined
+        };
+    });
+};
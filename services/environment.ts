@@ -0,0 +1,126 @@
+import { EnvConditions, EnvLimits, EnvReading, EnvStage, EnvViolation, ReferenceStandard, Unit } from '../types';
+import { evaluateRegression, calculateInterpolationUncertainty, fitStandardModels, calculateAirDensityCIPM } from './mathUtils';
+import { convertValue } from './units';
+
+export type EnvQuantity = keyof EnvReading;
+
+// Units in which the environmental readings are recorded on the session
+export const ENV_READING_UNITS: Record<EnvQuantity, Unit> = {
+    temp: Unit.Celcius,
+    humidity: Unit.PercentRH,
+    pressure: Unit.HPa
+};
+
+export const ENV_STAGE_LABELS: Record<EnvStage, string> = {
+    start: 'Inicio',
+    middle: '50%',
+    end: 'Final'
+};
+
+// Typical laboratory conditions for pressure calibration (DKD-R 6-1: stable temperature within ±1 K)
+export const DEFAULT_ENV_LIMITS: EnvLimits = {
+    tempMin: 18,
+    tempMax: 28,
+    maxTempDrift: 1,
+    humidityMin: 30,
+    humidityMax: 75,
+    blockOnViolation: false
+};
+
+// Relative standard uncertainty of the CIPM-2007 air density equation itself
+const CIPM_FORMULA_RELATIVE_UNCERTAINTY = 22e-6;
+
+export const isStandardExpired = (standard: ReferenceStandard, date: Date = new Date()): boolean => {
+    return !!standard.expiryDate && new Date(standard.expiryDate).getTime() < date.getTime();
+};
+
+// Corrected value and standard uncertainty of one raw reading through the curves of its standard
+export const correctEnvReading = (standard: ReferenceStandard | undefined, quantity: EnvQuantity, raw: number): { value: number, uncertainty: number } => {
+    if (!standard) return { value: raw, uncertainty: 0 };
+    if ((!standard.valueRegression || !standard.uncertaintyRegression) && standard.calibrationPoints.length >= 3) {
+        const fitted = fitStandardModels(standard.calibrationPoints, standard.valueModelType, standard.uncertaintyModelType, standard.valueSubModels, standard.uncertaintySubModels, undefined, standard.valueFitMethod, standard.pointCorrelations, standard.resolution);
+        standard.valueRegression = fitted.valueReg;
+        standard.uncertaintyRegression = fitted.uncReg;
+    }
+
+    const unit = ENV_READING_UNITS[quantity];
+    const toStd = convertValue(1, unit, standard.unit, `condición ambiental → ${standard.name}`);
+    const x = raw * toStd;
+    const u_res = standard.resolution / Math.sqrt(12);
+    if (!standard.valueRegression || !standard.uncertaintyRegression) return { value: raw, uncertainty: u_res / toStd };
+
+    const y = evaluateRegression(x, standard.valueModelType, standard.valueRegression);
+    const u_cal = evaluateRegression(y, standard.uncertaintyModelType, standard.uncertaintyRegression);
+    const u_mod = calculateInterpolationUncertainty(x, standard.valueRegression, standard.valueModelType, 'prediction');
+    return { value: y / toStd, uncertainty: Math.sqrt(u_cal * u_cal + u_mod * u_mod + u_res * u_res) / toStd };
+};
+
+// Corrected conditions at start / 50 % / end, their mean with U (k = 2) and the resulting air density.
+// U of the mean combines the (fully correlated) standard uncertainty with the variation during the run.
+export const evaluateEnvConditions = (
+    readings: Record<EnvStage, EnvReading>,
+    standards: Partial<Record<EnvQuantity, ReferenceStandard>>,
+    ppmCO2: number = 400
+): EnvConditions => {
+    const stages: EnvStage[] = ['start', 'middle', 'end'];
+    const quantities: EnvQuantity[] = ['temp', 'humidity', 'pressure'];
+    const corrected = { start: { ...readings.start }, middle: { ...readings.middle }, end: { ...readings.end } };
+    const mean: EnvReading = { temp: 0, humidity: 0, pressure: 0 };
+    const standardU: EnvReading = { temp: 0, humidity: 0, pressure: 0 };
+    const expandedU: EnvReading = { temp: 0, humidity: 0, pressure: 0 };
+
+    quantities.forEach(q => {
+        const values = stages.map(s => {
+            const c = correctEnvReading(standards[q], q, readings[s][q]);
+            corrected[s][q] = c.value;
+            standardU[q] = Math.max(standardU[q], c.uncertainty);
+            return c.value;
+        });
+        mean[q] = values.reduce((a, b) => a + b, 0) / values.length;
+        const span = Math.max(...values) - Math.min(...values);
+        standardU[q] = Math.sqrt(standardU[q] * standardU[q] + span * span / 12);
+        expandedU[q] = 2 * standardU[q];
+    });
+
+    const airDensity = calculateAirDensityCIPM(mean.temp, mean.pressure, mean.humidity, ppmCO2);
+    const partial = (dT: number, dp: number, dh: number) => calculateAirDensityCIPM(mean.temp + dT, mean.pressure + dp, mean.humidity + dh, ppmCO2);
+    const cT = (partial(0.01, 0, 0) - partial(-0.01, 0, 0)) / 0.02;
+    const cP = (partial(0, 0.01, 0) - partial(0, -0.01, 0)) / 0.02;
+    const cH = (partial(0, 0, 0.01) - partial(0, 0, -0.01)) / 0.02;
+    const airDensityUncertainty = Math.sqrt(
+        Math.pow(cT * standardU.temp, 2) + Math.pow(cP * standardU.pressure, 2) + Math.pow(cH * standardU.humidity, 2) +
+        Math.pow(CIPM_FORMULA_RELATIVE_UNCERTAINTY * airDensity, 2)
+    );
+
+    return { readings: corrected, mean, uncertainty: expandedU, airDensity, airDensityUncertainty };
+};
+
+// --- LIMITS ---
+
+// Checks the (corrected) readings of the stages already entered against the laboratory limits
+export const checkEnvLimits = (readings: Record<EnvStage, EnvReading>, limits: EnvLimits, stages: EnvStage[]): EnvViolation[] => {
+    const violations: EnvViolation[] = [];
+    stages.forEach(stage => {
+        const r = readings[stage];
+        if (r.temp < limits.tempMin || r.temp > limits.tempMax) {
+            violations.push({ kind: 'temperature', stage, value: r.temp, limitMin: limits.tempMin, limitMax: limits.tempMax });
+        }
+        if (r.humidity < limits.humidityMin || r.humidity > limits.humidityMax) {
+            violations.push({ kind: 'humidity', stage, value: r.humidity, limitMin: limits.humidityMin, limitMax: limits.humidityMax });
+        }
+    });
+    if (stages.length > 1) {
+        const temps = stages.map(s => readings[s].temp);
+        const drift = Math.max(...temps) - Math.min(...temps);
+        if (drift > limits.maxTempDrift) violations.push({ kind: 'temperature_drift', value: drift, limitMax: limits.maxTempDrift });
+    }
+    return violations;
+};
+
+export const describeEnvViolation = (v: EnvViolation): string => {
+    switch (v.kind) {
+        case 'temperature': return `Temperatura (${ENV_STAGE_LABELS[v.stage!]}): ${v.value.toFixed(2)} °C fuera de ${v.limitMin} … ${v.limitMax} °C`;
+        case 'humidity': return `Humedad (${ENV_STAGE_LABELS[v.stage!]}): ${v.value.toFixed(1)} %HR fuera de ${v.limitMin} … ${v.limitMax} %HR`;
+        case 'temperature_drift': return `Deriva de temperatura: ${v.value.toFixed(2)} °C > ${v.limitMax} °C`;
+    }
+};
@@ -1,5 +1,5 @@
 
-import { IntermediateCheck, RegressionResult, AnovaResult, CurveModel, StandardCalibrationPoint, ValidationStepResult, RegressionValidation } from '../types';
+import { IntermediateCheck, RegressionResult, AnovaResult, CurveModel, StandardCalibrationPoint, ValidationStepResult, RegressionValidation, ProbabilityDistribution, FitMethod, RegressionWeighting, PointCorrelation, PredictionBand, BudgetComponent, UncertaintyBudget, OutlierTestResult, CenteredBasis } from '../types';
 
 export const GRAVITY_BOGOTA = 9.7739; 
 
@@ -44,28 +44,414 @@ export const calculateCumulativeStats = (checks: IntermediateCheck[], nominal: n
     return { mean, stdDev: Math.sqrt(variance), n, allReadings };
 };
 
+// --- PROBABILITY DISTRIBUTIONS ---
+
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+
+// ln Γ(x), Lanczos approximation (g = 7, n = 9) with the reflection formula below 1/2
+const LANCZOS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+export const logGamma = (x: number): number => {
+    if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+    const z = x - 1;
+    let a = LANCZOS[0];
+    for (let i = 1; i < LANCZOS.length; i++) a += LANCZOS[i] / (z + i);
+    const t = z + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+const TINY = 1e-300;
+const EPS = 1e-15;
+
+// Regularized incomplete gamma as the pair P(a, x), Q(a, x) = 1 − P, so upper tails keep their precision:
+// series for x < a + 1, modified Lentz continued fraction otherwise (Numerical Recipes 6.2)
+const regularizedGamma = (a: number, x: number): { p: number, q: number } => {
+    if (x <= 0) return { p: 0, q: 1 };
+    if (!isFinite(x)) return { p: 1, q: 0 };
+    const prefix = Math.exp(a * Math.log(x) - x - logGamma(a));
+    if (x < a + 1) {
+        let term = 1 / a, sum = term;
+        for (let n = 1; n < 1000; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * EPS) break;
+        }
+        const p = Math.min(1, sum * prefix);
+        return { p, q: 1 - p };
+    }
+    let b = x + 1 - a, c = 1 / TINY, d = 1 / b, h = d;
+    for (let i = 1; i < 1000; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b; if (Math.abs(d) < TINY) d = TINY;
+        c = b + an / c; if (Math.abs(c) < TINY) c = TINY;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < EPS) break;
+    }
+    const q = Math.min(1, prefix * h);
+    return { p: 1 - q, q };
+};
+
+export const incompleteGamma = (a: number, x: number): number => regularizedGamma(a, x).p;
+
+// Regularized incomplete beta I_x(a, b); the continued fraction is evaluated on the side where it converges
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    if (x > (a + 1) / (a + b + 2)) return 1 - incompleteBeta(1 - x, b, a);
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    let c = 1, d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < TINY) d = TINY;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m < 1000; m++) {
+        const m2 = 2 * m;
+        let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+        c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+        d = 1 / d;
+        h *= d * c;
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+        c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < EPS) break;
+    }
+    return front * h / a;
+};
+
+// Quantile of a continuous CDF increasing on [lo, ∞): the bracket is widened, then bisected to full precision
+const invertCDF = (cdf: (x: number) => number, p: number, lo: number = 0): number => {
+    if (!(p > 0 && p < 1)) return p <= 0 ? lo : Infinity;
+    let hi = lo + 1;
+    while (cdf(hi) < p && hi < 1e300) hi = lo + (hi - lo) * 2;
+    for (let i = 0; i < 200; i++) {
+        const mid = (lo + hi) / 2;
+        if (mid === lo || mid === hi) break;
+        if (cdf(mid) < p) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+};
+
+export const erf = (x: number): number => (x < 0 ? -1 : 1) * incompleteGamma(0.5, x * x);
+
+export function normalCDF(x: number, mean: number = 0, std: number = 1): number {
+    const z = (x - mean) / (std * Math.SQRT2);
+    // The complement keeps the precision of the lower tail
+    return z < 0 ? 0.5 * regularizedGamma(0.5, z * z).q : 0.5 * (1 + erf(z));
+}
+
+// Standard normal quantile: Acklam's rational approximation refined by one Halley step on the exact CDF
+export const normalQuantile = (p: number): number => {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+    const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+    const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+    const pLow = 0.02425;
+    let x: number;
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    } else if (p <= 1 - pLow) {
+        const q = p - 0.5, r = q * q;
+        x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+    } else {
+        const q = Math.sqrt(-2 * Math.log(1 - p));
+        x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    const e = normalCDF(x) - p;
+    const u = e * Math.sqrt(2 * Math.PI) * Math.exp(x * x / 2);
+    return x - u / (1 + x * u / 2);
+};
+
+// Student t with ν degrees of freedom (ν may be non-integer; ν = ∞ is the normal distribution)
+export const studentTCDF = (t: number, df: number): number => {
+    if (!isFinite(df)) return normalCDF(t);
+    const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+    return t >= 0 ? 1 - tail : tail;
+};
+
+// P(|T| ≥ |t|), computed directly so that small p-values are not lost to cancellation
+export const studentTTwoSidedPValue = (t: number, df: number): number => {
+    if (!isFinite(df)) return 2 * normalCDF(-Math.abs(t));
+    return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+export const studentTQuantile = (p: number, df: number): number => {
+    if (!isFinite(df)) return normalQuantile(p);
+    if (!(df > 0)) return NaN;
+    if (p < 0.5) return -studentTQuantile(1 - p, df);
+    return invertCDF(t => studentTCDF(t, df), p);
+};
+
+// Fisher F with (d1, d2) degrees of freedom
+export const fisherFCDF = (f: number, d1: number, d2: number): number => {
+    if (f <= 0) return 0;
+    return incompleteBeta(d1 * f / (d1 * f + d2), d1 / 2, d2 / 2);
+};
+
+// P(F ≥ f) from the complementary beta, precise in the upper tail
+export const fisherFPValue = (f: number, d1: number, d2: number): number => {
+    if (f <= 0) return 1;
+    if (!isFinite(f)) return 0;
+    return incompleteBeta(d2 / (d2 + d1 * f), d2 / 2, d1 / 2);
+};
+
+export const fisherFQuantile = (p: number, d1: number, d2: number): number => {
+    if (!(d1 > 0 && d2 > 0)) return NaN;
+    return invertCDF(f => fisherFCDF(f, d1, d2), p);
+};
+
+// χ² with k degrees of freedom
+export const chiSquareCDF = (x: number, k: number): number => incompleteGamma(k / 2, x / 2);
+
+export const chiSquarePValue = (x: number, k: number): number => regularizedGamma(k / 2, x / 2).q;
+
+export const chiSquareQuantile = (p: number, k: number): number => {
+    if (!(k > 0)) return NaN;
+    return invertCDF(x => chiSquareCDF(x, k), p);
+};
+
+// --- UNCERTAINTY HELPERS ---
+
+// Divisor turning a half-width (or expanded U for Normal) into a standard uncertainty
+export const getDistributionDivisor = (distribution: ProbabilityDistribution, coverageFactor: number = 2): number => {
+    switch (distribution) {
+        case 'Rectangular': return Math.sqrt(3);
+        case 'Triangular': return Math.sqrt(6);
+        case 'U-Shaped': return Math.SQRT2;
+        default: return coverageFactor;
+    }
+};
+
+// Two-sided coverage probability of k = 2 for a normal distribution (95.45 %)
+const COVERAGE_PROBABILITY = normalCDF(2);
+
+// t-Student factor for p = 95.45 % (GUM G.3); non-integer ν is truncated (GUM G.6.4) and ν = ∞ gives k = 2
+export const getCoverageFactor = (dof: number): number => {
+    if (!isFinite(dof)) return 2;
+    return studentTQuantile(COVERAGE_PROBABILITY, Math.max(1, Math.floor(dof)));
+};
+
+// Combines a GUM budget: u_c by RSS, ν_eff by Welch-Satterthwaite and k from the t-distribution
+export const combineUncertaintyBudget = (components: BudgetComponent[]): UncertaintyBudget => {
+    const uc = Math.sqrt(components.reduce((acc, c) => acc + Math.pow(c.contribution, 2), 0));
+    const wsDenominator = components.reduce((acc, c) => {
+        if (!isFinite(c.degreesOfFreedom) || c.degreesOfFreedom <= 0 || c.contribution === 0) return acc;
+        return acc + Math.pow(c.contribution, 4) / c.degreesOfFreedom;
+    }, 0);
+    const effectiveDegreesOfFreedom = wsDenominator > 0 ? Math.pow(uc, 4) / wsDenominator : Infinity;
+    const coverageFactor = getCoverageFactor(effectiveDegreesOfFreedom);
+    return {
+        components,
+        combinedStandardUncertainty: uc,
+        effectiveDegreesOfFreedom,
+        coverageFactor,
+        coverageProbability: 95.45,
+        expandedUncertainty: uc * coverageFactor
+    };
+};
+
 // --- STATISTICAL HELPERS ---
 
-const solveLinearSystem = (A: number[][], B: number[]): number[] => {
-  const n = B.length;
+export const meanOf = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Coefficients of a least-squares problem with its diagnostics. covariance is (XᵀV⁻¹X)⁻¹, not scaled by
+// the residual variance; chiSquare is rᵀV⁻¹r (the plain residual sum of squares without V).
+interface LeastSquaresFit {
+  coeffs: number[];
+  covariance: number[][];
+  chiSquare: number;
+  conditionNumber: number;      // κ of the (centered, scaled) design matrix actually solved
+  rankDeficient: boolean;
+}
+
+// κ at or above this is treated as rank deficient
+const MAX_CONDITION_NUMBER = 1e12;
+
+// Singular values by one-sided Jacobi rotations (columns become mutually orthogonal)
+const singularValues = (A: number[][]): number[] => {
+  const U = A.map(r => [...r]);
+  const n = U[0].length;
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let rotated = false;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        let alpha = 0, beta = 0, gamma = 0;
+        U.forEach(r => { alpha += r[p] * r[p]; beta += r[q] * r[q]; gamma += r[p] * r[q]; });
+        if (Math.abs(gamma) <= 1e-15 * Math.sqrt(alpha * beta)) continue;
+        rotated = true;
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const sn = c * t;
+        U.forEach(r => { const up = r[p], uq = r[q]; r[p] = c * up - sn * uq; r[q] = sn * up + c * uq; });
+      }
+    }
+    if (!rotated) break;
+  }
+  return Array.from({ length: n }, (_, j) => Math.sqrt(U.reduce((acc, r) => acc + r[j] * r[j], 0)));
+};
+
+const conditionNumber = (A: number[][]): number => {
+  const sv = singularValues(A);
+  const min = Math.min(...sv);
+  return min > 0 ? Math.max(...sv) / min : Infinity;
+};
+
+// Least squares by Householder QR with the columns equilibrated to unit norm: the normal equations
+// (and their squared condition number) are never formed
+const solveLeastSquaresQR = (rows: number[][], y: number[]): LeastSquaresFit => {
+  const m = rows.length, n = rows[0].length;
+  const norms = Array.from({ length: n }, (_, j) => Math.sqrt(rows.reduce((acc, r) => acc + r[j] * r[j], 0)) || 1);
+  const R = rows.map(r => r.map((v, j) => v / norms[j]));
+  const qty = [...y];
+  for (let k = 0; k < n; k++) {
+    let norm = 0;
+    for (let i = k; i < m; i++) norm += R[i][k] * R[i][k];
+    norm = Math.sqrt(norm);
+    if (norm === 0) continue;
+    const alpha = R[k][k] > 0 ? -norm : norm;
+    const v = R.map((r, i) => i < k ? 0 : r[k]);
+    v[k] -= alpha;
+    const vv = v.reduce((acc, vi) => acc + vi * vi, 0);
+    if (vv === 0) continue;
+    const reflect = (col: (i: number) => number, set: (i: number, val: number) => void) => {
+      let dot = 0;
+      for (let i = k; i < m; i++) dot += v[i] * col(i);
+      const f = 2 * dot / vv;
+      for (let i = k; i < m; i++) set(i, col(i) - f * v[i]);
+    };
+    for (let j = k; j < n; j++) reflect(i => R[i][j], (i, val) => { R[i][j] = val; });
+    reflect(i => qty[i], (i, val) => { qty[i] = val; });
+  }
+
+  const Rn = R.slice(0, n).map((r, i) => r.map((v, j) => j < i ? 0 : v));
+  const kappa = conditionNumber(Rn);
+  // R⁻¹ by back substitution on the identity; (XᵀX)⁻¹ = R⁻¹R⁻ᵀ
+  const Rinv = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let col = 0; col < n; col++) {
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = i === col ? 1 : 0;
+      for (let j = i + 1; j < n; j++) sum -= Rn[i][j] * Rinv[j][col];
+      Rinv[i][col] = sum / Rn[i][i];
+    }
+  }
+  const scaled = Rinv.map(r => r.reduce((acc, v, j) => acc + v * qty[j], 0));
+  const covariance = Rinv.map((ri, i) => Rinv.map((rj, j) => ri.reduce((acc, v, k) => acc + v * rj[k], 0) / (norms[i] * norms[j])));
+  return {
+    coeffs: scaled.map((c, j) => c / norms[j]),
+    covariance,
+    chiSquare: qty.slice(n).reduce((acc, v) => acc + v * v, 0),
+    conditionNumber: kappa,
+    rankDeficient: !(kappa < MAX_CONDITION_NUMBER)
+  };
+};
+
+// Lower triangular L with V = L·Lᵀ; undefined when V is not positive definite
+const choleskyDecomposition = (V: number[][]): number[][] | undefined => {
+  const n = V.length;
+  const L = Array.from({ length: n }, () => new Array(n).fill(0));
   for (let i = 0; i < n; i++) {
-    let maxEl = Math.abs(A[i][i]), maxRow = i;
-    for (let k = i + 1; k < n; k++) if (Math.abs(A[k][i]) > maxEl) { maxEl = Math.abs(A[k][i]); maxRow = k; }
-    for (let k = i; k < n; k++) { const tmp = A[maxRow][k]; A[maxRow][k] = A[i][k]; A[i][k] = tmp; }
-    const tmp = B[maxRow]; B[maxRow] = B[i]; B[i] = tmp;
-    for (let k = i + 1; k < n; k++) {
-      const c = -A[k][i] / A[i][i];
-      for (let j = i; j < n; j++) i === j ? A[k][j] = 0 : A[k][j] += c * A[i][j];
-      B[k] += c * B[i];
+    for (let j = 0; j <= i; j++) {
+      let sum = V[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (!(sum > 0)) return undefined;
+        L[i][i] = Math.sqrt(sum);
+      } else L[i][j] = sum / L[j][j];
     }
   }
-  const x = new Array(n).fill(0);
-  for (let i = n - 1; i > -1; i--) {
-    let sum = 0;
-    for (let j = i + 1; j < n; j++) sum += A[i][j] * x[j];
-    x[i] = (B[i] - sum) / A[i][i];
+  return L;
+};
+
+// Solves L·z = b by forward substitution
+const forwardSubstitution = (L: number[][], b: number[]): number[] => {
+  const z = new Array(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * z[k];
+    z[i] = sum / L[i][i];
+  }
+  return z;
+};
+
+const binomial = (k: number, j: number): number => {
+  let c = 1;
+  for (let i = 1; i <= j; i++) c = c * (k - j + i) / i;
+  return c;
+};
+
+// Polynomial c0 + c1·x + … + c_order·x^order fitted on z = (x − x̄)/s, s = max|x − x̄|, and mapped back
+// to powers of x for reporting (c = T·b, C = T·C_z·Tᵀ); the fit in z is kept as the basis to evaluate
+// and propagate, since the powers of x lose the conditioning. With the covariance V of y this is generalized least squares
+// (ISO/TS 28037): rows and y are whitened with the Cholesky factor of V, so b = (XᵀV⁻¹X)⁻¹XᵀV⁻¹y.
+// Undefined when V is not positive definite.
+const fitPolynomialBasis = (x: number[], y: number[], order: number, V?: number[][]): (LeastSquaresFit & { rawConditionNumber: number, basis: CenteredBasis }) | undefined => {
+  const mean = x.reduce((a, b) => a + b, 0) / x.length;
+  const scale = Math.max(...x.map(xi => Math.abs(xi - mean))) || 1;
+  const powers = (v: number) => Array.from({ length: order + 1 }, (_, p) => Math.pow(v, p));
+  let rows = x.map(xi => powers((xi - mean) / scale));
+  let yw = y;
+  if (V) {
+    const L = choleskyDecomposition(V);
+    if (!L) return undefined;
+    const columns = rows[0].map((_, j) => forwardSubstitution(L, rows.map(r => r[j])));
+    rows = rows.map((_, i) => columns.map(col => col[i]));
+    yw = forwardSubstitution(L, y);
   }
-  return x;
+  const fit = solveLeastSquaresQR(rows, yw);
+  const rawConditionNumber = conditionNumber(x.map(powers));
+
+  // z^k = Σ_j C(k, j)·(−x̄)^(k−j)·x^j / s^k
+  const T = Array.from({ length: order + 1 }, (_, j) => Array.from({ length: order + 1 }, (_, k) => k < j ? 0 : binomial(k, j) * Math.pow(-mean, k - j) / Math.pow(scale, k)));
+  const coeffs = T.map(r => r.reduce((acc, t, k) => acc + t * fit.coeffs[k], 0));
+  const TC = T.map(r => fit.covariance[0].map((_, j) => r.reduce((acc, t, k) => acc + t * fit.covariance[k][j], 0)));
+  const covariance = TC.map(r => T.map(t => r.reduce((acc, v, k) => acc + v * t[k], 0)));
+  return { ...fit, coeffs, covariance, rawConditionNumber, basis: { centre: mean, scale, coefficients: fit.coeffs, covariance: fit.covariance } };
+};
+
+// Weighted total least squares for a straight line with uncorrelated errors in x and y (ISO/TS 28037 §7).
+// York's iteration on the slope with effective weights 1/(u²(y) + b²u²(x)); u(x) = 0 everywhere reduces to WLS.
+const fitWeightedTotalLeastSquares = (x: number[], y: number[], ux: number[], uy: number[]): { coeffs: number[], covariance: number[][], chiSquare: number } => {
+  const state = (b: number) => {
+    const W = x.map((_, i) => 1 / (uy[i] * uy[i] + b * b * ux[i] * ux[i]));
+    const sumW = W.reduce((a, c) => a + c, 0);
+    const xBar = W.reduce((acc, w, i) => acc + w * x[i], 0) / sumW;
+    const yBar = W.reduce((acc, w, i) => acc + w * y[i], 0) / sumW;
+    const beta = W.map((w, i) => w * ((x[i] - xBar) * uy[i] * uy[i] + b * (y[i] - yBar) * ux[i] * ux[i]));
+    return { W, sumW, xBar, yBar, beta };
+  };
+
+  let b = fitPolynomialBasis(x, y, 1, uy.map((u, i) => uy.map((_, j) => i === j ? u * u : 0)))!.coeffs[1];
+  for (let iter = 0; iter < 100; iter++) {
+    const { W, xBar, yBar, beta } = state(b);
+    const num = W.reduce((acc, w, i) => acc + w * beta[i] * (y[i] - yBar), 0);
+    const den = W.reduce((acc, w, i) => acc + w * beta[i] * (x[i] - xBar), 0);
+    const next = num / den;
+    const converged = Math.abs(next - b) <= 1e-13 * Math.max(Math.abs(b), 1e-300);
+    b = next;
+    if (converged) break;
+  }
+
+  // Variances from the adjusted abscissae x* = x̄ + β
+  const { W, sumW, xBar, yBar, beta } = state(b);
+  const a = yBar - b * xBar;
+  const xStar = beta.map(bi => xBar + bi);
+  const xStarBar = W.reduce((acc, w, i) => acc + w * xStar[i], 0) / sumW;
+  const varB = 1 / W.reduce((acc, w, i) => acc + w * Math.pow(xStar[i] - xStarBar, 2), 0);
+  const covariance = [[1 / sumW + xStarBar * xStarBar * varB, -xStarBar * varB], [-xStarBar * varB, varB]];
+  const chiSquare = W.reduce((acc, w, i) => acc + w * Math.pow(y[i] - a - b * x[i], 2), 0);
+  return { coeffs: [a, b], covariance, chiSquare };
 };
 
 const calculateDurbinWatson = (residuals: number[]): number => {
@@ -76,21 +462,6 @@ const calculateDurbinWatson = (residuals: number[]): number => {
   return den === 0 ? 0 : num / den;
 };
 
-const getTStudentCrit = (df: number): number => {
-    if (df <= 1) return 12.706; if (df <= 2) return 4.303; if (df <= 3) return 3.182;
-    if (df <= 4) return 2.776; if (df <= 5) return 2.571; if (df <= 10) return 2.228;
-    if (df <= 20) return 2.086; if (df <= 60) return 2.000; return 1.960;
-};
-
-const getFCrit = (df2: number, df1: number = 1): number => {
-    if (df1 === 1) {
-        if (df2 <= 1) return 161.45; if (df2 <= 2) return 18.51; if (df2 <= 3) return 10.13;
-        if (df2 <= 4) return 7.71; if (df2 <= 5) return 6.61; if (df2 <= 10) return 4.96;
-        if (df2 <= 20) return 4.35; if (df2 <= 60) return 4.00; return 3.84;
-    }
-    return 3.00; 
-};
-
 const calculateAIC = (n: number, k: number, sse: number) => {
     if (sse <= 1e-15) sse = 1e-15; 
     const aic = n * Math.log(sse / n) + 2 * k;
@@ -102,7 +473,7 @@ const calculateAIC = (n: number, k: number, sse: number) => {
 // --- ROBUST STATISTICS (NON-PARAMETRIC) ---
 
 // Spearman Rank Correlation for Theil-Sen
-function calculateSpearmanRank(x: number[], y: number[]): ValidationStepResult {
+function calculateSpearmanRank(x: number[], y: number[], alpha: number): ValidationStepResult {
     const n = x.length;
     if (n < 3) return { passed: false, label: 'Corr. Spearman', statisticName: 'rho', statisticValue: 0, criticalValue: 0, details: 'N < 3', isNotApplicable: false };
 
@@ -127,36 +498,43 @@ function calculateSpearmanRank(x: number[], y: number[]): ValidationStepResult {
 
     const rho = 1 - (6 * d2Sum) / (n * (n * n - 1));
     const tCalc = Math.abs(rho) * Math.sqrt((n - 2) / (1 - rho * rho));
-    const tCrit = getTStudentCrit(n - 2);
-    const passed = tCalc > tCrit;
+    // t approximation; the critical t is carried back to the scale of ρ
+    const tCrit = studentTQuantile(1 - alpha / 2, n - 2);
+    const pValue = studentTTwoSidedPValue(tCalc, n - 2);
+    const passed = pValue < alpha;
 
     return {
         passed,
         label: 'Correlación de Spearman (No Paramétrica)',
         statisticName: 'rho',
         statisticValue: parseFloat(rho.toFixed(4)),
-        criticalValue: tCrit, 
+        criticalValue: tCrit / Math.sqrt(n - 2 + tCrit * tCrit),
+        pValue,
         details: passed ? `Asociación monótona significativa (t=${tCalc.toFixed(2)})` : `Sin asociación significativa`,
         isNotApplicable: false
     };
 }
 
-function erf(x: number) {
-  const a1 =  0.254829592; const a2 = -0.284496736; const a3 =  1.421413741;
-  const a4 = -1.453152027; const a5 =  1.061405429; const p  =  0.3275911;
-  let sign = 1; if (x < 0) sign = -1; x = Math.abs(x);
-  const t = 1.0 / (1.0 + p * x);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-  return sign * y;
-}
+// p-value of the modified A²* for a normal sample with estimated mean and variance (D'Agostino & Stephens, 1986)
+const andersonDarlingPValue = (a2: number): number => {
+    if (a2 >= 0.6) return Math.exp(1.2937 - 5.709 * a2 + 0.0186 * a2 * a2);
+    if (a2 >= 0.34) return Math.exp(0.9177 - 4.279 * a2 - 1.38 * a2 * a2);
+    if (a2 >= 0.2) return 1 - Math.exp(-8.318 + 42.796 * a2 - 59.938 * a2 * a2);
+    return 1 - Math.exp(-13.436 + 101.14 * a2 - 223.73 * a2 * a2);
+};
 
-function normalCDF(x: number, mean: number, std: number): number {
-    const z = (x - mean) / (std * Math.SQRT2);
-    return 0.5 * (1 + erf(z));
-}
+// A²* at which the p-value equals α (0.752 for α = 0.05); the p-value decreases with A²*
+const andersonDarlingCritical = (alpha: number): number => {
+    let lo = 0, hi = 10;
+    for (let i = 0; i < 100; i++) {
+        const mid = (lo + hi) / 2;
+        if (andersonDarlingPValue(mid) > alpha) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+};
 
 // Anderson-Darling for Parametric Models
-function calculateAndersonDarling(data: number[]): ValidationStepResult {
+function calculateAndersonDarling(data: number[], alpha: number): ValidationStepResult {
     const n = data.length;
     if (n < 3) return { passed: false, label: 'Anderson-Darling', statisticName: 'A²', statisticValue: 0, criticalValue: 0, details: 'N insuficiente (<3)' };
 
@@ -176,7 +554,8 @@ function calculateAndersonDarling(data: number[]): ValidationStepResult {
 
     let A2 = -n - (sum / n);
     const A2_adj = A2 * (1 + 0.75/n + 2.25/(n*n));
-    const criticalValue = 0.752; 
+    const criticalValue = andersonDarlingCritical(alpha);
+    const pValue = Math.min(1, Math.max(0, andersonDarlingPValue(A2_adj)));
     const passed = A2_adj < criticalValue;
 
     return {
@@ -185,16 +564,18 @@ function calculateAndersonDarling(data: number[]): ValidationStepResult {
         statisticName: 'A²*',
         statisticValue: parseFloat(A2_adj.toFixed(4)),
         criticalValue,
+        pValue,
         details: passed ? 'Distribución Normal' : 'No Normal'
     };
 }
 
-function calculateCorrelationSignificance(r: number, n: number): ValidationStepResult {
+function calculateCorrelationSignificance(r: number, n: number, alpha: number): ValidationStepResult {
     if (n < 3) return { passed: false, label: 'Significancia Correlación', statisticName: 't', statisticValue: 0, criticalValue: 0, details: 'N insuficiente' };
-    if (Math.abs(r) >= 0.999999) return { passed: true, label: 'Correlación', statisticName: 't', statisticValue: 999, criticalValue: 0, details: 'Correlación perfecta' };
+    if (Math.abs(r) >= 0.999999) return { passed: true, label: 'Correlación', statisticName: 't', statisticValue: 999, criticalValue: studentTQuantile(1 - alpha / 2, n - 2), pValue: 0, details: 'Correlación perfecta' };
 
     const tCalc = Math.abs(r) * Math.sqrt(n - 2) / Math.sqrt(1 - r * r);
-    const tCrit = getTStudentCrit(n - 2);
+    const tCrit = studentTQuantile(1 - alpha / 2, n - 2);
+    const pValue = studentTTwoSidedPValue(tCalc, n - 2);
     const passed = tCalc > tCrit;
 
     return {
@@ -203,11 +584,12 @@ function calculateCorrelationSignificance(r: number, n: number): ValidationStepR
         statisticName: 't_calc',
         statisticValue: parseFloat(tCalc.toFixed(4)),
         criticalValue: tCrit,
+        pValue,
         details: passed ? `Significativa` : `No Significativa`
     };
 }
 
-function calculateIndependenceTest(yPred: number[], residuals: number[]): ValidationStepResult {
+function calculateIndependenceTest(yPred: number[], residuals: number[], alpha: number): ValidationStepResult {
     const n = yPred.length;
     if (n < 3) return { passed: false, label: 'Independencia Residuos', statisticName: 't', statisticValue: 0, criticalValue: 0, details: 'N insuficiente' };
 
@@ -224,7 +606,8 @@ function calculateIndependenceTest(yPred: number[], residuals: number[]): Valida
     if(den1 > 0 && den2 > 0) r = num / Math.sqrt(den1 * den2);
     
     const tCalc = Math.abs(r) * Math.sqrt(n - 2) / Math.sqrt(1 - r * r || 1); 
-    const tCrit = getTStudentCrit(n - 2);
+    const tCrit = studentTQuantile(1 - alpha / 2, n - 2);
+    const pValue = studentTTwoSidedPValue(tCalc, n - 2);
     const passed = tCalc < tCrit;
 
     return {
@@ -233,17 +616,18 @@ function calculateIndependenceTest(yPred: number[], residuals: number[]): Valida
         statisticName: 't_corr',
         statisticValue: parseFloat(tCalc.toFixed(4)),
         criticalValue: tCrit,
+        pValue,
         details: passed ? 'Independientes' : 'Dependientes'
     };
 }
 
-const calculateMandelTest = (x: number[], y: number[]): ValidationStepResult => {
+const calculateMandelTest = (x: number[], y: number[], alpha: number): ValidationStepResult => {
     const n = x.length;
     if (n < 4) return { passed: true, label: 'Test Mandel', statisticName: 'F', statisticValue: 0, criticalValue: 0, details: 'N < 4' };
 
-    const regLin = calculateRegression(x, y, 'linear_pearson', false, { low: 'linear_pearson', high: 'linear_pearson' }, true);
+    const regLin = calculateRegression(x, y, 'linear_pearson', false, { low: 'linear_pearson', high: 'linear_pearson' }, true, alpha);
     const ssResLin = regLin.anova ? regLin.anova.sse : 0; 
-    const regQuad = calculateRegression(x, y, 'polynomial_2nd');
+    const regQuad = calculateRegression(x, y, 'polynomial_2nd', false, undefined, false, alpha);
     const ssResQuad = regQuad.anova ? regQuad.anova.sse : 0;
     const dfQuad = n - 3;
     
@@ -251,10 +635,11 @@ const calculateMandelTest = (x: number[], y: number[]): ValidationStepResult =>
     const msDiff = diffSS / 1;
     const msQuad = ssResQuad / dfQuad;
     
-    if (msQuad < 1e-15) return { passed: false, label: 'Test de Mandel', statisticName: 'F', statisticValue: 9999, criticalValue: getFCrit(dfQuad, 1), details: 'Ajuste cuadrático perfecto' };
+    const fCrit = fisherFQuantile(1 - alpha, 1, dfQuad);
+    if (msQuad < 1e-15) return { passed: false, label: 'Test de Mandel', statisticName: 'F', statisticValue: 9999, criticalValue: fCrit, pValue: 0, details: 'Ajuste cuadrático perfecto' };
 
     const fCalc = msDiff / msQuad;
-    const fCrit = getFCrit(dfQuad, 1); 
+    const pValue = fisherFPValue(fCalc, 1, dfQuad);
     const passed = fCalc <= fCrit;
 
     return {
@@ -263,10 +648,191 @@ const calculateMandelTest = (x: number[], y: number[]): ValidationStepResult =>
         statisticName: 'F',
         statisticValue: parseFloat(fCalc.toFixed(4)),
         criticalValue: fCrit,
+        pValue,
         details: passed ? 'Linealidad aceptada' : 'No lineal'
     };
 };
 
+// Weighted fits: the residuals should be consistent with the certified uncertainties (χ² with n − p degrees of freedom)
+const calculateChiSquareTest = (chiSquare: number, dof: number, alpha: number): ValidationStepResult => {
+    const label = 'Consistencia χ² (ISO/TS 28037)';
+    if (dof <= 0) return { passed: true, label, statisticName: 'χ²', statisticValue: 0, criticalValue: 0, details: 'Sin grados de libertad (n ≤ p)', isNotApplicable: true };
+
+    const criticalValue = chiSquareQuantile(1 - alpha, dof);
+    const passed = chiSquare <= criticalValue;
+    return {
+        passed,
+        label,
+        statisticName: 'χ²',
+        statisticValue: parseFloat(chiSquare.toFixed(4)),
+        criticalValue,
+        pValue: chiSquarePValue(chiSquare, dof),
+        details: passed ? `Residuos compatibles con las incertidumbres del certificado (ν = ${dof})` : `Residuos mayores que las incertidumbres del certificado (ν = ${dof})`
+    };
+};
+
+// --- OUTLIER TESTS ---
+
+// Dixon n = 3…25 with r10 (n ≤ 7), r11 (n ≤ 10), r21 (n ≤ 13) and r22 at α = 0.05; no closed form exists
+const DIXON_CRITICAL = [
+    0.970, 0.829, 0.710, 0.625, 0.568, 0.608, 0.564, 0.530, 0.620, 0.590, 0.565,
+    0.587, 0.565, 0.546, 0.527, 0.514, 0.500, 0.489, 0.478, 0.468, 0.459, 0.451, 0.443
+];
+// Grubbs: G = max|x_i − x̄| / s for a single outlier, two-sided. The critical value follows from the t quantile
+// at α/(2n) with n − 2 degrees of freedom (ISO 5725-2 Table 5). Not applicable below n = 3 or without spread.
+export const grubbsTest = (values: number[], alpha: number = 0.05): OutlierTestResult | undefined => {
+    const n = values.length;
+    if (n < 3) return undefined;
+    const mean = values.reduce((a, b) => a + b, 0) / n;
+    const s = Math.sqrt(values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (n - 1));
+    if (s <= 0) return undefined;
+    const index = values.reduce((best, v, i) => Math.abs(v - mean) > Math.abs(values[best] - mean) ? i : best, 0);
+    const statistic = Math.abs(values[index] - mean) / s;
+    const t = studentTQuantile(1 - alpha / (2 * n), n - 2);
+    const criticalValue = (n - 1) / Math.sqrt(n) * Math.sqrt(t * t / (n - 2 + t * t));
+    return { test: 'grubbs', n, index, statistic, criticalValue, isOutlier: statistic > criticalValue };
+};
+
+// Dixon: gap of the extreme value over the range, excluding the opposite extremes for larger samples.
+// Only the α = 0.05 table is held, so the test is not run at any other significance level.
+export const dixonTest = (values: number[], alpha: number = 0.05): OutlierTestResult | undefined => {
+    const n = values.length;
+    if (alpha !== 0.05 || n < 3 || n > 25) return undefined;
+    const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+    const x = order.map(o => o.v);
+    const gap = n <= 10 ? 1 : 2;
+    const trim = n <= 7 ? 0 : n <= 13 ? 1 : 2;
+    const lowRange = x[n - 1 - trim] - x[0];
+    const highRange = x[n - 1] - x[trim];
+    if (lowRange <= 0 || highRange <= 0) return undefined;
+    const low = (x[gap] - x[0]) / lowRange;
+    const high = (x[n - 1] - x[n - 1 - gap]) / highRange;
+    const statistic = Math.max(low, high);
+    const criticalValue = DIXON_CRITICAL[n - 3];
+    return { test: 'dixon', n, index: high >= low ? order[n - 1].i : order[0].i, statistic, criticalValue, isOutlier: statistic > criticalValue };
+};
+
+// Cochran: C = s²_max / Σ s² over p groups of n replicates each. Critical value
+// C = 1 / [1 + (p − 1) / F(1 − α/p; n − 1, (p − 1)(n − 1))], the ISO 5725-2 Table 4 values.
+export const cochranTest = (variances: number[], n: number, alpha: number = 0.05): OutlierTestResult | undefined => {
+    const p = variances.length;
+    const total = variances.reduce((a, b) => a + b, 0);
+    if (p < 2 || n < 2 || total <= 0) return undefined;
+    const f = fisherFQuantile(1 - alpha / p, n - 1, (p - 1) * (n - 1));
+    const index = variances.reduce((best, v, i) => v > variances[best] ? i : best, 0);
+    const statistic = variances[index] / total;
+    const criticalValue = 1 / (1 + (p - 1) / f);
+    return { test: 'cochran', n: p, index, statistic, criticalValue, isOutlier: statistic > criticalValue };
+};
+
+// --- PLATINUM RESISTANCE THERMOMETRY ---
+
+// ITS-90 reference function Wr(T90) and its inverse (BIPM, Supplementary Information for the ITS-90)
+const ITS90_A = [-2.13534729, 3.18324720, -1.80143597, 0.71727204, 0.50344027, -0.61899395, -0.05332322, 0.28021362, 0.10715224, -0.29302865, 0.04459872, 0.11868632, -0.05248134];
+const ITS90_B = [0.183324722, 0.240975303, 0.209108771, 0.190439972, 0.142648498, 0.077993465, 0.012475611, -0.032267127, -0.075291522, -0.056470670, 0.076201285, 0.123893204, -0.029201193, -0.091173542, 0.001317696, 0.026025526];
+const ITS90_C = [2.78157254, 1.64650916, -0.13714390, -0.00649767, -0.00234444, 0.00511868, 0.00187982, -0.00204472, -0.00046122, 0.00045724];
+const ITS90_D = [439.932854, 472.418020, 37.684494, 7.472018, 2.920828, 0.005184, -0.963864, -0.188732, 0.191203, 0.049025];
+
+const evaluatePolynomial = (coeffs: number[], x: number): number => coeffs.reduceRight((acc, c) => acc * x + c, 0);
+
+export const its90ReferenceFunction = (t90: number): number => {
+    const T = t90 + 273.15;
+    if (T < 273.16) return Math.exp(evaluatePolynomial(ITS90_A, (Math.log(T / 273.16) + 1.5) / 1.5));
+    return evaluatePolynomial(ITS90_C, (T - 754.15) / 481);
+};
+
+export const its90InverseReferenceFunction = (wr: number): number => {
+    if (wr < 1) return 273.16 * evaluatePolynomial(ITS90_B, (Math.pow(wr, 1 / 6) - 0.65) / 0.35) - 273.15;
+    return evaluatePolynomial(ITS90_D, (wr - 2.64) / 1.64);
+};
+
+// Deviation W − Wr: a(W−1) + b(W−1)² from the triple point of water upwards (sub-ranges 6 to 11),
+// a(W−1) + b(W−1)·ln W below it (sub-range 4). Coefficients [R_tpw, a, b, a4, b4].
+const its90DeviationBasis = (w: number, terms: number, above: boolean, below: boolean): number[] => [
+    ...(above ? (w >= 1 ? [w - 1, Math.pow(w - 1, 2)] : [0, 0]).slice(0, terms) : []),
+    ...(below ? (w < 1 ? [w - 1, (w - 1) * Math.log(w)] : [0, 0]).slice(0, terms) : [])
+];
+
+const its90Deviation = (w: number, coeffs: number[]): number => {
+    const [, a = 0, b = 0, a4 = 0, b4 = 0] = coeffs;
+    return w >= 1 ? a * (w - 1) + b * Math.pow(w - 1, 2) : a4 * (w - 1) + b4 * (w - 1) * Math.log(w);
+};
+
+export const calculateIts90Temperature = (resistance: number, coeffs: number[]): number => {
+    const w = resistance / coeffs[0];
+    return its90InverseReferenceFunction(w - its90Deviation(w, coeffs));
+};
+
+// Callendar–Van Dusen (IEC 60751): R(t) = R0·[1 + A·t + B·t² + C·(t − 100 °C)·t³], C only below 0 °C.
+// Coefficients [R0, A, B, C].
+export const IEC_60751_COEFFICIENTS = { A: 3.9083e-3, B: -5.775e-7, C: -4.183e-12 };
+
+export const calculateCallendarVanDusenResistance = (t: number, coeffs: number[]): number => {
+    const [r0, a, b, c = 0] = coeffs;
+    return r0 * (1 + a * t + b * t * t + (t < 0 ? c * (t - 100) * Math.pow(t, 3) : 0));
+};
+
+export const calculateCallendarVanDusenTemperature = (resistance: number, coeffs: number[]): number => {
+    const [r0, a, b, c = 0] = coeffs;
+    const ratio = resistance / r0;
+    let t = b !== 0 ? (-a + Math.sqrt(a * a - 4 * b * (1 - ratio))) / (2 * b) : (ratio - 1) / a;
+    // Below 0 °C the quartic term is solved by Newton iteration from the quadratic root
+    if (t < 0 && c !== 0) {
+        for (let i = 0; i < 20; i++) {
+            const f = 1 + a * t + b * t * t + c * (t - 100) * Math.pow(t, 3) - ratio;
+            const df = a + 2 * b * t + c * (4 * Math.pow(t, 3) - 300 * t * t);
+            const step = f / df;
+            t -= step;
+            if (Math.abs(step) < 1e-9) break;
+        }
+    }
+    return t;
+};
+
+// Least squares on an arbitrary basis (QR); a rank-deficient basis yields no coefficients
+const fitLinearBasis = (rows: number[][], y: number[]): number[] => {
+    const fit = solveLeastSquaresQR(rows, y);
+    return fit.rankDeficient ? fit.coeffs.map(() => NaN) : fit.coeffs;
+};
+
+// Fitted on R(t) with t scaled to t/100 °C to keep the design matrix well conditioned
+const fitCallendarVanDusen = (t: number[], r: number[]): number[] => {
+    const hasNegative = t.some(v => v < 0);
+    const rows = t.map(v => {
+        const tau = v / 100;
+        return hasNegative ? [1, tau, tau * tau, v < 0 ? (tau - 1) * Math.pow(tau, 3) : 0] : [1, tau, tau * tau];
+    });
+    const [r0, p1, p2, p3 = 0] = fitLinearBasis(rows, r);
+    return [r0, p1 / (100 * r0), p2 / (1e4 * r0), p3 / (1e8 * r0)];
+};
+
+// A point at the triple point of water adds no information to either sub-range
+const its90SubRanges = (wr: number[]) => ({ above: wr.some(w => w > 1 + 1e-6), below: wr.some(w => w < 1 - 1e-6) });
+
+// R = R_tpw·[Wr(t) + ΔW(W)] is linear in (R_tpw, R_tpw·a, R_tpw·b) once W is known; W is refined from the fitted R_tpw.
+// With few points each side keeps only the linear term a.
+const fitIts90Deviation = (t: number[], r: number[]): number[] => {
+    const wr = t.map(its90ReferenceFunction);
+    const { above, below } = its90SubRanges(wr);
+    const terms = t.length >= 1 + 2 * ((above ? 1 : 0) + (below ? 1 : 0)) ? 2 : 1;
+    let w = [...wr];
+    let coeffs: number[] = [];
+    for (let iter = 0; iter < 5; iter++) {
+        const p = fitLinearBasis(w.map((wi, i) => [wr[i], ...its90DeviationBasis(wi, terms, above, below)]), r);
+        const dev = p.slice(1).map(q => q / p[0]);
+        const side = (on: boolean) => on ? dev.splice(0, terms).concat([0]).slice(0, 2) : [0, 0];
+        coeffs = [p[0], ...side(above), ...side(below)];
+        w = r.map(ri => ri / p[0]);
+    }
+    return coeffs;
+};
+
+export const getIts90ParameterCount = (t: number[]): number => {
+    const { above, below } = its90SubRanges(t.map(its90ReferenceFunction));
+    const sides = (above ? 1 : 0) + (below ? 1 : 0);
+    return 1 + sides * (t.length >= 1 + 2 * sides ? 2 : 1);
+};
+
 // --- MAIN REGRESSION FUNCTION ---
 
 export const calculateRegression = (
@@ -275,31 +841,39 @@ export const calculateRegression = (
     type: CurveModel, 
     isUncertaintyModel: boolean = false, 
     subModels: { low: CurveModel, high: CurveModel } = { low: 'linear_pearson', high: 'linear_pearson' },
-    skipMandel: boolean = false
+    skipMandel: boolean = false,
+    significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL,
+    weighting?: RegressionWeighting
 ): RegressionResult => {
   let stepText = `ANÁLISIS DE REGRESIÓN Y VALIDACIÓN\n`;
   
+  const invalidResult = (equationString: string, validationSteps: string, recommendationText: string): RegressionResult => ({
+      coefficients: [0], rSquared: 0, residualStdDev: 0, equationString, 
+      validationSteps, xBar: 0, sumSqDiffX: 1, n: 0, durbinWatson: 0, isParametricValid: false,
+      aic: 9999, aicc: 9999, bic: 9999, modelQuality: 'INVALID', recommendationText
+  });
+
   // Data Filtering
+  // Logarithmic transforms work on |x| and |y| with the sign carried by c0, so negative domains
+  // (vacuum) fit like positive ones; zeros are dropped and a domain crossing zero cannot be fitted.
+  const logX = type === 'power' || type === 'logarithmic';
+  const logY = type === 'power' || type === 'exponential';
+  const crossesZero = (values: number[]) => values.some(v => v < 0) && values.some(v => v > 0);
+  if ((logX && crossesZero(x)) || (logY && crossesZero(y))) {
+      return invalidResult("Dominio cruza cero", `Error: el modelo ${type} no está definido en un dominio que cruza cero`, "Modelo no aplicable: datos positivos y negativos");
+  }
   let validIndices = x.map((_, i) => i);
-  if (type === 'power' || type === 'logarithmic' || type === 'exponential') {
-    validIndices = x.map((val, i) => {
-       if (type === 'logarithmic' && val <= 0) return -1;
-       if (type === 'power' && (val <= 0 || y[i] <= 0)) return -1;
-       if (type === 'exponential' && y[i] <= 0) return -1;
-       return i;
-    }).filter(i => i !== -1);
+  if (logX || logY) {
+    validIndices = validIndices.filter(i => (!logX || x[i] !== 0) && (!logY || y[i] !== 0));
   }
   const xFiltered = validIndices.map(i => x[i]);
   const yFiltered = validIndices.map(i => y[i]);
   const n = xFiltered.length;
 
   if (n < 3) {
-      return { 
-          coefficients: [0], rSquared: 0, residualStdDev: 0, equationString: "Datos insuficientes (N<3)", 
-          validationSteps: "Error: N < 3", xBar: 0, sumSqDiffX: 1, n: 0, durbinWatson: 0, isParametricValid: false,
-          aic: 9999, aicc: 9999, bic: 9999, modelQuality: 'INVALID', recommendationText: "Datos Insuficientes"
-      };
+      return invalidResult("Datos insuficientes (N<3)", "Error: N < 3", "Datos Insuficientes");
   }
+  const ySign = logY && yFiltered[0] < 0 ? -1 : 1;
 
   // --- PIECEWISE MIXED MODEL (REGRESIÓN DOBLE FLEXIBLE) ---
   if (type === 'piecewise_mixed') {
@@ -312,7 +886,7 @@ export const calculateRegression = (
       
       // Overlap adjustments
       if (n <= 4) {
-           return calculateRegression(x, y, 'linear_pearson', isUncertaintyModel);
+           return calculateRegression(x, y, 'linear_pearson', isUncertaintyModel, undefined, false, significanceLevel, weighting);
       } else {
            if (startIdx2 < 0) startIdx2 = 0;
            if (endIdx1 >= n) endIdx1 = n - 1;
@@ -330,8 +904,14 @@ export const calculateRegression = (
       const type1 = subModels.low === 'piecewise_mixed' ? 'linear_pearson' : subModels.low;
       const type2 = subModels.high === 'piecewise_mixed' ? 'linear_pearson' : subModels.high;
 
-      const r1 = calculateRegression(x1, y1, type1, isUncertaintyModel, {low:'linear_pearson', high:'linear_pearson'}, true);
-      const r2 = calculateRegression(x2, y2, type2, isUncertaintyModel, {low:'linear_pearson', high:'linear_pearson'}, true);
+      // Each side is weighted with its own block of the covariance
+      const sliceWeighting = (from: number, to?: number): RegressionWeighting | undefined => weighting && {
+          uncertainties: weighting.uncertainties.slice(from, to),
+          correlations: weighting.correlations?.slice(from, to).map(r => r.slice(from, to)),
+          xUncertainties: weighting.xUncertainties?.slice(from, to)
+      };
+      const r1 = calculateRegression(x1, y1, type1, isUncertaintyModel, {low:'linear_pearson', high:'linear_pearson'}, true, significanceLevel, sliceWeighting(0, endIdx1 + 1));
+      const r2 = calculateRegression(x2, y2, type2, isUncertaintyModel, {low:'linear_pearson', high:'linear_pearson'}, true, significanceLevel, sliceWeighting(startIdx2));
 
       // Split Limit Logic
       const splitStart = xFiltered[startIdx2];
@@ -344,12 +924,12 @@ export const calculateRegression = (
       yFiltered.forEach((yi, i) => {
           const xi = xFiltered[i];
           let yPred = 0;
-          if (xi <= splitStart) yPred = predictValue(xi, type1, r1.coefficients);
-          else if (xi >= splitEnd) yPred = predictValue(xi, type2, r2.coefficients);
+          if (xi <= splitStart) yPred = evaluateRegression(xi, type1, r1);
+          else if (xi >= splitEnd) yPred = evaluateRegression(xi, type2, r2);
           else {
               // Interpolation in overlap
-              const y1p = predictValue(xi, type1, r1.coefficients);
-              const y2p = predictValue(xi, type2, r2.coefficients);
+              const y1p = evaluateRegression(xi, type1, r1);
+              const y2p = evaluateRegression(xi, type2, r2);
               const alpha = (xi - splitStart) / (splitEnd - splitStart);
               yPred = (1 - alpha) * y1p + alpha * y2p;
           }
@@ -373,8 +953,8 @@ export const calculateRegression = (
           recommendationText: "Modelo optimizado flexible (Mixed Split).",
           isParametricValid: true,
           subModels: {
-              low: { type: type1, coeffs: r1.coefficients, limit: splitEnd },
-              high: { type: type2, coeffs: r2.coefficients, limit: splitStart }
+              low: { type: type1, coeffs: r1.coefficients, limit: splitEnd, covariance: r1.covariance, basis: r1.basis },
+              high: { type: type2, coeffs: r2.coefficients, limit: splitStart, covariance: r2.covariance, basis: r2.basis }
           }
       };
   }
@@ -390,29 +970,68 @@ export const calculateRegression = (
   let xCalc = [...xFiltered];
   let yCalc = [...yFiltered];
 
-  if (type === 'power') { xCalc = xFiltered.map(Math.log); yCalc = yFiltered.map(Math.log); } 
-  else if (type === 'exponential') { yCalc = yFiltered.map(Math.log); } 
-  else if (type === 'logarithmic') { xCalc = xFiltered.map(Math.log); }
+  if (logX) xCalc = xFiltered.map(v => Math.log(Math.abs(v)));
+  if (logY) yCalc = yFiltered.map(v => Math.log(Math.abs(v)));
 
   let eqStr = "";
 
+  // Models linear in their parameters on the transformed axes: c0 + c1·x (+ c2·x² + c3·x³)
+  const basisOrder = type === 'polynomial_3rd' ? 3 : type === 'polynomial_2nd' ? 2 : 1;
+  const isBasisModel = type.includes('polynomial') || type === 'linear_pearson' || logX || logY;
+
+  // Weighted fits: u(ln|y|) = u(y)/|y| on the logarithmic axis
+  let fitMethod: FitMethod = 'ols';
+  let weightedFit: Pick<LeastSquaresFit, 'coeffs' | 'covariance' | 'chiSquare'> | undefined;
+  let V: number[][] | undefined;
+  if (type === 'linear_wtls') {
+      const ux = weighting?.xUncertainties;
+      if (!weighting || !ux) {
+          return invalidResult("WTLS sin incertidumbres", "Error: WTLS requiere u(x) y u(y) en todos los puntos", "Cargue las incertidumbres del certificado");
+      }
+      if (weighting.uncertainties.some(u => !(u > 0) || !isFinite(u)) || ux.some(u => !(u >= 0) || !isFinite(u))) {
+          return invalidResult("Incertidumbres no válidas", "Error: WTLS requiere u(y) > 0 y u(x) ≥ 0 en todos los puntos", "Revise las incertidumbres del certificado");
+      }
+      fitMethod = 'wls';
+      weightedFit = fitWeightedTotalLeastSquares(xCalc, yCalc, ux, weighting.uncertainties);
+      stepText += `MÉTODO: MÍNIMOS CUADRADOS TOTALES PONDERADOS (WTLS, ISO/TS 28037 §7)\n`;
+      if (weighting.correlations) stepText += `Correlaciones del certificado no consideradas por WTLS\n`;
+      const [ua, ub] = [Math.sqrt(weightedFit.covariance[0][0]), Math.sqrt(weightedFit.covariance[1][1])];
+      stepText += `u(c0) = ${ua.toExponential(3)}, u(c1) = ${ub.toExponential(3)}, r(c0, c1) = ${(weightedFit.covariance[0][1] / (ua * ub)).toFixed(4)}\n`;
+  } else if (weighting && !isBasisModel) {
+      stepText += `Ponderación no aplicable al modelo ${type}: mínimos cuadrados ordinarios\n`;
+  } else if (weighting) {
+      const u = validIndices.map(i => logY ? weighting.uncertainties[i] / Math.abs(y[i]) : weighting.uncertainties[i]);
+      if (u.some(ui => !(ui > 0) || !isFinite(ui))) {
+          return invalidResult("Incertidumbres no válidas", "Error: WLS / GLS requiere incertidumbres positivas en todos los puntos", "Revise las incertidumbres del certificado");
+      }
+      const r = weighting.correlations;
+      fitMethod = r ? 'gls' : 'wls';
+      V = validIndices.map((i, a) => validIndices.map((j, b) => a === b ? u[a] * u[a] : r ? r[i][j] * u[a] * u[b] : 0));
+      stepText += fitMethod === 'gls'
+          ? `MÉTODO: MÍNIMOS CUADRADOS GENERALIZADOS (GLS, ISO/TS 28037)\n`
+          : `MÉTODO: MÍNIMOS CUADRADOS PONDERADOS (WLS, ISO/TS 28037)\n`;
+  }
+
+  // Models linear in their parameters: QR on centered and scaled x, never the normal equations
+  let basisFit: ReturnType<typeof fitPolynomialBasis>;
+  if (isBasisModel) {
+      basisFit = fitPolynomialBasis(xCalc, yCalc, basisOrder, V);
+      if (!basisFit) {
+          return invalidResult("Covarianza no definida positiva", "Error: la matriz de covarianza de los valores de referencia no es definida positiva", "Revise las correlaciones del certificado");
+      }
+      stepText += `Condicionamiento: κ(X) = ${basisFit.rawConditionNumber.toExponential(2)} sin transformar; κ = ${basisFit.conditionNumber.toExponential(2)} con x centrado y escalado (QR)\n`;
+      if (basisFit.rankDeficient) {
+          return invalidResult("Sistema de rango deficiente", stepText + `Error: matriz de diseño de rango deficiente (κ ≥ ${MAX_CONDITION_NUMBER.toExponential(0)}); no se reportan coeficientes\n`, "Agregue puntos con valores de x distintos o reduzca el grado del modelo");
+      }
+      if (V) weightedFit = basisFit;
+  }
+
   if (type.includes('polynomial')) {
     const order = type === 'polynomial_3rd' ? 3 : 2;
     numParams = order + 1; 
-    const m = order + 1;
-    const XSums = new Array(2 * order + 1).fill(0);
-    for (let i = 0; i < 2 * order + 1; i++) XSums[i] = xCalc.reduce((s, xi) => s + Math.pow(xi, i), 0);
-    const YSums = new Array(m).fill(0);
-    for (let i = 0; i < m; i++) YSums[i] = xCalc.reduce((s, xi, idx) => s + Math.pow(xi, i) * yCalc[idx], 0);
-    const A = Array.from({ length: m }, () => new Array(m).fill(0));
-    const B = new Array(m).fill(0);
-    for (let i = 0; i < m; i++) {
-      for (let j = 0; j < m; j++) A[i][j] = XSums[i + j];
-      B[i] = YSums[i];
-    }
-    coeffs = solveLinearSystem(A, B);
+    coeffs = [...basisFit!.coeffs];
     residuals = yCalc.map((yi, i) => {
-      const pred = coeffs.reduce((acc, c, p) => acc + c * Math.pow(xCalc[i], p), 0);
+      const pred = evaluateBasis(xCalc[i], basisFit!.basis);
       yPreds.push(pred);
       return yi - pred;
     });
@@ -425,6 +1044,30 @@ export const calculateRegression = (
         return `${sign}${val}x^${i}`;
     }).join("");
 
+  } else if (type === 'callendar_van_dusen' || type === 'its90_deviation') {
+    // PRT models are fitted on R(t) and report the temperature: x = resistance, y = temperature
+    const isCvd = type === 'callendar_van_dusen';
+    coeffs = isCvd ? fitCallendarVanDusen(yCalc, xCalc) : fitIts90Deviation(yCalc, xCalc);
+    if (coeffs.some(c => !isFinite(c))) {
+        return invalidResult("Sistema de rango deficiente", stepText + `Error: matriz de diseño de rango deficiente; no se reportan coeficientes\n`, "Agregue puntos de temperatura distintos");
+    }
+    numParams = isCvd ? (coeffs[3] !== 0 ? 4 : 3) : getIts90ParameterCount(yCalc);
+    residuals = yCalc.map((yi, i) => {
+        const pred = predictValue(xCalc[i], type, coeffs);
+        yPreds.push(pred);
+        return yi - pred;
+    });
+    if (isCvd) {
+        eqStr = `R(t) = ${coeffs[0].toFixed(5)} Ω · [1 + ${coeffs[1].toExponential(5)}·t ${coeffs[2] >= 0 ? '+' : '-'} ${Math.abs(coeffs[2]).toExponential(5)}·t²`
+            + (coeffs[3] !== 0 ? ` ${coeffs[3] >= 0 ? '+' : '-'} ${Math.abs(coeffs[3]).toExponential(5)}·(t − 100)·t³]` : ']');
+    } else {
+        const terms = [
+            coeffs[1] !== 0 && `a = ${coeffs[1].toExponential(5)}`, coeffs[2] !== 0 && `b = ${coeffs[2].toExponential(5)}`,
+            coeffs[3] !== 0 && `a4 = ${coeffs[3].toExponential(5)}`, coeffs[4] !== 0 && `b4 = ${coeffs[4].toExponential(5)}`
+        ].filter(Boolean);
+        eqStr = `W = R / ${coeffs[0].toFixed(5)} Ω; W − Wr(t) = ΔW(W): ${terms.join(', ')}`;
+    }
+
   } else if (type === 'linear_theil_sen') {
     const slopes: number[] = [];
     for (let i = 0; i < n; i++) {
@@ -446,15 +1089,10 @@ export const calculateRegression = (
     eqStr = `y = ${coeffs[1].toExponential(4)}x ${coeffs[0] >= 0 ? '+' : '-'} ${Math.abs(coeffs[0]).toExponential(4)}`;
 
   } else {
-    // Least Squares
-    const sumX = xCalc.reduce((a, b) => a + b, 0);
-    const sumY = yCalc.reduce((a, b) => a + b, 0);
-    const sumXY = xCalc.reduce((s, xi, i) => s + xi * yCalc[i], 0);
-    const sumXX = xCalc.reduce((s, xi) => s + xi * xi, 0);
-    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-    const intercept = (sumY - slope * sumX) / n;
+    // Least Squares (WTLS or QR on the transformed axes)
+    const [intercept, slope] = (weightedFit || basisFit!).coeffs;
     coeffs = [intercept, slope];
-    if (type === 'power' || type === 'exponential') coeffs[0] = Math.exp(intercept);
+    if (type === 'power' || type === 'exponential') coeffs[0] = ySign * Math.exp(intercept);
     
     residuals = yCalc.map((yi, i) => {
         const pred = intercept + slope * xCalc[i];
@@ -464,10 +1102,10 @@ export const calculateRegression = (
     
     const c0 = coeffs[0];
     const c1 = coeffs[1];
-    if (type === 'linear_pearson') eqStr = `y = ${c1.toExponential(4)}x ${c0 >= 0 ? '+' : '-'} ${Math.abs(c0).toExponential(4)}`;
-    else if (type === 'power') eqStr = `y = ${c0.toExponential(4)} · x^${c1.toExponential(4)}`;
+    if (type === 'linear_pearson' || type === 'linear_wtls') eqStr = `y = ${c1.toExponential(4)}x ${c0 >= 0 ? '+' : '-'} ${Math.abs(c0).toExponential(4)}`;
+    else if (type === 'power') eqStr = `y = ${c0.toExponential(4)} · |x|^${c1.toExponential(4)}`;
     else if (type === 'exponential') eqStr = `y = ${c0.toExponential(4)} · e^(${c1.toExponential(4)}x)`;
-    else if (type === 'logarithmic') eqStr = `y = ${c0.toExponential(4)} ${c1 >= 0 ? '+' : '-'} ${Math.abs(c1).toExponential(4)} · ln(x)`;
+    else if (type === 'logarithmic') eqStr = `y = ${c0.toExponential(4)} ${c1 >= 0 ? '+' : '-'} ${Math.abs(c1).toExponential(4)} · ln|x|`;
     else eqStr = type;
   }
 
@@ -485,7 +1123,9 @@ export const calculateRegression = (
   const msRes = ssRes / (dfRes || 1);
   const fCalc = msReg / msRes;
 
-  const fCrit = getFCrit(dfRes, dfReg);
+  // Without residual degrees of freedom the F-test is undefined and the model cannot be declared significant
+  const fCrit = dfReg > 0 && dfRes > 0 ? fisherFQuantile(1 - significanceLevel, dfReg, dfRes) : Infinity;
+  const fPValue = dfReg > 0 && dfRes > 0 ? fisherFPValue(fCalc, dfReg, dfRes) : 1;
   const durbinWatson = calculateDurbinWatson(residuals);
 
   const k_aic = numParams + 1;
@@ -500,13 +1140,13 @@ export const calculateRegression = (
   const validation: RegressionValidation = {
       // Step 1: Correlation (Spearman for Theil-Sen, Pearson for others)
       correlation: isNonParametric 
-          ? calculateSpearmanRank(xCalc, yCalc)
-          : calculateCorrelationSignificance(Math.sqrt(rSquared), n),
+          ? calculateSpearmanRank(xCalc, yCalc, significanceLevel)
+          : calculateCorrelationSignificance(Math.sqrt(rSquared), n, significanceLevel),
       
       // Step 2 & 5: Normality (Skip for Theil-Sen)
-      normalityX: isNonParametric ? { ...notApplicable, label: 'Normalidad en X' } : calculateAndersonDarling(xCalc),
-      normalityY: isNonParametric ? { ...notApplicable, label: 'Normalidad en Y' } : calculateAndersonDarling(yCalc),
-      normalityResiduals: isNonParametric ? { ...notApplicable, label: 'Normalidad Residuos' } : calculateAndersonDarling(residuals),
+      normalityX: isNonParametric ? { ...notApplicable, label: 'Normalidad en X' } : calculateAndersonDarling(xCalc, significanceLevel),
+      normalityY: isNonParametric ? { ...notApplicable, label: 'Normalidad en Y' } : calculateAndersonDarling(yCalc, significanceLevel),
+      normalityResiduals: isNonParametric ? { ...notApplicable, label: 'Normalidad Residuos' } : calculateAndersonDarling(residuals, significanceLevel),
 
       // Step 3 & 4: Model Significance & Independence
       modelSignificance: isNonParametric 
@@ -517,15 +1157,40 @@ export const calculateRegression = (
               statisticName: 'F',
               statisticValue: parseFloat(fCalc.toFixed(4)),
               criticalValue: fCrit,
+              pValue: fPValue,
               details: (fCalc > fCrit) ? 'Modelo significativo' : 'No significativo'
           },
       independence: isNonParametric 
           ? { ...notApplicable, label: 'Independencia Residuos' }
-          : calculateIndependenceTest(yPreds, residuals),
+          : calculateIndependenceTest(yPreds, residuals, significanceLevel),
+      significanceLevel
   };
 
   if (type === 'linear_pearson' && n >= 4 && !skipMandel) {
-      validation.mandelLinearity = calculateMandelTest(xFiltered, yFiltered);
+      validation.mandelLinearity = calculateMandelTest(xFiltered, yFiltered, significanceLevel);
+  }
+  if (weightedFit) {
+      validation.chiSquare = calculateChiSquareTest(weightedFit.chiSquare, dfRes, significanceLevel);
+  }
+
+  // Covariance of the fitted parameters; for power / exponential c0 = ±e^a, so row and column 0 scale by c0.
+  // Theil-Sen borrows the least-squares covariance of the line; PRT models use the Gauss–Newton approximation.
+  // The basis keeps the same covariance in z, on the fitted axes.
+  let covariance: number[][] | undefined = weightedFit?.covariance;
+  let basis: CenteredBasis | undefined;
+  if (isBasisModel || isNonParametric) {
+      const lineFit = basisFit || fitPolynomialBasis(xCalc, yCalc, 1)!;
+      const scaleBy = V ? 1 : residualStdDev * residualStdDev;
+      covariance = covariance || lineFit.covariance.map(r => r.map(v => v * scaleBy));
+      if (logY) covariance = covariance.map((r, i) => r.map((v, j) => v * (i === 0 ? coeffs[0] : 1) * (j === 0 ? coeffs[0] : 1)));
+      const { centre, scale } = lineFit.basis;
+      basis = {
+          centre, scale,
+          coefficients: isNonParametric ? [coeffs[0] + coeffs[1] * centre, coeffs[1] * scale] : lineFit.basis.coefficients,
+          covariance: lineFit.basis.covariance.map(r => r.map(v => v * scaleBy))
+      };
+  } else if (type === 'callendar_van_dusen' || type === 'its90_deviation') {
+      covariance = calculateJacobianCovariance(xCalc, type, coeffs, residualStdDev * residualStdDev);
   }
 
   let modelQuality: 'EXCELLENT'|'GOOD'|'POOR'|'INVALID' = 'GOOD';
@@ -546,6 +1211,9 @@ export const calculateRegression = (
       } else if (validation.mandelLinearity && !validation.mandelLinearity.passed) {
           modelQuality = 'POOR';
           recommendationText = "Test de Mandel sugiere no linealidad.";
+      } else if (validation.chiSquare && !validation.chiSquare.passed) {
+          modelQuality = 'POOR';
+          recommendationText = "Prueba χ² no superada: los residuos exceden las incertidumbres certificadas.";
       } else if (rSquared > 0.999) {
           modelQuality = 'EXCELLENT';
       }
@@ -565,91 +1233,198 @@ export const calculateRegression = (
     sumSqDiffX,
     n,
     durbinWatson,
-    anova: { sse: ssRes, ssr: ssReg, sst: ssTot, dfReg, dfRes, msReg, msRes, fStatistic: fCalc },
+    anova: { sse: ssRes, ssr: ssReg, sst: ssTot, dfReg, dfRes, msReg, msRes, fStatistic: fCalc, pValue: fPValue },
     isParametricValid: isValid,
     aic, aicc, bic,
     modelQuality,
-    recommendationText
+    recommendationText,
+    fitMethod,
+    covariance,
+    basis
   };
 };
 
-export const predictValue = (xInput: number, model: CurveModel, coeffs: number[], subModels?: any): number => {
+// Σ bₖ·zᵏ with z = (x − centre)/scale, on the fitted axes
+const evaluateBasis = (x: number, basis: CenteredBasis): number => {
+  const z = (x - basis.centre) / basis.scale;
+  return basis.coefficients.reduceRight((acc, b) => acc * z + b, 0);
+};
+
+export const predictValue = (xInput: number, model: CurveModel, coeffs: number[], subModels?: any, basis?: CenteredBasis): number => {
   if (model === 'piecewise_mixed' && subModels) {
       const low = subModels.low;
       const high = subModels.high;
       const splitStart = high.limit; 
       const splitEnd = low.limit;
 
-      if (xInput <= splitStart) return predictValue(xInput, low.type, low.coeffs);
-      if (xInput >= splitEnd) return predictValue(xInput, high.type, high.coeffs);
+      if (xInput <= splitStart) return predictValue(xInput, low.type, low.coeffs, undefined, low.basis);
+      if (xInput >= splitEnd) return predictValue(xInput, high.type, high.coeffs, undefined, high.basis);
       
-      const y1 = predictValue(xInput, low.type, low.coeffs);
-      const y2 = predictValue(xInput, high.type, high.coeffs);
+      const y1 = predictValue(xInput, low.type, low.coeffs, undefined, low.basis);
+      const y2 = predictValue(xInput, high.type, high.coeffs, undefined, high.basis);
       
       // Interpolation logic for smooth transition
       const alpha = (xInput - splitStart) / (splitEnd - splitStart);
       return (1 - alpha) * y1 + alpha * y2;
   }
 
+  // Regressions stored before the basis was kept use the powers of x
+  if (basis) {
+    switch (model) {
+      case 'power': return Math.sign(coeffs[0]) * Math.exp(evaluateBasis(Math.log(Math.abs(xInput)), basis));
+      case 'exponential': return Math.sign(coeffs[0]) * Math.exp(evaluateBasis(xInput, basis));
+      case 'logarithmic': return evaluateBasis(Math.log(Math.abs(xInput)), basis);
+      default: return evaluateBasis(xInput, basis);
+    }
+  }
+
   const c0 = coeffs[0] || 0; const c1 = coeffs[1] || 0; const c2 = coeffs[2] || 0; const c3 = coeffs[3] || 0;
 
   switch (model) {
-    case 'linear_pearson': case 'linear_theil_sen': return c0 + c1 * xInput;
+    case 'linear_pearson': case 'linear_theil_sen': case 'linear_wtls': return c0 + c1 * xInput;
     case 'polynomial_2nd': return c0 + c1 * xInput + c2 * xInput * xInput;
     case 'polynomial_3rd': return c0 + c1 * xInput + c2 * Math.pow(xInput, 2) + c3 * Math.pow(xInput, 3);
-    case 'power': return c0 * Math.pow(xInput, c1);
+    case 'power': return c0 * Math.pow(Math.abs(xInput), c1);
     case 'exponential': return c0 * Math.exp(c1 * xInput);
-    case 'logarithmic': return c0 + c1 * Math.log(xInput);
+    case 'logarithmic': return c0 + c1 * Math.log(Math.abs(xInput));
+    case 'callendar_van_dusen': return calculateCallendarVanDusenTemperature(xInput, coeffs);
+    case 'its90_deviation': return calculateIts90Temperature(xInput, coeffs);
     default: return xInput;
   }
 };
 
-export const calculateInterpolationUncertainty = (xInput: number, reg: RegressionResult, model: CurveModel): number => {
+export const evaluateRegression = (xInput: number, model: CurveModel, reg: Pick<RegressionResult, 'coefficients' | 'subModels' | 'basis'>): number =>
+  predictValue(xInput, model, reg.coefficients, reg.subModels, reg.basis);
+
+// Sensitivities ∂f(x)/∂cⱼ by central differences; coefficients without variance (unused terms) are skipped
+const coefficientGradient = (x: number, model: CurveModel, coeffs: number[], covariance: number[][]): number[] => coeffs.map((c, j) => {
+    if (!(covariance[j][j] > 0)) return 0;
+    const h = c !== 0 ? Math.abs(c) * 1e-6 : Math.sqrt(covariance[j][j]) * 1e-3;
+    const up = [...coeffs]; up[j] = c + h;
+    const down = [...coeffs]; down[j] = c - h;
+    return (predictValue(x, model, up) - predictValue(x, model, down)) / (2 * h);
+});
+
+// gᵀ·C·g: variance of the curve at x
+const propagateCovariance = (x: number, model: CurveModel, coeffs: number[], covariance: number[][]): number => {
+    const g = coefficientGradient(x, model, coeffs, covariance);
+    return Math.max(0, g.reduce((acc, gi, i) => acc + gi * g.reduce((s, gj, j) => s + covariance[i][j] * gj, 0), 0));
+};
+
+// Same variance from the centred basis: ∂f/∂bₖ = zᵏ on the fitted axis, times y for ln|y| fits
+const propagateBasisCovariance = (x: number, model: CurveModel, coeffs: number[], basis: CenteredBasis): number => {
+    const xAxis = model === 'power' || model === 'logarithmic' ? Math.log(Math.abs(x)) : x;
+    const z = (xAxis - basis.centre) / basis.scale;
+    const factor = model === 'power' || model === 'exponential' ? predictValue(x, model, coeffs, undefined, basis) : 1;
+    const g = basis.coefficients.map((_, k) => factor * Math.pow(z, k));
+    return Math.max(0, g.reduce((acc, gi, i) => acc + gi * g.reduce((s, gj, j) => s + basis.covariance[i][j] * gj, 0), 0));
+};
+
+// Gauss–Newton s²(JᵀJ)⁻¹ for models non-linear in their coefficients, through the QR of J; coefficients
+// fixed at zero (unused terms) get no variance. Undefined when J is rank deficient.
+const calculateJacobianCovariance = (x: number[], model: CurveModel, coeffs: number[], variance: number): number[][] | undefined => {
+    const active = coeffs.map((c, j) => j).filter(j => coeffs[j] !== 0);
+    const J = x.map(xi => active.map(j => {
+        const h = Math.abs(coeffs[j]) * 1e-6;
+        const up = [...coeffs]; up[j] += h;
+        const down = [...coeffs]; down[j] -= h;
+        return (predictValue(xi, model, up) - predictValue(xi, model, down)) / (2 * h);
+    }));
+    const fit = solveLeastSquaresQR(J, x.map(() => 0));
+    if (fit.rankDeficient) return undefined;
+    const covariance = coeffs.map(() => coeffs.map(() => 0));
+    active.forEach((i, a) => active.forEach((j, b) => {
+        covariance[i][j] = variance * fit.covariance[a][b];
+    }));
+    return covariance;
+};
+
+// Standard uncertainty of the curve at x by propagating the coefficient covariance (confidence band), in z
+// when the centred basis is kept; the prediction band adds the residual scatter, taken on the fitted axis
+// (relative for ln|y| fits).
+// Split models combine both sides in the overlap as independent fits.
+export const calculateInterpolationUncertainty = (xInput: number, reg: RegressionResult, model: CurveModel, band: PredictionBand): number => {
   if (reg.n < 3) return 0;
+  const scatter = (variance: number, relativeTo?: number) => {
+      if (band === 'confidence') return variance;
+      const s = relativeTo !== undefined ? reg.residualStdDev * relativeTo : reg.residualStdDev;
+      return variance + s * s;
+  };
 
   if (model === 'piecewise_mixed' && reg.subModels) {
-      // Conservative estimate for split models
-      return reg.residualStdDev; 
+      const { low, high } = reg.subModels;
+      // Regressions stored before the covariance was kept: the residual scatter only
+      if (!low.covariance || !high.covariance) return reg.residualStdDev;
+      const variance = (side: typeof low) => side.basis
+          ? propagateBasisCovariance(xInput, side.type, side.coeffs, side.basis)
+          : propagateCovariance(xInput, side.type, side.coeffs, side.covariance!);
+      // The residual scatter of the split model is taken on y
+      if (xInput <= high.limit) return Math.sqrt(scatter(variance(low)));
+      if (xInput >= low.limit) return Math.sqrt(scatter(variance(high)));
+      const alpha = (xInput - high.limit) / (low.limit - high.limit);
+      return Math.sqrt(scatter((1 - alpha) * (1 - alpha) * variance(low) + alpha * alpha * variance(high)));
   }
 
+  const yPred = evaluateRegression(xInput, model, reg);
+  const isRelative = model === 'power' || model === 'exponential';
+  if (reg.basis) return Math.sqrt(scatter(propagateBasisCovariance(xInput, model, reg.coefficients, reg.basis), isRelative ? yPred : undefined));
+  if (reg.covariance) return Math.sqrt(scatter(propagateCovariance(xInput, model, reg.coefficients, reg.covariance), isRelative ? yPred : undefined));
+
+  // Regressions stored before the covariance was kept: straight-line approximation on the fitted axis
   let xTrans = xInput;
   if (model === 'power' || model === 'logarithmic') {
-      if (xInput <= 0) return reg.residualStdDev * 2;
-      xTrans = Math.log(xInput);
+      if (xInput === 0) return reg.residualStdDev;
+      xTrans = Math.log(Math.abs(xInput));
   }
-
-  const { residualStdDev, xBar, sumSqDiffX, n, anova } = reg;
-  // If Anova is undefined (Theil-Sen), use n-2
-  const df = anova ? anova.dfRes : n - 2;
-  const t = getTStudentCrit(df);
-
+  const { residualStdDev, xBar, sumSqDiffX, n } = reg;
   if (sumSqDiffX === 0) return residualStdDev;
 
-  const term = 1 + (1/n) + (Math.pow(xTrans - xBar, 2) / sumSqDiffX);
-  let u = t * residualStdDev * Math.sqrt(term);
-  
-  if (model === 'power' || model === 'exponential') {
-    const yPred = predictValue(xInput, model, reg.coefficients);
-    u = Math.abs(yPred * u);
-  }
+  const term = (band === 'prediction' ? 1 : 0) + (1/n) + (Math.pow(xTrans - xBar, 2) / sumSqDiffX);
+  let u = residualStdDev * Math.sqrt(term);
+  if (isRelative) u = Math.abs(yPred * u);
   return u;
 };
 
+// Standard uncertainties of the reference values and, for GLS, the correlation matrix of the certificate
+// u(x) of the indication combines its resolution (rectangular) and repeatability.
+export const buildStandardWeighting = (points: StandardCalibrationPoint[], fitMethod: FitMethod, correlations: PointCorrelation[] = [], resolution: number = 0): RegressionWeighting | undefined => {
+  if (fitMethod === 'ols') return undefined;
+  const uncertainties = points.map(p => p.uncertainty / getDistributionDivisor(p.distribution, p.coverageFactor || 2));
+  const xUncertainties = points.map(p => Math.sqrt(resolution * resolution / 12 + Math.pow(p.indicationStdDev || 0, 2)));
+  if (fitMethod === 'wls') return { uncertainties, xUncertainties };
+
+  const index = new Map(points.map((p, i) => [p.id, i]));
+  const R = points.map((_, i) => points.map((_, j): number => i === j ? 1 : 0));
+  correlations.forEach(c => {
+      const a = index.get(c.pointA);
+      const b = index.get(c.pointB);
+      if (a === undefined || b === undefined || a === b) return;
+      R[a][b] = R[b][a] = c.coefficient;
+  });
+  return { uncertainties, correlations: R, xUncertainties };
+};
+
 export const fitStandardModels = (
     points: StandardCalibrationPoint[], 
     valModel: CurveModel, 
     uncModel: CurveModel,
     valSubModels: { low: CurveModel, high: CurveModel } = { low: 'linear_pearson', high: 'linear_pearson' },
-    uncSubModels: { low: CurveModel, high: CurveModel } = { low: 'linear_pearson', high: 'linear_pearson' }
+    uncSubModels: { low: CurveModel, high: CurveModel } = { low: 'linear_pearson', high: 'linear_pearson' },
+    significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL,
+    valFitMethod: FitMethod = 'ols',
+    correlations: PointCorrelation[] = [],
+    resolution: number = 0
 ) => {
   const xVal = points.map(p => p.indication);
   const yVal = points.map(p => p.referenceValue);
+  // WTLS is weighted by construction
+  const weighting = buildStandardWeighting(points, valModel === 'linear_wtls' && valFitMethod === 'ols' ? 'wls' : valFitMethod, correlations, resolution);
   
   let minAICc = Infinity;
 
   // Auto-compare basic models for recommendation
   ['linear_pearson', 'polynomial_2nd'].forEach(m => {
-      const reg = calculateRegression(xVal, yVal, m as CurveModel, false);
+      const reg = calculateRegression(xVal, yVal, m as CurveModel, false, undefined, false, significanceLevel, weighting);
       if (reg.isParametricValid && reg.modelQuality !== 'INVALID') {
           if (reg.aicc < minAICc) minAICc = reg.aicc;
       }
@@ -657,7 +1432,7 @@ export const fitStandardModels = (
 
   // Calculate Selected Value Model
   // Important: Pass submodels configuration!
-  let valueReg = calculateRegression(xVal, yVal, valModel, false, valSubModels);
+  let valueReg = calculateRegression(xVal, yVal, valModel, false, valSubModels, false, significanceLevel, weighting);
   
   if (valueReg.isParametricValid && valModel !== 'piecewise_mixed' && valModel !== 'linear_theil_sen') {
       const valDeltaAIC = valueReg.aicc - minAICc;
@@ -673,7 +1448,7 @@ export const fitStandardModels = (
   // Calculate Selected Uncertainty Model
   const xUnc = points.map(p => p.referenceValue);
   const yUnc = points.map(p => p.uncertainty / (p.coverageFactor || 2)); 
-  const uncReg = calculateRegression(xUnc, yUnc, uncModel, true, uncSubModels);
+  const uncReg = calculateRegression(xUnc, yUnc, uncModel, true, uncSubModels, false, significanceLevel);
 
   return { valueReg, uncReg };
 };
@@ -0,0 +1,145 @@
+import { BudgetComponent, MonteCarloResult, UncertaintyBudget } from '../types';
+
+// Maximum number of trials of the adaptive procedure
+export const MONTE_CARLO_TRIAL_OPTIONS = [100000, 1000000];
+
+// --- RANDOM VARIATES ---
+
+// Box-Muller (one variate per call, the pair partner is discarded for simplicity)
+export const sampleStandardNormal = (): number => {
+    let u1 = Math.random();
+    while (u1 <= Number.MIN_VALUE) u1 = Math.random();
+    const u2 = Math.random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Student t with ν degrees of freedom: Z / sqrt(χ²_ν / ν)
+export const sampleStudentT = (dof: number): number => {
+    const z = sampleStandardNormal();
+    if (!isFinite(dof) || dof > 200) return z;
+    const nu = Math.max(1, Math.round(dof));
+    let chi2 = 0;
+    for (let i = 0; i < nu; i++) chi2 += Math.pow(sampleStandardNormal(), 2);
+    return z / Math.sqrt(chi2 / nu);
+};
+
+// Draws the deviation from the estimate of a budget input according to its PDF (JCGM 101 §6.4)
+export const sampleComponent = (c: BudgetComponent): number => {
+    if (c.standardUncertainty === 0) return 0;
+    switch (c.distribution) {
+        case 'Rectangular':
+            return c.value * (2 * Math.random() - 1);
+        case 'Triangular':
+            return c.value * (Math.random() + Math.random() - 1);
+        case 'U-Shaped':
+            return c.value * Math.sin(2 * Math.PI * Math.random());
+        default: {
+            // Scaled and shifted t for Type A inputs with finite ν (JCGM 101 §6.4.9)
+            if (c.evaluationType === 'A' && isFinite(c.degreesOfFreedom) && c.degreesOfFreedom > 2) {
+                const scale = c.standardUncertainty * Math.sqrt((c.degreesOfFreedom - 2) / c.degreesOfFreedom);
+                return scale * sampleStudentT(c.degreesOfFreedom);
+            }
+            return c.standardUncertainty * sampleStandardNormal();
+        }
+    }
+};
+
+// --- PROPAGATION ---
+
+// Numerical tolerance δ of u_c expressed with nDig significant digits (JCGM 101 §7.9.2)
+export const calculateNumericalTolerance = (uc: number, nDig: number = 2): number => {
+    if (uc <= 0) return 0;
+    const l = Math.floor(Math.log10(uc)) - (nDig - 1);
+    return 0.5 * Math.pow(10, l);
+};
+
+// Coverage interval [y_low, y_high] of a sorted sample, probabilistically symmetric (JCGM 101 §7.7)
+const coverageInterval = (sorted: Float64Array, p: number): [number, number] => {
+    const M = sorted.length;
+    const q = Math.floor(p * M + 0.5);
+    const r = Math.max(1, Math.floor((M - q) / 2 + 0.5));
+    return [sorted[r - 1], sorted[Math.min(M - 1, r + q - 1)]];
+};
+
+interface BatchSummary {
+    mean: number;
+    u: number;
+    low: number;
+    high: number;
+}
+
+const summarizeBatch = (values: Float64Array, p: number): BatchSummary => {
+    const M = values.length;
+    let sum = 0;
+    for (let i = 0; i < M; i++) sum += values[i];
+    const mean = sum / M;
+    let sq = 0;
+    for (let i = 0; i < M; i++) sq += Math.pow(values[i] - mean, 2);
+    const [low, high] = coverageInterval(Float64Array.from(values).sort(), p);
+    return { mean, u: Math.sqrt(sq / (M - 1)), low, high };
+};
+
+// Standard deviation of the mean of one batch statistic over the h batches
+const batchStandardError = (batches: BatchSummary[], key: keyof BatchSummary): number => {
+    const h = batches.length;
+    const mean = batches.reduce((a, b) => a + b[key], 0) / h;
+    return Math.sqrt(batches.reduce((a, b) => a + Math.pow(b[key] - mean, 2), 0) / (h * (h - 1)));
+};
+
+// Adaptive Monte Carlo (JCGM 101 §7.9): batches of M = max(100/(1 − p), 10⁴) trials until twice the
+// standard error of y, u(y), y_low and y_high is within δ, or `maxTrials` (never fewer than two batches)
+// is reached. `model` receives a sampler returning the deviation drawn for a budget component and must
+// return one value of the output quantity. The GUM check is only conclusive once the results are stable.
+export const runMonteCarlo = (
+    model: (draw: (c: BudgetComponent) => number) => number,
+    maxTrials: number,
+    gumEstimate: number,
+    gumBudget: UncertaintyBudget
+): MonteCarloResult => {
+    const p = gumBudget.coverageProbability / 100;
+    const batchSize = Math.max(Math.ceil(100 / (1 - p)), 10000);
+    const maxBatches = Math.max(2, Math.round(maxTrials / batchSize));
+    const values = new Float64Array(maxBatches * batchSize);
+    const batches: BatchSummary[] = [];
+    let stable = false;
+
+    while (batches.length < maxBatches && !stable) {
+        const batch = values.subarray(batches.length * batchSize, (batches.length + 1) * batchSize);
+        for (let i = 0; i < batchSize; i++) batch[i] = model(sampleComponent);
+        batches.push(summarizeBatch(batch, p));
+        if (batches.length < 2) continue;
+
+        // u(y) of all h·M values from the batch means and variances
+        const h = batches.length;
+        const grandMean = batches.reduce((a, b) => a + b.mean, 0) / h;
+        const pooled = batches.reduce((a, b) => a + (batchSize - 1) * b.u * b.u + batchSize * Math.pow(b.mean - grandMean, 2), 0);
+        const delta = calculateNumericalTolerance(Math.sqrt(pooled / (h * batchSize - 1)));
+        stable = (['mean', 'u', 'low', 'high'] as const).every(key => 2 * batchStandardError(batches, key) <= delta);
+    }
+
+    const all = values.subarray(0, batches.length * batchSize);
+    const M = all.length;
+    let sum = 0;
+    for (let i = 0; i < M; i++) sum += all[i];
+    const mean = sum / M;
+    let sq = 0;
+    for (let i = 0; i < M; i++) sq += Math.pow(all[i] - mean, 2);
+    const standardUncertainty = Math.sqrt(sq / (M - 1));
+    const [low, high] = coverageInterval(all.sort(), p);
+
+    // JCGM 101 §8: GUM validated when both interval endpoints agree within δ
+    const U = gumBudget.expandedUncertainty;
+    const gumInterval: [number, number] = [gumEstimate - U, gumEstimate + U];
+    const dLow = Math.abs(gumInterval[0] - low);
+    const dHigh = Math.abs(gumInterval[1] - high);
+    const tolerance = calculateNumericalTolerance(standardUncertainty);
+
+    return {
+        trials: M,
+        mean,
+        standardUncertainty,
+        coverageProbability: gumBudget.coverageProbability,
+        coverageInterval: [low, high],
+        validation: { gumInterval, dLow, dHigh, tolerance, stable, passed: stable && dLow <= tolerance && dHigh <= tolerance }
+    };
+};
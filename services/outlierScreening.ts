@@ -0,0 +1,95 @@
+import { CalibrationPoint, CheckPointResult, OutlierAction, OutlierDecision, OutlierFinding, OutlierTest, OutlierTestResult, SequenceType, SeriesKey } from '../types';
+import { grubbsTest, dixonTest, cochranTest, DEFAULT_SIGNIFICANCE_LEVEL } from './mathUtils';
+import { SEQUENCE_DEFINITIONS } from './calibrationLogic';
+
+export const OUTLIER_TEST_LABELS: Record<OutlierTest, string> = {
+    grubbs: 'Grubbs',
+    dixon: 'Dixon',
+    cochran: 'Cochran (varianzas)'
+};
+
+export const OUTLIER_ACTION_LABELS: Record<OutlierAction, string> = {
+    keep: 'Conservado',
+    repeat: 'Repetido'
+};
+
+const varianceOf = (values: number[]): number => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (values.length - 1);
+};
+
+// Single suspect value of a sample: Grubbs first, Dixon when Grubbs does not flag it (Dixon only at α = 0.05)
+const screenSample = (values: number[], alpha: number): OutlierTestResult | undefined => {
+    const grubbs = grubbsTest(values, alpha);
+    if (grubbs?.isOutlier) return grubbs;
+    const dixon = dixonTest(values, alpha);
+    return dixon?.isOutlier ? dixon : undefined;
+};
+
+// Series of the same loading direction: up and down readings differ by the hysteresis, which is
+// not an outlier, so they are never pooled into one sample
+const DIRECTIONS: SeriesKey[][] = [['run1Up', 'run2Up'], ['run1Down', 'run2Down']];
+
+// Within-direction variances of the points against each other (Cochran), using the points where every
+// series was captured. Grubbs / Dixon need three readings of one direction at a point, which no sequence
+// provides, so they are applied to the intermediate checks only
+export const screenCalibrationOutliers = (points: CalibrationPoint[], sequence: SequenceType, alpha: number = DEFAULT_SIGNIFICANCE_LEVEL): OutlierFinding[] => {
+    const series = SEQUENCE_DEFINITIONS[sequence].series;
+    const groups = DIRECTIONS.map(d => d.filter(k => series.includes(k))).filter(g => g.length > 0);
+    const findings: OutlierFinding[] = [];
+    const complete = points.filter(p => series.every(k => p[k] !== undefined && p[k] !== null && !isNaN(p[k]!)));
+
+    // Pooled variance about the up and down means: ν = readings − directions
+    const dof = series.length - groups.length;
+    if (dof >= 1) {
+        const variances = complete.map(p => groups.reduce((sum, group) => {
+            const values = group.map(k => p[k]!);
+            const mean = values.reduce((a, b) => a + b, 0) / values.length;
+            return sum + values.reduce((a, b) => a + Math.pow(b - mean, 2), 0);
+        }, 0) / dof);
+        const cochran = cochranTest(variances, dof + 1, alpha);
+        if (cochran?.isOutlier) {
+            findings.push({ test: 'cochran', nominal: complete[cochran.index].nominal, value: variances[cochran.index], statistic: cochran.statistic, criticalValue: cochran.criticalValue, significanceLevel: alpha });
+        }
+    }
+    return findings;
+};
+
+// Readings of an intermediate check (Grubbs / Dixon) and its variance against the previous checks
+// of the same point (Cochran); only the new check is reported
+export const screenCheckReadings = (nominal: number, readings: number[], history: CheckPointResult[] = [], alpha: number = DEFAULT_SIGNIFICANCE_LEVEL): OutlierFinding[] => {
+    const findings: OutlierFinding[] = [];
+    const result = screenSample(readings, alpha);
+    if (result) findings.push({ test: result.test, nominal, readingIndex: result.index, value: readings[result.index], statistic: result.statistic, criticalValue: result.criticalValue, significanceLevel: alpha });
+
+    const groups = history.filter(h => h.readings.length === readings.length);
+    if (readings.length >= 2 && groups.length > 0) {
+        const variances = [...groups.map(h => varianceOf(h.readings)), varianceOf(readings)];
+        const cochran = cochranTest(variances, readings.length, alpha);
+        if (cochran?.isOutlier && cochran.index === groups.length) {
+            findings.push({ test: 'cochran', nominal, value: variances[cochran.index], statistic: cochran.statistic, criticalValue: cochran.criticalValue, significanceLevel: alpha });
+        }
+    }
+    return findings;
+};
+
+// A decision covers a finding while the suspect value is unchanged
+export const isDecisionFor = (decision: OutlierDecision, finding: OutlierFinding): boolean => {
+    return decision.test === finding.test && decision.nominal === finding.nominal && decision.series === finding.series &&
+        decision.readingIndex === finding.readingIndex && decision.value === finding.value;
+};
+
+// Only keeping a value settles it: a repeated reading that is still suspect needs a new decision
+export const getPendingOutliers = (findings: OutlierFinding[], decisions: OutlierDecision[]): OutlierFinding[] => {
+    return findings.filter(f => !decisions.some(d => d.action === 'keep' && isDecisionFor(d, f)));
+};
+
+// Decisions kept on the record: every repetition, and the kept values still present in the data
+export const getRecordedDecisions = (findings: OutlierFinding[], decisions: OutlierDecision[]): OutlierDecision[] => {
+    return decisions.filter(d => d.action === 'repeat' || findings.some(f => isDecisionFor(d, f)));
+};
+
+export const describeOutlier = (finding: OutlierFinding, unit: string = ''): string => {
+    const where = finding.test === 'cochran' ? `varianza ${finding.value.toPrecision(3)}` : `lectura ${finding.value}${unit ? ` ${unit}` : ''}`;
+    return `${OUTLIER_TEST_LABELS[finding.test]}: ${where} (estadístico ${finding.statistic.toFixed(3)} > ${finding.criticalValue.toFixed(3)}, α = ${finding.significanceLevel ?? DEFAULT_SIGNIFICANCE_LEVEL})`;
+};
@@ -0,0 +1,60 @@
+import { PistonMass, PressureBalanceConfig } from '../types';
+
+// Additive deviations applied to the inputs of the pressure balance equation (sensitivities / Monte Carlo)
+export interface BalanceDeviations {
+    mass?: number;        // kg on the total loaded mass
+    area?: number;        // m² on A0
+    lambda?: number;      // 1/Pa on λ
+    temperature?: number; // °C on the piston temperature
+    gravity?: number;     // m/s²
+    airDensity?: number;  // kg/m³
+}
+
+// The piston (and its carrier) is always part of the load
+export const getLoadedMasses = (config: PressureBalanceConfig, massIds: string[] = []): PistonMass[] => {
+    return config.masses.filter(m => m.isPiston || massIds.includes(m.id));
+};
+
+// Expanded uncertainty (k = 2) of the total load; the masses are treated as uncorrelated
+export const calculateLoadUncertainty = (config: PressureBalanceConfig, massIds: string[] = []): number => {
+    return Math.sqrt(getLoadedMasses(config, massIds).reduce((acc, m) => acc + Math.pow(m.uncertainty, 2), 0));
+};
+
+// Generated pressure (Pa) at the piston reference level:
+// p = Σ m_i·g·(1 − ρ_a/ρ_i) / [A0·(1 + λ·p)·(1 + (α_p + α_c)·(t − t_ref))]
+// The implicit λ term is solved in closed form: λ·p² + p − p0 = 0
+export const calculateBalancePressure = (
+    config: PressureBalanceConfig,
+    massIds: string[],
+    gravity: number,
+    airDensity: number,
+    pistonTemp: number,
+    dev: BalanceDeviations = {}
+): number => {
+    const masses = getLoadedMasses(config, massIds);
+    const totalMass = masses.reduce((acc, m) => acc + m.value, 0);
+    if (totalMass <= 0) return 0;
+
+    const rhoA = airDensity + (dev.airDensity || 0);
+    // Buoyancy factor weighted by each mass (different densities)
+    const buoyantMass = masses.reduce((acc, m) => acc + m.value * (1 - rhoA / m.density), 0) * (1 + (dev.mass || 0) / totalMass);
+    const g = gravity + (dev.gravity || 0);
+    const area = config.effectiveArea + (dev.area || 0);
+    const thermal = 1 + (config.pistonExpansion + config.cylinderExpansion) * (pistonTemp + (dev.temperature || 0) - config.referenceTemperature);
+    const lambda = config.distortionCoefficient + (dev.lambda || 0);
+
+    const p0 = buoyantMass * g / (area * thermal);
+    if (Math.abs(lambda * p0) < 1e-15) return p0;
+    return (-1 + Math.sqrt(1 + 4 * lambda * p0)) / (2 * lambda);
+};
+
+// Greedy choice of masses (largest first) approaching a target pressure; the piston is always loaded
+export const suggestMassCombination = (config: PressureBalanceConfig, targetPa: number, gravity: number, airDensity: number, pistonTemp: number): string[] => {
+    const selected: string[] = [];
+    const candidates = config.masses.filter(m => !m.isPiston).sort((a, b) => b.value - a.value);
+    candidates.forEach(m => {
+        const withMass = calculateBalancePressure(config, [...selected, m.id], gravity, airDensity, pistonTemp);
+        if (withMass <= targetPa * (1 + 1e-9)) selected.push(m.id);
+    });
+    return selected;
+};
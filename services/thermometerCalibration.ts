@@ -0,0 +1,172 @@
+import { BudgetComponent, CorrectionCurveModel, CurveModel, DecisionRule, ReferenceStandard, RegressionResult, ThermometerCurve, ThermometerKind, ThermometerPoint, ThermometerPointResult, ThermometerTableRow, Unit } from '../types';
+import { combineUncertaintyBudget, meanOf, calculateRegression, evaluateRegression, calculateInterpolationUncertainty, calculateCallendarVanDusenResistance, getIts90ParameterCount, IEC_60751_COEFFICIENTS } from './mathUtils';
+import { correctEnvReading } from './environment';
+import { rectangularComponent, normalComponent, typeAComponent, interpolateCalibrationUncertainty } from './calibrationLogic';
+import { evaluateConformity } from './conformity';
+
+export const THERMOMETER_KIND_LABELS: Record<ThermometerKind, string> = {
+    direct: 'Lectura directa (digital / líquido en vidrio)',
+    prt: 'Termorresistencia (PRT / RTD)',
+    thermocouple: 'Termopar'
+};
+
+export const THERMOMETER_INDICATION_UNITS: Record<ThermometerKind, Unit> = {
+    direct: Unit.Celcius,
+    prt: Unit.Ohm,
+    thermocouple: Unit.MilliVolt
+};
+
+// Candidates of the automatic selection for each kind of sensor
+export const THERMOMETER_CURVE_MODELS: Record<ThermometerKind, CurveModel[]> = {
+    direct: ['linear_pearson', 'polynomial_2nd', 'polynomial_3rd'],
+    prt: ['callendar_van_dusen', 'its90_deviation', 'polynomial_2nd', 'polynomial_3rd'],
+    thermocouple: ['linear_pearson', 'polynomial_2nd', 'polynomial_3rd']
+};
+
+export const DEFAULT_THERMOMETER_SET_POINTS = [0, 50, 100, 150, 200];
+
+// Nominal Pt100 (IEC 60751) and type K (≈ 41 µV/°C) indications to prefill the readings
+export const estimateIndication = (kind: ThermometerKind, temperature: number): number => {
+    if (kind === 'prt') return parseFloat(calculateCallendarVanDusenResistance(temperature, [100, IEC_60751_COEFFICIENTS.A, IEC_60751_COEFFICIENTS.B, IEC_60751_COEFFICIENTS.C]).toFixed(3));
+    if (kind === 'thermocouple') return parseFloat((0.041 * temperature).toFixed(3));
+    return temperature;
+};
+
+export const createThermometerPoint = (kind: ThermometerKind, setTemp: number, readings: number): ThermometerPoint => ({
+    setTemp,
+    reference: new Array(readings).fill(setTemp),
+    indication: new Array(readings).fill(estimateIndication(kind, setTemp)),
+    bath: { uniformity: 0, stability: 0, immersion: 0 }
+});
+
+// dt/dx between the neighbouring points; the nominal characteristic when only one point was measured
+const localSensitivities = (kind: ThermometerKind, temps: number[], indications: number[]): number[] => {
+    if (kind === 'direct') return temps.map(() => 1);
+    const order = temps.map((_, i) => i).sort((a, b) => temps[a] - temps[b]);
+    return temps.map((t, i) => {
+        const pos = order.indexOf(i);
+        const lo = order[Math.max(0, pos - 1)], hi = order[Math.min(order.length - 1, pos + 1)];
+        if (lo !== hi && indications[hi] !== indications[lo]) return (temps[hi] - temps[lo]) / (indications[hi] - indications[lo]);
+        return 2 / (estimateIndication(kind, t + 1) - estimateIndication(kind, t - 1));
+    });
+};
+
+// Temperature assigned to the indication: t = t̄_std + δ_unif + δ_estab + δ_inm. For direct reading the
+// budget is that of the error E = x̄ − t, so the bath terms enter with c = −1.
+export const evaluateThermometerPoints = (
+    points: ThermometerPoint[],
+    standard: ReferenceStandard,
+    kind: ThermometerKind,
+    resolution: number,
+    tolerance?: number,
+    rule?: DecisionRule
+): ThermometerPointResult[] => {
+    const corrected = points.map(p => p.reference.map(r => correctEnvReading(standard, 'temp', r)));
+    const temps = corrected.map(c => meanOf(c.map(v => v.value)));
+    const indications = points.map(p => meanOf(p.indication));
+    const sensitivities = localSensitivities(kind, temps, indications);
+    const c = kind === 'direct' ? -1 : 1;
+
+    return points.map((p, i) => {
+        const reference = temps[i];
+        const sensitivity = sensitivities[i];
+        const components = [
+            normalComponent('δt,std', 'Patrón (calibración, modelo y resolución)', Math.max(...corrected[i].map(v => v.uncertainty)), 1, c, reference),
+            typeAComponent('δt,rep,std', 'Repetibilidad del patrón', corrected[i].map(v => v.value), c),
+            rectangularComponent('δt,unif', 'Uniformidad del baño', 2 * p.bath.uniformity, c),
+            rectangularComponent('δt,estab', 'Estabilidad del baño', p.bath.stability, c),
+            rectangularComponent('δt,inm', 'Profundidad de inmersión', 2 * p.bath.immersion, c),
+            typeAComponent('δx,rep', 'Repetibilidad del instrumento', p.indication, sensitivity),
+            rectangularComponent('δx,res', 'Resolución del instrumento', resolution, sensitivity)
+        ].filter((comp): comp is BudgetComponent => !!comp);
+        const budget = combineUncertaintyBudget(components);
+        const error = kind === 'direct' ? indications[i] - reference : undefined;
+
+        return {
+            setTemp: p.setTemp,
+            reference,
+            indication: indications[i],
+            sensitivity,
+            error,
+            budget,
+            expandedUncertainty: budget.expandedUncertainty,
+            conformity: error !== undefined && tolerance
+                ? evaluateConformity(error, budget.expandedUncertainty, budget.combinedStandardUncertainty, tolerance, rule)
+                : undefined
+        };
+    });
+};
+
+const parameterCount = (model: CurveModel, temps: number[]): number => {
+    switch (model) {
+        case 'polynomial_2nd': return 3;
+        case 'polynomial_3rd': return 4;
+        case 'callendar_van_dusen': return temps.some(t => t < 0) ? 4 : 3;
+        case 'its90_deviation': return getIts90ParameterCount(temps);
+        default: return 2;
+    }
+};
+
+// Indication giving the temperature t on the fitted (monotonic) curve, by bisection over the calibrated indications
+const invertCurve = (t: number, model: CurveModel, regression: RegressionResult, lo: number, hi: number): number => {
+    const f = (x: number) => evaluateRegression(x, model, regression);
+    const increasing = f(hi) >= f(lo);
+    for (let i = 0; i < 80; i++) {
+        const mid = (lo + hi) / 2;
+        if ((f(mid) < t) === increasing) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+};
+
+// Rows on multiples of the step over the calibrated range: of the indication for direct reading
+// (correction C = t − x), of the temperature for resistance and EMF sensors
+const buildThermometerTable = (results: ThermometerPointResult[], kind: ThermometerKind, model: CurveModel, regression: RegressionResult, step: number): ThermometerTableRow[] => {
+    if (!(step > 0)) return [];
+    const xs = results.map(r => r.indication);
+    const ts = results.map(r => r.reference);
+    const axis = kind === 'direct' ? xs : ts;
+    const from = Math.ceil((Math.min(...axis) - step * 0.01) / step) * step;
+    const to = Math.floor((Math.max(...axis) + step * 0.01) / step) * step;
+    const count = Math.min(Math.round((to - from) / step), 500);
+    const rows: ThermometerTableRow[] = [];
+    for (let i = 0; i <= count; i++) {
+        const value = parseFloat((from + i * step).toPrecision(10));
+        const indication = kind === 'direct' ? value : invertCurve(value, model, regression, Math.min(...xs), Math.max(...xs));
+        const temperature = kind === 'direct' ? evaluateRegression(value, model, regression) : value;
+        const u_cal = interpolateCalibrationUncertainty(temperature, results, r => r.reference);
+        const u_fit = calculateInterpolationUncertainty(indication, regression, model, 'prediction');
+        rows.push({
+            temperature,
+            indication,
+            correction: kind === 'direct' ? temperature - indication : undefined,
+            uncertainty: 2 * Math.sqrt(u_cal * u_cal + u_fit * u_fit)
+        });
+    }
+    return rows;
+};
+
+// Temperature as a function of the indication. 'auto' keeps the valid candidate of minimum AICc that
+// leaves at least two residual degrees of freedom.
+export const fitThermometerCurve = (results: ThermometerPointResult[], kind: ThermometerKind, model: CorrectionCurveModel, step: number, significanceLevel?: number): ThermometerCurve | undefined => {
+    if (results.length < 3) return undefined;
+    const sorted = [...results].sort((a, b) => a.indication - b.indication);
+    const x = sorted.map(r => r.indication);
+    const y = sorted.map(r => r.reference);
+
+    const candidates = model === 'auto'
+        ? THERMOMETER_CURVE_MODELS[kind].filter(m => results.length - parameterCount(m, y) >= 2)
+        : [model];
+    const fits = candidates.map(m => ({ model: m, regression: calculateRegression(x, y, m, false, undefined, true, significanceLevel) }))
+        .filter(f => f.regression.n >= 3);
+    if (fits.length === 0) return undefined;
+    const valid = fits.filter(f => f.regression.modelQuality !== 'INVALID');
+    const best = (valid.length > 0 ? valid : fits).reduce((a, b) => b.regression.aicc < a.regression.aicc ? b : a);
+
+    return {
+        model: best.model,
+        selection: model,
+        regression: best.regression,
+        step,
+        table: buildThermometerTable(results, kind, best.model, best.regression, step)
+    };
+};
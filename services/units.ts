@@ -0,0 +1,55 @@
+import { Unit } from '../types';
+
+export type PhysicalQuantity = 'pressure' | 'temperature' | 'humidity' | 'length' | 'current' | 'voltage' | 'resistance';
+
+// Linear factor to the SI/base unit of each quantity (no unit with an offset is defined)
+const UNIT_DEFINITIONS: Record<Unit, { quantity: PhysicalQuantity, toBase: number }> = {
+    [Unit.Pascal]: { quantity: 'pressure', toBase: 1 },
+    [Unit.HPa]: { quantity: 'pressure', toBase: 100 },
+    [Unit.MBar]: { quantity: 'pressure', toBase: 100 },
+    [Unit.KPa]: { quantity: 'pressure', toBase: 1000 },
+    [Unit.MPa]: { quantity: 'pressure', toBase: 1e6 },
+    [Unit.Bar]: { quantity: 'pressure', toBase: 1e5 },
+    [Unit.Psi]: { quantity: 'pressure', toBase: 6894.757293168 },
+    [Unit.Celcius]: { quantity: 'temperature', toBase: 1 },
+    [Unit.PercentRH]: { quantity: 'humidity', toBase: 1 },
+    [Unit.Millimeter]: { quantity: 'length', toBase: 1e-3 },
+    [Unit.Centimeter]: { quantity: 'length', toBase: 1e-2 },
+    [Unit.Meter]: { quantity: 'length', toBase: 1 },
+    [Unit.MilliAmpere]: { quantity: 'current', toBase: 1e-3 },
+    [Unit.Volt]: { quantity: 'voltage', toBase: 1 },
+    [Unit.MilliVolt]: { quantity: 'voltage', toBase: 1e-3 },
+    [Unit.Ohm]: { quantity: 'resistance', toBase: 1 }
+};
+
+export class UnitMismatchError extends Error {
+    constructor(public from: Unit, public to: Unit, public context?: string) {
+        super(`Unidades incompatibles${context ? ` (${context})` : ''}: ${from} [${getQuantity(from)}] no se puede convertir a ${to} [${getQuantity(to)}]`);
+        this.name = 'UnitMismatchError';
+    }
+}
+
+export const getQuantity = (unit: Unit): PhysicalQuantity => {
+    const def = UNIT_DEFINITIONS[unit];
+    if (!def) throw new Error(`Unidad desconocida: ${unit}`);
+    return def.quantity;
+};
+
+export const isPressureUnit = (unit: Unit): boolean => UNIT_DEFINITIONS[unit]?.quantity === 'pressure';
+
+export const isElectricalUnit = (unit: Unit): boolean => ['current', 'voltage'].includes(UNIT_DEFINITIONS[unit]?.quantity);
+
+export const assertSameQuantity = (from: Unit, to: Unit, context?: string) => {
+    if (getQuantity(from) !== getQuantity(to)) throw new UnitMismatchError(from, to, context);
+};
+
+// Factor f such that value[to] = f · value[from]; valid for values, differences and uncertainties
+export const getConversionFactor = (from: Unit, to: Unit, context?: string): number => {
+    if (from === to) return 1;
+    assertSameQuantity(from, to, context);
+    return UNIT_DEFINITIONS[from].toBase / UNIT_DEFINITIONS[to].toBase;
+};
+
+export const convertValue = (value: number, from: Unit, to: Unit, context?: string): number => {
+    return value * getConversionFactor(from, to, context);
+};
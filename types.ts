@@ -19,7 +19,11 @@ export enum Unit {
   PercentRH = '%RH',
   Millimeter = 'mm',
   Centimeter = 'cm',
-  Meter = 'm'
+  Meter = 'm',
+  MilliAmpere = 'mA',
+  Volt = 'V',
+  MilliVolt = 'mV',
+  Ohm = 'Ω'
 }
 
 export enum StandardType {
@@ -28,7 +32,9 @@ export enum StandardType {
   Temperature = 'temperature',
   Humidity = 'humidity',
   Dimensional = 'dimensional',
-  Thermohygrometer = 'thermohygrometer'
+  Thermohygrometer = 'thermohygrometer',
+  Electrical = 'electrical',  // DMM / process calibrator reading transmitter outputs
+  PressureBalance = 'pressure_balance'   // Piston gauge / deadweight tester
 }
 
 export enum CalibrationFluid {
@@ -40,15 +46,28 @@ export enum CalibrationFluid {
 export type CurveModel = 
   | 'linear_pearson'    
   | 'linear_theil_sen'  
+  | 'linear_wtls'       // Errors in both x and y (ISO/TS 28037 §7)
   | 'piecewise_mixed'   // Regresión Doble Flexible (Cualquier combinación)
   | 'polynomial_2nd' 
   | 'polynomial_3rd' 
   | 'power'             
   | 'exponential'       
-  | 'logarithmic';
+  | 'logarithmic'
+  | 'callendar_van_dusen' // PRT: R(t) per IEC 60751, x = resistance
+  | 'its90_deviation';    // PRT: ITS-90 deviation function on W = R/R_tpw
 
 export type ProbabilityDistribution = 'Normal' | 'Rectangular' | 'Triangular' | 'U-Shaped';
 
+// Least squares of the correction curve: ordinary, weighted by the certified uncertainties, or generalized (ISO/TS 28037)
+export type FitMethod = 'ols' | 'wls' | 'gls';
+
+// Standard uncertainties of y and, for GLS, their correlation matrix (same order as the data)
+export interface RegressionWeighting {
+    uncertainties: number[];
+    correlations?: number[][];
+    xUncertainties?: number[];   // Standard uncertainties of x (WTLS only)
+}
+
 export interface StandardCalibrationPoint {
   id: string;
   nominal: number;       
@@ -58,6 +77,14 @@ export interface StandardCalibrationPoint {
   coverageFactor: number;
   confidenceLevel: number;
   distribution: ProbabilityDistribution;
+  indicationStdDev?: number;   // Repeatability of the indication (standard deviation of the mean)
+}
+
+// Correlation coefficient between the reference values of two points, as stated in the certificate
+export interface PointCorrelation {
+  pointA: string;   // StandardCalibrationPoint ids
+  pointB: string;
+  coefficient: number;
 }
 
 export interface CheckPointResult {
@@ -66,6 +93,7 @@ export interface CheckPointResult {
     mean: number;
     stdDev: number;
     range: number;
+    outlierDecisions?: OutlierDecision[];
 }
 
 export interface IntermediateCheck {
@@ -105,10 +133,43 @@ export interface ValidationStepResult {
     statisticName: string;
     statisticValue: number;
     criticalValue: number;
+    pValue?: number;        // Probability of a statistic at least as extreme under the null hypothesis
     details: string;
     isNotApplicable?: boolean;
 }
 
+// --- Outlier screening ---
+export type OutlierTest = 'grubbs' | 'dixon' | 'cochran';
+
+export interface OutlierTestResult {
+    test: OutlierTest;
+    n: number;              // Values (Grubbs / Dixon) or groups (Cochran)
+    index: number;          // Most extreme value, or group with the largest variance
+    statistic: number;
+    criticalValue: number;  // At the significance level of the screening
+    isOutlier: boolean;
+}
+
+// Suspect value located in the data: a series reading of a point, an SPC reading, or a whole point (Cochran)
+export interface OutlierFinding {
+    test: OutlierTest;
+    nominal: number;
+    series?: SeriesKey;
+    readingIndex?: number;
+    value: number;          // Suspect reading, or variance of the group for Cochran
+    statistic: number;
+    criticalValue: number;
+    significanceLevel?: number; // α of the screening (0.05 when absent)
+}
+
+export type OutlierAction = 'keep' | 'repeat';
+
+export interface OutlierDecision extends OutlierFinding {
+    action: OutlierAction;
+    justification: string;
+    date: string;
+}
+
 export interface RegressionValidation {
     correlation: ValidationStepResult;      // Parametric: Pearson t-test | Non-Parametric: Spearman
     normalityX: ValidationStepResult;       // Only Parametric
@@ -117,6 +178,21 @@ export interface RegressionValidation {
     independence: ValidationStepResult;     // Parametric: t-test on residuals
     normalityResiduals: ValidationStepResult; // Only Parametric
     mandelLinearity?: ValidationStepResult; // Only Linear Parametric
+    chiSquare?: ValidationStepResult;       // WLS / GLS: residuals against the certified uncertainties
+    significanceLevel: number;              // α of every step
+}
+
+// Interpolation uncertainty of a curve: of the fitted curve itself (confidence) or of a single
+// new observation about it (prediction, adds the residual scatter)
+export type PredictionBand = 'confidence' | 'prediction';
+
+// Fitted polynomial b0 + b1·z + … in z = (x − centre)/scale on the axes of the fit (ln|x| for power and
+// logarithmic, ln|y| for power and exponential), with the covariance of b
+export interface CenteredBasis {
+  centre: number;
+  scale: number;
+  coefficients: number[];
+  covariance: number[][];
 }
 
 export interface RegressionResult {
@@ -142,14 +218,54 @@ export interface RegressionResult {
   modelQuality: 'EXCELLENT' | 'GOOD' | 'POOR' | 'INVALID';
   recommendationText: string;
   isBestFit?: boolean;
+
+  fitMethod?: FitMethod;       // OLS when omitted
+  covariance?: number[][];     // Coefficient covariance: s²(XᵀX)⁻¹ for OLS, (XᵀV⁻¹X)⁻¹ for WLS / GLS
+  basis?: CenteredBasis;       // Models linear in their parameters: evaluated in z, not in powers of x
   
   // For Piecewise Mixed - Stores the result of sub-regressions
   subModels?: {
-      low: { type: CurveModel, coeffs: number[], limit: number };
-      high: { type: CurveModel, coeffs: number[], limit: number };
+      low: { type: CurveModel, coeffs: number[], limit: number, covariance?: number[][], basis?: CenteredBasis };
+      high: { type: CurveModel, coeffs: number[], limit: number, covariance?: number[][], basis?: CenteredBasis };
   };
 }
 
+// Pressure balance: masses in kg, areas in m², expanded uncertainties (k = 2)
+export interface PistonMass {
+  id: string;
+  label: string;
+  value: number;          // Mass (kg)
+  uncertainty: number;    // U(m), k = 2 (kg)
+  density: number;        // kg/m³, for air buoyancy
+  isPiston?: boolean;     // Piston + carrier, always loaded
+}
+
+export interface PressureBalanceConfig {
+  effectiveArea: number;              // A0 at zero pressure and reference temperature (m²)
+  effectiveAreaUncertainty: number;   // U(A0), k = 2 (m²)
+  distortionCoefficient: number;      // λ (1/Pa)
+  distortionUncertainty: number;      // U(λ), k = 2 (1/Pa)
+  pistonExpansion: number;            // α_p (1/°C)
+  cylinderExpansion: number;          // α_c (1/°C)
+  referenceTemperature: number;       // °C (usually 20)
+  temperatureUncertainty: number;     // Half-width of the piston thermometer (°C)
+  masses: PistonMass[];
+}
+
+// Gauge block certificate data (ISO 3650); each block is a StandardType.Dimensional standard
+export interface GaugeBlockConfig {
+  nominalLength: number;          // mm
+  deviation: number;              // Central length deviation from nominal at 20 °C (µm)
+  uncertainty: number;            // U(l), k = 2 (µm)
+  variation: number;              // Variation in length across the measuring faces (µm)
+  flatness: number;               // Flatness of the measuring faces (µm)
+  expansionCoefficient: number;   // α (1/°C)
+  grade: string;                  // K, 0, 1 or 2
+}
+
+// Reference of the measured pressure: atmosphere, vacuum or a second line
+export type PressureMode = 'gauge' | 'absolute' | 'differential';
+
 export interface ReferenceStandard {
   id: string;
   type: StandardType;
@@ -168,16 +284,48 @@ export interface ReferenceStandard {
   // Configuration for split models
   valueSubModels?: { low: CurveModel, high: CurveModel }; 
   valueRegression?: RegressionResult;
+  valueFitMethod?: FitMethod;                // OLS when omitted
+  pointCorrelations?: PointCorrelation[];    // GLS only; uncorrelated pairs are omitted
   
   uncertaintyModelType: CurveModel;
   uncertaintySubModels?: { low: CurveModel, high: CurveModel };
   uncertaintyRegression?: RegressionResult;
   
   calibrationPoints: StandardCalibrationPoint[];
+  pressureBalance?: PressureBalanceConfig;   // Only for StandardType.PressureBalance
+  gaugeBlock?: GaugeBlockConfig;             // Only for StandardType.Dimensional
+  pressureMode?: PressureMode;               // Pressure standards; gauge when omitted
   checkConfig?: StandardCheckConfig;
   intermediateChecks?: IntermediateCheck[]; 
 }
 
+// Manufacturer accuracy specification (maximum permissible error, MPE)
+export interface ToleranceSegment {
+  from: number;
+  to: number;
+  mpe: number;      // Absolute MPE in instrument units
+}
+
+export type ToleranceSpec =
+  | { kind: 'percent_full_scale'; percent: number }
+  | { kind: 'percent_span'; percent: number }
+  | { kind: 'percent_reading'; percent: number }
+  | { kind: 'percent_reading_digits'; percent: number; digits: number }
+  | { kind: 'en837_class'; accuracyClass: number }
+  | { kind: 'segments'; segments: ToleranceSegment[] };
+
+export type ToleranceKind = ToleranceSpec['kind'];
+
+// Pressure → output signal of a transmitter (4-20 mA, 0-10 V, ...)
+export type TransferFunction = 'linear' | 'square_root';
+
+export interface TransmitterConfig {
+  outputUnit: Unit;
+  outputMin: number;
+  outputMax: number;
+  transferFunction: TransferFunction;
+}
+
 export interface Instrument {
   manufacturer: string;
   model: string;
@@ -188,13 +336,58 @@ export interface Instrument {
   rangeMax: number;
   resolution: number;
   accuracyClass: number; 
+  tolerance?: ToleranceSpec;   // Defaults to accuracyClass % of full scale
   unit: Unit;
   type: 'analog' | 'digital' | 'transmitter' | 'other';
+  transmitter?: TransmitterConfig;   // Only for type 'transmitter'
   connectionType: string;
   sensorLocation: string;
   conditionReceived: string;
 }
 
+// DKD-R 6-1 measurement series: M1 = run1Up, M2 = run1Down, M3 = run2Up, M4 = run2Down
+export type SeriesKey = 'run1Up' | 'run1Down' | 'run2Up' | 'run2Down';
+
+export interface SequenceDefinition {
+  type: SequenceType;
+  label: string;
+  minAccuracyClass: number;   // Recommended when accuracyClass >= min
+  maxAccuracyClass: number;   // ... and accuracyClass < max
+  points: number;             // Measuring points including zero
+  preloads: number;           // Preloads to full scale before M1
+  series: SeriesKey[];        // Executed series in order (M1..M4)
+  preloadHoldSeconds: number; // Holding time at full scale on each preload
+  stepHoldSeconds: number;    // Waiting time after each load step before reading
+  topHoldSeconds: number;     // Holding time at full scale before descending
+}
+
+// Waiting times of a job (s), initialised from the sequence and editable by the technician
+export interface WaitTimes {
+  preload: number;
+  step: number;
+  top: number;
+}
+
+// Reading accepted only when the standard changed by less than maxChange (unit of the standard)
+// over the last `window` seconds; maxChange = 0 disables the check
+export interface StabilityCriterion {
+  window: number;
+  maxChange: number;
+}
+
+export interface StabilitySample {
+  time: string;
+  value: number;
+}
+
+export type EarlyReadingReason = 'wait' | 'unstable';
+
+export interface ReadingStamp {
+  time: string;                   // ISO time at which the reading was committed
+  waited?: number;                // s since the load step (previous reading or hold start)
+  early?: EarlyReadingReason[];   // Taken before the wait elapsed / without stability
+}
+
 export interface CalibrationPoint {
   nominal: number;
   standardReading: number; 
@@ -202,22 +395,124 @@ export interface CalibrationPoint {
   run1Down?: number;
   run2Up?: number;
   run2Down?: number;
+  loadedMassIds?: string[];   // Pressure balance: masses on the piston (piston excluded)
+  pistonTemp?: number;        // Pressure balance: piston temperature (°C)
+  barometerReading?: number;  // Absolute ↔ gauge conversion: barometer indication (its own unit)
+  readingStamps?: Partial<Record<SeriesKey, ReadingStamp>>;
+}
+
+export interface UncertaintyContribution {
+  symbol: string;
+  label: string;
+  value: number;          // Half-width a of the distribution (expanded U for Normal)
+  distribution: ProbabilityDistribution;
+  divisor: number;
+  standardUncertainty: number;
+}
+
+// GUM input quantity: u_i(y) = |c_i| · u(x_i)
+export interface BudgetComponent extends UncertaintyContribution {
+  estimate: number;
+  sensitivityCoefficient: number;
+  contribution: number;
+  degreesOfFreedom: number;   // Infinity for Type B with no doubt on u(x_i)
+  evaluationType: 'A' | 'B';
+}
+
+export interface UncertaintyBudget {
+  components: BudgetComponent[];
+  combinedStandardUncertainty: number;
+  effectiveDegreesOfFreedom: number;  // Welch-Satterthwaite
+  coverageFactor: number;
+  coverageProbability: number;
+  expandedUncertainty: number;
+}
+
+// GUM Supplement 1 (JCGM 101) propagation of distributions
+export interface MonteCarloResult {
+  trials: number;
+  mean: number;
+  standardUncertainty: number;
+  coverageProbability: number;
+  coverageInterval: [number, number];   // Probabilistically symmetric
+  validation: {
+    gumInterval: [number, number];
+    dLow: number;
+    dHigh: number;
+    tolerance: number;                  // δ from u_c reported with 2 significant digits
+    stable?: boolean;                   // Adaptive procedure converged (JCGM 101 §7.9); otherwise not conclusive
+    passed: boolean;
+  };
+}
+
+// Half-widths (rectangular) of the head correction inputs
+export interface HeadCorrectionUncertainty {
+  fluidDensity: number;     // kg/m³
+  gravity: number;          // m/s²
+  heightDifference: number; // cm
+}
+
+// ILAC-G8 decision rules for statements of conformity (ISO/IEC 17025 §7.8.6)
+export type DecisionRuleType = 'simple_acceptance' | 'guarded_acceptance' | 'non_binary_guarded';
+
+export interface DecisionRule {
+  type: DecisionRuleType;
+  guardBandFactor: number;   // w = factor · U (guarded and non-binary rules)
+}
+
+export type ConformityStatus = 'PASS' | 'CONDITIONAL_PASS' | 'CONDITIONAL_FAIL' | 'FAIL';
+
+export interface ConformityResult {
+  status: ConformityStatus;
+  tolerance: number;                 // Maximum permissible error T
+  guardBand: number;                 // w
+  acceptanceLimit: number;           // T − w
+  probabilityFalseAccept?: number;   // Accepted points: P(|true error| > T | measured error)
+  probabilityFalseReject?: number;   // Rejected points: P(|true error| ≤ T | measured error)
+}
+
+export interface CalculationOptions {
+  headUncertainty?: HeadCorrectionUncertainty;
+  decisionRule?: DecisionRule;
+  monteCarloTrials?: number;   // Monte Carlo evaluation runs only when set
+  electricalStandard?: ReferenceStandard;  // Required for transmitters: series readings are its indications
+  airDensity?: number;   // Ambient air density (kg/m³) for the buoyancy of pressure balance masses
+  airDensityUncertainty?: number;   // u(ρ_a) (kg/m³); 1 % half-width when omitted
+  fluid?: CalibrationFluid;          // With air, the column density is scaled by the absolute line pressure
+  ambientPressure?: number;          // Pa, pressure at which the fluid density was evaluated
+  pressureMode?: PressureMode;
+  barometerStandard?: ReferenceStandard;   // Required when the modes of session and standard differ (gauge ↔ absolute)
+}
+
+// Transmitter results in the output domain: error = measured output − ideal output
+export interface TransmitterResult {
+  outputUnit: Unit;
+  idealOutput: number;
+  meanOutput: number;
+  errorPercentSpan: number;
+  uncertaintyPercentSpan: number;
 }
 
 export interface CalibrationResult {
   nominal: number;
   trueValue: number;      
   meanError: number;
-  hysteresis: number;
-  repeatability: number;
-  expandedUncertainty: number;
+  hysteresis: number;     // Reversibility h
+  repeatability: number;  // Repeatability b'
+  zeroError: number;      // Zero deviation f0
+  expandedUncertainty: number;   // Errors/uncertainties in output units for transmitters
+  transmitter?: TransmitterResult;
   uncertaintyContributors: {
     ref: number; 
     model: number; 
     res: number; 
     rep: number; 
     hys: number;
+    zero: number;
   };
+  budget: UncertaintyBudget;
+  monteCarlo?: MonteCarloResult;
+  conformity: ConformityResult;
   compliance: boolean;
 }
 
@@ -227,32 +522,289 @@ export interface EnvReading {
   pressure: number;
 }
 
+export type EnvStage = 'start' | 'middle' | 'end';
+
+// Laboratory acceptance limits for the environmental conditions during a calibration
+export interface EnvLimits {
+  tempMin: number;            // °C
+  tempMax: number;            // °C
+  maxTempDrift: number;       // °C, max − min over the stages of the run
+  humidityMin: number;        // %RH
+  humidityMax: number;        // %RH
+  blockOnViolation: boolean;  // Block finishing the session (true) or only flag it
+}
+
+export type EnvViolationKind = 'temperature' | 'temperature_drift' | 'humidity';
+
+export interface EnvViolation {
+  kind: EnvViolationKind;
+  stage?: EnvStage;   // Not set for the drift, which spans the whole run
+  value: number;      // Corrected value (or drift) that exceeded the limit
+  limitMin?: number;
+  limitMax: number;
+}
+
+// Environmental standard used for each quantity (thermohygrometer, barometer)
+export interface EnvStandardSelection {
+  temp?: string;
+  humidity?: string;
+  pressure?: string;
+}
+
+// Environmental conditions corrected through the environmental standards
+export interface EnvConditions {
+  readings: Record<EnvStage, EnvReading>;
+  mean: EnvReading;
+  uncertainty: EnvReading;          // Expanded (k = 2) of the mean conditions
+  airDensity: number;               // CIPM-2007 at the mean conditions (kg/m³)
+  airDensityUncertainty: number;    // Standard uncertainty u(ρ_a) (kg/m³)
+}
+
 export interface CIPMParams {
   moleFractionCO2: number;
   latitude: number;
   heightAboveSea: number;
 }
 
+// Correction C = −E of the instrument fitted over its indication (instrument or output unit)
+export type CorrectionCurveModel = CurveModel | 'auto';
+
+export interface CorrectionTableRow {
+  indication: number;
+  correction: number;
+  uncertainty: number;   // U (k = 2): calibration + interpolation of the curve
+}
+
+export interface CorrectionCurve {
+  model: CurveModel;                 // Model actually fitted
+  selection: CorrectionCurveModel;   // As requested ('auto' = minimum AICc)
+  regression: RegressionResult;
+  step: number;
+  table: CorrectionTableRow[];
+}
+
+// Run recorded before adjusting the instrument ("as found"); the session points/results are the "as left" run
+export interface CalibrationRun {
+  date: string;
+  preloadsCompleted?: number;
+  points: CalibrationPoint[];
+  results: CalibrationResult[];
+}
+
+export interface AdjustmentRecord {
+  date: string;
+  technician: string;
+  description: string;
+}
+
+// --- Climate instruments (thermohygrometers) ---
+export type CalibrationProcedure = 'pressure' | 'thermohygrometer' | 'thermometer' | 'dimensional';
+
+// Chamber characterisation at a set point: spatial homogeneity as the largest deviation between the
+// reference position and the instrument positions, stability as the peak-to-peak variation while reading
+export interface ChamberCharacterization {
+  tempHomogeneity: number;       // °C
+  tempStability: number;         // °C
+  humidityHomogeneity: number;   // %RH
+  humidityStability: number;     // %RH
+}
+
+export interface ClimatePoint {
+  setTemp: number;               // °C
+  setHumidity: number;           // %RH
+  referenceTemp: number[];       // Raw indications of the standards
+  referenceHumidity: number[];
+  instrumentTemp: number[];
+  instrumentHumidity: number[];
+  chamber: ChamberCharacterization;
+}
+
+export interface ClimateChannelSpec {
+  rangeMin: number;
+  rangeMax: number;
+  resolution: number;
+  tolerance: number;             // ± MPE in channel units
+}
+
+export interface ClimateChannelResult {
+  reference: number;             // Corrected mean of the standard
+  indication: number;            // Mean of the instrument
+  error: number;
+  budget: UncertaintyBudget;
+  expandedUncertainty: number;
+  conformity: ConformityResult;
+}
+
+export interface ClimatePointResult {
+  setTemp: number;
+  setHumidity: number;
+  temperature: ClimateChannelResult;
+  humidity: ClimateChannelResult;
+  dewPoint: number;                    // Reference dew point (°C) and U (k = 2)
+  dewPointUncertainty: number;
+  dewPointError: number;               // Dew point from the instrument indications − reference
+  dewPointErrorUncertainty: number;
+  absoluteHumidity: number;            // g/m³ and U (k = 2)
+  absoluteHumidityUncertainty: number;
+}
+
+export interface ClimateCalibration {
+  temperatureStandardId: string;
+  humidityStandardId: string;          // Same standard for a reference thermohygrometer
+  temperature: ClimateChannelSpec;
+  humidity: ClimateChannelSpec;
+  readingsPerPoint: number;
+  points: ClimatePoint[];
+  results: ClimatePointResult[];
+}
+
+// --- Thermometers by comparison in a bath ---
+
+// Direct reading thermometers indicate °C; PRTs and thermocouples are read as resistance or EMF
+export type ThermometerKind = 'direct' | 'prt' | 'thermocouple';
+
+// Bath characterisation at a set point: axial/radial uniformity as the largest deviation from the
+// standard position (±, °C) and stability as the peak-to-peak drift during the readings (°C)
+export interface BathCharacterization {
+  uniformity: number;
+  stability: number;
+  immersion: number;      // Change of the indication when raising the instrument 20 mm (°C)
+}
+
+export interface ThermometerPoint {
+  setTemp: number;
+  reference: number[];    // Standard readings (°C)
+  indication: number[];   // Instrument readings (°C, Ω or mV)
+  bath: BathCharacterization;
+}
+
+export interface ThermometerPointResult {
+  setTemp: number;
+  reference: number;            // Temperature of the bath at the sensor (°C)
+  indication: number;           // Mean indication (instrument unit)
+  sensitivity: number;          // dt/dx used to carry the instrument contributions to °C
+  error?: number;               // Direct reading only: indication − reference (°C)
+  budget: UncertaintyBudget;    // Of the temperature assigned to the indication (°C)
+  expandedUncertainty: number;
+  conformity?: ConformityResult;
+}
+
+// Printed table: indication at each temperature of the step, correction for direct reading
+export interface ThermometerTableRow {
+  temperature: number;
+  indication: number;
+  correction?: number;
+  uncertainty: number;          // U (k = 2), °C
+}
+
+export interface ThermometerCurve {
+  model: CurveModel;
+  selection: CorrectionCurveModel;
+  regression: RegressionResult;  // Temperature as a function of the indication
+  step: number;                  // °C
+  table: ThermometerTableRow[];
+}
+
+export interface ThermometerCalibration {
+  standardId: string;
+  kind: ThermometerKind;
+  indicationUnit: Unit;
+  tolerance?: number;            // ±°C, direct reading only
+  readingsPerPoint: number;
+  immersionDepth: number;        // mm
+  medium: string;                // Bath fluid or dry block
+  measuringCurrent?: number;     // PRT: mA
+  selfHeating?: number;          // PRT: shift observed at √2 · current (°C), reported only
+  points: ThermometerPoint[];
+  results: ThermometerPointResult[];
+  curve?: ThermometerCurve;
+}
+
+// --- Dimensional instruments against gauge blocks ---
+
+// Dial indicators are zeroed on the stack of the first point and read the displacement from it
+export type DimensionalKind = 'caliper' | 'micrometer' | 'dial_indicator';
+
+export interface DimensionalPoint {
+  nominal: number;          // mm
+  blockIds: string[];       // Wrung combination of gauge blocks
+  readings: number[];       // mm
+  blockTemp: number;        // °C
+  instrumentTemp: number;   // °C
+}
+
+// Flatness / parallelism of the measuring faces, checked with an optical flat or parallel (µm)
+export interface FaceCheck {
+  label: string;
+  measured: number;
+  limit: number;
+}
+
+export interface DimensionalPointResult {
+  nominal: number;
+  reference: number;            // Length (or displacement) of the stack at 20 °C (mm)
+  indication: number;           // Mean reading (mm)
+  thermalCorrection: number;    // L·(α_i·Δt_i − α_s·Δt_s), brings the reading to 20 °C (mm)
+  error: number;                // indication + thermal correction − reference (mm)
+  budget: UncertaintyBudget;
+  expandedUncertainty: number;
+  conformity?: ConformityResult;
+}
+
+export interface DimensionalCalibration {
+  kind: DimensionalKind;
+  tolerance?: number;               // EMP (± mm)
+  readingsPerPoint: number;
+  expansionCoefficient: number;     // α of the instrument (1/°C)
+  expansionUncertainty: number;     // Half-width on each α (1/°C)
+  temperatureDifference: number;    // Half-width of the block − instrument temperature difference (°C)
+  faceChecks: FaceCheck[];
+  points: DimensionalPoint[];
+  results: DimensionalPointResult[];
+}
+
 export interface CalibrationSession {
   id: string;
   date: string;
   technician: string;
   standardId: string;
-  envStandardId?: string;
-  sequence: SequenceType;
+  envStandardId?: string;       // Legacy single environmental standard
+  envStandards?: EnvStandardSelection;
+  electricalStandardId?: string;
+  barometerStandardId?: string;
+  pressureMode?: PressureMode;   // Gauge when omitted
+  linePressure?: number;         // Differential mode: static line pressure (instrument unit)
+  sequence?: SequenceType;       // Pressure procedure only (also fluid, density and height)
+  preloadsCompleted?: number;
+  waitTimes?: WaitTimes;
+  stabilityCriterion?: StabilityCriterion;
   instrument: Instrument;
   envReadings: {
     start: EnvReading;
     middle: EnvReading;
     end: EnvReading;
   };
-  fluid: CalibrationFluid;
-  fluidDensity: number;
+  envConditions?: EnvConditions;
+  envLimits?: EnvLimits;          // Limits in force when the session was finished
+  envViolations?: EnvViolation[];
+  fluid?: CalibrationFluid;
+  fluidDensity?: number;
   cipmParams?: CIPMParams;
-  heightDifference: number;
+  heightDifference?: number;
   gravityLocal?: number; 
+  headUncertainty?: HeadCorrectionUncertainty;
+  monteCarloTrials?: number;
+  decisionRule?: DecisionRule;
   points: CalibrationPoint[];
   results?: CalibrationResult[];
+  asFound?: CalibrationRun;         // Only when the instrument was adjusted during the job
+  correctionCurve?: CorrectionCurve;
+  adjustment?: AdjustmentRecord;
+  outlierDecisions?: OutlierDecision[];
+  procedure?: CalibrationProcedure;     // Pressure when omitted
+  climate?: ClimateCalibration;         // Only for the thermohygrometer procedure
+  thermometer?: ThermometerCalibration; // Only for the thermometer procedure
+  dimensional?: DimensionalCalibration; // Only for the dimensional procedure
 }
 
 export interface LaboratoryProfile {
@@ -262,5 +814,7 @@ export interface LaboratoryProfile {
     contactInfo: string;
     accreditationInfo?: string;
     logo?: string;
+    envLimits?: EnvLimits;
+    significanceLevel?: number;   // α of the statistical tests; 0.05 when omitted
     isCustomized: boolean;
 }
\ No newline at end of file